@@ -0,0 +1,15 @@
+/** @type {import('ts-jest').JestConfigWithTsJest} */
+module.exports = {
+  preset: 'ts-jest',
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  moduleNameMapper: {
+    '^@/(.*)$': '<rootDir>/src/$1',
+  },
+  transform: {
+    // Only report type errors in the tests themselves. Sources the tests import, such as
+    // utils/prisma.ts, still carry type errors of their own that would fail every suite;
+    // `tsc` (npm run build) remains the type-check gate for them.
+    '^.+\\.ts$': ['ts-jest', { diagnostics: { exclude: ['!**/*.test.ts'] } }],
+  },
+};
@@ -0,0 +1,212 @@
+import { performance } from 'perf_hooks';
+import { prepareTranscriptions } from '@/utils/dataQuality';
+import { SpeakerIdentityMap } from '@/utils/speakerIdentity';
+import { resolveRoundWindows, roundAt } from '@/utils/rounds';
+import { groupConversations, measureConversation, rollupSpeakingTime } from '@/utils/speakingTime';
+import { emptyInterruptionTally, forEachInterruption, interruptionConfig } from '@/utils/interruptions';
+import { analyzeConversationPauses } from '@/utils/pauses';
+import { analyzeConversationSentiment } from '@/utils/sentiment';
+import { getLanguagePack } from '@/utils/languagePacks';
+import { AttributedSegment, SessionRound, SpeakerSegment, SpeakingTimeAnalysis, WorldCafeTranscription } from '@/types';
+import { envNumber } from '@/utils/numbers';
+
+/**
+ * Times the in-memory part of speaking-time, interruption, pause and sentiment analysis on a
+ * synthetic conference, without a database:
+ *
+ *   npm run benchmark:analysis
+ *
+ * Defaults to 100 tables of 6 speakers talking for 3 hours in 4 rounds. Exits
+ * with an error when the run takes longer than BENCHMARK_BUDGET_MS.
+ */
+
+export interface BenchmarkConfig {
+  tables: number;
+  speakersPerTable: number;
+  hours: number;
+  rounds: number;
+  budgetMs: number;
+  seed: number;
+}
+
+export function benchmarkConfigFromEnv(): BenchmarkConfig {
+  return {
+    tables: envNumber('BENCHMARK_TABLES', 100),
+    speakersPerTable: envNumber('BENCHMARK_SPEAKERS_PER_TABLE', 6),
+    hours: envNumber('BENCHMARK_HOURS', 3),
+    rounds: envNumber('BENCHMARK_ROUNDS', 4),
+    budgetMs: envNumber('BENCHMARK_BUDGET_MS', 5000),
+    seed: envNumber('BENCHMARK_SEED', 42),
+  };
+}
+
+const BACKCHANNELS = ['mm-hmm', 'yeah', 'right', 'okay'];
+const WORDS = ['we', 'could', 'try', 'the', 'community', 'garden', 'idea', 'but', 'funding', 'is', 'hard', 'maybe', 'volunteers', 'and', 'schools', 'together'];
+
+// Small seeded generator, so every run measures the same session
+function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * A session's worth of transcripts: turns of 2-30 seconds with some overlapping
+ * the previous turn, listeners' backchannels during some turns, mostly confident
+ * transcription and a few doubtful stretches
+ */
+export function syntheticSession(config: BenchmarkConfig): { transcriptions: WorldCafeTranscription[]; rounds: SessionRound[] } {
+  const random = mulberry32(config.seed);
+  const duration = config.hours * 3600;
+
+  const transcriptions: WorldCafeTranscription[] = [];
+  for (let tableId = 1; tableId <= config.tables; tableId++) {
+    const segments: SpeakerSegment[] = [];
+    let cursor = 0;
+    while (cursor < duration) {
+      const length = 2 + random() * 28;
+      const start = random() < 0.1 ? Math.max(0, cursor - random() * 2) : cursor + random() * 1.5;
+      const wordCount = Math.max(1, Math.round(length * (1.5 + random())));
+      const speaker = Math.floor(random() * config.speakersPerTable);
+      segments.push({
+        speaker,
+        transcript: Array.from({ length: wordCount }, () => WORDS[Math.floor(random() * WORDS.length)]).join(' '),
+        start,
+        end: start + length,
+        confidence: random() < 0.05 ? 0.3 + random() * 0.3 : 0.8 + random() * 0.2,
+      });
+      if (random() < 0.15 && length > 4) {
+        const at = start + 1 + random() * (length - 3);
+        segments.push({
+          speaker: (speaker + 1) % config.speakersPerTable,
+          transcript: BACKCHANNELS[Math.floor(random() * BACKCHANNELS.length)],
+          start: at,
+          end: at + 0.6,
+          confidence: 0.7,
+        });
+      }
+      cursor = start + length;
+    }
+
+    transcriptions.push({
+      id: `benchmark-${tableId}`,
+      session_id: 'benchmark',
+      table_id: tableId,
+      transcript_text: '',
+      confidence_score: 0.9,
+      speaker_segments: segments,
+      word_count: 0,
+      duration_seconds: duration,
+      language: 'en',
+      created_at: new Date(0).toISOString(),
+    });
+  }
+
+  const roundLength = duration / config.rounds;
+  const rounds: SessionRound[] = Array.from({ length: config.rounds }, (_, i) => ({
+    roundNumber: i + 1,
+    kind: 'conversation',
+    startSeconds: i * roundLength,
+    endSeconds: (i + 1) * roundLength,
+  }));
+
+  return { transcriptions, rounds };
+}
+
+/**
+ * Run each stage on the session and return how long each one took
+ */
+export function runBenchmark(transcriptions: WorldCafeTranscription[], rounds: SessionRound[]) {
+  const timings: Record<string, number> = {};
+  const time = <T>(stage: string, run: () => T): T => {
+    const started = performance.now();
+    const result = run();
+    timings[stage] = Math.round(performance.now() - started);
+    return result;
+  };
+
+  const prepared = time('dataQuality', () => prepareTranscriptions(transcriptions, { tableCount: transcriptions.length }));
+
+  const identities = new SpeakerIdentityMap();
+  const roundWindows = resolveRoundWindows(rounds);
+  const conversations = time('grouping', () => {
+    const segments: AttributedSegment[] = [];
+    for (const transcription of prepared.transcriptions) {
+      for (const segment of transcription.speaker_segments) {
+        segments.push({
+          ...segment,
+          tableId: transcription.table_id,
+          roundNumber: roundAt(roundWindows, segment.start)?.roundNumber,
+          identity: identities.resolve(transcription.table_id, segment.speaker),
+        });
+      }
+    }
+    return groupConversations(segments);
+  });
+
+  const results = time('speakingTime', () => {
+    const analyses: SpeakingTimeAnalysis[] = [];
+    for (const segments of conversations.values()) {
+      analyses.push(...measureConversation(segments, true));
+    }
+    return analyses;
+  });
+
+  const interruptions = time('interruptionScan', () => {
+    const config = interruptionConfig();
+    const counts = Object.fromEntries(Object.keys(emptyInterruptionTally()).map(kind => [kind, 0]));
+    for (const segments of conversations.values()) {
+      forEachInterruption(segments, config, event => counts[event.kind]++);
+    }
+    return counts;
+  });
+
+  const longSilences = time('pauses', () => {
+    const pack = getLanguagePack('en');
+    let count = 0;
+    for (const segments of conversations.values()) {
+      count += analyzeConversationPauses(segments, () => pack).table.longSilences.length;
+    }
+    return count;
+  });
+
+  const scoredSegments = time('sentiment', () => {
+    const pack = getLanguagePack('en');
+    let count = 0;
+    for (const segments of conversations.values()) {
+      count += analyzeConversationSentiment(segments, () => pack).table.segments.length;
+    }
+    return count;
+  });
+
+  const rollup = time('rollup', () => rollupSpeakingTime(results));
+
+  return {
+    timings,
+    totalMs: Object.values(timings).reduce((sum, ms) => sum + ms, 0),
+    segments: transcriptions.reduce((sum, t) => sum + t.speaker_segments.length, 0),
+    conversations: conversations.size,
+    speakerResults: results.length,
+    rollupEntries: rollup.length,
+    interruptions,
+    longSilences,
+    scoredSegments,
+  };
+}
+
+if (require.main === module) {
+  const config = benchmarkConfigFromEnv();
+  const { transcriptions, rounds } = syntheticSession(config);
+  const report = runBenchmark(transcriptions, rounds);
+
+  console.log(JSON.stringify({ config, ...report }, null, 2));
+  if (report.totalMs > config.budgetMs) {
+    console.error(`Analysis took ${report.totalMs}ms, over the ${config.budgetMs}ms budget`);
+    process.exit(1);
+  }
+}
@@ -0,0 +1,139 @@
+import express, { NextFunction, Request, Response } from 'express';
+import * as path from 'path';
+import { logger } from '@/utils/logger';
+import { FixtureTranscriptSource } from '@/services/transcriptSources';
+import { envNumber } from '@/utils/numbers';
+
+/**
+ * Local stand-in for the World Café API, serving sessions from fixture files.
+ * Point WORLD_CAFE_API_URL at it to run the real WorldCafeService code path
+ * without a World Café instance:
+ *
+ *   npm run world-cafe:stand-in
+ *
+ * Fixtures use the FixtureTranscriptSource format: one <session id>.json per
+ * session holding { session, transcriptions, participants }.
+ */
+
+export interface StandInConfig {
+  fixturesDir: string;
+  // Added to every response, plus up to latencyJitterMs of random delay
+  latencyMs: number;
+  latencyJitterMs: number;
+  // Probability (0-1) that any request fails with a 503
+  errorRate: number;
+  // Tables whose transcription endpoint always returns 500
+  failTables: number[];
+}
+
+export function standInConfigFromEnv(): StandInConfig {
+  return {
+    fixturesDir: process.env.WORLD_CAFE_STAND_IN_FIXTURES || path.resolve(process.cwd(), 'fixtures', 'world-cafe'),
+    latencyMs: envNumber('WORLD_CAFE_STAND_IN_LATENCY_MS', 0),
+    latencyJitterMs: envNumber('WORLD_CAFE_STAND_IN_JITTER_MS', 0),
+    errorRate: envNumber('WORLD_CAFE_STAND_IN_ERROR_RATE', 0),
+    failTables: (process.env.WORLD_CAFE_STAND_IN_FAIL_TABLES || '')
+      .split(',')
+      .map(value => parseInt(value.trim(), 10))
+      .filter(value => !isNaN(value)),
+  };
+}
+
+/**
+ * Build the stand-in app. The returned config object is live, so tests can
+ * change latency and error injection between requests (or via POST /__stand-in/config).
+ */
+export function createWorldCafeStandIn(overrides: Partial<StandInConfig> = {}) {
+  const config: StandInConfig = { ...standInConfigFromEnv(), ...overrides };
+  const fixtures = new FixtureTranscriptSource(config.fixturesDir);
+  const app = express();
+
+  app.use(express.json());
+
+  // Runtime control for integration tests; not part of the World Café API
+  app.get('/__stand-in/config', (req, res) => {
+    res.json(config);
+  });
+
+  app.post('/__stand-in/config', (req, res) => {
+    const { latencyMs, latencyJitterMs, errorRate, failTables } = req.body || {};
+    if (typeof latencyMs === 'number') config.latencyMs = latencyMs;
+    if (typeof latencyJitterMs === 'number') config.latencyJitterMs = latencyJitterMs;
+    if (typeof errorRate === 'number') config.errorRate = errorRate;
+    if (Array.isArray(failTables)) config.failTables = failTables.map(Number).filter(n => !isNaN(n));
+    logger.info(`World Café stand-in config updated: ${JSON.stringify(config)}`);
+    res.json(config);
+  });
+
+  // Latency and random failures apply to every World Café endpoint
+  app.use(async (req: Request, res: Response, next: NextFunction) => {
+    const delay = config.latencyMs + Math.random() * config.latencyJitterMs;
+    if (delay > 0) {
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+
+    if (config.errorRate > 0 && Math.random() < config.errorRate) {
+      return res.status(503).json({ error: 'Injected failure' });
+    }
+    return next();
+  });
+
+  app.get('/', (req, res) => {
+    res.json({ name: 'World Café API stand-in', fixturesDir: config.fixturesDir });
+  });
+
+  app.get('/api/sessions', handle(async (req, res) => {
+    res.json(await fixtures.listSessions());
+  }));
+
+  app.get('/api/sessions/:sessionId', handle(async (req, res) => {
+    const session = await fixtures.getSession(req.params.sessionId);
+    if (!session) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+    return res.json(session);
+  }));
+
+  app.get('/api/sessions/:sessionId/tables/:tableId/transcriptions', handle(async (req, res) => {
+    const { sessionId } = req.params;
+    const tableId = parseInt(req.params.tableId, 10);
+
+    if (config.failTables.includes(tableId)) {
+      return res.status(500).json({ error: `Injected failure for table ${tableId}` });
+    }
+    if (!(await fixtures.hasSession(sessionId))) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    return res.json(await fixtures.getTranscriptions(sessionId, tableId));
+  }));
+
+  app.get('/api/sessions/:sessionId/participants', handle(async (req, res) => {
+    const { sessionId } = req.params;
+    if (!(await fixtures.hasSession(sessionId))) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+    return res.json(await fixtures.getParticipants(sessionId));
+  }));
+
+  app.use((req, res) => {
+    res.status(404).json({ error: 'Endpoint not found', path: req.originalUrl });
+  });
+
+  return { app, config };
+}
+
+function handle(fn: (req: Request, res: Response) => Promise<unknown>) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    fn(req, res).catch(next);
+  };
+}
+
+if (require.main === module) {
+  const port = parseInt(process.env.WORLD_CAFE_STAND_IN_PORT || '3005', 10);
+  const { app, config } = createWorldCafeStandIn();
+
+  app.listen(port, () => {
+    logger.info(`World Café stand-in listening on port ${port}, serving fixtures from ${config.fixturesDir}`);
+  });
+}
@@ -4,6 +4,7 @@ import helmet from 'helmet';
 import morgan from 'morgan';
 import dotenv from 'dotenv';
 import { errorHandler } from '@/middleware/errorHandler';
+import { webhookBodyParser } from '@/middleware/webhookSignature';
 import { logger } from '@/utils/logger';
 import { jobQueue } from '@/services/jobQueue';
 
@@ -15,6 +16,9 @@ import reportRoutes from '@/routes/reports';
 import jobRoutes from '@/routes/jobs';
 import chatRoutes from '@/routes/chat';
 import healthRoutes from '@/routes/health';
+import webhookRoutes from '@/routes/webhooks';
+import importRoutes from '@/routes/imports';
+import privacyRoutes from '@/routes/privacy';
 import { aiAnalysisRouter } from '@/routes/ai-analysis';
 
 // Load environment variables
@@ -46,7 +50,7 @@ app.use(cors({
   ],
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'x-session-id'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'x-session-id', 'x-pii-access-token'],
 }));
 
 // Logging middleware
@@ -54,6 +58,9 @@ if (process.env.NODE_ENV !== 'test') {
   app.use(morgan('combined', { stream: { write: (message) => logger.info(message.trim()) } }));
 }
 
+// Webhooks parse their own bodies, keeping the raw bytes for signature checks
+app.use('/api/webhooks', webhookBodyParser);
+
 // Body parsing middleware
 app.use(express.json({ limit: '50mb' }));
 app.use(express.urlencoded({ extended: true, limit: '50mb' }));
@@ -67,6 +74,9 @@ app.use('/api/reports', reportRoutes);
 app.use('/api/jobs', jobRoutes);
 app.use('/api/chat', chatRoutes);
 app.use('/api/ai-analysis', aiAnalysisRouter);
+app.use('/api/webhooks', webhookRoutes);
+app.use('/api/imports', importRoutes);
+app.use('/api/privacy', privacyRoutes);
 
 // Root endpoint
 app.get('/', (req, res) => {
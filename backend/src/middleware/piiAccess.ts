@@ -0,0 +1,31 @@
+import { Request, Response, NextFunction } from 'express';
+import { createHash, timingSafeEqual } from 'crypto';
+import { logger } from '@/utils/logger';
+import { CustomError } from './errorHandler';
+
+/**
+ * Only let through callers authorised to see the personal data behind redaction
+ * placeholders. They present PII_ACCESS_TOKEN in the x-pii-access-token header.
+ */
+export const requirePiiAccess = (req: Request, res: Response, next: NextFunction) => {
+  const token = process.env.PII_ACCESS_TOKEN;
+  if (!token) {
+    logger.error('Rejected request for redacted personal data: PII_ACCESS_TOKEN is not configured');
+    return next(new CustomError('Access to redacted personal data is not configured', 503));
+  }
+
+  const presented = req.get('x-pii-access-token');
+  if (!presented) {
+    return next(new CustomError('Missing PII access token', 401));
+  }
+
+  // Compare digests so tokens of different lengths take the same time
+  const expected = createHash('sha256').update(token).digest();
+  const received = createHash('sha256').update(presented).digest();
+  if (!timingSafeEqual(expected, received)) {
+    logger.warn(`Rejected request for redacted personal data with invalid token from ${req.ip}`);
+    return next(new CustomError('Invalid PII access token', 401));
+  }
+
+  next();
+};
@@ -0,0 +1,70 @@
+import express, { Request, Response, NextFunction } from 'express';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { logger } from '@/utils/logger';
+import { CustomError } from './errorHandler';
+
+// Reject deliveries signed more than five minutes ago to limit replays
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+// Webhook events are small; anything bigger is not from World Café
+const WEBHOOK_BODY_LIMIT = '1mb';
+
+export interface RawBodyRequest extends Request {
+  rawBody?: Buffer;
+}
+
+/**
+ * JSON body parser for webhook routes only, keeping the raw bytes the signature
+ * is computed over. Mount it ahead of the app-wide JSON parser, which then leaves
+ * the parsed body alone.
+ */
+export const webhookBodyParser = express.json({
+  limit: WEBHOOK_BODY_LIMIT,
+  verify: (req, res, buf) => {
+    (req as RawBodyRequest).rawBody = buf;
+  },
+});
+
+/**
+ * Verify the HMAC-SHA256 signature World Café attaches to webhook deliveries.
+ *
+ * Expected headers:
+ *   x-world-cafe-timestamp: unix seconds when the delivery was signed
+ *   x-world-cafe-signature: sha256=<hex HMAC of "<timestamp>.<raw body>">
+ */
+export const verifyWorldCafeSignature = (req: Request, res: Response, next: NextFunction) => {
+  const secret = process.env.WORLD_CAFE_WEBHOOK_SECRET;
+  if (!secret) {
+    logger.error('Rejected World Café webhook: WORLD_CAFE_WEBHOOK_SECRET is not configured');
+    return next(new CustomError('Webhook receiver not configured', 503));
+  }
+
+  const signatureHeader = req.get('x-world-cafe-signature');
+  const timestampHeader = req.get('x-world-cafe-timestamp');
+  const rawBody = (req as RawBodyRequest).rawBody;
+
+  if (!signatureHeader || !timestampHeader || !rawBody) {
+    return next(new CustomError('Missing webhook signature', 401));
+  }
+
+  const timestamp = parseInt(timestampHeader, 10);
+  const ageSeconds = Math.abs(Date.now() / 1000 - timestamp);
+  if (isNaN(timestamp) || ageSeconds > SIGNATURE_TOLERANCE_SECONDS) {
+    return next(new CustomError('Webhook signature expired', 401));
+  }
+
+  const expected = createHmac('sha256', secret)
+    .update(`${timestamp}.`)
+    .update(rawBody)
+    .digest('hex');
+  const received = signatureHeader.replace(/^sha256=/, '');
+
+  const expectedBuffer = Buffer.from(expected, 'hex');
+  const receivedBuffer = Buffer.from(received, 'hex');
+  if (expectedBuffer.length !== receivedBuffer.length || !timingSafeEqual(expectedBuffer, receivedBuffer)) {
+    logger.warn(`Rejected World Café webhook with invalid signature from ${req.ip}`);
+    return next(new CustomError('Invalid webhook signature', 401));
+  }
+
+  next();
+};
@@ -3,7 +3,14 @@ import { asyncHandler, CustomError } from '@/middleware/errorHandler';
 import { logger } from '@/utils/logger';
 import { AnalysisEngine } from '@/services/analysisEngine';
 import { ReportGenerator } from '@/services/reportGenerator';
-import { ApiResponse } from '@/types';
+import { crossPollinationAnalyzer } from '@/services/crossPollinationAnalyzer';
+import { polarizationAnalyzer } from '@/services/polarizationAnalyzer';
+import { conversationFlowAnalyzer } from '@/services/conversationFlowAnalyzer';
+import { outcomePredictor } from '@/services/outcomePredictor';
+import { dataQualityAnalyzer } from '@/services/dataQualityAnalyzer';
+import { BAD_SEGMENT_HANDLINGS } from '@/utils/dataQuality';
+import { OUTCOME_CATEGORIES } from '@/utils/outcomePrediction';
+import { ApiResponse, BadSegmentHandling, OutcomeCategory } from '@/types';
 
 const router = express.Router();
 const analysisEngine = new AnalysisEngine();
@@ -18,8 +25,15 @@ router.get('/', asyncHandler(async (req, res) => {
       version: '1.0.0',
       endpoints: [
         'GET /dashboard/metrics - Get dashboard metrics',
-        'GET /sessions/:sessionId/speaking-time - Get speaking time analysis',
-        'GET /sessions/:sessionId/bias-detection - Get bias detection results',
+        'GET /sessions/:sessionId/speaking-time?badSegments=&confidenceWeighting= - Get speaking time analysis',
+        'GET /sessions/:sessionId/bias-detection?badSegments=&confidenceWeighting= - Get bias detection results',
+        'GET /sessions/:sessionId/data-quality - Check transcripts for anomalies without running analysis',
+        'GET /sessions/:sessionId/cross-pollination - Get idea travel between tables and participant mixing',
+        'GET /sessions/:sessionId/polarization - Measure polarization per table over time',
+        'GET /sessions/:sessionId/conversation-flow - Get topics, flow and turning points per table from the latest analysis',
+        'GET /sessions/:sessionId/predictions - Get outcome predictions made by each analysis',
+        'POST /sessions/:sessionId/predictions/outcome - Record the actual outcome and score the latest predictions',
+        'GET /predictions/accuracy - Get outcome prediction accuracy per model version',
         'POST /sessions/:sessionId/complete - Run complete analysis'
       ]
     },
@@ -55,18 +69,29 @@ router.get('/dashboard/metrics', asyncHandler(async (req, res) => {
 // Get speaking time analysis for a session
 router.get('/sessions/:sessionId/speaking-time', asyncHandler(async (req, res) => {
   const { sessionId } = req.params;
+  const badSegments = parseBadSegmentHandling(req.query.badSegments);
+  const confidenceWeighting = parseConfidenceWeighting(req.query.confidenceWeighting);
   
   logger.info(`Fetching speaking time analysis for session ${sessionId}`);
 
   try {
-    const result = await analysisEngine.analyzeSession(sessionId);
+    const result = await analysisEngine.analyzeSession(sessionId, { badSegments, confidenceWeighting });
     
     const response: ApiResponse<any> = {
       success: true,
       data: {
         sessionId,
         speakingTimeAnalysis: result.speakingTimeAnalysis,
+        speakingTimeRollup: result.speakingTimeRollup,
+        pauseAnalysis: result.pauseAnalysis,
+        sentimentJourney: result.sentimentJourney,
+        participationEquity: result.participationEquity,
         biasDetections: result.biasDetections,
+        crossPollination: result.crossPollination,
+        polarization: result.polarization,
+        conversationFlow: result.conversationFlow,
+        prediction: result.prediction,
+        dataQuality: result.dataQuality,
         processingTime: result.processingTime,
         analyzedAt: new Date().toISOString(),
       },
@@ -86,11 +111,13 @@ router.get('/sessions/:sessionId/speaking-time', asyncHandler(async (req, res) =
 // Get bias detection for a session
 router.get('/sessions/:sessionId/bias-detection', asyncHandler(async (req, res) => {
   const { sessionId } = req.params;
+  const badSegments = parseBadSegmentHandling(req.query.badSegments);
+  const confidenceWeighting = parseConfidenceWeighting(req.query.confidenceWeighting);
   
   logger.info(`Fetching bias detection for session ${sessionId}`);
 
   try {
-    const result = await analysisEngine.analyzeSession(sessionId);
+    const result = await analysisEngine.analyzeSession(sessionId, { badSegments, confidenceWeighting });
     
     const response: ApiResponse<any> = {
       success: true,
@@ -103,6 +130,7 @@ router.get('/sessions/:sessionId/bias-detection', asyncHandler(async (req, res)
           mostCommonBiasType: getMostCommonBiasType(result.biasDetections),
           averageConfidence: calculateAverageConfidence(result.biasDetections)
         },
+        dataQuality: result.dataQuality,
         processingTime: result.processingTime,
         analyzedAt: new Date().toISOString(),
       },
@@ -119,66 +147,146 @@ router.get('/sessions/:sessionId/bias-detection', asyncHandler(async (req, res)
   }
 }));
 
-// Get polarization metrics for a session
+// Get cross-pollination (ideas travelling between tables, and who met whom) for a session
+router.get('/sessions/:sessionId/cross-pollination', asyncHandler(async (req, res) => {
+  const { sessionId } = req.params;
+
+  logger.info(`Fetching cross-pollination for session ${sessionId}`);
+
+  const crossPollination = await crossPollinationAnalyzer.analyzeSession(sessionId);
+
+  const response: ApiResponse<any> = {
+    success: true,
+    data: {
+      sessionId,
+      ...crossPollination,
+      analyzedAt: new Date().toISOString(),
+    },
+    timestamp: new Date().toISOString(),
+  };
+
+  res.json(response);
+}));
+
+// Check a session's transcripts for anomalies, without running analysis
+router.get('/sessions/:sessionId/data-quality', asyncHandler(async (req, res) => {
+  const { sessionId } = req.params;
+
+  logger.info(`Assessing data quality for session ${sessionId}`);
+
+  const dataQuality = await dataQualityAnalyzer.analyzeSession(sessionId);
+
+  const response: ApiResponse<any> = {
+    success: true,
+    data: {
+      sessionId,
+      ...dataQuality,
+      assessedAt: new Date().toISOString(),
+    },
+    timestamp: new Date().toISOString(),
+  };
+
+  res.json(response);
+}));
+
+// Measure polarization at every table over time, and store the measurements
 router.get('/sessions/:sessionId/polarization', asyncHandler(async (req, res) => {
   const { sessionId } = req.params;
   
   logger.info(`Fetching polarization metrics for session ${sessionId}`);
 
-  // TODO: Implement polarization analysis
-  const analysis = {
-    sessionId,
-    message: 'Polarization analysis not yet implemented',
-    estimatedImplementation: 'Phase 3 - Week 5',
-  };
+  const polarization = await polarizationAnalyzer.analyzeSession(sessionId);
 
   const response: ApiResponse<any> = {
     success: true,
-    data: analysis,
+    data: {
+      sessionId,
+      ...polarization,
+      analyzedAt: new Date().toISOString(),
+    },
     timestamp: new Date().toISOString(),
   };
 
   res.json(response);
 }));
 
-// Get conversation flow analysis for a session
+// Get each table's topics, flow and turning points, as stored by the latest analysis
 router.get('/sessions/:sessionId/conversation-flow', asyncHandler(async (req, res) => {
   const { sessionId } = req.params;
   
   logger.info(`Fetching conversation flow for session ${sessionId}`);
 
-  // TODO: Implement conversation flow analysis
-  const analysis = {
-    sessionId,
-    message: 'Conversation flow analysis not yet implemented',
-    estimatedImplementation: 'Phase 3 - Week 6',
-  };
+  const tables = await conversationFlowAnalyzer.getConversationFlow(sessionId);
 
   const response: ApiResponse<any> = {
     success: true,
-    data: analysis,
+    data: {
+      sessionId,
+      tables,
+    },
     timestamp: new Date().toISOString(),
   };
 
   res.json(response);
 }));
 
-// Get predictive insights for a session
+// Get a session's outcome predictions, newest first, as made by each analysis
 router.get('/sessions/:sessionId/predictions', asyncHandler(async (req, res) => {
   const { sessionId } = req.params;
   
   logger.info(`Fetching predictions for session ${sessionId}`);
 
-  // TODO: Implement predictive analytics
-  const predictions = {
-    sessionId,
-    message: 'Predictive analytics not yet implemented',
-    estimatedImplementation: 'Phase 3 - Week 6',
+  const predictions = await outcomePredictor.getPredictions(sessionId);
+
+  const response: ApiResponse<any> = {
+    success: true,
+    data: {
+      sessionId,
+      latest: predictions[0] ?? null,
+      predictions,
+    },
+    timestamp: new Date().toISOString(),
+  };
+
+  res.json(response);
+}));
+
+// Record how a session actually turned out, scoring the latest predictions made for it
+router.post('/sessions/:sessionId/predictions/outcome', asyncHandler(async (req, res) => {
+  const { sessionId } = req.params;
+  const outcomeCategory = parseOutcomeCategory(req.body.outcomeCategory);
+  const { notes } = req.body;
+
+  if (notes !== undefined && typeof notes !== 'string') {
+    throw new CustomError('notes must be a string', 400);
+  }
+
+  logger.info(`Recording ${outcomeCategory} outcome for session ${sessionId}`);
+
+  const predictions = await outcomePredictor.recordOutcome(sessionId, { outcomeCategory, ...(notes && { notes }) });
+
+  const response: ApiResponse<any> = {
+    success: true,
+    data: {
+      sessionId,
+      actualOutcome: outcomeCategory,
+      predictions,
+    },
+    timestamp: new Date().toISOString(),
   };
 
+  res.json(response);
+}));
+
+// How accurate each version of the outcome predictor has been
+router.get('/predictions/accuracy', asyncHandler(async (req, res) => {
+  logger.info('Fetching prediction accuracy');
+
+  const versions = await outcomePredictor.getAccuracy();
+
   const response: ApiResponse<any> = {
     success: true,
-    data: predictions,
+    data: { versions },
     timestamp: new Date().toISOString(),
   };
 
@@ -242,11 +350,13 @@ router.get('/sessions/:sessionId/history', asyncHandler(async (req, res) => {
 router.post('/sessions/:sessionId/reanalyze', asyncHandler(async (req, res) => {
   const { sessionId } = req.params;
   const { analysisTypes } = req.body; // Optional: specify which analyses to run
+  const badSegments = parseBadSegmentHandling(req.body.badSegments);
+  const confidenceWeighting = parseConfidenceWeighting(req.body.confidenceWeighting);
   
   logger.info(`Triggering re-analysis for session ${sessionId}`);
 
   try {
-    const result = await analysisEngine.analyzeSession(sessionId);
+    const result = await analysisEngine.analyzeSession(sessionId, { badSegments, confidenceWeighting });
     
     const response: ApiResponse<any> = {
       success: true,
@@ -256,7 +366,16 @@ router.post('/sessions/:sessionId/reanalyze', asyncHandler(async (req, res) => {
         status: 'completed',
         result: {
           speakingTimeAnalysis: result.speakingTimeAnalysis,
+          speakingTimeRollup: result.speakingTimeRollup,
+          pauseAnalysis: result.pauseAnalysis,
+          sentimentJourney: result.sentimentJourney,
+          participationEquity: result.participationEquity,
           biasDetections: result.biasDetections,
+          crossPollination: result.crossPollination,
+          polarization: result.polarization,
+          conversationFlow: result.conversationFlow,
+          prediction: result.prediction,
+          dataQuality: result.dataQuality,
           processingTime: result.processingTime,
         },
         analyzedAt: new Date().toISOString(),
@@ -274,6 +393,31 @@ router.post('/sessions/:sessionId/reanalyze', asyncHandler(async (req, res) => {
   }
 }));
 
+// What to do with segments flagged by data-quality checks; undefined leaves it to DATA_QUALITY_HANDLING
+function parseBadSegmentHandling(value: unknown): BadSegmentHandling | undefined {
+  if (value === undefined || value === '') return undefined;
+  if (!BAD_SEGMENT_HANDLINGS.includes(value as BadSegmentHandling)) {
+    throw new CustomError(`badSegments must be one of: ${BAD_SEGMENT_HANDLINGS.join(', ')}`, 400);
+  }
+  return value as BadSegmentHandling;
+}
+
+// The outcome a facilitator recorded for a session, one of the predicted categories
+function parseOutcomeCategory(value: unknown): OutcomeCategory {
+  if (!OUTCOME_CATEGORIES.includes(value as OutcomeCategory)) {
+    throw new CustomError(`outcomeCategory must be one of: ${OUTCOME_CATEGORIES.join(', ')}`, 400);
+  }
+  return value as OutcomeCategory;
+}
+
+// Whether to weight metrics by ASR confidence; undefined leaves it to CONFIDENCE_WEIGHTING
+function parseConfidenceWeighting(value: unknown): boolean | undefined {
+  if (value === undefined || value === '') return undefined;
+  if (value === true || value === 'true') return true;
+  if (value === false || value === 'false') return false;
+  throw new CustomError('confidenceWeighting must be true or false', 400);
+}
+
 // Helper functions for bias analysis
 function getBiasSeverityDistribution(biases: any[]) {
   const distribution = { low: 0, medium: 0, high: 0 };
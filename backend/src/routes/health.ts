@@ -1,8 +1,10 @@
 import express from 'express';
 import { asyncHandler } from '@/middleware/errorHandler';
 import { logger } from '@/utils/logger';
+import { WorldCafeService } from '@/services/worldCafeService';
 
 const router = express.Router();
+const worldCafeService = new WorldCafeService();
 
 // Basic health check
 router.get('/', asyncHandler(async (req, res) => {
@@ -28,10 +30,15 @@ router.get('/', asyncHandler(async (req, res) => {
     healthStatus.status = 'degraded';
   }
 
-  // Check World Café API
+  // Check World Café API (an open circuit means recent requests kept failing)
   try {
-    // We'll implement this after setting up the API client
-    healthStatus.services.worldCafeAPI = 'connected';
+    const circuit = worldCafeService.getCircuitState();
+    if (circuit.state === 'closed') {
+      healthStatus.services.worldCafeAPI = 'connected';
+    } else {
+      healthStatus.services.worldCafeAPI = `circuit-${circuit.state}`;
+      healthStatus.status = 'degraded';
+    }
   } catch (error) {
     healthStatus.services.worldCafeAPI = 'disconnected';
     healthStatus.status = 'degraded';
@@ -0,0 +1,94 @@
+import express from 'express';
+import { z } from 'zod';
+import { asyncHandler, CustomError } from '@/middleware/errorHandler';
+import { logger } from '@/utils/logger';
+import { transcriptImportService } from '@/services/transcriptImportService';
+import { ApiResponse } from '@/types';
+
+const router = express.Router();
+
+const transcriptFileSchema = z.object({
+  format: z.enum(['vtt', 'srt', 'json']).optional(),
+  filename: z.string().optional(),
+  // Raw file text; JSON transcripts may also be sent as an object
+  content: z.union([z.string().min(1), z.record(z.any())]),
+});
+
+const importSessionSchema = z.object({
+  title: z.string().min(1),
+  description: z.string().optional(),
+  language: z.string().optional(),
+  files: z.array(transcriptFileSchema.extend({
+    tableId: z.number().int().positive(),
+  })).min(1),
+});
+
+// Root endpoint - Imports API documentation
+router.get('/', asyncHandler(async (req, res) => {
+  const response: ApiResponse<any> = {
+    success: true,
+    data: {
+      service: 'Transcript Import API',
+      version: '1.0.0',
+      endpoints: [
+        'POST /sessions - Create a session from one transcript file per table',
+        'POST /sessions/:sessionId/tables/:tableId - Add or replace one table of an imported session'
+      ],
+      formats: ['vtt', 'srt', 'json']
+    },
+    timestamp: new Date().toISOString(),
+  };
+  res.json(response);
+}));
+
+// Create a local session from uploaded transcripts
+router.post('/sessions', asyncHandler(async (req, res) => {
+  const request = importSessionSchema.parse(req.body);
+
+  logger.info(`Importing session "${request.title}" with ${request.files.length} transcript files`);
+
+  const result = await transcriptImportService.importSession(request);
+
+  const response: ApiResponse<any> = {
+    success: true,
+    data: {
+      message: 'Transcripts imported successfully',
+      sessionId: result.session.worldCafeId,
+      session: result.session,
+      tables: result.tables,
+    },
+    timestamp: new Date().toISOString(),
+  };
+
+  res.status(201).json(response);
+}));
+
+// Add or replace the transcript for one table of an imported session
+router.post('/sessions/:sessionId/tables/:tableId', asyncHandler(async (req, res) => {
+  const { sessionId } = req.params;
+  const tableId = parseInt(req.params.tableId);
+
+  if (isNaN(tableId) || tableId < 1) {
+    throw new CustomError('Table ID must be a positive integer', 400);
+  }
+
+  const file = transcriptFileSchema.parse(req.body);
+
+  logger.info(`Importing transcript for session ${sessionId}, table ${tableId}`);
+
+  const table = await transcriptImportService.importTableFile(sessionId, { ...file, tableId });
+
+  const response: ApiResponse<any> = {
+    success: true,
+    data: {
+      message: 'Transcript imported successfully',
+      sessionId,
+      table,
+    },
+    timestamp: new Date().toISOString(),
+  };
+
+  res.json(response);
+}));
+
+export default router;
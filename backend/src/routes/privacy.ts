@@ -0,0 +1,117 @@
+import express from 'express';
+import { z } from 'zod';
+import { asyncHandler } from '@/middleware/errorHandler';
+import { requirePiiAccess } from '@/middleware/piiAccess';
+import { redactionService } from '@/services/redactionService';
+import { ApiResponse } from '@/types';
+
+const router = express.Router();
+
+const privacySettingsSchema = z.object({
+  anonymizeData: z.boolean(),
+});
+
+const restoreSchema = z.object({
+  text: z.string().min(1),
+});
+
+// Root endpoint - Privacy API documentation
+router.get('/', asyncHandler(async (req, res) => {
+  const response: ApiResponse<any> = {
+    success: true,
+    data: {
+      service: 'Privacy API',
+      version: '1.0.0',
+      endpoints: [
+        'GET /settings - Whether personal data is redacted before embeddings, LLM calls and reports',
+        'PUT /settings - Turn redaction on or off (requires x-pii-access-token)',
+        'GET /sessions/:sessionId/redaction-log - Redactions applied to text leaving the service',
+        'GET /sessions/:sessionId/redactions - Placeholders and the values they stand for (requires x-pii-access-token)',
+        'POST /sessions/:sessionId/restore - Put original values back into text with placeholders (requires x-pii-access-token)'
+      ]
+    },
+    timestamp: new Date().toISOString(),
+  };
+  res.json(response);
+}));
+
+// Privacy settings
+router.get('/settings', asyncHandler(async (req, res) => {
+  const response: ApiResponse<any> = {
+    success: true,
+    data: {
+      ...await redactionService.getSettings(),
+      redactionEnabled: await redactionService.isEnabled(),
+    },
+    timestamp: new Date().toISOString(),
+  };
+  res.json(response);
+}));
+
+// Turning redaction off exposes personal data, so only authorised users may change it
+router.put('/settings', requirePiiAccess, asyncHandler(async (req, res) => {
+  const update = privacySettingsSchema.parse(req.body);
+  const settings = await redactionService.updateSettings(update);
+
+  const response: ApiResponse<any> = {
+    success: true,
+    data: {
+      ...settings,
+      // PII_REDACTION overrides the setting when set
+      redactionEnabled: await redactionService.isEnabled(),
+    },
+    timestamp: new Date().toISOString(),
+  };
+  res.json(response);
+}));
+
+// Which redactions were applied, without the values themselves
+router.get('/sessions/:sessionId/redaction-log', asyncHandler(async (req, res) => {
+  const { sessionId } = req.params;
+  const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : undefined;
+
+  const entries = await redactionService.getLog(sessionId, limit);
+
+  const response: ApiResponse<any> = {
+    success: true,
+    data: {
+      sessionId,
+      entries,
+    },
+    timestamp: new Date().toISOString(),
+  };
+  res.json(response);
+}));
+
+// Placeholder mapping for authorised users
+router.get('/sessions/:sessionId/redactions', requirePiiAccess, asyncHandler(async (req, res) => {
+  const { sessionId } = req.params;
+  const mappings = await redactionService.getMappings(sessionId);
+
+  const response: ApiResponse<any> = {
+    success: true,
+    data: {
+      sessionId,
+      mappings,
+    },
+    timestamp: new Date().toISOString(),
+  };
+  res.json(response);
+}));
+
+router.post('/sessions/:sessionId/restore', requirePiiAccess, asyncHandler(async (req, res) => {
+  const { sessionId } = req.params;
+  const { text } = restoreSchema.parse(req.body);
+
+  const response: ApiResponse<any> = {
+    success: true,
+    data: {
+      sessionId,
+      text: await redactionService.restore(text, sessionId),
+    },
+    timestamp: new Date().toISOString(),
+  };
+  res.json(response);
+}));
+
+export default router;
@@ -1,29 +1,95 @@
 import express from 'express';
+import { z } from 'zod';
 import { asyncHandler, CustomError } from '@/middleware/errorHandler';
 import { logger } from '@/utils/logger';
 import { prisma } from '@/utils/prisma';
 import { WorldCafeService } from '@/services/worldCafeService';
 import { SessionService } from '@/services/sessionService';
+import { transcriptSources } from '@/services/transcriptSources';
+import { speakerMappingService } from '@/services/speakerMappingService';
+import { roundService } from '@/services/roundService';
+import { transcriptCorrectionService } from '@/services/transcriptCorrectionService';
 import { ApiResponse, PaginatedResponse, SessionSummary } from '@/types';
 
 const router = express.Router();
 const worldCafeService = new WorldCafeService();
 const sessionService = new SessionService();
 
+const speakerMappingUpdateSchema = z.object({
+  confirmedBy: z.string().optional(),
+  mappings: z.array(z.object({
+    tableId: z.number().int().positive(),
+    speakerIndex: z.number().int().nonnegative(),
+    participantId: z.string().min(1).nullable().optional(),
+    participantName: z.string().min(1).optional(),
+  }).refine(
+    mapping => (mapping.participantId !== undefined) !== (mapping.participantName !== undefined),
+    { message: 'Provide either participantId (null for "not on the roster") or participantName' }
+  )).min(1),
+});
+
+const sessionListSortSchema = z.object({
+  sort: z.enum(['updatedAt', 'title', 'balanceScore']).default('updatedAt'),
+  order: z.enum(['asc', 'desc']).default('desc'),
+});
+
+const roundsSchema = z.object({
+  rounds: z.array(z.object({
+    roundNumber: z.number().int().positive(),
+    kind: z.enum(['conversation', 'harvest']).default('conversation'),
+    question: z.string().min(1).optional(),
+    startSeconds: z.number().nonnegative(),
+    endSeconds: z.number().positive().optional(),
+    assignments: z.array(z.object({
+      participantId: z.string().min(1),
+      tableId: z.number().int().positive(),
+    })).optional(),
+  })),
+});
+
+const revisionContextSchema = {
+  editedBy: z.string().min(1).optional(),
+  reason: z.string().min(1).optional(),
+};
+
+const segmentCorrectionSchema = z.object({
+  text: z.string().optional(),
+  speakerIndex: z.number().int().nonnegative().optional(),
+  startTime: z.number().nonnegative().optional(),
+  endTime: z.number().positive().optional(),
+  ...revisionContextSchema,
+});
+
+const mergeSpeakersSchema = z.object({
+  fromSpeakerIndex: z.number().int().nonnegative(),
+  intoSpeakerIndex: z.number().int().nonnegative(),
+  ...revisionContextSchema,
+});
+
+const splitSpeakerSchema = z.object({
+  speakerIndex: z.number().int().nonnegative(),
+  segmentIds: z.array(z.string().min(1)).min(1),
+  newSpeakerIndex: z.number().int().nonnegative().optional(),
+  ...revisionContextSchema,
+});
+
 // Get all sessions with pagination and filtering
 router.get('/', asyncHandler(async (req, res) => {
   const page = parseInt(req.query.page as string) || 1;
   const limit = parseInt(req.query.limit as string) || 20;
   const status = req.query.status as string;
   const search = req.query.search as string;
+  const { sort, order } = sessionListSortSchema.parse(req.query);
 
-  logger.info(`Fetching sessions: page=${page}, limit=${limit}, status=${status}, search=${search}`);
+  logger.info(`Fetching sessions: page=${page}, limit=${limit}, status=${status}, search=${search}, sort=${sort} ${order}`);
 
   const result = await sessionService.getSessions({
     page,
     limit,
     status,
     search,
+    sort,
+    order,
   });
 
   const response: PaginatedResponse<SessionSummary> = {
@@ -46,17 +112,20 @@ router.get('/:sessionId', asyncHandler(async (req, res) => {
   // Check if session exists locally
   let session = await sessionService.getSessionByWorldCafeId(sessionId);
 
-  if (!session || forceSync) {
-    logger.info(`Session ${sessionId} not found locally or force sync requested. Syncing from World Café...`);
+  // Only World Café sessions have an upstream copy to re-sync from
+  if (!session || (forceSync && session.source === 'world_cafe')) {
+    logger.info(`Session ${sessionId} not found locally or force sync requested. Loading from its source...`);
     
     try {
-      // Sync from World Café API
-      session = await worldCafeService.syncSession(sessionId);
-      logger.info(`Successfully synced session ${sessionId} from World Café`);
+      const source = await transcriptSources.forSession(sessionId);
+      session = forceSync && source.name === 'world_cafe'
+        ? await worldCafeService.syncSession(sessionId)
+        : await source.ensureLocalSession(sessionId);
+      logger.info(`Successfully loaded session ${sessionId} from ${source.name}`);
     } catch (error) {
       logger.error(`Failed to sync session ${sessionId}:`, error);
       throw new CustomError(
-        `Session ${sessionId} not found and could not be synced from World Café`,
+        `Session ${sessionId} not found and could not be loaded from its source`,
         404
       );
     }
@@ -81,31 +150,26 @@ router.get('/:sessionId', asyncHandler(async (req, res) => {
 router.get('/:sessionId/transcriptions', asyncHandler(async (req, res) => {
   const { sessionId } = req.params;
   const tableId = req.query.tableId ? parseInt(req.query.tableId as string) : undefined;
+  if (tableId !== undefined && (isNaN(tableId) || tableId < 1)) {
+    throw new CustomError('Table ID must be a positive integer', 400);
+  }
+  const refresh = req.query.refresh === 'true';
 
-  logger.info(`Fetching transcriptions for session ${sessionId}, table=${tableId}`);
+  logger.info(`Fetching transcriptions for session ${sessionId}, table=${tableId}, refresh=${refresh}`);
 
   try {
     // First ensure session exists locally
-    let session = await sessionService.getSessionByWorldCafeId(sessionId);
-    if (!session) {
-      logger.info(`Session ${sessionId} not found locally. Syncing...`);
-      session = await worldCafeService.syncSession(sessionId);
+    const source = await transcriptSources.forSession(sessionId);
+    const session = await source.ensureLocalSession(sessionId);
+
+    // Pull changes from World Café when asked to; otherwise the source serves what it has
+    if (refresh && source.name === 'world_cafe') {
+      await worldCafeService.syncSessionTranscriptions(sessionId);
     }
 
-    // Get transcriptions from World Café API
-    let transcriptions = await worldCafeService.getSessionTranscriptions(sessionId, tableId);
+    const transcriptions = await source.getTranscriptions(sessionId, tableId);
     
-    logger.info(`Retrieved ${transcriptions.length} transcriptions from World Café for session ${sessionId}`);
-    
-    // Log the structure to understand what we're working with
-    if (transcriptions.length > 0) {
-      logger.info(`Sample transcription structure:`, {
-        keys: Object.keys(transcriptions[0]),
-        hasSpeakerSegments: !!transcriptions[0].speaker_segments,
-        speakerSegmentsType: typeof transcriptions[0].speaker_segments,
-        transcriptText: !!transcriptions[0].transcript_text
-      });
-    }
+    logger.info(`Retrieved ${transcriptions.length} stored transcriptions for session ${sessionId}`);
 
     // Get bias detections for this session to highlight problematic segments
     let biasDetections = [];
@@ -120,40 +184,26 @@ router.get('/:sessionId/transcriptions', asyncHandler(async (req, res) => {
         category: bias.biasCategory,
         severity: bias.severityScore,
         confidence: bias.confidenceLevel,
+        confidenceInterval: bias.confidenceHigh !== null ? { low: bias.confidenceLow, high: bias.confidenceHigh } : undefined,
         evidenceText: bias.evidenceText,
         contextText: bias.contextText,
         timestampStart: bias.timestampStart,
         timestampEnd: bias.timestampEnd,
+        tableId: bias.tableId,
         speakersInvolved: bias.speakersInvolved,
         detectionMethod: bias.detectionMethod
       }));
     }
 
-    // Process transcriptions to create speaker segments from transcript_text
+    // Attach bias flags to each stored speaker segment
     const enrichedTranscriptions = transcriptions.map(transcription => {
-      let speakerSegments = [];
-      
-      // If we have speaker_segments, use them
-      if (Array.isArray(transcription.speaker_segments) && transcription.speaker_segments.length > 0) {
-        speakerSegments = transcription.speaker_segments;
-      } 
-      // Otherwise, create a single segment from transcript_text
-      else if (transcription.transcript_text) {
-        speakerSegments = [{
-          speaker: 1, // Default speaker ID
-          transcript: transcription.transcript_text,
-          start: 0,
-          end: transcription.duration_seconds || 60,
-          confidence: transcription.confidence_score || 0.9,
-          words: [] // Empty words array
-        }];
-      }
-
       return {
         ...transcription,
-        speaker_segments: speakerSegments.map(segment => {
-          // Find bias detections that involve this speaker
-          const relatedBiases = biasDetections.filter(bias => 
+        speaker_segments: transcription.speaker_segments.map(segment => {
+          // Find bias detections that involve this speaker at this table; speaker numbers
+          // restart at every table, so only session-wide detections apply to all of them
+          const relatedBiases = biasDetections.filter(bias =>
+            (bias.tableId === null || bias.tableId === transcription.table_id) &&
             bias.speakersInvolved.includes(segment.speaker) &&
             ((bias.evidenceText && segment.transcript && segment.transcript.includes(bias.evidenceText?.slice(1, 50))) ||
              bias.evidenceText === null)
@@ -189,6 +239,8 @@ router.get('/:sessionId/transcriptions', asyncHandler(async (req, res) => {
 
     res.json(response);
   } catch (error) {
+    // Unknown sessions and the like keep their own status
+    if (error instanceof CustomError) throw error;
     logger.error(`Failed to fetch transcriptions for session ${sessionId}:`, error);
     throw new CustomError(
       `Transcriptions fetch failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
@@ -206,11 +258,16 @@ router.get('/:sessionId/participants', asyncHandler(async (req, res) => {
   // Get participants from local database first
   const localParticipants = await sessionService.getSessionParticipants(sessionId);
 
-  // If no local participants or they're outdated, sync from World Café
+  // If no local participants, load them from the session's source
   let participants = localParticipants;
   if (!localParticipants || localParticipants.length === 0) {
-    logger.info(`No local participants found for session ${sessionId}. Syncing...`);
-    participants = await worldCafeService.syncSessionParticipants(sessionId);
+    logger.info(`No local participants found for session ${sessionId}. Loading from source...`);
+    const source = await transcriptSources.forSession(sessionId);
+    const sourceParticipants = await source.getParticipants(sessionId);
+
+    // World Café participants are synced into the local table; other sources are served as-is
+    const stored = await sessionService.getSessionParticipants(sessionId);
+    participants = stored.length > 0 ? stored : sourceParticipants;
   }
 
   const response: ApiResponse<any> = {
@@ -236,7 +293,7 @@ router.post('/:sessionId/analyze', asyncHandler(async (req, res) => {
   // Ensure session exists locally
   let session = await sessionService.getSessionByWorldCafeId(sessionId);
   if (!session) {
-    session = await worldCafeService.syncSession(sessionId);
+    session = await (await transcriptSources.forSession(sessionId)).ensureLocalSession(sessionId);
   }
 
   // Check if analysis already exists and is recent
@@ -306,31 +363,58 @@ router.get('/:sessionId/analysis', asyncHandler(async (req, res) => {
   res.json(response);
 }));
 
-// Sync session data from World Café (force refresh)
+// Get participation equity per table, round and session, least inclusive tables first unless order=desc
+router.get('/:sessionId/equity', asyncHandler(async (req, res) => {
+  const { sessionId } = req.params;
+  const { order } = sessionListSortSchema.pick({ order: true }).parse({ order: req.query.order ?? 'asc' });
+
+  const session = await sessionService.getSessionByWorldCafeId(sessionId);
+  if (!session) {
+    throw new CustomError(`Session ${sessionId} not found`, 404);
+  }
+
+  const equity = await sessionService.getParticipationEquity(session.id, order);
+
+  const response: ApiResponse<any> = {
+    success: true,
+    data: {
+      sessionId: session.worldCafeId,
+      balanceScore: session.balanceScore,
+      ...equity,
+    },
+    timestamp: new Date().toISOString(),
+  };
+
+  res.json(response);
+}));
+
+// Sync session data from World Café (incremental unless forced)
 router.post('/:sessionId/sync', asyncHandler(async (req, res) => {
   const { sessionId } = req.params;
-  const { includeTranscriptions = true, includeParticipants = true } = req.body;
+  const { includeTranscriptions = true, includeParticipants = true, force = false } = req.body;
+
+  logger.info(`Syncing session ${sessionId} from World Café${force ? ' (forced)' : ''}`);
 
-  logger.info(`Force syncing session ${sessionId} from World Café`);
+  const existing = await sessionService.getSessionByWorldCafeId(sessionId);
+  if (existing && existing.source !== 'world_cafe') {
+    throw new CustomError(`Session ${sessionId} comes from the ${existing.source} source and has no World Café copy to sync`, 400);
+  }
 
   const startTime = Date.now();
 
   try {
     // Sync session data
-    const session = await worldCafeService.syncSession(sessionId);
+    const session = await worldCafeService.syncSession(sessionId, force);
     
     // Optionally sync transcriptions and participants
-    const syncPromises = [];
-    
-    if (includeTranscriptions) {
-      syncPromises.push(worldCafeService.syncSessionTranscriptions(sessionId));
-    }
-    
-    if (includeParticipants) {
-      syncPromises.push(worldCafeService.syncSessionParticipants(sessionId));
-    }
-
-    await Promise.all(syncPromises);
+    const [transcriptionSync] = await Promise.all([
+      includeTranscriptions
+        ? worldCafeService.syncSessionTranscriptions(sessionId, { force })
+        : Promise.resolve(null),
+      includeParticipants
+        ? worldCafeService.syncSessionParticipants(sessionId)
+        : Promise.resolve(null),
+    ]);
 
     const syncDuration = Date.now() - startTime;
 
@@ -347,6 +431,7 @@ router.post('/:sessionId/sync', asyncHandler(async (req, res) => {
           transcriptions: includeTranscriptions,
           participants: includeParticipants,
         },
+        transcriptionChanges: transcriptionSync,
       },
       timestamp: new Date().toISOString(),
     };
@@ -362,5 +447,221 @@ router.post('/:sessionId/sync', asyncHandler(async (req, res) => {
   }
 }));
 
+// Get speaker-to-participant mappings for a session
+router.get('/:sessionId/speaker-mappings', asyncHandler(async (req, res) => {
+  const { sessionId } = req.params;
+
+  const mappings = await speakerMappingService.getMappings(sessionId);
+
+  const response: ApiResponse<any> = {
+    success: true,
+    data: {
+      sessionId,
+      mappings,
+    },
+    timestamp: new Date().toISOString(),
+  };
+
+  res.json(response);
+}));
+
+// Re-suggest mappings from the table rosters, keeping confirmed ones
+router.post('/:sessionId/speaker-mappings/suggest', asyncHandler(async (req, res) => {
+  const { sessionId } = req.params;
+
+  logger.info(`Suggesting speaker mappings for session ${sessionId}`);
+
+  const mappings = await speakerMappingService.suggestMappings(sessionId);
+
+  const response: ApiResponse<any> = {
+    success: true,
+    data: {
+      sessionId,
+      mappings,
+    },
+    timestamp: new Date().toISOString(),
+  };
+
+  res.json(response);
+}));
+
+// Confirm or override mappings; takes effect on the next analysis
+router.put('/:sessionId/speaker-mappings', asyncHandler(async (req, res) => {
+  const { sessionId } = req.params;
+  const { mappings, confirmedBy } = speakerMappingUpdateSchema.parse(req.body);
+
+  logger.info(`Confirming ${mappings.length} speaker mappings for session ${sessionId}`);
+
+  const updated = await speakerMappingService.confirmMappings(sessionId, mappings, confirmedBy);
+
+  const response: ApiResponse<any> = {
+    success: true,
+    data: {
+      sessionId,
+      mappings: updated,
+    },
+    timestamp: new Date().toISOString(),
+  };
+
+  res.json(response);
+}));
+
+// Get the session's rounds and table assignments
+router.get('/:sessionId/rounds', asyncHandler(async (req, res) => {
+  const { sessionId } = req.params;
+
+  const rounds = await roundService.getRounds(sessionId);
+
+  const response: ApiResponse<any> = {
+    success: true,
+    data: {
+      sessionId,
+      rounds,
+    },
+    timestamp: new Date().toISOString(),
+  };
+
+  res.json(response);
+}));
+
+// Replace the session's rounds; takes effect on the next analysis
+router.put('/:sessionId/rounds', asyncHandler(async (req, res) => {
+  const { sessionId } = req.params;
+  const { rounds } = roundsSchema.parse(req.body);
+
+  logger.info(`Setting ${rounds.length} rounds for session ${sessionId}`);
+
+  const updated = await roundService.replaceRounds(sessionId, rounds);
+
+  const response: ApiResponse<any> = {
+    success: true,
+    data: {
+      sessionId,
+      rounds: updated,
+    },
+    timestamp: new Date().toISOString(),
+  };
+
+  res.json(response);
+}));
+
+// Get stored speaker segments with their IDs and correction state
+router.get('/:sessionId/segments', asyncHandler(async (req, res) => {
+  const { sessionId } = req.params;
+  const tableId = req.query.tableId ? parseInt(req.query.tableId as string) : undefined;
+  if (tableId !== undefined && (isNaN(tableId) || tableId < 1)) {
+    throw new CustomError('Table ID must be a positive integer', 400);
+  }
+
+  const segments = await transcriptCorrectionService.getSegments(sessionId, tableId);
+
+  const response: ApiResponse<any> = {
+    success: true,
+    data: {
+      sessionId,
+      segments,
+    },
+    timestamp: new Date().toISOString(),
+  };
+
+  res.json(response);
+}));
+
+// Correct a segment's text, speaker or timing
+router.patch('/:sessionId/segments/:segmentId', asyncHandler(async (req, res) => {
+  const { sessionId, segmentId } = req.params;
+  const { editedBy, reason, ...correction } = segmentCorrectionSchema.parse(req.body);
+
+  logger.info(`Correcting segment ${segmentId} in session ${sessionId}`);
+
+  const result = await transcriptCorrectionService.correctSegment(sessionId, segmentId, correction, { editedBy, reason });
+
+  const response: ApiResponse<any> = {
+    success: true,
+    data: {
+      sessionId,
+      ...result,
+    },
+    timestamp: new Date().toISOString(),
+  };
+
+  res.json(response);
+}));
+
+// Merge two diarized speakers at a table
+router.post('/:sessionId/tables/:tableId/speakers/merge', asyncHandler(async (req, res) => {
+  const { sessionId } = req.params;
+  const tableId = parseInt(req.params.tableId);
+  if (isNaN(tableId) || tableId < 1) {
+    throw new CustomError('Table ID must be a positive integer', 400);
+  }
+  const { fromSpeakerIndex, intoSpeakerIndex, editedBy, reason } = mergeSpeakersSchema.parse(req.body);
+
+  logger.info(`Merging speaker ${fromSpeakerIndex} into ${intoSpeakerIndex} at table ${tableId} in session ${sessionId}`);
+
+  const result = await transcriptCorrectionService.mergeSpeakers(
+    sessionId, tableId, fromSpeakerIndex, intoSpeakerIndex, { editedBy, reason }
+  );
+
+  const response: ApiResponse<any> = {
+    success: true,
+    data: {
+      sessionId,
+      ...result,
+    },
+    timestamp: new Date().toISOString(),
+  };
+
+  res.json(response);
+}));
+
+// Move some of a diarized speaker's segments to a new speaker at a table
+router.post('/:sessionId/tables/:tableId/speakers/split', asyncHandler(async (req, res) => {
+  const { sessionId } = req.params;
+  const tableId = parseInt(req.params.tableId);
+  if (isNaN(tableId) || tableId < 1) {
+    throw new CustomError('Table ID must be a positive integer', 400);
+  }
+  const { speakerIndex, segmentIds, newSpeakerIndex, editedBy, reason } = splitSpeakerSchema.parse(req.body);
+
+  logger.info(`Splitting ${segmentIds.length} segments from speaker ${speakerIndex} at table ${tableId} in session ${sessionId}`);
+
+  const result = await transcriptCorrectionService.splitSpeaker(
+    sessionId, tableId, speakerIndex, segmentIds, newSpeakerIndex, { editedBy, reason }
+  );
+
+  const response: ApiResponse<any> = {
+    success: true,
+    data: {
+      sessionId,
+      ...result,
+    },
+    timestamp: new Date().toISOString(),
+  };
+
+  res.json(response);
+}));
+
+// Get the session's transcript correction history
+router.get('/:sessionId/transcript-revisions', asyncHandler(async (req, res) => {
+  const { sessionId } = req.params;
+  const tableId = req.query.tableId ? parseInt(req.query.tableId as string) : undefined;
+  if (tableId !== undefined && (isNaN(tableId) || tableId < 1)) {
+    throw new CustomError('Table ID must be a positive integer', 400);
+  }
+
+  const revisions = await transcriptCorrectionService.getRevisions(sessionId, tableId);
+
+  const response: ApiResponse<any> = {
+    success: true,
+    data: {
+      sessionId,
+      revisions,
+    },
+    timestamp: new Date().toISOString(),
+  };
+
+  res.json(response);
+}));
 
-export default router;
\ No newline at end of file
+export default router;
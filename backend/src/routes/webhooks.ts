@@ -0,0 +1,140 @@
+import express from 'express';
+import Bull from 'bull';
+import { Prisma } from '@prisma/client';
+import { asyncHandler, CustomError } from '@/middleware/errorHandler';
+import { verifyWorldCafeSignature } from '@/middleware/webhookSignature';
+import { logger } from '@/utils/logger';
+import { prisma } from '@/utils/prisma';
+import { jobQueue } from '@/services/jobQueue';
+import { ApiResponse, WorldCafeWebhookEvent } from '@/types';
+
+const router = express.Router();
+
+// Root endpoint - Webhooks API documentation
+router.get('/', asyncHandler(async (req, res) => {
+  const response: ApiResponse<any> = {
+    success: true,
+    data: {
+      service: 'Webhooks API',
+      version: '1.0.0',
+      endpoints: [
+        'POST /world-cafe - Receive signed World Café events'
+      ],
+      events: [
+        'session.created',
+        'session.updated',
+        'session.closed',
+        'transcription.added',
+        'participant.joined'
+      ]
+    },
+    timestamp: new Date().toISOString(),
+  };
+  res.json(response);
+}));
+
+// Receive a World Café event and enqueue the matching sync/analysis jobs
+router.post('/world-cafe', verifyWorldCafeSignature, asyncHandler(async (req, res) => {
+  const event = req.body as WorldCafeWebhookEvent;
+  const deliveryId = req.get('x-world-cafe-delivery') || event?.id;
+
+  if (!deliveryId || !event?.type || !event.data?.session_id) {
+    throw new CustomError('Webhook payload must include id, type and data.session_id', 400);
+  }
+
+  const worldCafeId = event.data.session_id;
+
+  // Record the delivery first; the unique delivery ID rejects retries we already handled
+  let delivery;
+  try {
+    delivery = await prisma.webhookDelivery.create({
+      data: {
+        deliveryId,
+        eventType: event.type,
+        worldCafeId,
+        payload: event as any,
+      },
+    });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      logger.info(`Ignoring duplicate World Café webhook delivery ${deliveryId}`);
+      const response: ApiResponse<any> = {
+        success: true,
+        data: { deliveryId, duplicate: true },
+        timestamp: new Date().toISOString(),
+      };
+      return res.json(response);
+    }
+    throw error;
+  }
+
+  logger.info(`Received World Café webhook ${event.type} for session ${worldCafeId} (${deliveryId})`);
+
+  try {
+    const jobs = await enqueueJobsForEvent(event);
+
+    await prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        status: jobs.length > 0 ? 'queued' : 'ignored',
+        jobIds: jobs.map(job => String(job.id)),
+        processedAt: new Date(),
+      },
+    });
+
+    const response: ApiResponse<any> = {
+      success: true,
+      data: {
+        deliveryId,
+        eventType: event.type,
+        sessionId: worldCafeId,
+        jobs: jobs.map(job => ({ id: job.id, type: job.name })),
+      },
+      timestamp: new Date().toISOString(),
+    };
+
+    res.status(202).json(response);
+  } catch (error) {
+    logger.error(`Failed to handle World Café webhook ${deliveryId}:`, error);
+
+    // Free the delivery ID so World Café's retry is not treated as a duplicate
+    await prisma.webhookDelivery.delete({ where: { id: delivery.id } }).catch(() => undefined);
+
+    throw new CustomError(
+      `Webhook handling failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      500
+    );
+  }
+}));
+
+/**
+ * Map a World Café event to the sync and analysis jobs it should trigger
+ */
+async function enqueueJobsForEvent(event: WorldCafeWebhookEvent): Promise<Bull.Job[]> {
+  const worldCafeId = event.data.session_id;
+
+  switch (event.type) {
+    case 'session.created':
+    case 'session.updated':
+      return [await jobQueue.queueSessionSync(worldCafeId)];
+
+    case 'session.closed':
+      // A closed session gets a final full analysis even if no table changed
+      return [await jobQueue.queueSessionSync(worldCafeId, false, true)];
+
+    case 'transcription.added':
+      return [await jobQueue.queueTranscriptionSync(
+        worldCafeId,
+        event.data.table_id !== undefined ? [event.data.table_id] : undefined
+      )];
+
+    case 'participant.joined':
+      return [await jobQueue.queueParticipantSync(worldCafeId)];
+
+    default:
+      logger.info(`No handler for World Café webhook event type ${event.type}`);
+      return [];
+  }
+}
+
+export default router;
@@ -1,82 +1,186 @@
+import { Prisma } from '@prisma/client';
 import { logger } from '@/utils/logger';
 import { prisma } from '@/utils/prisma';
-import { WorldCafeService } from './worldCafeService';
 import { BiasDetectionEngine } from './biasDetectionEngine';
-import { createMockTranscriptionsForSession } from '@/utils/mockTranscriptions';
+import { TranscriptSourceRegistry, transcriptSources } from './transcriptSources';
+import { SpeakerMappingService, speakerMappingService } from './speakerMappingService';
+import { RoundService, roundService } from './roundService';
+import { CrossPollinationAnalyzer } from './crossPollinationAnalyzer';
+import { PolarizationAnalyzer } from './polarizationAnalyzer';
+import { ConversationFlowAnalyzer } from './conversationFlowAnalyzer';
+import { OutcomePredictor } from './outcomePredictor';
+import { DataQualityAnalyzer } from './dataQualityAnalyzer';
+import { CustomError } from '@/middleware/errorHandler';
+import { createMockTranscriptionsForSession, isDemoMode, DEMO_DATA_WARNING } from '@/utils/mockTranscriptions';
+import { confidenceWeightingDefault } from '@/utils/confidence';
+import { groupConversations, meanConfidence, measureConversation, rollupSpeakingTime } from '@/utils/speakingTime';
+import { analyzeConversationPauses } from '@/utils/pauses';
+import { analyzeConversationSentiment } from '@/utils/sentiment';
+import { measureEquity, sessionBalanceScore } from '@/utils/equity';
+import { attributeSegments } from '@/utils/attribution';
+import { SpeakerIdentityMap } from '@/utils/speakerIdentity';
 import {
   WorldCafeTranscription,
   SpeakingTimeAnalysis,
   BiasDetection,
   PolarizationMetrics,
   ConversationFlow,
-  SpeakerSegment
+  SpeakingTimeRollup,
+  AttributedSegment,
+  SessionRound,
+  CrossPollinationAnalysis,
+  BadSegmentHandling,
+  DataQualityAssessment,
+  TablePauseAnalysis,
+  TableSentiment,
+  ParticipationEquity,
+  PolarizationAnalysis,
+  TableConversationFlow,
+  StoredSessionPrediction
 } from '@/types';
 
+interface SpeakingTimeOptions {
+  demoData?: boolean;
+  identities?: SpeakerIdentityMap;
+  rounds?: SessionRound[];
+  dataQuality?: DataQualityAssessment;
+  confidenceWeighting?: boolean;
+  // Session language, for fillers and sentiment where a segment's own language is unclear
+  language?: string | null;
+}
+
 export class AnalysisEngine {
-  private worldCafeService: WorldCafeService;
+  private transcriptSources: TranscriptSourceRegistry;
   private biasDetectionEngine: BiasDetectionEngine;
+  private speakerMappings: SpeakerMappingService;
+  private rounds: RoundService;
+  private crossPollinationAnalyzer: CrossPollinationAnalyzer;
+  private polarizationAnalyzer: PolarizationAnalyzer;
+  private conversationFlowAnalyzer: ConversationFlowAnalyzer;
+  private outcomePredictor: OutcomePredictor;
+  private dataQualityAnalyzer: DataQualityAnalyzer;
 
-  constructor() {
-    this.worldCafeService = new WorldCafeService();
-    this.biasDetectionEngine = new BiasDetectionEngine();
+  constructor(
+    sources: TranscriptSourceRegistry = transcriptSources,
+    biasDetectionEngine: BiasDetectionEngine = new BiasDetectionEngine(),
+    speakerMappings: SpeakerMappingService = speakerMappingService,
+    rounds: RoundService = roundService,
+    crossPollinationAnalyzer: CrossPollinationAnalyzer = new CrossPollinationAnalyzer(),
+    dataQualityAnalyzer: DataQualityAnalyzer = new DataQualityAnalyzer(),
+    polarizationAnalyzer: PolarizationAnalyzer = new PolarizationAnalyzer(),
+    conversationFlowAnalyzer: ConversationFlowAnalyzer = new ConversationFlowAnalyzer(),
+    outcomePredictor: OutcomePredictor = new OutcomePredictor()
+  ) {
+    this.transcriptSources = sources;
+    this.biasDetectionEngine = biasDetectionEngine;
+    this.speakerMappings = speakerMappings;
+    this.rounds = rounds;
+    this.crossPollinationAnalyzer = crossPollinationAnalyzer;
+    this.polarizationAnalyzer = polarizationAnalyzer;
+    this.conversationFlowAnalyzer = conversationFlowAnalyzer;
+    this.outcomePredictor = outcomePredictor;
+    this.dataQualityAnalyzer = dataQualityAnalyzer;
   }
 
   /**
-   * Analyze speaking time patterns from transcription data
+   * Analyze speaking time patterns from transcription data. Transcripts are checked
+   * for data quality first, unless the caller already did and passes the assessment.
+   * With confidenceWeighting, time and words count in proportion to ASR confidence
+   * (CONFIDENCE_WEIGHTING when the caller does not say). Each speaker's pauses,
+   * filler words and sentiment are filled in too.
    */
   async analyzeSpeakingTime(
     sessionId: string,
-    transcriptions: WorldCafeTranscription[]
+    transcriptions: WorldCafeTranscription[],
+    options: SpeakingTimeOptions = {}
   ): Promise<SpeakingTimeAnalysis[]> {
+    return (await this.measureSpeakingTime(sessionId, transcriptions, options)).speakingTime;
+  }
+
+  /**
+   * Speaking time with each speaker's pauses, fillers and sentiment, plus every
+   * table's gaps, long silences, energy and sentiment journey, and participation
+   * equity, stored together
+   */
+  private async measureSpeakingTime(
+    sessionId: string,
+    transcriptions: WorldCafeTranscription[],
+    options: SpeakingTimeOptions
+  ): Promise<{
+    speakingTime: SpeakingTimeAnalysis[];
+    tablePauses: TablePauseAnalysis[];
+    tableSentiment: TableSentiment[];
+    equity: ParticipationEquity[];
+    // The analysis record stored, for results measured afterwards; unset when nothing was measured
+    analysisId?: string;
+  }> {
     const startTime = Date.now();
     logger.info(`Starting speaking time analysis for session ${sessionId}`);
 
     try {
-      // Aggregate all speaker segments from all tables
-      const allSegments: (SpeakerSegment & { tableId: number })[] = [];
-      
-      for (const transcription of transcriptions) {
-        logger.info(`Processing transcription for table ${transcription.table_id} with ${transcription.speaker_segments.length} segments`);
-        for (const segment of transcription.speaker_segments) {
-          logger.info(`Segment speaker: ${segment.speaker}, transcript: "${segment.transcript.substring(0, 50)}..."`);
-          allSegments.push({
-            ...segment,
-            tableId: transcription.table_id
-          });
-        }
+      let dataQuality = options.dataQuality;
+      if (!dataQuality) {
+        const prepared = this.dataQualityAnalyzer.prepare(transcriptions);
+        dataQuality = prepared.assessment;
+        transcriptions = prepared.transcriptions;
       }
 
+      const confidenceWeighting = options.confidenceWeighting ?? confidenceWeightingDefault();
+
+      // Attribute every segment to its speaker, table and round, with the language
+      // pack its fillers and sentiment are read with
+      const { segments: allSegments, packs: segmentPacks } = attributeSegments(
+        transcriptions,
+        options.rounds || [],
+        options.identities || new SpeakerIdentityMap(),
+        options.language
+      );
+
       if (allSegments.length === 0) {
         logger.info(`No speaker segments found for session ${sessionId}`);
-        return [];
+        return { speakingTime: [], tablePauses: [], tableSentiment: [], equity: [] };
       }
 
-      // Group segments by speaker
-      const speakerGroups = this.groupSegmentsBySpeaker(allSegments);
-      
-      // Calculate total conversation time for percentage calculations
-      const totalConversationTime = this.calculateTotalConversationTime(allSegments);
-      
-      // Analyze each speaker
+      // Each table in each round is a separate conversation: shares, dominance,
+      // interruptions, pauses and sentiment are measured within it, so groups can be
+      // compared as they remix
       const results: SpeakingTimeAnalysis[] = [];
-      
-      for (const [speakerIndex, segments] of speakerGroups.entries()) {
-        const analysis = await this.analyzeSpeakerPatterns(
-          speakerIndex,
-          segments,
-          totalConversationTime,
-          allSegments
-        );
-        results.push(analysis);
+      const tablePauses: TablePauseAnalysis[] = [];
+      const tableSentiment: TableSentiment[] = [];
+      for (const segments of groupConversations(allSegments).values()) {
+        const packFor = (segment: AttributedSegment) => segmentPacks.get(segment);
+        const pauses = analyzeConversationPauses(segments, packFor);
+        const sentiment = analyzeConversationSentiment(segments, packFor);
+        for (const analysis of measureConversation(segments, confidenceWeighting)) {
+          results.push({
+            ...analysis,
+            pauseAnalysis: pauses.speakers.get(analysis.participantId),
+            sentiment: sentiment.speakers.get(analysis.participantId),
+          });
+        }
+        tablePauses.push(pauses.table);
+        tableSentiment.push(sentiment.table);
       }
+      const equity = measureEquity(results);
 
       // Store results in database
-      await this.storeSpeakingTimeAnalysis(sessionId, results);
+      const analysisId = await this.storeSpeakingTimeAnalysis(
+        sessionId,
+        results,
+        rollupSpeakingTime(results),
+        tablePauses,
+        tableSentiment,
+        equity,
+        dataQuality,
+        { confidenceWeighting, meanSegmentConfidence: meanConfidence(allSegments) },
+        [...(options.demoData ? [DEMO_DATA_WARNING] : []), ...dataQuality.warnings],
+        options.demoData
+      );
 
       const processingTime = Date.now() - startTime;
       logger.info(`Speaking time analysis completed for session ${sessionId} in ${processingTime}ms`);
       
-      return results;
+      return { speakingTime: results, tablePauses, tableSentiment, equity, analysisId };
 
     } catch (error) {
       logger.error(`Speaking time analysis failed for session ${sessionId}:`, error);
@@ -85,171 +189,20 @@ export class AnalysisEngine {
   }
 
   /**
-   * Group speaker segments by speaker index
-   */
-  private groupSegmentsBySpeaker(
-    segments: (SpeakerSegment & { tableId: number })[]
-  ): Map<number, (SpeakerSegment & { tableId: number })[]> {
-    const groups = new Map<number, (SpeakerSegment & { tableId: number })[]>();
-    
-    for (const segment of segments) {
-      if (!groups.has(segment.speaker)) {
-        groups.set(segment.speaker, []);
-      }
-      groups.get(segment.speaker)!.push(segment);
-    }
-    
-    return groups;
-  }
-
-  /**
-   * Calculate total conversation time across all speakers
-   */
-  private calculateTotalConversationTime(segments: SpeakerSegment[]): number {
-    if (segments.length === 0) return 0;
-    
-    const sortedSegments = segments.sort((a, b) => a.start - b.start);
-    const lastSegment = sortedSegments[sortedSegments.length - 1];
-    
-    return lastSegment.end - sortedSegments[0].start;
-  }
-
-  /**
-   * Analyze patterns for individual speaker
-   */
-  private async analyzeSpeakerPatterns(
-    speakerIndex: number,
-    segments: (SpeakerSegment & { tableId: number })[],
-    totalConversationTime: number,
-    allSegments: (SpeakerSegment & { tableId: number })[]
-  ): Promise<SpeakingTimeAnalysis> {
-    // Basic time calculations
-    const totalSpeakingTime = segments.reduce((sum, seg) => sum + (seg.end - seg.start), 0);
-    const percentage = totalConversationTime > 0 ? (totalSpeakingTime / totalConversationTime) * 100 : 0;
-    
-    // Turn analysis
-    const turnLengths = segments.map(seg => seg.end - seg.start);
-    const averageTurnLength = turnLengths.reduce((sum, len) => sum + len, 0) / turnLengths.length;
-    const longestTurn = Math.max(...turnLengths);
-    const shortestTurn = Math.min(...turnLengths);
-    
-    // Word analysis
-    const totalWords = segments.reduce((sum, seg) => {
-      return sum + (seg.words?.length || this.estimateWordCount(seg.transcript));
-    }, 0);
-    const wordsPerMinute = totalSpeakingTime > 0 ? (totalWords / (totalSpeakingTime / 60)) : 0;
-    
-    // Interruption analysis
-    const interruptions = this.analyzeInterruptions(speakerIndex, segments, allSegments);
-    
-    // Dominance index (0.5 = balanced, >0.5 = dominant)
-    const expectedPercentage = 100 / new Set(allSegments.map(s => s.speaker)).size;
-    const dominanceIndex = expectedPercentage > 0 ? percentage / expectedPercentage : 0;
-    
-    // Engagement level
-    const engagementLevel = this.calculateEngagementLevel(dominanceIndex, turnLengths.length, wordsPerMinute);
-    
-    return {
-      participantId: `speaker_${speakerIndex}`,
-      participantName: `Speaker ${speakerIndex}`,
-      tableId: segments[0]?.tableId,
-      
-      // Time Metrics
-      totalSeconds: Math.round(totalSpeakingTime),
-      percentage: Math.round(percentage * 100) / 100,
-      turnsCount: segments.length,
-      averageTurnLength: Math.round(averageTurnLength * 100) / 100,
-      longestTurn: Math.round(longestTurn * 100) / 100,
-      shortestTurn: Math.round(shortestTurn * 100) / 100,
-      
-      // Behavioral Metrics
-      interruptionCount: interruptions.given,
-      interruptedCount: interruptions.received,
-      wordsPerMinute: Math.round(wordsPerMinute),
-      
-      // Comparison Metrics
-      dominanceIndex: Math.round(dominanceIndex * 100) / 100,
-      engagementLevel
-    };
-  }
-
-  /**
-   * Estimate word count from transcript text
-   */
-  private estimateWordCount(text: string | undefined): number {
-    if (!text || typeof text !== 'string') return 0;
-    return text.trim().split(/\s+/).length;
-  }
-
-  /**
-   * Analyze interruption patterns
-   */
-  private analyzeInterruptions(
-    speakerIndex: number,
-    speakerSegments: (SpeakerSegment & { tableId: number })[],
-    allSegments: (SpeakerSegment & { tableId: number })[]
-  ): { given: number; received: number } {
-    let interruptionsGiven = 0;
-    let interruptionsReceived = 0;
-    
-    const sortedSegments = allSegments.sort((a, b) => a.start - b.start);
-    
-    for (let i = 0; i < sortedSegments.length - 1; i++) {
-      const current = sortedSegments[i];
-      const next = sortedSegments[i + 1];
-      
-      // Check for interruptions (next speaker starts before current finishes)
-      const overlap = Math.max(0, current.end - next.start);
-      const isInterruption = overlap > 0.5; // 500ms overlap threshold
-      
-      if (isInterruption) {
-        if (current.speaker === speakerIndex) {
-          interruptionsReceived++;
-        }
-        if (next.speaker === speakerIndex) {
-          interruptionsGiven++;
-        }
-      }
-    }
-    
-    return { given: interruptionsGiven, received: interruptionsReceived };
-  }
-
-  /**
-   * Calculate engagement level based on multiple factors
-   */
-  private calculateEngagementLevel(
-    dominanceIndex: number,
-    turnCount: number,
-    wordsPerMinute: number
-  ): 'low' | 'medium' | 'high' {
-    // Scoring system
-    let score = 0;
-    
-    // Participation frequency (turn count)
-    if (turnCount >= 10) score += 2;
-    else if (turnCount >= 5) score += 1;
-    
-    // Speaking pace (words per minute)
-    if (wordsPerMinute >= 120) score += 2;
-    else if (wordsPerMinute >= 80) score += 1;
-    
-    // Balance (not too dominant, not too quiet)
-    if (dominanceIndex >= 0.3 && dominanceIndex <= 1.5) score += 1;
-    
-    // Determine level
-    if (score >= 4) return 'high';
-    if (score >= 2) return 'medium';
-    return 'low';
-  }
-
-  /**
-   * Store speaking time analysis results in database
+   * Store speaking time analysis results in database, returning the analysis record's ID
    */
   private async storeSpeakingTimeAnalysis(
     sessionId: string,
-    results: SpeakingTimeAnalysis[]
-  ): Promise<void> {
+    results: SpeakingTimeAnalysis[],
+    rollup: SpeakingTimeRollup[],
+    tablePauses: TablePauseAnalysis[],
+    tableSentiment: TableSentiment[],
+    equity: ParticipationEquity[],
+    dataQuality: DataQualityAssessment,
+    confidenceScores: { confidenceWeighting: boolean; meanSegmentConfidence: number },
+    warnings: string[] = [],
+    demoData: boolean = false
+  ): Promise<string> {
     try {
       // Find session by world cafe ID
       const session = await prisma.session.findFirst({
@@ -260,73 +213,42 @@ export class AnalysisEngine {
         throw new Error(`Session ${sessionId} not found in database`);
       }
 
-      // Store each speaker's analysis
-      for (const analysis of results) {
-        const speakerIndex = parseInt(analysis.participantId.split('_')[1]);
-        
-        logger.info(`Storing analysis for speaker ${speakerIndex}, sessionId: ${session.id}`);
-        
-        // Validate speakerIndex
-        if (isNaN(speakerIndex)) {
-          logger.error(`Invalid speakerIndex derived from participantId: ${analysis.participantId}`);
-          continue;
-        }
-        
-        // Check if speaker dynamics already exists
-        const existing = await prisma.speakerDynamics.findFirst({
-          where: {
-            sessionId: session.id,
-            speakerIndex: speakerIndex
-          }
+      // Speaker rows and equity replace the previous analysis's, and the session keeps its
+      // balance for sorting. Demo conversations say nothing about the session, so they
+      // leave all of these alone; only the analysis record, marked with a warning, is stored.
+      if (!demoData) {
+        await this.storeSpeakerDynamics(session.id, results);
+        await prisma.participationEquity.deleteMany({ where: { sessionId: session.id } });
+        await prisma.participationEquity.createMany({
+          data: equity.map(entry => ({ sessionId: session.id, ...entry }))
+        });
+        await prisma.session.update({
+          where: { id: session.id },
+          data: { balanceScore: sessionBalanceScore(equity) ?? null }
         });
-
-        if (existing) {
-          await prisma.speakerDynamics.update({
-            where: { id: existing.id },
-            data: {
-              speakingTimeSeconds: analysis.totalSeconds,
-              turnCount: analysis.turnsCount,
-              averageTurnLength: analysis.averageTurnLength,
-              longestTurnSeconds: analysis.longestTurn,
-              interruptionCount: analysis.interruptionCount,
-              wordsPerMinute: analysis.wordsPerMinute,
-              dominanceIndex: analysis.dominanceIndex,
-              engagementLevel: analysis.engagementLevel,
-            }
-          });
-        } else {
-          await prisma.speakerDynamics.create({
-            data: {
-              sessionId: session.id,
-              tableId: analysis.tableId,
-              speakerIndex: speakerIndex,
-              speakingTimeSeconds: analysis.totalSeconds,
-              turnCount: analysis.turnsCount,
-              averageTurnLength: analysis.averageTurnLength,
-              longestTurnSeconds: analysis.longestTurn,
-              interruptionCount: analysis.interruptionCount,
-              wordsPerMinute: analysis.wordsPerMinute,
-              dominanceIndex: analysis.dominanceIndex,
-              engagementLevel: analysis.engagementLevel,
-            }
-          });
-        }
       }
 
       // Store aggregated analysis
-      await prisma.aiAnalysis.create({
+      const analysis = await prisma.aiAnalysis.create({
         data: {
           sessionId: session.id,
-          speakingTimeAnalysis: results,
+          speakingTimeAnalysis: results as unknown as Prisma.InputJsonValue,
+          speakingTimeRollup: rollup as unknown as Prisma.InputJsonValue,
+          pauseAnalysis: tablePauses as unknown as Prisma.InputJsonValue,
+          sentimentJourney: tableSentiment as unknown as Prisma.InputJsonValue,
           processingTimeMs: Date.now() - Date.now(), // Will be updated by caller
-          dataQualityScore: this.calculateDataQuality(results),
+          dataQualityScore: dataQuality.score,
+          dataQuality: dataQuality as unknown as Prisma.InputJsonValue,
+          confidenceScores,
           modelVersions: {
-            speakingTimeAnalyzer: '1.0.0'
-          }
+            speakingTimeAnalyzer: '1.5.0'
+          },
+          warnings,
         }
       });
 
       logger.info(`Stored speaking time analysis for ${results.length} speakers in session ${sessionId}`);
+      return analysis.id;
       
     } catch (error) {
       logger.error(`Failed to store speaking time analysis for session ${sessionId}:`, error);
@@ -335,37 +257,137 @@ export class AnalysisEngine {
   }
 
   /**
-   * Calculate data quality score based on analysis completeness
+   * Store each speaker's measurements, updating the rows of speakers measured before
+   * and dropping those of speakers, tables or rounds this analysis no longer produced
    */
-  private calculateDataQuality(results: SpeakingTimeAnalysis[]): number {
-    if (results.length === 0) return 0;
-    
-    let qualityScore = 0;
-    
-    for (const result of results) {
-      let itemScore = 0;
+  private async storeSpeakerDynamics(localSessionId: string, results: SpeakingTimeAnalysis[]): Promise<void> {
+    // Existing rows are looked up once, not per speaker, so large sessions stay quick
+    const rowKey = (tableId: number | null, roundNumber: number | null, speakerIndex: number) =>
+      `${roundNumber ?? '-'}:${tableId ?? '-'}:${speakerIndex}`;
+    const existingRows = await prisma.speakerDynamics.findMany({
+      where: { sessionId: localSessionId },
+      select: { id: true, tableId: true, roundNumber: true, speakerIndex: true }
+    });
+    const existingIds = new Map(existingRows.map(row => [rowKey(row.tableId, row.roundNumber, row.speakerIndex), row.id]));
+
+    // Store each speaker's analysis
+    const storedIds: string[] = [];
+    for (const analysis of results) {
+      const speakerIndex = analysis.speakerIndex;
       
-      // Basic data presence
-      if (result.totalSeconds > 0) itemScore += 0.3;
-      if (result.turnsCount > 0) itemScore += 0.2;
-      if (result.wordsPerMinute > 0) itemScore += 0.2;
+      logger.debug(`Storing analysis for speaker ${speakerIndex} (${analysis.participantName}), sessionId: ${localSessionId}`);
       
-      // Advanced metrics
-      if (result.dominanceIndex > 0) itemScore += 0.2;
-      if (result.interruptionCount >= 0) itemScore += 0.1;
+      // Validate speakerIndex
+      if (speakerIndex === undefined) {
+        logger.error(`Missing speakerIndex for participant: ${analysis.participantId}`);
+        continue;
+      }
       
-      qualityScore += itemScore;
+      const participantId = analysis.mapped ? analysis.participantId : null;
+
+      // Check if speaker dynamics already exists
+      const existingId = existingIds.get(rowKey(analysis.tableId ?? null, analysis.roundNumber ?? null, speakerIndex));
+
+      if (existingId) {
+        storedIds.push(existingId);
+        await prisma.speakerDynamics.update({
+          where: { id: existingId },
+          data: {
+            participantId,
+            speakingTimeSeconds: analysis.totalSeconds,
+            turnCount: analysis.turnsCount,
+            averageTurnLength: analysis.averageTurnLength,
+            longestTurnSeconds: analysis.longestTurn,
+            interruptionCount: analysis.interruptionCount,
+            wordsPerMinute: analysis.wordsPerMinute,
+            dominanceIndex: analysis.dominanceIndex,
+            engagementLevel: analysis.engagementLevel,
+            pauseCount: analysis.pauseAnalysis?.totalPauses ?? 0,
+            averagePauseSeconds: analysis.pauseAnalysis?.averagePauseLength,
+            fillerWordCount: analysis.pauseAnalysis?.fillerWords ?? 0,
+            sentimentAverage: analysis.sentiment?.average ?? null,
+            isStale: false,
+          }
+        });
+      } else {
+        const created = await prisma.speakerDynamics.create({
+          data: {
+            sessionId: localSessionId,
+            tableId: analysis.tableId,
+            roundNumber: analysis.roundNumber,
+            speakerIndex: speakerIndex,
+            participantId,
+            speakingTimeSeconds: analysis.totalSeconds,
+            turnCount: analysis.turnsCount,
+            averageTurnLength: analysis.averageTurnLength,
+            longestTurnSeconds: analysis.longestTurn,
+            interruptionCount: analysis.interruptionCount,
+            wordsPerMinute: analysis.wordsPerMinute,
+            dominanceIndex: analysis.dominanceIndex,
+            engagementLevel: analysis.engagementLevel,
+            pauseCount: analysis.pauseAnalysis?.totalPauses ?? 0,
+            averagePauseSeconds: analysis.pauseAnalysis?.averagePauseLength,
+            fillerWordCount: analysis.pauseAnalysis?.fillerWords ?? 0,
+            sentimentAverage: analysis.sentiment?.average ?? null,
+          }
+        });
+        storedIds.push(created.id);
+      }
     }
-    
-    return Math.min(1.0, qualityScore / results.length);
+
+    // Drop rows for speakers, tables or rounds this analysis no longer produced
+    await prisma.speakerDynamics.deleteMany({
+      where: { sessionId: localSessionId, id: { notIn: storedIds } }
+    });
   }
 
   /**
-   * Run complete analysis for a session
+   * Refresh speaker mapping suggestions, then load the identities analysis should use.
+   * A roster that cannot be fetched only costs participant names, never the analysis.
    */
-  async analyzeSession(sessionId: string): Promise<{
+  private async loadSpeakerIdentities(sessionId: string): Promise<SpeakerIdentityMap> {
+    try {
+      await this.speakerMappings.suggestMappings(sessionId);
+    } catch (error) {
+      logger.warn(`Could not refresh speaker mapping suggestions for session ${sessionId}:`, error);
+    }
+    return this.speakerMappings.getIdentityMap(sessionId);
+  }
+
+  /**
+   * Attach results measured after speaking time to the analysis record this run stored.
+   * By ID, since other analyses (such as the AI conversation analysis) may have stored
+   * records for the session in the meantime.
+   */
+  private async attachToAnalysis(analysisId: string | undefined, data: Prisma.AiAnalysisUpdateInput): Promise<void> {
+    if (!analysisId) return;
+
+    await prisma.aiAnalysis.update({
+      where: { id: analysisId },
+      data,
+    });
+  }
+
+  /**
+   * Run complete analysis for a session. Flagged segments are kept, down-weighted
+   * or excluded as badSegments says (DATA_QUALITY_HANDLING when it does not), and
+   * metrics are weighted by ASR confidence when confidenceWeighting says so.
+   */
+  async analyzeSession(
+    sessionId: string,
+    options: { badSegments?: BadSegmentHandling; confidenceWeighting?: boolean } = {}
+  ): Promise<{
     speakingTimeAnalysis: SpeakingTimeAnalysis[];
+    speakingTimeRollup: SpeakingTimeRollup[];
+    pauseAnalysis: TablePauseAnalysis[];
+    sentimentJourney: TableSentiment[];
+    participationEquity: ParticipationEquity[];
     biasDetections: BiasDetection[];
+    crossPollination: CrossPollinationAnalysis | null;
+    polarization: PolarizationAnalysis;
+    conversationFlow: TableConversationFlow[];
+    prediction: StoredSessionPrediction | null;
+    dataQuality: DataQualityAssessment;
     processingTime: number;
   }> {
     const startTime = Date.now();
@@ -373,36 +395,84 @@ export class AnalysisEngine {
     try {
       logger.info(`Starting complete analysis for session ${sessionId}`);
       
-      // Get transcriptions from our local API (which handles World Café integration)
-      let transcriptions;
+      // Ensure the session exists locally so results can be stored against it
+      const source = await this.transcriptSources.forSession(sessionId);
+      const session = await source.ensureLocalSession(sessionId);
+
+      let transcriptions: WorldCafeTranscription[] = [];
       try {
-        const response = await fetch(`http://localhost:3002/api/sessions/${sessionId}/transcriptions`);
-        if (response.ok) {
-          const data = await response.json();
-          transcriptions = data.data.transcriptions || [];
-        } else {
-          logger.warn(`Local transcription API returned ${response.status}, falling back to mock data`);
-          transcriptions = [];
-        }
+        transcriptions = await source.getTranscriptions(sessionId);
       } catch (error) {
-        logger.error(`Failed to fetch transcriptions from local API:`, error);
-        transcriptions = [];
+        if (!isDemoMode()) throw error;
+        logger.warn(`Could not load transcriptions for session ${sessionId} from ${source.name}:`, error);
       }
       
-      if (transcriptions.length === 0) {
-        logger.info(`No real transcriptions found for session ${sessionId}, using mock data for testing`);
+      // Sample data is only ever used when demo mode is switched on explicitly
+      const demoData = transcriptions.length === 0 && isDemoMode();
+      if (demoData) {
+        logger.warn(`DEMO_MODE: no transcriptions for session ${sessionId}, analyzing demo data instead`);
         transcriptions = createMockTranscriptionsForSession(sessionId);
+      } else if (transcriptions.length === 0) {
+        throw new CustomError(`No transcriptions available for session ${sessionId}`, 404);
       }
+
+      // Check the transcripts before anything is measured on them
+      const prepared = this.dataQualityAnalyzer.prepare(transcriptions, {
+        handling: options.badSegments,
+        tableCount: demoData ? undefined : session.tableCount,
+      });
+      const dataQuality = prepared.assessment;
+      transcriptions = prepared.transcriptions;
       
+      // Demo transcripts have no roster behind them, so their speakers stay anonymous
+      const identities = demoData ? new SpeakerIdentityMap() : await this.loadSpeakerIdentities(sessionId);
+      const rounds = demoData ? [] : await this.rounds.getSessionRounds(sessionId);
+
+      const confidenceWeighting = options.confidenceWeighting ?? confidenceWeightingDefault();
+
       // Analyze speaking time
-      const speakingTimeAnalysis = await this.analyzeSpeakingTime(sessionId, transcriptions);
+      const { speakingTime: speakingTimeAnalysis, tablePauses, tableSentiment, equity, analysisId } = await this.measureSpeakingTime(
+        sessionId,
+        transcriptions,
+        { demoData, identities, rounds, dataQuality, confidenceWeighting, language: session.language }
+      );
       
       // Analyze bias patterns
       const biasDetections = await this.biasDetectionEngine.detectBias(
         sessionId, 
         transcriptions, 
-        speakingTimeAnalysis
+        speakingTimeAnalysis,
+        { demoData, identities, rounds, language: session.language, confidenceWeighting }
       );
+
+      // Ideas can only travel once there are rounds to move between
+      let crossPollination: CrossPollinationAnalysis | null = null;
+      if (rounds.length > 0) {
+        const seating = await this.rounds.getSeating(sessionId);
+        crossPollination = this.crossPollinationAnalyzer.analyze(transcriptions, rounds, seating, identities);
+        await this.attachToAnalysis(analysisId, { crossPollination: crossPollination as unknown as Prisma.InputJsonValue });
+      }
+
+      // Demo measurements are returned but never replace the session's stored ones
+      const attributed = attributeSegments(transcriptions, rounds, identities, session.language);
+      const polarization = this.polarizationAnalyzer.analyze(transcriptions, rounds, attributed);
+      if (!demoData) {
+        await this.polarizationAnalyzer.store(sessionId, polarization);
+      }
+
+      // Topics and turning points per table, drawn with the energy and balance measured above
+      const conversationFlow = this.conversationFlowAnalyzer.analyze(attributed, { tablePauses, equity });
+      await this.attachToAnalysis(analysisId, { conversationFlow: conversationFlow as unknown as Prisma.InputJsonValue });
+
+      // How the session is likely to turn out, kept so it can be checked against the actual
+      // outcome; demo data says nothing about the session, so it is not predicted from
+      const speakingTimeRollup = rollupSpeakingTime(speakingTimeAnalysis);
+      const prediction = demoData ? null : await this.outcomePredictor.predict(sessionId, {
+        rollup: speakingTimeRollup,
+        equity,
+        polarization,
+        sentiment: tableSentiment,
+      });
       
       const processingTime = Date.now() - startTime;
       
@@ -410,7 +480,16 @@ export class AnalysisEngine {
       
       return {
         speakingTimeAnalysis,
+        speakingTimeRollup,
+        pauseAnalysis: tablePauses,
+        sentimentJourney: tableSentiment,
+        participationEquity: equity,
         biasDetections,
+        crossPollination,
+        polarization,
+        conversationFlow,
+        prediction,
+        dataQuality,
         processingTime
       };
       
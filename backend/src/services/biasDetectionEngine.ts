@@ -1,49 +1,81 @@
 import { logger } from '@/utils/logger';
 import { prisma } from '@/utils/prisma';
+import { SpeakerIdentityMap } from '@/utils/speakerIdentity';
+import { LanguagePack } from '@/utils/languagePacks';
+import { attributeSegments } from '@/utils/attribution';
+import { clampConfidence, confidenceWeightingDefault, countWords, estimateConfidence } from '@/utils/confidence';
+import { groupConversations } from '@/utils/speakingTime';
+import { DISRUPTIVE_INTERRUPTIONS, forEachInterruption, interruptionConfig } from '@/utils/interruptions';
 import {
   WorldCafeTranscription,
-  SpeakerSegment,
   BiasDetection,
-  SpeakingTimeAnalysis
+  SpeakingTimeAnalysis,
+  SpeakerIdentity,
+  AttributedSegment,
+  SessionRound
 } from '@/types';
 
+// Participant IDs of the mapped speakers among the given identities
+const mappedParticipants = (identities: SpeakerIdentity[]): string[] =>
+  [...new Set(identities.map(identity => identity.participantId).filter((id): id is string => Boolean(id)))];
+
+// Counts read better as "3" or "2.4" once matches are weighted by confidence
+const formatCount = (count: number): string => String(Math.round(count * 10) / 10);
+
+// A detection's confidence and its interval from the ASR confidence of its evidence
+const confidenceFrom = (evidenceConfidences: number[]): Pick<BiasDetection, 'confidence' | 'confidenceInterval'> => {
+  const { value, interval } = estimateConfidence(evidenceConfidences);
+  return { confidence: value, confidenceInterval: interval };
+};
+
 export class BiasDetectionEngine {
   
   /**
-   * Analyze conversation for various types of bias
+   * Analyze conversation for various types of bias. With confidenceWeighting, pattern
+   * matches and word counts count in proportion to each segment's ASR confidence.
+   * Detections in demo data are returned but never replace the session's stored ones.
    */
   async detectBias(
     sessionId: string,
     transcriptions: WorldCafeTranscription[],
-    speakingTimeAnalysis: SpeakingTimeAnalysis[]
+    speakingTimeAnalysis: SpeakingTimeAnalysis[],
+    options: {
+      identities?: SpeakerIdentityMap;
+      rounds?: SessionRound[];
+      language?: string;
+      confidenceWeighting?: boolean;
+      demoData?: boolean;
+    } = {}
   ): Promise<BiasDetection[]> {
     const startTime = Date.now();
     logger.info(`Starting bias detection for session ${sessionId}`);
 
     try {
       const detectedBiases: BiasDetection[] = [];
+      const confidenceWeighting = options.confidenceWeighting ?? confidenceWeightingDefault();
       
-      // Collect all segments for analysis
-      const allSegments: (SpeakerSegment & { tableId: number })[] = [];
-      for (const transcription of transcriptions) {
-        for (const segment of transcription.speaker_segments) {
-          allSegments.push({
-            ...segment,
-            tableId: transcription.table_id
-          });
-        }
-      }
+      // Collect all segments for analysis, with the language pack for each
+      const { segments: allSegments, packs: segmentPacks } = attributeSegments(
+        transcriptions,
+        options.rounds || [],
+        options.identities || new SpeakerIdentityMap(),
+        options.language
+      );
+      this.logLanguageCoverage(sessionId, allSegments.length, segmentPacks);
 
       if (allSegments.length === 0) {
         logger.info(`No segments to analyze for bias in session ${sessionId}`);
         return [];
       }
 
+      // Each table in each round is a separate conversation; turn-by-turn patterns never cross them
+      const conversations = groupConversations(allSegments);
+
       // Run different bias detection algorithms
-      const interruptionBiases = await this.detectInterruptionBias(allSegments);
+      const interruptionBiases = await this.detectInterruptionBias(conversations);
       const participationBiases = await this.detectParticipationBias(speakingTimeAnalysis);
-      const languageBiases = await this.detectLanguageBias(allSegments);
-      const topicBiases = await this.detectTopicSteeringBias(allSegments);
+      const languageBiases = await this.detectLanguageBias(allSegments, segmentPacks, confidenceWeighting);
+      const topicBiases = await this.detectTopicSteeringBias(conversations, segmentPacks, confidenceWeighting);
 
       detectedBiases.push(
         ...interruptionBiases,
@@ -53,7 +85,9 @@ export class BiasDetectionEngine {
       );
 
       // Store results in database
-      await this.storeBiasDetections(sessionId, detectedBiases);
+      if (!options.demoData) {
+        await this.storeBiasDetections(sessionId, detectedBiases);
+      }
 
       const processingTime = Date.now() - startTime;
       logger.info(`Bias detection completed for session ${sessionId} in ${processingTime}ms. Found ${detectedBiases.length} potential biases.`);
@@ -67,70 +101,90 @@ export class BiasDetectionEngine {
   }
 
   /**
-   * Detect interruption-based bias patterns
+   * Detect interruption-based bias patterns. Only competitive interruptions and
+   * takeovers count; backchannels and cooperative overlaps are part of listening.
    */
   private async detectInterruptionBias(
-    segments: (SpeakerSegment & { tableId: number })[]
+    conversations: Map<string, AttributedSegment[]>
   ): Promise<BiasDetection[]> {
     const biases: BiasDetection[] = [];
-    const sortedSegments = segments.sort((a, b) => a.start - b.start);
 
-    // Track interruption patterns by speaker
-    const speakerInterruptions = new Map<number, { given: number; received: number; instances: any[] }>();
+    // Track interruption patterns by speaker identity
+    const speakerInterruptions = new Map<string, {
+      identity: SpeakerIdentity;
+      speaker: number;
+      tableId: number;
+      given: number;
+      received: number;
+      takeovers: number;
+      instances: any[];
+    }>();
+    const track = (segment: AttributedSegment) => {
+      if (!speakerInterruptions.has(segment.identity.key)) {
+        speakerInterruptions.set(segment.identity.key, {
+          identity: segment.identity,
+          speaker: segment.speaker,
+          tableId: segment.tableId,
+          given: 0,
+          received: 0,
+          takeovers: 0,
+          instances: []
+        });
+      }
+      return speakerInterruptions.get(segment.identity.key)!;
+    };
     
-    for (let i = 0; i < sortedSegments.length - 1; i++) {
-      const current = sortedSegments[i];
-      const next = sortedSegments[i + 1];
-      
-      // Check for significant interruption (overlap > 1 second)
-      const overlap = Math.max(0, current.end - next.start);
-      if (overlap > 1.0) {
+    const config = interruptionConfig();
+    for (const sortedSegments of conversations.values()) {
+      forEachInterruption(sortedSegments, config, ({ kind, interrupted: current, interrupter: next, overlapSeconds }) => {
+        if (!DISRUPTIVE_INTERRUPTIONS.includes(kind)) return;
+
         // Record interruption
-        if (!speakerInterruptions.has(current.speaker)) {
-          speakerInterruptions.set(current.speaker, { given: 0, received: 0, instances: [] });
-        }
-        if (!speakerInterruptions.has(next.speaker)) {
-          speakerInterruptions.set(next.speaker, { given: 0, received: 0, instances: [] });
-        }
+        track(current).received++;
+        track(next).given++;
+        if (kind === 'takeover') track(next).takeovers++;
 
-        speakerInterruptions.get(current.speaker)!.received++;
-        speakerInterruptions.get(next.speaker)!.given++;
-        
         // Store instance for evidence
-        speakerInterruptions.get(next.speaker)!.instances.push({
+        track(next).instances.push({
           timestamp: [current.start, next.start],
-          interruptedSpeaker: current.speaker,
-          overlapDuration: overlap,
+          interrupted: current,
+          kind,
+          overlapDuration: overlapSeconds,
+          // Either side being misheard could make this a false interruption
+          confidence: Math.min(clampConfidence(current.confidence), clampConfidence(next.confidence)),
           context: `${current.transcript.slice(-50)}... [INTERRUPTED] ${next.transcript.slice(0, 50)}...`
         });
-      }
+      });
     }
 
     // Analyze patterns for bias
-    const speakers = Array.from(speakerInterruptions.keys());
+    const speakers = Array.from(speakerInterruptions.values());
     const avgInterruptionsGiven = speakers.reduce((sum, speaker) => 
-      sum + speakerInterruptions.get(speaker)!.given, 0) / speakers.length;
+      sum + speaker.given, 0) / speakers.length;
 
     // Flag speakers with significantly higher interruption rates
-    for (const [speaker, data] of speakerInterruptions.entries()) {
+    for (const data of speakerInterruptions.values()) {
       if (data.given > avgInterruptionsGiven * 2.5 && data.instances.length > 0) {
         const severity = Math.min(1.0, data.given / (avgInterruptionsGiven * 4));
+        const interrupted: AttributedSegment = data.instances[0].interrupted;
+        const affected = speakers.filter(s => s.received > 0);
         
         biases.push({
           type: 'participation',
           category: 'interruption',
+          // Mapped participants may have interrupted at several tables
+          tableId: data.identity.participantId ? undefined : data.tableId,
           severity,
-          confidence: 0.75,
+          ...confidenceFrom(data.instances.map(instance => instance.confidence)),
           evidence: {
             textSample: data.instances[0].context,
-            context: `Speaker ${speaker} interrupted others ${data.given} times, significantly above average (${avgInterruptionsGiven.toFixed(1)})`,
+            context: `${data.identity.name} interrupted others ${data.given} times (${data.takeovers} taking the floor), significantly above average (${avgInterruptionsGiven.toFixed(1)})`,
             timestamp: data.instances[0].timestamp,
-            speakersInvolved: [speaker, data.instances[0].interruptedSpeaker]
+            speakersInvolved: [data.speaker, interrupted.speaker],
+            participantsInvolved: mappedParticipants([data.identity, interrupted.identity])
           },
           impact: {
-            affectedParticipants: speakers.filter(s => 
-              speakerInterruptions.get(s)!.received > 0
-            ).map(s => `speaker_${s}`),
+            affectedParticipants: affected.map(s => s.identity.participantId || s.identity.key),
             groupDynamicsEffect: 'May create power imbalance and reduce participation from interrupted speakers',
             recommendedIntervention: 'Facilitator should establish turn-taking protocols and ensure balanced speaking opportunities'
           },
@@ -146,11 +200,30 @@ export class BiasDetectionEngine {
    * Detect participation imbalance bias
    */
   private async detectParticipationBias(
-    speakingAnalysis: SpeakingTimeAnalysis[]
+    speakingTimeAnalysis: SpeakingTimeAnalysis[]
   ): Promise<BiasDetection[]> {
     const biases: BiasDetection[] = [];
-    
-    if (speakingAnalysis.length < 3) return biases;
+
+    // Shares are relative to each table's own conversation in each round
+    const conversations = new Map<string, SpeakingTimeAnalysis[]>();
+    for (const analysis of speakingTimeAnalysis) {
+      const key = `${analysis.roundNumber ?? '-'}:${analysis.tableId ?? '-'}`;
+      conversations.set(key, [...(conversations.get(key) || []), analysis]);
+    }
+
+    for (const speakingAnalysis of conversations.values()) {
+      const bias = this.detectConversationParticipationBias(speakingAnalysis);
+      if (bias) biases.push(bias);
+    }
+
+    return biases;
+  }
+
+  private detectConversationParticipationBias(
+    speakingAnalysis: SpeakingTimeAnalysis[]
+  ): BiasDetection | null {
+    const { tableId, roundNumber } = speakingAnalysis[0];
+    if (speakingAnalysis.length < 3) return null;
 
     // Calculate participation distribution
     const speakingTimes = speakingAnalysis.map(s => s.percentage);
@@ -173,19 +246,29 @@ export class BiasDetectionEngine {
         (dominantSpeakers[0].percentage - expectedPercentage) / expectedPercentage
       );
 
-      biases.push({
+      // Every turn of the speakers involved is evidence, as well transcribed as its speaker's average
+      const involved = [...dominantSpeakers, ...marginalizedSpeakers];
+      const turnConfidences = involved.flatMap(s =>
+        Array<number>(s.turnsCount).fill(s.confidence?.meanConfidence ?? 1)
+      );
+
+      return {
         type: 'participation',
         category: 'exclusion',
+        tableId,
+        roundNumber,
         severity,
-        confidence: 0.82,
+        ...confidenceFrom(turnConfidences),
         evidence: {
-          textSample: `Participation imbalance detected: Speaker dominates ${dominantSpeakers[0].percentage.toFixed(1)}% of conversation`,
-          context: `${dominantSpeakers.length} dominant speaker(s) and ${marginalizedSpeakers.length} marginalized participant(s) detected`,
+          textSample: `Participation imbalance detected: ${dominantSpeakers[0].participantName} dominates ${dominantSpeakers[0].percentage.toFixed(1)}% of conversation`,
+          context: `${dominantSpeakers.length} dominant speaker(s) and ${marginalizedSpeakers.length} marginalized participant(s) detected${tableId !== undefined ? ` at table ${tableId}` : ''}${roundNumber !== undefined ? ` in round ${roundNumber}` : ''}`,
           timestamp: [0, 999], // Full conversation
-          speakersInvolved: [
-            ...dominantSpeakers.map(s => parseInt(s.participantId.split('_')[1])),
-            ...marginalizedSpeakers.map(s => parseInt(s.participantId.split('_')[1]))
-          ]
+          speakersInvolved: involved
+            .map(s => s.speakerIndex)
+            .filter((index): index is number => index !== undefined),
+          participantsInvolved: involved
+            .filter(s => s.mapped)
+            .map(s => s.participantId)
         },
         impact: {
           affectedParticipants: marginalizedSpeakers.map(s => s.participantId),
@@ -193,79 +276,101 @@ export class BiasDetectionEngine {
           recommendedIntervention: 'Use structured turn-taking, small group breakouts, or round-robin discussion formats'
         },
         detectionMethod: 'behavioral'
-      });
+      };
     }
 
-    return biases;
+    return null;
   }
 
   /**
-   * Detect language and communication pattern bias
+   * Which language packs the pattern detectors will use, and how much they cannot read
+   */
+  private logLanguageCoverage(sessionId: string, segmentCount: number, segmentPacks: Map<AttributedSegment, LanguagePack>): void {
+    const perPack = new Map<string, number>();
+    for (const pack of segmentPacks.values()) {
+      const label = `${pack.language}@${pack.version}`;
+      perPack.set(label, (perPack.get(label) || 0) + 1);
+    }
+    const summary = [...perPack.entries()].map(([label, count]) => `${label}: ${count}`).join(', ') || 'none';
+    logger.info(`Language packs for session ${sessionId}: ${summary}`);
+
+    const uncovered = segmentCount - segmentPacks.size;
+    if (uncovered > 0) {
+      logger.warn(`${uncovered} segments in session ${sessionId} have no language pack and are skipped by pattern detectors`);
+    }
+  }
+
+  /**
+   * Detect language and communication pattern bias, with each segment's language pack
    */
   private async detectLanguageBias(
-    segments: (SpeakerSegment & { tableId: number })[]
+    segments: AttributedSegment[],
+    segmentPacks: Map<AttributedSegment, LanguagePack>,
+    byConfidence: boolean = false
   ): Promise<BiasDetection[]> {
     const biases: BiasDetection[] = [];
 
-    // Keywords that might indicate dismissive language - made more sensitive
-    const dismissivePatterns = [
-      /\b(but|however|actually|well actually|i disagree|that's wrong|no[,.]|doesn't make sense)\b/gi,
-      /\b(you don't understand|obviously|clearly)\b/gi,
-      /\b(let me explain|as i said|like i mentioned)\b/gi
-    ];
-
-    // Keywords that might indicate inclusive language
-    const inclusivePatterns = [
-      /\b(i think|maybe|perhaps|what if|have you considered)\b/gi,
-      /\b(that's interesting|good point|i hear you|tell me more)\b/gi,
-      /\b(building on that|adding to|yes and)\b/gi
-    ];
-
-    // Analyze each speaker's language patterns
-    const speakerPatterns = new Map<number, {
+    // Analyze each speaker's language patterns per language; packs are calibrated separately
+    const speakerPatterns = new Map<string, {
+      identity: SpeakerIdentity;
+      pack: LanguagePack;
+      speaker: number;
+      tableId: number;
       dismissive: number;
       inclusive: number;
       totalWords: number;
+      matchConfidences: number[];
       examples: string[];
     }>();
 
     logger.info(`Analyzing language bias for ${segments.length} segments`);
 
     for (const segment of segments) {
-      if (!speakerPatterns.has(segment.speaker)) {
-        speakerPatterns.set(segment.speaker, {
+      const pack = segmentPacks.get(segment);
+      if (!pack) continue;
+
+      const key = `${segment.identity.key}:${pack.language}`;
+      if (!speakerPatterns.has(key)) {
+        speakerPatterns.set(key, {
+          identity: segment.identity,
+          pack,
+          speaker: segment.speaker,
+          tableId: segment.tableId,
           dismissive: 0,
           inclusive: 0,
           totalWords: 0,
+          matchConfidences: [],
           examples: []
         });
       }
 
-      const pattern = speakerPatterns.get(segment.speaker)!;
-      const words = segment.transcript.split(/\s+/).length;
-      pattern.totalWords += words;
+      const pattern = speakerPatterns.get(key)!;
+      const confidence = clampConfidence(segment.confidence);
+      const weight = byConfidence ? confidence : 1;
+      pattern.totalWords += countWords(segment.transcript) * weight;
 
       // Count dismissive patterns
-      for (const dismissivePattern of dismissivePatterns) {
+      for (const dismissivePattern of pack.dismissive) {
         const matches = segment.transcript.match(dismissivePattern);
         if (matches) {
-          pattern.dismissive += matches.length;
+          pattern.dismissive += matches.length * weight;
+          pattern.matchConfidences.push(...Array<number>(matches.length).fill(confidence));
           pattern.examples.push(`"${segment.transcript.slice(0, 100)}..."`);
-          logger.info(`Found dismissive pattern for speaker ${segment.speaker}: ${matches.join(', ')}`);
+          logger.debug(`Found dismissive pattern for ${segment.identity.name}: ${matches.join(', ')}`);
         }
       }
 
       // Count inclusive patterns
-      for (const inclusivePattern of inclusivePatterns) {
+      for (const inclusivePattern of pack.inclusive) {
         const matches = segment.transcript.match(inclusivePattern);
         if (matches) {
-          pattern.inclusive += matches.length;
+          pattern.inclusive += matches.length * weight;
         }
       }
     }
 
     // Identify speakers with high dismissive-to-inclusive ratios
-    for (const [speaker, pattern] of speakerPatterns.entries()) {
+    for (const pattern of speakerPatterns.values()) {
       if (pattern.totalWords > 50) { // Only analyze speakers with sufficient data
         const dismissiveRatio = pattern.dismissive / (pattern.totalWords / 100); // per 100 words
         const inclusiveRatio = pattern.inclusive / (pattern.totalWords / 100);
@@ -277,14 +382,17 @@ export class BiasDetectionEngine {
           biases.push({
             type: 'language',
             category: 'dismissal',
+            tableId: pattern.identity.participantId ? undefined : pattern.tableId,
             severity,
-            confidence: 0.68,
+            ...confidenceFrom(pattern.matchConfidences),
             evidence: {
               textSample: pattern.examples[0] || 'Dismissive language patterns detected',
-              context: `Speaker ${speaker} used dismissive language ${pattern.dismissive} times vs ${pattern.inclusive} inclusive phrases`,
+              context: `${pattern.identity.name} used dismissive language ${formatCount(pattern.dismissive)} times vs ${formatCount(pattern.inclusive)} inclusive phrases`,
               timestamp: [0, 999],
-              speakersInvolved: [speaker]
+              speakersInvolved: [pattern.speaker],
+              participantsInvolved: mappedParticipants([pattern.identity])
             },
+            languagePack: { language: pattern.pack.language, version: pattern.pack.version },
             impact: {
               affectedParticipants: ['multiple_participants'],
               groupDynamicsEffect: 'Dismissive language can shut down conversation and make others feel unheard',
@@ -300,23 +408,23 @@ export class BiasDetectionEngine {
   }
 
   /**
-   * Detect topic steering and agenda-setting bias
+   * Detect topic steering and agenda-setting bias, with each segment's language pack
    */
   private async detectTopicSteeringBias(
-    segments: (SpeakerSegment & { tableId: number })[]
+    conversations: Map<string, AttributedSegment[]>,
+    segmentPacks: Map<AttributedSegment, LanguagePack>,
+    byConfidence: boolean = false
   ): Promise<BiasDetection[]> {
     const biases: BiasDetection[] = [];
 
-    // Topic transition phrases that might indicate steering
-    const steeringPatterns = [
-      /\b(let's talk about|we should discuss|moving on to|what about|i want to focus on)\b/gi,
-      /\b(more importantly|the real issue is|what we need to address|the priority should be)\b/gi,
-      /\b(getting back to|as i was saying|to return to my point)\b/gi
-    ];
-
-    // Track topic steering by speaker
-    const steeringBehavior = new Map<number, {
+    // Track topic steering by speaker and language
+    const steeringBehavior = new Map<string, {
+      identity: SpeakerIdentity;
+      pack: LanguagePack;
+      speaker: number;
+      tableId: number;
       steeringCount: number;
+      matchConfidences: number[];
       examples: string[];
       consecutiveTopicChanges: number;
     }>();
@@ -324,36 +432,48 @@ export class BiasDetectionEngine {
     let currentTopic: string | null = null;
     let topicChanges = 0;
 
-    for (let i = 0; i < segments.length; i++) {
-      const segment = segments[i];
-      
-      if (!steeringBehavior.has(segment.speaker)) {
-        steeringBehavior.set(segment.speaker, {
-          steeringCount: 0,
-          examples: [],
-          consecutiveTopicChanges: 0
-        });
-      }
-
-      const behavior = steeringBehavior.get(segment.speaker)!;
+    for (const segments of conversations.values()) {
+      for (let i = 0; i < segments.length; i++) {
+        const segment = segments[i];
+        const pack = segmentPacks.get(segment);
+        if (!pack) continue;
+
+        const key = `${segment.identity.key}:${pack.language}`;
+        if (!steeringBehavior.has(key)) {
+          steeringBehavior.set(key, {
+            identity: segment.identity,
+            pack,
+            speaker: segment.speaker,
+            tableId: segment.tableId,
+            steeringCount: 0,
+            matchConfidences: [],
+            examples: [],
+            consecutiveTopicChanges: 0
+          });
+        }
 
-      // Check for steering language
-      for (const pattern of steeringPatterns) {
-        const matches = segment.transcript.match(pattern);
-        if (matches) {
-          behavior.steeringCount += matches.length;
-          behavior.examples.push(segment.transcript.slice(0, 150));
-          topicChanges++;
+        const behavior = steeringBehavior.get(key)!;
+        const confidence = clampConfidence(segment.confidence);
+
+        // Check for steering language
+        for (const pattern of pack.steering) {
+          const matches = segment.transcript.match(pattern);
+          if (matches) {
+            behavior.steeringCount += matches.length * (byConfidence ? confidence : 1);
+            behavior.matchConfidences.push(...Array<number>(matches.length).fill(confidence));
+            behavior.examples.push(segment.transcript.slice(0, 150));
+            topicChanges++;
+          }
         }
-      }
 
-      // Simple topic change detection (if speaker changes direction significantly)
-      const isTopicChange = segment.transcript.toLowerCase().includes('but') && 
-                           segment.transcript.length > 100 &&
-                           i > 0 && segments[i-1].speaker !== segment.speaker;
-      
-      if (isTopicChange) {
-        behavior.consecutiveTopicChanges++;
+        // Simple topic change detection (if speaker changes direction significantly)
+        const isTopicChange = segment.transcript.match(pack.contrast) !== null && 
+                             segment.transcript.length > 100 &&
+                             i > 0 && segments[i-1].identity.key !== segment.identity.key;
+        
+        if (isTopicChange) {
+          behavior.consecutiveTopicChanges++;
+        }
       }
     }
 
@@ -361,21 +481,24 @@ export class BiasDetectionEngine {
     const avgSteering = Array.from(steeringBehavior.values())
       .reduce((sum, b) => sum + b.steeringCount, 0) / steeringBehavior.size;
 
-    for (const [speaker, behavior] of steeringBehavior.entries()) {
+    for (const behavior of steeringBehavior.values()) {
       if (behavior.steeringCount > avgSteering * 3 && behavior.steeringCount > 3) {
         const severity = Math.min(1.0, behavior.steeringCount / 10);
         
         biases.push({
           type: 'topic',
           category: 'topic_steering',
+          tableId: behavior.identity.participantId ? undefined : behavior.tableId,
           severity,
-          confidence: 0.72,
+          ...confidenceFrom(behavior.matchConfidences),
           evidence: {
             textSample: behavior.examples[0] || 'Topic steering detected',
-            context: `Speaker ${speaker} attempted to steer conversation ${behavior.steeringCount} times, significantly above average`,
+            context: `${behavior.identity.name} attempted to steer conversation ${formatCount(behavior.steeringCount)} times, significantly above average`,
             timestamp: [0, 999],
-            speakersInvolved: [speaker]
+            speakersInvolved: [behavior.speaker],
+            participantsInvolved: mappedParticipants([behavior.identity])
           },
+          languagePack: { language: behavior.pack.language, version: behavior.pack.version },
           impact: {
             affectedParticipants: ['group_discussion'],
             groupDynamicsEffect: 'Topic steering can prevent organic conversation flow and marginalize others\' interests',
@@ -406,12 +529,18 @@ export class BiasDetectionEngine {
         throw new Error(`Session ${sessionId} not found in database`);
       }
 
+      // Detections made from transcripts that have since been corrected are replaced by this run
+      await prisma.biasDetection.deleteMany({
+        where: { sessionId: session.id, isStale: true }
+      });
+
       // Store each bias detection
       for (const bias of biases) {
         await prisma.biasDetection.create({
           data: {
             sessionId: session.id,
-            tableId: bias.evidence.speakersInvolved[0] ? undefined : null, // Simplified for now
+            tableId: bias.tableId ?? null,
+            roundNumber: bias.roundNumber ?? null,
             biasType: bias.type,
             biasCategory: bias.category,
             evidenceText: bias.evidence.textSample,
@@ -420,8 +549,13 @@ export class BiasDetectionEngine {
             timestampStart: bias.evidence.timestamp[0],
             timestampEnd: bias.evidence.timestamp[1],
             speakersInvolved: bias.evidence.speakersInvolved,
+            participantsInvolved: bias.evidence.participantsInvolved || [],
+            languagePack: bias.languagePack?.language ?? null,
+            languagePackVersion: bias.languagePack?.version ?? null,
             detectionMethod: bias.detectionMethod,
             confidenceLevel: bias.confidence,
+            confidenceLow: bias.confidenceInterval?.low ?? null,
+            confidenceHigh: bias.confidenceInterval?.high ?? null,
           }
         });
       }
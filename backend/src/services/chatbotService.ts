@@ -1,6 +1,7 @@
 import { logger } from '@/utils/logger';
 import { prisma } from '@/utils/prisma';
 import { vectorService } from './vectorService';
+import { redactionService } from './redactionService';
 import { ChatScope, ChatMessage, ChatConversation, ChatSource, SearchResult, ChatRequest, ChatResponse } from '@/types/chat';
 import { v4 as uuidv4 } from 'uuid';
 
@@ -37,7 +38,8 @@ export class ChatbotService {
         request.message,
         context,
         request.scope,
-        conversation.messages
+        conversation.messages,
+        request.sessionId
       );
 
       // Extract sources from context
@@ -125,16 +127,27 @@ export class ChatbotService {
     query: string,
     context: SearchResult[],
     scope: ChatScope,
-    conversationHistory: ChatMessage[]
+    conversationHistory: ChatMessage[],
+    sessionId?: string
   ): Promise<string> {
     const systemPrompt = this.getSystemPrompt(scope);
-    const contextText = context.map(r => `[${r.metadata.documentType}] ${r.content}`).join('\n\n');
-    const historyText = conversationHistory
-      .slice(-6) // Last 6 messages for context
-      .map(m => `${m.role}: ${m.content}`)
-      .join('\n');
 
-    const prompt = `${systemPrompt}
+    // For now, return a mock response since we don't have LLM API set up
+    if (!process.env.OPENAI_API_KEY && !process.env.GROQ_API_KEY && !process.env.ANTHROPIC_API_KEY) {
+      return this.generateMockResponse(query, context, scope);
+    }
+
+    // Outside the try: when redaction fails, the prompt is not sent
+    const contextText = (await this.redactContext(context)).join('\n\n');
+    const [historyText, outboundQuery] = await redactionService.redactTexts([
+      conversationHistory
+        .slice(-6) // Last 6 messages for context
+        .map(m => `${m.role}: ${m.content}`)
+        .join('\n'),
+      query,
+    ], { scope: sessionId, purpose: 'chat' });
+
+    const outboundPrompt = `${systemPrompt}
 
 ## Context Information
 ${contextText}
@@ -143,15 +156,10 @@ ${contextText}
 ${historyText}
 
 ## User Query
-${query}
+${outboundQuery}
 
 Please provide a helpful response based on the context and conversation history. If you reference specific information, indicate which source it came from.`;
 
-    // For now, return a mock response since we don't have LLM API set up
-    if (!process.env.OPENAI_API_KEY && !process.env.GROQ_API_KEY && !process.env.ANTHROPIC_API_KEY) {
-      return this.generateMockResponse(query, context, scope);
-    }
-
     try {
       // Groq API integration (fast and affordable)
       if (process.env.GROQ_API_KEY) {
@@ -165,7 +173,7 @@ Please provide a helpful response based on the context and conversation history.
             model: 'openai/gpt-oss-120b', // High-capacity open-source model
             messages: [
               { role: 'system', content: systemPrompt },
-              { role: 'user', content: prompt }
+              { role: 'user', content: outboundPrompt }
             ],
             max_tokens: 500,
             temperature: 0.7,
@@ -192,7 +200,7 @@ Please provide a helpful response based on the context and conversation history.
             model: 'gpt-4',
             messages: [
               { role: 'system', content: systemPrompt },
-              { role: 'user', content: prompt }
+              { role: 'user', content: outboundPrompt }
             ],
             max_tokens: 500,
             temperature: 0.7,
@@ -245,6 +253,26 @@ Please provide a helpful response based on the context and conversation history.
     return response;
   }
 
+  /**
+   * Context lines for the prompt, each redacted with the roster of the session it
+   * came from: global chat draws on many sessions and has no roster of its own
+   */
+  private async redactContext(context: SearchResult[]): Promise<string[]> {
+    const lines = context.map(r => `[${r.metadata.documentType}] ${r.content}`);
+    const bySession = new Map<string, number[]>();
+    context.forEach((r, i) => {
+      const indexes = bySession.get(r.metadata.sessionId) || [];
+      indexes.push(i);
+      bySession.set(r.metadata.sessionId, indexes);
+    });
+
+    for (const [resultSessionId, indexes] of bySession) {
+      const redacted = await redactionService.redactTexts(indexes.map(i => lines[i]), { scope: resultSessionId, purpose: 'chat' });
+      indexes.forEach((i, k) => { lines[i] = redacted[k]; });
+    }
+    return lines;
+  }
+
   /**
    * Get system prompt based on scope
    */
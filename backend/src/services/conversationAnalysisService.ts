@@ -1,5 +1,6 @@
 import { logger } from '@/utils/logger';
 import { prisma } from '@/utils/prisma';
+import { redactionService } from './redactionService';
 
 export interface AnalysisPrompt {
   id: string;
@@ -66,6 +67,12 @@ export class ConversationAnalysisService {
       confidence: 0
     }));
 
+    // Personal data never reaches Groq; the steps only see placeholders
+    const transcription = await redactionService.redactText(request.transcription, {
+      scope: request.sessionId,
+      purpose: 'llm_analysis',
+    });
+
     // Process each step sequentially with chain-of-thought
     let previousContext = '';
     const confidenceScores: number[] = [];
@@ -82,8 +89,8 @@ export class ConversationAnalysisService {
 
         // Build context from previous steps for chain-of-thought
         const contextualPrompt = previousContext 
-          ? `${prompt.prompt}\n\n**Context from previous analysis steps:**\n${previousContext}\n\n**Transcript to analyze:**\n${request.transcription}`
-          : `${prompt.prompt}\n\n**Transcript to analyze:**\n${request.transcription}`;
+          ? `${prompt.prompt}\n\n**Context from previous analysis steps:**\n${previousContext}\n\n**Transcript to analyze:**\n${transcription}`
+          : `${prompt.prompt}\n\n**Transcript to analyze:**\n${transcription}`;
 
         // Call Groq API for this analysis step
         const response = await this.callGroqAPI(prompt.systemPrompt, contextualPrompt);
@@ -0,0 +1,69 @@
+import { prisma } from '@/utils/prisma';
+import { logger } from '@/utils/logger';
+import { CustomError } from '@/middleware/errorHandler';
+import { AttributedTranscripts, groupTables } from '@/utils/attribution';
+import { round2 } from '@/utils/numbers';
+import { ConversationFlowConfig, analyzeConversationFlow, conversationFlowConfig } from '@/utils/conversationFlow';
+import { EnergyLevel, ParticipationEquity, TableConversationFlow, TablePauseAnalysis } from '@/types';
+
+// Recent analyses searched for a stored conversation flow
+const STORED_FLOW_LOOKBACK = 10;
+
+export class ConversationFlowAnalyzer {
+  /**
+   * Segment each table's conversation into topics and describe how it flowed, using
+   * the energy and participation equity already measured for the table
+   */
+  analyze(
+    attributed: AttributedTranscripts,
+    measured: { tablePauses: TablePauseAnalysis[]; equity: ParticipationEquity[] },
+    config: ConversationFlowConfig = conversationFlowConfig()
+  ): TableConversationFlow[] {
+    const flows: TableConversationFlow[] = [];
+    for (const [tableId, segments] of groupTables(attributed.segments)) {
+      // Energy is measured per round at the table; balance is the mean over its rounds
+      const energyLevels: EnergyLevel[] = measured.tablePauses
+        .filter(pauses => pauses.tableId === tableId)
+        .flatMap(pauses => pauses.energyLevels)
+        .sort((a, b) => a.timestamp - b.timestamp);
+      const equity = measured.equity.filter(entry => entry.scope === 'table' && entry.tableId === tableId);
+      const balanceScore = equity.length > 0
+        ? round2(equity.reduce((sum, entry) => sum + entry.balanceScore, 0) / equity.length)
+        : 1;
+
+      flows.push({
+        tableId,
+        ...analyzeConversationFlow(segments, segment => attributed.packs.get(segment), { energyLevels, balanceScore }, config),
+      });
+    }
+
+    logger.info(`Conversation flow found ${flows.reduce((sum, flow) => sum + flow.topicProgression.length, 0)} topics across ${flows.length} tables`);
+    return flows;
+  }
+
+  /**
+   * The conversation flow stored with a session's latest analysis
+   */
+  async getConversationFlow(worldCafeId: string): Promise<TableConversationFlow[]> {
+    const session = await prisma.session.findUnique({ where: { worldCafeId } });
+    if (!session) {
+      throw new CustomError(`Session ${worldCafeId} not found`, 404);
+    }
+
+    const analyses = await prisma.aiAnalysis.findMany({
+      where: { sessionId: session.id },
+      orderBy: { createdAt: 'desc' },
+      take: STORED_FLOW_LOOKBACK,
+      select: { conversationFlow: true },
+    });
+    // The AI conversation analysis keeps its reasoning steps in the same column, as an object
+    const stored = analyses.find(analysis => Array.isArray(analysis.conversationFlow));
+    if (!stored) {
+      throw new CustomError(`No conversation flow for session ${worldCafeId} yet; run an analysis first`, 404);
+    }
+
+    return stored.conversationFlow as unknown as TableConversationFlow[];
+  }
+}
+
+export const conversationFlowAnalyzer = new ConversationFlowAnalyzer();
@@ -0,0 +1,318 @@
+import { logger } from '@/utils/logger';
+import { CustomError } from '@/middleware/errorHandler';
+import { candidatePhrases, extractKeyphrases } from '@/utils/keyphrases';
+import { resolveRoundWindows, roundAt } from '@/utils/rounds';
+import { TranscriptSourceRegistry, transcriptSources } from './transcriptSources';
+import { SpeakerIdentityMap } from '@/utils/speakerIdentity';
+import { SpeakerMappingService, speakerMappingService } from './speakerMappingService';
+import { RoundService, roundService } from './roundService';
+import {
+  AttributedSegment,
+  CrossPollinationAnalysis,
+  IdeaTransfer,
+  IdeaTravelGraph,
+  ParticipantMixing,
+  SeatingEntry,
+  SessionRound,
+  WorldCafeTranscription
+} from '@/types';
+import { round2 } from '@/utils/numbers';
+
+// Keyphrases per table conversation that are considered as ideas
+const KEYPHRASES_PER_CONVERSATION = 20;
+// Keyphrases shown on each travel graph node
+const GRAPH_NODE_KEYPHRASES = 5;
+// Phrases raised at more than this share of a round's tables come from the round's
+// question rather than from anyone in particular, so they do not count as travelling
+const SHARED_THEME_SHARE = 0.5;
+
+interface Conversation {
+  id: string;
+  roundNumber: number;
+  tableId: number;
+  keyphrases: string[];
+  // First time each phrase was said at the table, and by whom
+  firstUse: Map<string, { seconds: number; participantId?: string }>;
+  // Mapped participants heard at the table, by name
+  speakers: Map<string, string>;
+}
+
+export class CrossPollinationAnalyzer {
+  constructor(
+    private sources: TranscriptSourceRegistry = transcriptSources,
+    private speakerMappings: SpeakerMappingService = speakerMappingService,
+    private rounds: RoundService = roundService
+  ) {}
+
+  /**
+   * Load a session's transcripts, rounds and seating and analyze how ideas travelled
+   */
+  async analyzeSession(worldCafeId: string): Promise<CrossPollinationAnalysis> {
+    const source = await this.sources.forSession(worldCafeId);
+
+    const [transcriptions, rounds, seating, identities] = await Promise.all([
+      source.getTranscriptions(worldCafeId),
+      this.rounds.getSessionRounds(worldCafeId),
+      this.rounds.getSeating(worldCafeId),
+      this.speakerMappings.getIdentityMap(worldCafeId),
+    ]);
+
+    if (rounds.length === 0) {
+      throw new CustomError(`Session ${worldCafeId} has no rounds; cross-pollination needs rounds and table assignments`, 404);
+    }
+
+    return this.analyze(transcriptions, rounds, seating, identities);
+  }
+
+  /**
+   * Find ideas that participants carried from one table to the next, the graph of
+   * those moves and how many new people each participant met along the way
+   */
+  analyze(
+    transcriptions: WorldCafeTranscription[],
+    rounds: SessionRound[],
+    seating: SeatingEntry[],
+    identities: SpeakerIdentityMap = new SpeakerIdentityMap()
+  ): CrossPollinationAnalysis {
+    const conversations = this.buildConversations(transcriptions, rounds, identities);
+    const seats = this.resolveSeating(seating, conversations);
+
+    const ideaTransfers: IdeaTransfer[] = [];
+    const edges: IdeaTravelGraph['edges'] = [];
+    let moves = 0;
+    let movesWithTransfer = 0;
+
+    for (const [participantId, { name, tables }] of seats) {
+      const path = [...tables.entries()].sort((a, b) => a[0] - b[0]);
+
+      for (let i = 1; i < path.length; i++) {
+        const [fromRound, fromTable] = path[i - 1];
+        const [toRound, toTable] = path[i];
+        if (fromTable === toTable) continue;
+        moves++;
+
+        const origin = conversations.get(conversationId(fromRound, fromTable));
+        const destination = conversations.get(conversationId(toRound, toTable));
+        if (!origin || !destination) continue;
+
+        const transfers = this.findTransfers(participantId, name, origin, destination, conversations);
+        if (transfers.length === 0) continue;
+
+        movesWithTransfer++;
+        ideaTransfers.push(...transfers);
+        edges.push({
+          from: origin.id,
+          to: destination.id,
+          participantId,
+          participantName: name,
+          phrases: transfers.map(transfer => transfer.phrase),
+        });
+      }
+    }
+
+    const participants = this.calculateMixing(seats);
+    const result: CrossPollinationAnalysis = {
+      ideaTransfers: ideaTransfers.sort((a, b) => a.reappearedAt - b.reappearedAt),
+      travelGraph: {
+        nodes: [...conversations.values()]
+          .sort((a, b) => a.roundNumber - b.roundNumber || a.tableId - b.tableId)
+          .map(conversation => ({
+            id: conversation.id,
+            roundNumber: conversation.roundNumber,
+            tableId: conversation.tableId,
+            keyphrases: conversation.keyphrases.slice(0, GRAPH_NODE_KEYPHRASES),
+          })),
+        edges,
+      },
+      mixing: {
+        sessionScore: participants.length > 0
+          ? round2(participants.reduce((sum, participant) => sum + participant.mixingScore, 0) / participants.length)
+          : 0,
+        participants,
+      },
+      summary: {
+        moves,
+        movesWithTransfer,
+        ideaTravelRate: moves > 0 ? round2(movesWithTransfer / moves) : 0,
+      },
+    };
+
+    logger.info(`Cross-pollination: ${ideaTransfers.length} idea transfers over ${moves} moves, mixing score ${result.mixing.sessionScore}`);
+    return result;
+  }
+
+  /**
+   * Ideas the participant introduced at the origin table that came up at the
+   * destination table in the next round, and had not been raised there before
+   */
+  private findTransfers(
+    participantId: string,
+    participantName: string,
+    origin: Conversation,
+    destination: Conversation,
+    conversations: Map<string, Conversation>
+  ): IdeaTransfer[] {
+    const roundConversations = [...conversations.values()].filter(conversation => conversation.roundNumber === origin.roundNumber);
+    const earlierAtDestination = [...conversations.values()].filter(conversation =>
+      conversation.tableId === destination.tableId && conversation.roundNumber < destination.roundNumber
+    );
+
+    const transfers: IdeaTransfer[] = [];
+    for (const phrase of origin.keyphrases) {
+      const introduced = origin.firstUse.get(phrase)!;
+      if (introduced.participantId !== participantId) continue;
+
+      const reappeared = destination.firstUse.get(phrase);
+      if (!reappeared) continue;
+      if (earlierAtDestination.some(conversation => conversation.firstUse.has(phrase))) continue;
+
+      const tablesRaisingIt = roundConversations.filter(conversation => conversation.firstUse.has(phrase)).length;
+      if (roundConversations.length > 1 && tablesRaisingIt / roundConversations.length > SHARED_THEME_SHARE) continue;
+
+      transfers.push({
+        phrase,
+        participantId,
+        participantName,
+        from: { roundNumber: origin.roundNumber, tableId: origin.tableId },
+        to: { roundNumber: destination.roundNumber, tableId: destination.tableId },
+        introducedAt: introduced.seconds,
+        reappearedAt: reappeared.seconds,
+        carriedBy: reappeared.participantId === participantId ? 'participant' : 'table',
+      });
+    }
+
+    // "housing" adds nothing when "affordable housing" travelled on the same move
+    return transfers.filter(transfer => !transfers.some(other =>
+      other !== transfer && ` ${other.phrase} `.includes(` ${transfer.phrase} `)
+    ));
+  }
+
+  /**
+   * One conversation per table per round, with its keyphrases and who said them first
+   */
+  private buildConversations(
+    transcriptions: WorldCafeTranscription[],
+    rounds: SessionRound[],
+    identities: SpeakerIdentityMap
+  ): Map<string, Conversation> {
+    const roundWindows = resolveRoundWindows(rounds);
+    const segmentsByConversation = new Map<string, AttributedSegment[]>();
+
+    for (const transcription of transcriptions) {
+      for (const segment of transcription.speaker_segments) {
+        const roundNumber = roundAt(roundWindows, segment.start)?.roundNumber;
+        // Time outside every round (arrival, harvest breaks) belongs to no table conversation
+        if (roundNumber === undefined) continue;
+
+        const id = conversationId(roundNumber, transcription.table_id);
+        const segments = segmentsByConversation.get(id) || [];
+        segments.push({
+          ...segment,
+          tableId: transcription.table_id,
+          roundNumber,
+          identity: identities.resolve(transcription.table_id, segment.speaker),
+        });
+        segmentsByConversation.set(id, segments);
+      }
+    }
+
+    const conversations = new Map<string, Conversation>();
+    for (const [id, segments] of segmentsByConversation) {
+      segments.sort((a, b) => a.start - b.start);
+
+      const firstUse = new Map<string, { seconds: number; participantId?: string }>();
+      const speakers = new Map<string, string>();
+      for (const segment of segments) {
+        const participantId = segment.identity.participantId;
+        if (participantId) {
+          speakers.set(participantId, segment.identity.name);
+        }
+        for (const phrase of candidatePhrases(segment.transcript)) {
+          if (!firstUse.has(phrase)) {
+            firstUse.set(phrase, { seconds: segment.start, participantId });
+          }
+        }
+      }
+
+      conversations.set(id, {
+        id,
+        roundNumber: segments[0].roundNumber!,
+        tableId: segments[0].tableId,
+        keyphrases: extractKeyphrases(segments.map(segment => segment.transcript), KEYPHRASES_PER_CONVERSATION)
+          .map(keyphrase => keyphrase.phrase),
+        firstUse,
+        speakers,
+      });
+    }
+
+    return conversations;
+  }
+
+  /**
+   * Table per round for each participant: recorded assignments first, then the
+   * tables their mapped speakers were heard at for rounds without an assignment
+   */
+  private resolveSeating(
+    seating: SeatingEntry[],
+    conversations: Map<string, Conversation>
+  ): Map<string, { name: string; tables: Map<number, number> }> {
+    const seats = new Map<string, { name: string; tables: Map<number, number> }>();
+    const seat = (participantId: string, name: string, roundNumber: number, tableId: number) => {
+      const entry = seats.get(participantId) || { name, tables: new Map<number, number>() };
+      if (!entry.tables.has(roundNumber)) entry.tables.set(roundNumber, tableId);
+      seats.set(participantId, entry);
+    };
+
+    for (const entry of seating) {
+      seat(entry.participantId, entry.participantName, entry.roundNumber, entry.tableId);
+    }
+
+    for (const conversation of conversations.values()) {
+      for (const [participantId, name] of conversation.speakers) {
+        seat(participantId, name, conversation.roundNumber, conversation.tableId);
+      }
+    }
+
+    return seats;
+  }
+
+  /**
+   * How many of the other participants each participant shared a table with
+   */
+  private calculateMixing(seats: Map<string, { name: string; tables: Map<number, number> }>): ParticipantMixing[] {
+    const others = seats.size - 1;
+
+    return [...seats.entries()].map(([participantId, { name, tables }]) => {
+      const met = new Set<string>();
+      const newPeoplePerRound: ParticipantMixing['newPeoplePerRound'] = [];
+
+      for (const [roundNumber, tableId] of [...tables.entries()].sort((a, b) => a[0] - b[0])) {
+        let count = 0;
+        for (const [otherId, other] of seats) {
+          if (otherId === participantId || other.tables.get(roundNumber) !== tableId || met.has(otherId)) continue;
+          met.add(otherId);
+          count++;
+        }
+        newPeoplePerRound.push({ roundNumber, count });
+      }
+
+      return {
+        participantId,
+        participantName: name,
+        tables: [...tables.entries()]
+          .sort((a, b) => a[0] - b[0])
+          .map(([roundNumber, tableId]) => ({ roundNumber, tableId })),
+        peopleMet: met.size,
+        newPeoplePerRound,
+        mixingScore: others > 0 ? round2(met.size / others) : 0,
+      };
+    });
+  }
+}
+
+function conversationId(roundNumber: number, tableId: number): string {
+  return `r${roundNumber}-t${tableId}`;
+}
+
+// Export singleton instance
+export const crossPollinationAnalyzer = new CrossPollinationAnalyzer();
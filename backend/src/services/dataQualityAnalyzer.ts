@@ -0,0 +1,40 @@
+import { prisma } from '@/utils/prisma';
+import { PreparedTranscriptions, prepareTranscriptions } from '@/utils/dataQuality';
+import { TranscriptSourceRegistry, transcriptSources } from './transcriptSources';
+import { BadSegmentHandling, DataQualityAssessment, WorldCafeTranscription } from '@/types';
+
+/**
+ * Checks transcripts before analysis: scores each table and the session, flags
+ * anomalies where they occur, and can exclude or down-weight the flagged segments
+ */
+export class DataQualityAnalyzer {
+  constructor(private sources: TranscriptSourceRegistry = transcriptSources) {}
+
+  /**
+   * Assess a session's stored transcripts without running analysis
+   */
+  async analyzeSession(worldCafeId: string): Promise<DataQualityAssessment> {
+    const source = await this.sources.forSession(worldCafeId);
+    const [transcriptions, session] = await Promise.all([
+      source.getTranscriptions(worldCafeId),
+      prisma.session.findUnique({ where: { worldCafeId }, select: { tableCount: true } }),
+    ]);
+
+    return this.prepare(transcriptions, { tableCount: session?.tableCount }).assessment;
+  }
+
+  /**
+   * Assess transcripts and return them ready for analysis: unchanged when keeping
+   * flagged segments, without them when excluding, or with a lower weight on them.
+   * Tables 1 to tableCount without a transcript are reported as missing.
+   */
+  prepare(
+    transcriptions: WorldCafeTranscription[],
+    options: { handling?: BadSegmentHandling; tableCount?: number } = {}
+  ): PreparedTranscriptions {
+    return prepareTranscriptions(transcriptions, options);
+  }
+}
+
+// Export singleton instance
+export const dataQualityAnalyzer = new DataQualityAnalyzer();
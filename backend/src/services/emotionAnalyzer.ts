@@ -0,0 +1,23 @@
+import { logger } from '@/utils/logger';
+import { AttributedTranscripts } from '@/utils/attribution';
+import { groupConversations } from '@/utils/speakingTime';
+import { EmotionConfig, analyzeConversationEmotions, emotionConfig } from '@/utils/emotions';
+import { TableEmotions } from '@/types';
+
+export class EmotionAnalyzer {
+  /**
+   * The emotions expressed at every table in every round, with where each spiked
+   */
+  analyze(
+    { segments, packs }: AttributedTranscripts,
+    config: EmotionConfig = emotionConfig()
+  ): TableEmotions[] {
+    const tables = [...groupConversations(segments).values()]
+      .map(conversation => analyzeConversationEmotions(conversation, segment => packs.get(segment), config));
+
+    logger.info(`Emotions detected at ${tables.length} table conversations, with ${tables.reduce((sum, table) => sum + table.spikes.length, 0)} spikes`);
+    return tables;
+  }
+}
+
+export const emotionAnalyzer = new EmotionAnalyzer();
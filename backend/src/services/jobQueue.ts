@@ -1,15 +1,32 @@
 import Bull from 'bull';
 import { logger } from '@/utils/logger';
+import { prisma } from '@/utils/prisma';
 import { AnalysisEngine } from './analysisEngine';
 import { BiasDetectionEngine } from './biasDetectionEngine';
+import { PolarizationAnalyzer } from './polarizationAnalyzer';
+import { SentimentAnalyzer } from './sentimentAnalyzer';
+import { EmotionAnalyzer } from './emotionAnalyzer';
 import { ReportGenerator } from './reportGenerator';
 import { WorldCafeService } from './worldCafeService';
+import { TranscriptSourceRegistry, transcriptSources } from './transcriptSources';
+import { speakerMappingService } from './speakerMappingService';
+import { roundService } from './roundService';
+import { dataQualityAnalyzer } from './dataQualityAnalyzer';
+import { vectorService } from './vectorService';
+import { createMockTranscriptionsForSession, isDemoMode } from '@/utils/mockTranscriptions';
+import { sentimentShift } from '@/utils/sentiment';
+import { combineDistributions } from '@/utils/emotions';
+import { round2 } from '@/utils/numbers';
+import { AttributedTranscripts, attributeSegments } from '@/utils/attribution';
+import { SpeakerIdentityMap } from '@/utils/speakerIdentity';
+import { TableEmotions, WorldCafeTranscription } from '@/types';
 
 // Job types
 export interface AnalysisJob {
   sessionId: string;
   analysisTypes?: string[];
   priority?: number;
+  tableIds?: number[]; // Tables to re-index, for embedding jobs; analysis always covers the whole session
 }
 
 export interface ReportJob {
@@ -22,6 +39,8 @@ export interface ReportJob {
 export interface SyncJob {
   sessionId?: string;
   force?: boolean;
+  tableIds?: number[];
+  analyze?: boolean; // Queue analysis after syncing even if nothing changed
 }
 
 export interface CleanupJob {
@@ -69,6 +88,9 @@ export interface CustomAnalysisJob {
   createdAt: string;
 }
 
+// Change in mood between the start and end of a conversation, on the -1 to 1 scale, that counts as a trend
+const SENTIMENT_TREND_SHIFT = 0.1;
+
 // Queue configuration
 const queueConfig = {
   redis: {
@@ -95,10 +117,14 @@ export class JobQueueManager {
   
   private analysisEngine: AnalysisEngine;
   private biasDetectionEngine: BiasDetectionEngine;
+  private polarizationAnalyzer: PolarizationAnalyzer;
+  private sentimentAnalyzer: SentimentAnalyzer;
+  private emotionAnalyzer: EmotionAnalyzer;
   private reportGenerator: ReportGenerator;
   private worldCafeService: WorldCafeService;
+  private transcriptSources: TranscriptSourceRegistry;
 
-  constructor() {
+  constructor(sources: TranscriptSourceRegistry = transcriptSources) {
     // Initialize queues
     this.analysisQueue = new Bull('analysis', queueConfig);
     this.reportQueue = new Bull('reports', queueConfig);
@@ -106,8 +132,12 @@ export class JobQueueManager {
     this.cleanupQueue = new Bull('cleanup', queueConfig);
 
     // Initialize services
-    this.analysisEngine = new AnalysisEngine();
+    this.transcriptSources = sources;
     this.biasDetectionEngine = new BiasDetectionEngine();
+    this.analysisEngine = new AnalysisEngine(sources, this.biasDetectionEngine);
+    this.polarizationAnalyzer = new PolarizationAnalyzer(sources);
+    this.sentimentAnalyzer = new SentimentAnalyzer();
+    this.emotionAnalyzer = new EmotionAnalyzer();
     this.reportGenerator = new ReportGenerator();
     this.worldCafeService = new WorldCafeService();
 
@@ -143,33 +173,38 @@ export class JobQueueManager {
       logger.info(`Processing bias detection for session ${sessionId}`);
       
       try {
-        // Get transcription data from our local API (which handles World Café integration)
-        let transcriptions;
+        // Read transcriptions from the session's source
+        let transcriptions: WorldCafeTranscription[] = [];
         try {
-          const response = await fetch(`http://localhost:3002/api/sessions/${sessionId}/transcriptions`);
-          if (response.ok) {
-            const data = await response.json();
-            transcriptions = data.data.transcriptions || [];
-          } else {
-            logger.warn(`Local transcription API returned ${response.status}, falling back to mock data`);
-            transcriptions = [];
-          }
+          const source = await this.transcriptSources.forSession(sessionId);
+          transcriptions = await source.getTranscriptions(sessionId);
         } catch (error) {
-          logger.error(`Failed to fetch transcriptions from local API:`, error);
-          transcriptions = [];
+          if (!isDemoMode()) throw error;
+          logger.error(`Failed to load transcriptions for session ${sessionId}:`, error);
         }
         
-        if (transcriptions.length === 0) {
-          logger.info(`No real transcriptions found for session ${sessionId}, using mock data for testing`);
-          const { getMockTranscriptions } = await import('@/utils/mockTranscriptions');
-          transcriptions = getMockTranscriptions();
+        // Sample data is only ever used when demo mode is switched on explicitly
+        const demoData = transcriptions.length === 0 && isDemoMode();
+        if (demoData) {
+          logger.warn(`DEMO_MODE: no transcriptions for session ${sessionId}, analyzing demo data instead`);
+          transcriptions = createMockTranscriptionsForSession(sessionId);
+        } else if (transcriptions.length === 0) {
+          throw new Error(`No transcriptions available for session ${sessionId}`);
         }
 
+        const identities = demoData ? new SpeakerIdentityMap() : await speakerMappingService.getIdentityMap(sessionId);
+        const rounds = demoData ? [] : await roundService.getSessionRounds(sessionId);
+        const session = await prisma.session.findUnique({ where: { worldCafeId: sessionId }, select: { language: true, tableCount: true } });
+
+        // Check the transcripts before anything is measured on them
+        const prepared = dataQualityAnalyzer.prepare(transcriptions, { tableCount: demoData ? undefined : session?.tableCount });
+        transcriptions = prepared.transcriptions;
+
         // Run speaking time analysis to get speaker dynamics
-        const speakingAnalysis = await this.analysisEngine.analyzeSpeakingTime(sessionId, transcriptions);
+        const speakingAnalysis = await this.analysisEngine.analyzeSpeakingTime(sessionId, transcriptions, { demoData, identities, rounds, dataQuality: prepared.assessment, language: session?.language });
         
         // Run bias detection
-        const biasDetections = await this.biasDetectionEngine.detectBias(sessionId, transcriptions, speakingAnalysis);
+        const biasDetections = await this.biasDetectionEngine.detectBias(sessionId, transcriptions, speakingAnalysis, { demoData, identities, rounds, language: session?.language });
         
         logger.info(`Bias detection completed for session ${sessionId}, found ${biasDetections.length} potential biases`);
         return { sessionId, biasDetections, analysisCount: biasDetections.length };
@@ -179,6 +214,15 @@ export class JobQueueManager {
       }
     });
 
+    // Embedding re-index processor
+    this.analysisQueue.process('reindex-embeddings', 1, async (job) => {
+      const { sessionId, tableIds } = job.data as AnalysisJob;
+      logger.info(`Re-indexing transcription embeddings for session ${sessionId}${tableIds ? ` tables ${tableIds.join(', ')}` : ''}`);
+
+      await vectorService.reindexTranscriptions(sessionId, tableIds);
+      return { sessionId, tableIds };
+    });
+
     // Report generation processor
     this.reportQueue.process('generate-report', 1, async (job) => {
       const { sessionId, reportType, format, userId } = job.data as ReportJob;
@@ -204,17 +248,37 @@ export class JobQueueManager {
 
     // Session sync processor
     this.syncQueue.process('sync-session', 5, async (job) => {
-      const { sessionId, force } = job.data as SyncJob;
+      const { sessionId, force, analyze } = job.data as SyncJob;
       logger.info(`Syncing session ${sessionId} ${force ? '(forced)' : ''}`);
       
       try {
         let result;
         if (sessionId) {
-          // Sync specific session
-          result = await this.worldCafeService.syncSession(sessionId);
+          // Sync specific session, then pull only new or changed transcriptions
+          const session = await this.worldCafeService.syncSession(sessionId, force);
+          const transcriptionSync = await this.worldCafeService.syncSessionTranscriptions(sessionId, { force });
+
+          // Re-analyse only when some table actually changed
+          if (transcriptionSync.changedTables.length > 0) {
+            await this.queueCompleteAnalysis(sessionId, 5);
+          } else if (analyze) {
+            await this.queueCompleteAnalysis(sessionId, 5);
+          }
+
+          result = {
+            sessionId: session.worldCafeId,
+            changedTables: transcriptionSync.changedTables,
+            added: transcriptionSync.added,
+            updated: transcriptionSync.updated,
+            unchanged: transcriptionSync.unchanged,
+            removed: transcriptionSync.removed,
+          };
         } else {
-          // Sync all sessions
-          result = await this.worldCafeService.syncAllSessions();
+          // Sync all sessions, re-analysing those where some table changed
+          result = await this.worldCafeService.syncAllSessions(force);
+          for (const changed of result.changedSessions) {
+            await this.queueCompleteAnalysis(changed.sessionId, 5);
+          }
         }
         
         logger.info(`Session sync completed: ${JSON.stringify(result)}`);
@@ -225,6 +289,53 @@ export class JobQueueManager {
       }
     });
 
+    // Transcription sync processor (push updates for specific tables)
+    this.syncQueue.process('sync-transcriptions', 5, async (job) => {
+      const { sessionId, tableIds } = job.data as SyncJob;
+      if (!sessionId) {
+        throw new Error('sync-transcriptions requires a sessionId');
+      }
+      logger.info(`Syncing transcriptions for session ${sessionId}${tableIds ? ` tables ${tableIds.join(', ')}` : ''}`);
+
+      try {
+        await this.ensureSessionSynced(sessionId);
+        const result = await this.worldCafeService.syncSessionTranscriptions(sessionId, { tableIds });
+
+        if (result.changedTables.length > 0) {
+          await this.queueCompleteAnalysis(sessionId, 3);
+        }
+
+        return {
+          sessionId,
+          changedTables: result.changedTables,
+          added: result.added,
+          updated: result.updated,
+          removed: result.removed,
+        };
+      } catch (error) {
+        logger.error(`Transcription sync failed for session ${sessionId}:`, error);
+        throw error;
+      }
+    });
+
+    // Participant sync processor
+    this.syncQueue.process('sync-participants', 5, async (job) => {
+      const { sessionId } = job.data as SyncJob;
+      if (!sessionId) {
+        throw new Error('sync-participants requires a sessionId');
+      }
+      logger.info(`Syncing participants for session ${sessionId}`);
+
+      try {
+        await this.ensureSessionSynced(sessionId);
+        const participants = await this.worldCafeService.syncSessionParticipants(sessionId);
+        return { sessionId, participantCount: participants.length };
+      } catch (error) {
+        logger.error(`Participant sync failed for session ${sessionId}:`, error);
+        throw error;
+      }
+    });
+
     // Session cleanup processor
     this.cleanupQueue.process('cleanup-sessions', 1, async (job) => {
       const { dryRun = false, olderThanDays = 30 } = job.data as CleanupJob;
@@ -314,17 +425,24 @@ export class JobQueueManager {
     });
   }
 
+  /**
+   * Make sure a session exists locally before syncing its children
+   */
+  private async ensureSessionSynced(sessionId: string): Promise<void> {
+    const existing = await prisma.session.findUnique({ where: { worldCafeId: sessionId } });
+    if (!existing) {
+      await this.worldCafeService.syncSession(sessionId);
+    }
+  }
+
   private async processAnalysisType(analysisType: string, config: any): Promise<any> {
     // Simulate different analysis types
     switch (analysisType) {
       case 'sentiment-deep-dive':
-        return {
-          sentimentScores: [0.7, 0.8, 0.6, 0.9, 0.5],
-          emotionDistribution: {
-            joy: 0.4, anger: 0.1, fear: 0.1, sadness: 0.2, surprise: 0.2
-          },
-          sentimentTrend: 'positive'
-        };
+        return this.sentimentDeepDive(config.filters?.session_ids || [], {
+          emotions: !!config.parameters?.emotion_detection,
+          rawData: !!config.output?.include_raw_data,
+        });
       
       case 'bias-detection':
         return {
@@ -337,12 +455,7 @@ export class JobQueueManager {
         };
         
       case 'polarization-mapping':
-        return {
-          polarizationIndex: 42,
-          consensusTopics: ['climate change urgency', 'need for action'],
-          divisiveTopics: ['specific policy measures', 'timeline for implementation'],
-          bridgeOpportunities: ['shared values', 'common goals']
-        };
+        return this.mapPolarization(config.filters?.session_ids || []);
         
       case 'participation-equity':
         return {
@@ -356,6 +469,126 @@ export class JobQueueManager {
     }
   }
 
+  /**
+   * Measure polarization in each session and summarize it across them
+   */
+  private async mapPolarization(sessionIds: string[]): Promise<any> {
+    const sessions = [];
+    for (const sessionId of sessionIds) {
+      const polarization = await this.polarizationAnalyzer.analyzeSession(sessionId);
+      const groups = polarization.tables.flatMap(table => table.opposingGroups);
+      sessions.push({
+        sessionId,
+        polarizationIndex: polarization.session?.index ?? null,
+        trend: polarization.session?.trend ?? 'stable',
+        divisiveTopics: [...new Set(groups.flatMap(group => group.disagreementTopics))],
+        bridgeBuilders: polarization.tables.flatMap(table => table.bridgeBuilders.map(bridge => ({
+          tableId: table.tableId,
+          participantName: bridge.participantName,
+          bridgingScore: bridge.bridgingScore,
+        }))),
+        tablesNeedingIntervention: polarization.tables.filter(table => table.interventionSuggested).map(table => table.tableId),
+      });
+    }
+
+    const measured = sessions.filter(session => session.polarizationIndex !== null);
+    return {
+      polarizationIndex: measured.length > 0
+        ? Math.round(measured.reduce((sum, session) => sum + session.polarizationIndex!, 0) / measured.length)
+        : null,
+      divisiveTopics: [...new Set(sessions.flatMap(session => session.divisiveTopics))],
+      sessions,
+    };
+  }
+
+  /**
+   * Score sentiment at every table of each session and say which way the mood moved,
+   * with the emotions expressed and where they spiked when emotion detection is on
+   */
+  private async sentimentDeepDive(sessionIds: string[], options: { emotions: boolean; rawData: boolean }): Promise<any> {
+    const trendOf = (shift: number) => shift >= SENTIMENT_TREND_SHIFT ? 'improving' : shift <= -SENTIMENT_TREND_SHIFT ? 'declining' : 'stable';
+
+    const sessions = [];
+    for (const sessionId of sessionIds) {
+      const attributed = await this.loadAttributedSession(sessionId);
+      const tables = this.sentimentAnalyzer.analyze(attributed);
+      // Both analyzers split the session into the same table conversations
+      const emotions = new Map<string, TableEmotions>();
+      if (options.emotions) {
+        for (const table of this.emotionAnalyzer.analyze(attributed)) {
+          emotions.set(`${table.tableId}:${table.roundNumber}`, table);
+        }
+      }
+      const scored = tables.filter(table => table.segments.length > 0);
+      const shift = scored.length > 0
+        ? scored.reduce((sum, table) => sum + sentimentShift(table.timeline), 0) / scored.length
+        : 0;
+      sessions.push({
+        sessionId,
+        averageSentiment: scored.length > 0
+          ? Math.round(scored.reduce((sum, table) => sum + table.average, 0) / scored.length * 100) / 100
+          : null,
+        sentimentShift: round2(shift),
+        sentimentTrend: trendOf(shift),
+        ...(options.emotions && {
+          emotionDistribution: combineDistributions([...emotions.values()]),
+          emotionWords: [...emotions.values()].reduce((sum, table) => sum + table.emotionWords, 0),
+        }),
+        tables: tables.map(table => {
+          const tableEmotions = emotions.get(`${table.tableId}:${table.roundNumber}`);
+          return {
+            tableId: table.tableId,
+            roundNumber: table.roundNumber,
+            averageSentiment: table.average,
+            scoredShare: table.scoredShare,
+            sentimentTrend: trendOf(sentimentShift(table.timeline)),
+            timeline: table.timeline,
+            ...(tableEmotions && {
+              emotionDistribution: tableEmotions.distribution,
+              dominantEmotion: tableEmotions.dominant,
+              emotionSpikes: tableEmotions.spikes,
+              ...(options.rawData && { emotionSegments: tableEmotions.segments }),
+            }),
+          };
+        }),
+      });
+    }
+
+    const measured = sessions.filter(session => session.averageSentiment !== null);
+    return {
+      sentimentScores: measured.map(session => session.averageSentiment),
+      sentimentTrend: trendOf(measured.length > 0
+        ? measured.reduce((sum, session) => sum + session.sentimentShift, 0) / measured.length
+        : 0),
+      ...(options.emotions && {
+        emotionDistribution: combineDistributions(sessions.map(session => ({
+          distribution: session.emotionDistribution!,
+          emotionWords: session.emotionWords!,
+        }))),
+      }),
+      sessions,
+    };
+  }
+
+  /**
+   * A session's transcripts, checked and attributed to tables, rounds and speakers,
+   * for analyses run outside a complete one
+   */
+  private async loadAttributedSession(sessionId: string): Promise<AttributedTranscripts> {
+    const source = await this.transcriptSources.forSession(sessionId);
+    const session = await source.ensureLocalSession(sessionId);
+
+    const [transcriptions, rounds, identities] = await Promise.all([
+      source.getTranscriptions(sessionId),
+      roundService.getSessionRounds(sessionId),
+      speakerMappingService.getIdentityMap(sessionId),
+    ]);
+
+    // Flagged segments are kept, down-weighted or dropped as in a complete analysis
+    const prepared = dataQualityAnalyzer.prepare(transcriptions, { tableCount: session.tableCount });
+    return attributeSegments(prepared.transcriptions, rounds, identities, session.language);
+  }
+
   private async generateVisualizations(visualizations: string[], analysisResults: any): Promise<any[]> {
     // Simulate visualization generation
     return visualizations.map(viz => ({
@@ -462,6 +695,20 @@ export class JobQueueManager {
     return jobs;
   }
 
+  /**
+   * Queue re-indexing of a session's transcription embeddings
+   */
+  async queueEmbeddingReindex(sessionId: string, tableIds?: number[]): Promise<Bull.Job> {
+    return this.analysisQueue.add('reindex-embeddings', {
+      sessionId,
+      analysisTypes: ['embeddings'],
+      tableIds
+    }, {
+      priority: 7,
+      delay: 0
+    });
+  }
+
   /**
    * Queue report generation job
    */
@@ -480,16 +727,42 @@ export class JobQueueManager {
   /**
    * Queue session sync job
    */
-  async queueSessionSync(sessionId?: string, force: boolean = false): Promise<Bull.Job> {
+  async queueSessionSync(sessionId?: string, force: boolean = false, analyze: boolean = false): Promise<Bull.Job> {
     return this.syncQueue.add('sync-session', {
       sessionId,
-      force
+      force,
+      analyze
     }, {
       priority: force ? 1 : 5,
       delay: 0
     });
   }
 
+  /**
+   * Queue transcription sync for specific tables of a session
+   */
+  async queueTranscriptionSync(sessionId: string, tableIds?: number[]): Promise<Bull.Job> {
+    return this.syncQueue.add('sync-transcriptions', {
+      sessionId,
+      tableIds
+    }, {
+      priority: 2,
+      delay: 0
+    });
+  }
+
+  /**
+   * Queue participant sync for a session
+   */
+  async queueParticipantSync(sessionId: string): Promise<Bull.Job> {
+    return this.syncQueue.add('sync-participants', {
+      sessionId
+    }, {
+      priority: 4,
+      delay: 0
+    });
+  }
+
   /**
    * Queue custom AI analysis
    */
@@ -0,0 +1,186 @@
+import { Prediction, Prisma } from '@prisma/client';
+import { prisma } from '@/utils/prisma';
+import { logger } from '@/utils/logger';
+import { CustomError } from '@/middleware/errorHandler';
+import { round2 } from '@/utils/numbers';
+import {
+  PREDICTOR_VERSION,
+  PredictionInputs,
+  extractPredictionFeatures,
+  predictOutcome,
+  scoreOutcome
+} from '@/utils/outcomePrediction';
+import {
+  ActualOutcome,
+  PredictionAccuracy,
+  PredictionFeatures,
+  SessionPrediction,
+  StoredSessionPrediction
+} from '@/types';
+
+// Predictions returned per session, newest first
+const PREDICTION_HISTORY = 20;
+
+export class OutcomePredictor {
+  /**
+   * Predict a session's outcome from a complete analysis and store the prediction
+   * with the features it was made from
+   */
+  async predict(worldCafeId: string, inputs: PredictionInputs): Promise<StoredSessionPrediction> {
+    const session = await prisma.session.findFirst({ where: { worldCafeId } });
+    if (!session) {
+      throw new Error(`Session ${worldCafeId} not found in database`);
+    }
+
+    const features = extractPredictionFeatures(inputs);
+    const prediction = predictOutcome(features, inputs);
+
+    const stored = await prisma.prediction.create({
+      data: {
+        sessionId: session.id,
+        predictionType: 'outcome',
+        predictionData: prediction as unknown as Prisma.InputJsonValue,
+        confidenceScore: prediction.confidenceScore,
+        modelVersion: PREDICTOR_VERSION,
+        inputFeatures: features as unknown as Prisma.InputJsonValue,
+      },
+    });
+
+    logger.info(`Predicted ${prediction.outcomeCategory} outcome for session ${worldCafeId} (confidence ${prediction.confidenceScore})`);
+    return toStoredPrediction(stored);
+  }
+
+  /**
+   * A session's outcome predictions, newest first
+   */
+  async getPredictions(worldCafeId: string): Promise<StoredSessionPrediction[]> {
+    const session = await prisma.session.findUnique({ where: { worldCafeId } });
+    if (!session) {
+      throw new CustomError(`Session ${worldCafeId} not found`, 404);
+    }
+
+    const predictions = await prisma.prediction.findMany({
+      where: { sessionId: session.id, predictionType: 'outcome' },
+      orderBy: { predictionTimestamp: 'desc' },
+      take: PREDICTION_HISTORY,
+    });
+    return predictions.map(toStoredPrediction);
+  }
+
+  /**
+   * Record what a session actually came to and score the latest outcome prediction
+   * each predictor version made for it, so a session analyzed many times still counts
+   * once. Recording again replaces the earlier outcome.
+   */
+  async recordOutcome(worldCafeId: string, actual: ActualOutcome): Promise<StoredSessionPrediction[]> {
+    const session = await prisma.session.findUnique({ where: { worldCafeId } });
+    if (!session) {
+      throw new CustomError(`Session ${worldCafeId} not found`, 404);
+    }
+
+    const predictions = await prisma.prediction.findMany({
+      where: { sessionId: session.id, predictionType: 'outcome' },
+      orderBy: { predictionTimestamp: 'desc' },
+    });
+    if (predictions.length === 0) {
+      throw new CustomError(`No outcome predictions for session ${worldCafeId} yet; run an analysis first`, 404);
+    }
+
+    const latest = new Map<string | null, Prediction>();
+    for (const prediction of predictions) {
+      if (!latest.has(prediction.modelVersion)) {
+        latest.set(prediction.modelVersion, prediction);
+      }
+    }
+
+    const validatedAt = new Date();
+    const validated = await prisma.$transaction(async (tx) => {
+      // Predictions scored by an earlier recording may no longer be the latest
+      await tx.prediction.updateMany({
+        where: { sessionId: session.id, predictionType: 'outcome', validatedAt: { not: null } },
+        data: { actualOutcome: Prisma.DbNull, accuracyScore: null, validatedAt: null },
+      });
+
+      const scored: Prediction[] = [];
+      for (const prediction of latest.values()) {
+        scored.push(await tx.prediction.update({
+          where: { id: prediction.id },
+          data: {
+            actualOutcome: actual as unknown as Prisma.InputJsonValue,
+            accuracyScore: scoreOutcome((prediction.predictionData as unknown as SessionPrediction).outcomeCategory, actual.outcomeCategory),
+            validatedAt,
+          },
+        }));
+      }
+      return scored;
+    });
+
+    logger.info(`Recorded ${actual.outcomeCategory} outcome for session ${worldCafeId} against ${validated.length} predictions`);
+    return validated.map(toStoredPrediction);
+  }
+
+  /**
+   * How each version of the predictor has done across the sessions whose outcome
+   * was recorded, newest version first. Each session counts once per version, by
+   * its latest scored prediction.
+   */
+  async getAccuracy(): Promise<PredictionAccuracy[]> {
+    const predictions = await prisma.prediction.findMany({
+      where: { predictionType: 'outcome' },
+      orderBy: { predictionTimestamp: 'desc' },
+      select: { sessionId: true, modelVersion: true, confidenceScore: true, accuracyScore: true },
+    });
+
+    const versions = new Map<string, {
+      predictions: number;
+      sessions: Set<string>;
+      validated: Map<string, { confidenceScore: number; accuracyScore: number }>;
+    }>();
+    for (const prediction of predictions) {
+      const modelVersion = prediction.modelVersion || 'unknown';
+      let version = versions.get(modelVersion);
+      if (!version) {
+        version = { predictions: 0, sessions: new Set(), validated: new Map() };
+        versions.set(modelVersion, version);
+      }
+      version.predictions++;
+      version.sessions.add(prediction.sessionId);
+      if (prediction.accuracyScore !== null && !version.validated.has(prediction.sessionId)) {
+        version.validated.set(prediction.sessionId, { confidenceScore: prediction.confidenceScore, accuracyScore: prediction.accuracyScore });
+      }
+    }
+
+    const mean = (values: number[]) => values.length > 0
+      ? round2(values.reduce((sum, value) => sum + value, 0) / values.length)
+      : null;
+    return [...versions.entries()]
+      .map(([modelVersion, version]) => {
+        const validated = [...version.validated.values()];
+        return {
+          modelVersion,
+          predictions: version.predictions,
+          sessions: version.sessions.size,
+          validated: validated.length,
+          accuracy: mean(validated.map(entry => entry.accuracyScore)),
+          hitRate: mean(validated.map(entry => entry.accuracyScore === 1 ? 1 : 0)),
+          meanConfidence: mean(validated.map(entry => entry.confidenceScore)),
+        };
+      })
+      .sort((a, b) => b.modelVersion.localeCompare(a.modelVersion, undefined, { numeric: true }));
+  }
+}
+
+function toStoredPrediction(prediction: Prediction): StoredSessionPrediction {
+  return {
+    ...(prediction.predictionData as unknown as SessionPrediction),
+    id: prediction.id,
+    modelVersion: prediction.modelVersion,
+    predictedAt: prediction.predictionTimestamp.toISOString(),
+    inputFeatures: prediction.inputFeatures as unknown as PredictionFeatures | null,
+    actualOutcome: prediction.actualOutcome as unknown as ActualOutcome | null,
+    accuracyScore: prediction.accuracyScore,
+    validatedAt: prediction.validatedAt?.toISOString() ?? null,
+  };
+}
+
+export const outcomePredictor = new OutcomePredictor();
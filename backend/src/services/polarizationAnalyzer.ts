@@ -0,0 +1,226 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/utils/prisma';
+import { logger } from '@/utils/logger';
+import { AttributedTranscripts, attributeSegments, groupTables } from '@/utils/attribution';
+import { resolveRoundWindows, roundAt } from '@/utils/rounds';
+import {
+  PolarizationConfig,
+  PolarizationSnapshot,
+  measurePolarization,
+  polarizationConfig,
+  polarizationTrend,
+  recommendIntervention,
+} from '@/utils/polarization';
+import { TranscriptSourceRegistry, transcriptSources } from './transcriptSources';
+import { SpeakerMappingService, speakerMappingService } from './speakerMappingService';
+import { RoundService, roundService } from './roundService';
+import { DataQualityAnalyzer, dataQualityAnalyzer } from './dataQualityAnalyzer';
+import { PolarizationAnalysis, PolarizationMeasurement, SessionRound, WorldCafeTranscription } from '@/types';
+import { round2 } from '@/utils/numbers';
+
+// Measurements kept per session and table, oldest dropped first, so very long
+// sessions stay within reason
+const MAX_MEASUREMENTS_PER_TABLE = 200;
+
+export class PolarizationAnalyzer {
+  constructor(
+    private sources: TranscriptSourceRegistry = transcriptSources,
+    private speakerMappings: SpeakerMappingService = speakerMappingService,
+    private rounds: RoundService = roundService,
+    private dataQuality: DataQualityAnalyzer = dataQualityAnalyzer
+  ) {}
+
+  /**
+   * Load a session's transcripts, rounds and speakers, measure polarization at every
+   * table over time and store the measurements
+   */
+  async analyzeSession(worldCafeId: string): Promise<PolarizationAnalysis> {
+    const source = await this.sources.forSession(worldCafeId);
+    const session = await source.ensureLocalSession(worldCafeId);
+
+    const [transcriptions, rounds, identities] = await Promise.all([
+      source.getTranscriptions(worldCafeId),
+      this.rounds.getSessionRounds(worldCafeId),
+      this.speakerMappings.getIdentityMap(worldCafeId),
+    ]);
+
+    // Flagged segments are kept, down-weighted or dropped as in a complete analysis,
+    // since the measurements stored here replace the ones it stored
+    const prepared = this.dataQuality.prepare(transcriptions, { tableCount: session.tableCount });
+    const analysis = this.analyze(
+      prepared.transcriptions,
+      rounds,
+      attributeSegments(prepared.transcriptions, rounds, identities, session.language)
+    );
+    await this.store(worldCafeId, analysis);
+    return analysis;
+  }
+
+  /**
+   * Measure each table every windowSeconds over the conversation leading up to that
+   * point, then the session as a whole from its tables, each with its trend and
+   * whether a host should step in
+   */
+  analyze(
+    transcriptions: WorldCafeTranscription[],
+    rounds: SessionRound[],
+    attributed: AttributedTranscripts,
+    config: PolarizationConfig = polarizationConfig()
+  ): PolarizationAnalysis {
+    const roundWindows = resolveRoundWindows(rounds);
+    const recordingStart = this.recordingStart(transcriptions);
+
+    const tables = groupTables(attributed.segments);
+    const packs = attributed.packs;
+
+    const windowSeconds = Math.max(1, config.windowSeconds);
+    const sessionEnd = attributed.segments.reduce((end, segment) => Math.max(end, segment.end), 0);
+
+    const measurement = (
+      snapshot: PolarizationSnapshot,
+      history: { windowEnd: number; index: number }[],
+      windowStart: number,
+      windowEnd: number,
+      tableId?: number
+    ): PolarizationMeasurement => {
+      const trend = polarizationTrend([...history, { windowEnd, index: snapshot.index }]);
+      const intervention = recommendIntervention(snapshot, trend, config);
+      return {
+        tableId,
+        roundNumber: roundAt(roundWindows, Math.max(windowStart, windowEnd - 1))?.roundNumber,
+        windowStart: Math.round(windowStart),
+        windowEnd: Math.round(windowEnd),
+        measuredAt: new Date(recordingStart + windowEnd * 1000).toISOString(),
+        index: snapshot.index,
+        trend: trend.trend,
+        velocity: trend.velocity,
+        disagreementShare: snapshot.disagreementShare,
+        stanceDivergence: snapshot.stanceDivergence,
+        topicContention: snapshot.topicContention,
+        echoChambersDetected: snapshot.echoChambersDetected,
+        opposingGroups: snapshot.opposingGroups,
+        bridgeBuilders: snapshot.bridgeBuilders,
+        ...intervention,
+        interventionTiming: intervention.interventionSuggested ? Math.round(windowEnd) : undefined,
+      };
+    };
+
+    const timeline: PolarizationMeasurement[] = [];
+    const tableHistory = new Map<number, PolarizationMeasurement[]>();
+    const sessionHistory: PolarizationMeasurement[] = [];
+
+    for (let windowEnd = windowSeconds; windowEnd - windowSeconds < sessionEnd; windowEnd += windowSeconds) {
+      const end = Math.min(windowEnd, sessionEnd);
+      // Never look back past the start of the round, since the table's people changed then
+      const roundStart = roundAt(roundWindows, Math.max(0, end - 1))?.startSeconds ?? 0;
+      const windowStart = Math.max(0, end - config.horizonSeconds, roundStart);
+
+      const atWindow: { snapshot: PolarizationSnapshot; measurement: PolarizationMeasurement }[] = [];
+      for (const [tableId, segments] of tables) {
+        const recent = segments.filter(segment => segment.start >= windowStart && segment.start < end);
+        if (recent.length === 0) continue;
+
+        const history = tableHistory.get(tableId) || [];
+        const snapshot = measurePolarization(recent, segment => packs.get(segment));
+        const entry = measurement(snapshot, history.map(m => ({ windowEnd: m.windowEnd, index: m.index })), windowStart, end, tableId);
+        tableHistory.set(tableId, [...history, entry]);
+        atWindow.push({ snapshot, measurement: entry });
+      }
+      if (atWindow.length === 0) continue;
+
+      // The session is its tables weighted by how much was said at each
+      const talk = atWindow.reduce((sum, { snapshot }) => sum + snapshot.talkSeconds, 0);
+      const weighted = (value: (snapshot: PolarizationSnapshot) => number) => talk > 0
+        ? atWindow.reduce((sum, { snapshot }) => sum + value(snapshot) * snapshot.talkSeconds, 0) / talk
+        : 0;
+      const hottest = atWindow.reduce((a, b) => b.snapshot.index > a.snapshot.index ? b : a).snapshot;
+      const sessionSnapshot: PolarizationSnapshot = {
+        index: Math.round(weighted(snapshot => snapshot.index)),
+        disagreementShare: round2(weighted(snapshot => snapshot.disagreementShare)),
+        stanceDivergence: round2(weighted(snapshot => snapshot.stanceDivergence)),
+        topicContention: round2(weighted(snapshot => snapshot.topicContention)),
+        contentiousTopic: hottest.contentiousTopic,
+        echoChambersDetected: atWindow.some(({ snapshot }) => snapshot.echoChambersDetected),
+        opposingGroups: [],
+        bridgeBuilders: [],
+        talkSeconds: talk,
+      };
+      const sessionEntry = measurement(
+        sessionSnapshot,
+        sessionHistory.map(m => ({ windowEnd: m.windowEnd, index: m.index })),
+        windowStart,
+        end
+      );
+      sessionHistory.push(sessionEntry);
+
+      timeline.push(...atWindow.map(({ measurement }) => measurement), sessionEntry);
+    }
+
+    const latestTables = [...tableHistory.values()].map(history => history[history.length - 1]);
+    logger.info(`Polarization measured ${timeline.length} times across ${tableHistory.size} tables`);
+
+    return {
+      session: sessionHistory[sessionHistory.length - 1] ?? null,
+      tables: latestTables.sort((a, b) => b.index - a.index),
+      timeline,
+    };
+  }
+
+  /**
+   * Replace a session's stored polarization measurements. An analysis that measured
+   * nothing, such as one run before any transcripts arrived, keeps the stored ones.
+   */
+  async store(worldCafeId: string, analysis: PolarizationAnalysis): Promise<void> {
+    if (analysis.timeline.length === 0) {
+      logger.info(`No polarization measured for session ${worldCafeId}; keeping stored measurements`);
+      return;
+    }
+
+    const session = await prisma.session.findFirst({ where: { worldCafeId } });
+    if (!session) {
+      throw new Error(`Session ${worldCafeId} not found in database`);
+    }
+
+    const perTable = new Map<number | undefined, PolarizationMeasurement[]>();
+    for (const entry of analysis.timeline) {
+      perTable.set(entry.tableId, [...(perTable.get(entry.tableId) || []), entry]);
+    }
+    const kept = [...perTable.values()].flatMap(entries => entries.slice(-MAX_MEASUREMENTS_PER_TABLE));
+
+    await prisma.$transaction([
+      prisma.polarizationMetrics.deleteMany({ where: { sessionId: session.id } }),
+      prisma.polarizationMetrics.createMany({
+        data: kept.map(entry => ({
+          sessionId: session.id,
+          tableId: entry.tableId ?? null,
+          roundNumber: entry.roundNumber ?? null,
+          measurementTime: new Date(entry.measuredAt),
+          windowStartSeconds: entry.windowStart,
+          windowEndSeconds: entry.windowEnd,
+          polarizationIndex: entry.index,
+          disagreementShare: entry.disagreementShare,
+          topicDivergence: entry.stanceDivergence,
+          topicContention: entry.topicContention,
+          echoChamberDetected: entry.echoChambersDetected,
+          bridgeBuilders: entry.bridgeBuilders.map(bridge => bridge.participantId),
+          opposingGroups: entry.opposingGroups as unknown as Prisma.InputJsonValue,
+          trendDirection: entry.trend,
+          trendVelocity: entry.velocity,
+          interventionRecommended: entry.interventionSuggested,
+          interventionType: entry.interventionType ?? null,
+          interventionReason: entry.interventionReason ?? null,
+        })),
+      }),
+    ]);
+
+    logger.info(`Stored ${kept.length} polarization measurements for session ${worldCafeId}`);
+  }
+
+  // Recording seconds count from the earliest transcript; without one, from now
+  private recordingStart(transcriptions: WorldCafeTranscription[]): number {
+    const starts = transcriptions.map(t => Date.parse(t.created_at)).filter(time => !isNaN(time));
+    return starts.length > 0 ? Math.min(...starts) : Date.now();
+  }
+}
+
+export const polarizationAnalyzer = new PolarizationAnalyzer();
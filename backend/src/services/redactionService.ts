@@ -0,0 +1,259 @@
+import { createHash } from 'crypto';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/utils/prisma';
+import { logger } from '@/utils/logger';
+import { NameMatcher, compileRoster, detectPii } from '@/utils/pii';
+import { PiiCategory, PrivacySettings, RedactionContext } from '@/types';
+
+// Mappings for text that belongs to no session, such as global search queries
+export const GLOBAL_SCOPE = 'global';
+
+const PRIVACY_SETTINGS_KEY = 'privacy';
+
+// Redaction is on unless someone turns it off
+const DEFAULT_PRIVACY_SETTINGS: PrivacySettings = {
+  anonymizeData: true,
+};
+
+const PLACEHOLDER_LABELS: Record<PiiCategory, string> = {
+  person: 'PERSON',
+  email: 'EMAIL',
+  phone: 'PHONE',
+  address: 'ADDRESS',
+};
+
+const PLACEHOLDER = /\[(?:PERSON|EMAIL|PHONE|ADDRESS)_\d+\]/g;
+
+// Attempts at numbering a new placeholder when concurrent redactions race for the same number
+const PLACEHOLDER_ATTEMPTS = 3;
+
+/**
+ * Swaps personal data for stable placeholders before text leaves the service:
+ * embeddings, LLM prompts and exported reports. Works offline from patterns and
+ * the session's participant roster. A placeholder always stands for the same value
+ * within a session, and only authorised users can map it back.
+ */
+export class RedactionService {
+  /**
+   * Whether outbound text is redacted. PII_REDACTION=on|off overrides the
+   * anonymizeData setting, for deployments that must not depend on the UI.
+   */
+  async isEnabled(): Promise<boolean> {
+    const override = process.env.PII_REDACTION?.toLowerCase();
+    if (override === 'on') return true;
+    if (override === 'off') return false;
+
+    return (await this.getSettings()).anonymizeData;
+  }
+
+  async getSettings(): Promise<PrivacySettings> {
+    const setting = await prisma.appSetting.findUnique({ where: { key: PRIVACY_SETTINGS_KEY } });
+    return { ...DEFAULT_PRIVACY_SETTINGS, ...(setting?.value as Partial<PrivacySettings> | null) };
+  }
+
+  async updateSettings(update: Partial<PrivacySettings>): Promise<PrivacySettings> {
+    const settings = { ...await this.getSettings(), ...update };
+
+    await prisma.appSetting.upsert({
+      where: { key: PRIVACY_SETTINGS_KEY },
+      create: { key: PRIVACY_SETTINGS_KEY, value: settings as unknown as Prisma.InputJsonValue },
+      update: { value: settings as unknown as Prisma.InputJsonValue },
+    });
+
+    logger.info(`Privacy settings updated: anonymizeData=${settings.anonymizeData}`);
+    return settings;
+  }
+
+  async redactText(text: string, context: RedactionContext): Promise<string> {
+    const [redacted] = await this.redactTexts([text], context);
+    return redacted;
+  }
+
+  /**
+   * Redact several texts bound for the same place, logged as one redaction
+   */
+  async redactTexts(texts: string[], context: RedactionContext): Promise<string[]> {
+    if (!await this.isEnabled()) {
+      return texts;
+    }
+
+    const scope = context.scope || GLOBAL_SCOPE;
+    const names = await this.loadRoster(scope);
+    const placeholders = new Map<string, { category: PiiCategory; placeholder: string }>();
+
+    const redacted: string[] = [];
+    for (const text of texts) {
+      let result = '';
+      let cursor = 0;
+      for (const match of detectPii(text, names)) {
+        let entry = placeholders.get(match.key);
+        if (!entry) {
+          entry = { category: match.category, placeholder: await this.placeholderFor(scope, match.category, match.key, match.value) };
+          placeholders.set(match.key, entry);
+        }
+        result += text.slice(cursor, match.start) + entry.placeholder;
+        cursor = match.end;
+      }
+      redacted.push(result + text.slice(cursor));
+    }
+
+    if (placeholders.size > 0) {
+      await this.logRedactions(scope, context, [...placeholders.values()]);
+    }
+    return redacted;
+  }
+
+  /**
+   * Redact every string inside a value, such as the data behind a report.
+   * Dates and other class instances are left as they are.
+   */
+  async redactValue<T>(value: T, context: RedactionContext): Promise<T> {
+    const strings: string[] = [];
+    collectStrings(value, strings);
+
+    const redacted = await this.redactTexts(strings, context);
+    let next = 0;
+    return replaceStrings(value, () => redacted[next++]) as T;
+  }
+
+  /**
+   * Put the original values back into text containing placeholders, e.g. an LLM
+   * answer. Only for callers authorised to see personal data.
+   */
+  async restore(text: string, scope: string): Promise<string> {
+    const found = [...new Set(text.match(PLACEHOLDER) || [])];
+    if (found.length === 0) {
+      return text;
+    }
+
+    const mappings = await prisma.redactionMapping.findMany({
+      where: { scope, placeholder: { in: found } },
+    });
+    const originals = new Map(mappings.map(mapping => [mapping.placeholder, mapping.originalValue]));
+
+    return text.replace(PLACEHOLDER, placeholder => originals.get(placeholder) ?? placeholder);
+  }
+
+  /**
+   * Every placeholder used in a scope and what it stands for
+   */
+  async getMappings(scope: string) {
+    return prisma.redactionMapping.findMany({
+      where: { scope },
+      select: { category: true, placeholder: true, originalValue: true, createdAt: true },
+      orderBy: [{ category: 'asc' }, { createdAt: 'asc' }],
+    });
+  }
+
+  /**
+   * Which redactions were applied to text leaving the service, newest first
+   */
+  async getLog(scope: string, limit: number = 100) {
+    return prisma.redactionLog.findMany({
+      where: { scope },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+  }
+
+  /**
+   * Name patterns for the session's participants; none outside a session
+   */
+  private async loadRoster(scope: string): Promise<NameMatcher[]> {
+    if (scope === GLOBAL_SCOPE) {
+      return [];
+    }
+
+    const session = await prisma.session.findUnique({
+      where: { worldCafeId: scope },
+      include: { participants: { select: { id: true, name: true } } },
+    });
+    return compileRoster(session?.participants || []);
+  }
+
+  /**
+   * The placeholder a value has in this scope, numbering a new one per category
+   * the first time the value is seen
+   */
+  private async placeholderFor(scope: string, category: PiiCategory, key: string, value: string): Promise<string> {
+    const valueHash = createHash('sha256').update(key).digest('hex');
+
+    for (let attempt = 0; attempt < PLACEHOLDER_ATTEMPTS; attempt++) {
+      const existing = await prisma.redactionMapping.findUnique({
+        where: { scope_valueHash: { scope, valueHash } },
+      });
+      if (existing) {
+        return existing.placeholder;
+      }
+
+      const count = await prisma.redactionMapping.count({ where: { scope, category } });
+      const placeholder = `[${PLACEHOLDER_LABELS[category]}_${count + 1}]`;
+      try {
+        await prisma.redactionMapping.create({
+          data: { scope, category, placeholder, valueHash, originalValue: value },
+        });
+        return placeholder;
+      } catch (error) {
+        // Another redaction took this value or this number first; look again
+        if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) {
+          throw error;
+        }
+      }
+    }
+
+    throw new Error(`Could not assign a ${category} placeholder in scope ${scope}`);
+  }
+
+  private async logRedactions(
+    scope: string,
+    context: RedactionContext,
+    applied: { category: PiiCategory; placeholder: string }[]
+  ): Promise<void> {
+    const counts: Partial<Record<PiiCategory, number>> = {};
+    for (const { category } of applied) {
+      counts[category] = (counts[category] || 0) + 1;
+    }
+
+    await prisma.redactionLog.create({
+      data: {
+        scope,
+        purpose: context.purpose,
+        counts,
+        placeholders: applied.map(entry => entry.placeholder),
+      },
+    });
+
+    logger.info(`Redacted ${applied.length} values for ${context.purpose} in scope ${scope}: ${JSON.stringify(counts)}`);
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+function collectStrings(value: unknown, strings: string[]): void {
+  if (typeof value === 'string') {
+    strings.push(value);
+  } else if (Array.isArray(value)) {
+    value.forEach(item => collectStrings(item, strings));
+  } else if (isPlainObject(value)) {
+    Object.values(value).forEach(item => collectStrings(item, strings));
+  }
+}
+
+// Walks the value in the same order as collectStrings
+function replaceStrings(value: unknown, next: () => string): unknown {
+  if (typeof value === 'string') {
+    return next();
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => replaceStrings(item, next));
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, replaceStrings(item, next)]));
+  }
+  return value;
+}
+
+// Export singleton instance
+export const redactionService = new RedactionService();
@@ -4,6 +4,7 @@ import * as path from 'path';
 import * as handlebars from 'handlebars';
 import { logger } from '@/utils/logger';
 import { prisma } from '@/utils/prisma';
+import { redactionService } from './redactionService';
 import {
   SpeakingTimeAnalysis,
   BiasDetection,
@@ -84,8 +85,11 @@ export class ReportGenerator {
     logger.info(`Generating ${reportConfig.type} report for session ${sessionId}`);
 
     try {
-      // Get session data
-      const sessionData = await this.getSessionReportData(sessionId);
+      // Get session data, with personal data swapped for placeholders when anonymization is on
+      const sessionData = await redactionService.redactValue(await this.getSessionReportData(sessionId), {
+        scope: sessionId,
+        purpose: reportConfig.format === 'json' ? 'export' : 'report',
+      });
       
       // Generate report based on format
       let filePath: string;
@@ -142,9 +146,17 @@ export class ReportGenerator {
           orderBy: { createdAt: 'desc' },
           take: 1
         },
-        speakerDynamics: true,
+        speakerDynamics: {
+          include: { participant: true }
+        },
         biasDetections: true,
-        polarizationMetrics: true
+        polarizationMetrics: {
+          where: { tableId: null },
+          orderBy: { measurementTime: 'asc' }
+        },
+        rounds: {
+          orderBy: { roundNumber: 'asc' }
+        }
       }
     });
 
@@ -152,11 +164,27 @@ export class ReportGenerator {
       throw new Error(`Session ${sessionId} not found`);
     }
 
+    // Name the mapped participants behind each bias detection
+    const participantNames = new Map(session.participants.map(participant => [participant.id, participant.name]));
+    const biasDetections = session.biasDetections.map(bias => ({
+      ...bias,
+      participantNames: bias.participantsInvolved
+        .map(id => participantNames.get(id))
+        .filter((name): name is string => Boolean(name))
+    }));
+
     return {
       session,
       analysis: session.aiAnalyses[0],
       speakerDynamics: session.speakerDynamics,
-      biasDetections: session.biasDetections,
+      biasDetections,
+      roundBreakdown: this.buildRoundBreakdown(session.rounds, session.speakerDynamics, biasDetections),
+      crossPollination: session.aiAnalyses[0]?.crossPollination ?? null,
+      dataQuality: session.aiAnalyses[0]?.dataQuality ?? null,
+      pauseAnalysis: session.aiAnalyses[0]?.pauseAnalysis ?? null,
+      sentimentJourney: session.aiAnalyses[0]?.sentimentJourney ?? null,
+      // The AI conversation analysis stores its reasoning steps in this column instead
+      conversationFlow: Array.isArray(session.aiAnalyses[0]?.conversationFlow) ? session.aiAnalyses[0].conversationFlow : null,
       polarizationMetrics: session.polarizationMetrics,
       generatedAt: new Date().toISOString(),
       reportMetadata: {
@@ -252,6 +280,16 @@ export class ReportGenerator {
     const templateData = {
       ...data,
       config,
+      // Idea travel and mixing are for whoever plans the next session's rounds
+      showCrossPollination: config.type === 'facilitator' && Boolean(data.crossPollination),
+      crossPollinationSummary: this.summarizeCrossPollination(data.crossPollination),
+      dataQualitySummary: this.summarizeDataQuality(data.dataQuality),
+      // Long silences are for the table hosts
+      showSilences: config.type === 'facilitator' && Boolean(data.pauseAnalysis),
+      silenceSummary: this.summarizeSilences(data.pauseAnalysis),
+      // The topic timeline is for table hosts and whoever plans the next session's questions
+      showTopicTimeline: config.type === 'facilitator' && Boolean(data.conversationFlow),
+      topicTimeline: this.summarizeConversationFlow(data.conversationFlow),
       charts: this.generateChartData(data),
       insights: this.generateInsights(data),
       recommendations: this.generateRecommendations(data)
@@ -265,22 +303,172 @@ export class ReportGenerator {
    */
   private generateChartData(data: any): any {
     const speakingData = data.speakerDynamics.map((speaker: any, index: number) => ({
-      name: `Speaker ${speaker.speakerIndex}`,
+      name: this.speakerName(speaker),
+      participantId: speaker.participantId,
+      tableId: speaker.tableId,
       speakingTime: Math.round(speaker.speakingTimeSeconds),
       percentage: Math.round((speaker.speakingTimeSeconds / data.speakerDynamics.reduce((sum: number, s: any) => sum + s.speakingTimeSeconds, 0)) * 100),
       turnsCount: speaker.turnCount,
       wordsPerMinute: Math.round(speaker.wordsPerMinute || 0),
       dominanceIndex: Math.round(speaker.dominanceIndex * 100) / 100,
-      engagementLevel: speaker.engagementLevel
+      engagementLevel: speaker.engagementLevel,
+      pauseCount: speaker.pauseCount,
+      fillerWordCount: speaker.fillerWordCount,
+      sentiment: speaker.sentimentAverage ?? null
     }));
 
     return {
       speakingDistribution: speakingData,
       biasesSeverity: this.getBiasChartData(data.biasDetections),
-      engagementLevels: this.getEngagementChartData(speakingData)
+      engagementLevels: this.getEngagementChartData(speakingData),
+      sentimentTimeline: this.getSentimentChartData(data.sentimentJourney)
+    };
+  }
+
+  /**
+   * Percentages and the first idea transfers for the report, from a stored cross-pollination analysis
+   */
+  private summarizeCrossPollination(crossPollination: any): any {
+    if (!crossPollination) return null;
+
+    return {
+      mixingPercent: Math.round(crossPollination.mixing.sessionScore * 100),
+      ideaTravelPercent: Math.round(crossPollination.summary.ideaTravelRate * 100),
+      moves: crossPollination.summary.moves,
+      movesWithTransfer: crossPollination.summary.movesWithTransfer,
+      transfers: crossPollination.ideaTransfers.slice(0, 10),
+      participants: [...crossPollination.mixing.participants]
+        .sort((a: any, b: any) => a.mixingScore - b.mixingScore)
+        .map((participant: any) => ({ ...participant, mixingPercent: Math.round(participant.mixingScore * 100) })),
+    };
+  }
+
+  /**
+   * Scores as percentages and the tables worth a second look, from a stored data-quality assessment
+   */
+  private summarizeDataQuality(dataQuality: any): any {
+    if (!dataQuality) return null;
+
+    return {
+      scorePercent: Math.round(dataQuality.score * 100),
+      low: dataQuality.score < 0.6,
+      handling: dataQuality.handling,
+      excludedSegments: dataQuality.excludedSegments,
+      downweightedSegments: dataQuality.downweightedSegments,
+      tables: dataQuality.tables
+        .filter((table: any) => table.anomalies.length > 0)
+        .map((table: any) => ({
+          tableId: table.tableId,
+          scorePercent: Math.round(table.score * 100),
+          anomalyCount: table.anomalies.length,
+          flaggedSegments: table.flaggedSegments,
+          segmentCount: table.segmentCount,
+        })),
+      warnings: dataQuality.warnings.slice(0, 10),
+    };
+  }
+
+  /**
+   * Tables by how much of their conversation was silence, with their long silences
+   * as clock times, from a stored pause analysis
+   */
+  private summarizeSilences(pauseAnalysis: any): any {
+    if (!pauseAnalysis) return null;
+
+    return {
+      tables: [...pauseAnalysis]
+        .sort((a: any, b: any) => b.silenceShare - a.silenceShare)
+        .map((table: any) => ({
+          tableId: table.tableId,
+          roundNumber: table.roundNumber,
+          silencePercent: Math.round(table.silenceShare * 100),
+          averageGapSeconds: table.averageGapSeconds,
+          fillerWords: table.fillerWords,
+          longSilences: table.longSilences.map((silence: any) => ({
+            ...silence,
+            at: this.clock(silence.start),
+            seconds: Math.round(silence.seconds),
+          })),
+        })),
+      longSilenceCount: pauseAnalysis.reduce((sum: number, table: any) => sum + table.longSilences.length, 0),
     };
   }
 
+  /**
+   * Each table's topics and turning points as clock times, from a stored conversation flow
+   */
+  private summarizeConversationFlow(conversationFlow: any): any {
+    if (!conversationFlow) return null;
+
+    return conversationFlow.map((table: any) => ({
+      tableId: table.tableId,
+      flowType: table.flowType,
+      transitionPercent: Math.round(table.transitionQuality * 100),
+      progressPercent: Math.round(table.progressScore * 100),
+      topics: table.topicProgression.map((topic: any) => ({
+        ...topic,
+        from: this.clock(topic.startTime),
+        to: this.clock(topic.endTime),
+        engagementPercent: Math.round(topic.engagementLevel * 100),
+      })),
+      turningPoints: table.turningPoints.map((point: any) => ({ ...point, at: this.clock(point.timestamp) })),
+    }));
+  }
+
+  // Recording seconds as m:ss
+  private clock(seconds: number): string {
+    const minutes = Math.floor(seconds / 60);
+    return `${minutes}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
+  }
+
+  /**
+   * Speaking time and bias counts per table within each round, to show how
+   * dynamics change as groups remix. Empty when the session has no rounds.
+   */
+  private buildRoundBreakdown(rounds: any[], speakerDynamics: any[], biasDetections: any[]): any[] {
+    if (rounds.length === 0) return [];
+
+    return rounds.map(round => {
+      const speakers = speakerDynamics.filter(speaker => speaker.roundNumber === round.roundNumber);
+      const tableIds = [...new Set(speakers.map(speaker => speaker.tableId))].sort((a, b) => a - b);
+
+      return {
+        roundNumber: round.roundNumber,
+        kind: round.kind,
+        question: round.question,
+        tables: tableIds.map(tableId => {
+          const tableSpeakers = speakers.filter(speaker => speaker.tableId === tableId);
+          const tableSeconds = tableSpeakers.reduce((sum, speaker) => sum + speaker.speakingTimeSeconds, 0);
+
+          return {
+            tableId,
+            speakers: tableSpeakers
+              .sort((a, b) => b.speakingTimeSeconds - a.speakingTimeSeconds)
+              .map(speaker => ({
+                name: this.speakerName(speaker),
+                participantId: speaker.participantId,
+                speakingTime: Math.round(speaker.speakingTimeSeconds),
+                percentage: tableSeconds > 0 ? Math.round((speaker.speakingTimeSeconds / tableSeconds) * 100) : 0,
+                turnsCount: speaker.turnCount,
+                dominanceIndex: Math.round((speaker.dominanceIndex || 0) * 100) / 100
+              })),
+            biasCount: biasDetections.filter(bias => bias.roundNumber === round.roundNumber && bias.tableId === tableId).length
+          };
+        })
+      };
+    });
+  }
+
+  /**
+   * Display name for a speaker: the mapped participant, otherwise the diarized speaker at their table
+   */
+  private speakerName(speaker: any): string {
+    if (speaker.participant?.name) return speaker.participant.name;
+    return speaker.tableId != null
+      ? `Speaker ${speaker.speakerIndex} (Table ${speaker.tableId})`
+      : `Speaker ${speaker.speakerIndex}`;
+  }
+
   /**
    * Generate bias chart data
    */
@@ -305,6 +493,32 @@ export class ReportGenerator {
     return engagementCount;
   }
 
+  /**
+   * Each table's smoothed sentiment as an SVG polyline, 300 wide with neutral across
+   * the middle of its 60 height, from a stored sentiment journey
+   */
+  private getSentimentChartData(sentimentJourney: any): any[] {
+    if (!sentimentJourney) return [];
+
+    return sentimentJourney
+      .filter((table: any) => table.timeline.length > 0)
+      .map((table: any) => {
+        const first = table.timeline[0].timestamp;
+        const span = table.timeline[table.timeline.length - 1].timestamp - first;
+        const points = table.timeline.map((point: any) => {
+          const x = span > 0 ? ((point.timestamp - first) / span) * 300 : 150;
+          return `${Math.round(x)},${Math.round(30 - point.sentiment * 28)}`;
+        });
+        return {
+          tableId: table.tableId,
+          roundNumber: table.roundNumber,
+          average: table.average,
+          mood: table.average >= 0.05 ? 'positive' : table.average <= -0.05 ? 'negative' : 'neutral',
+          points: points.join(' '),
+        };
+      });
+  }
+
   /**
    * Generate insights from analysis data
    */
@@ -321,7 +535,7 @@ export class ReportGenerator {
       );
       
       if (dominantSpeaker.speakingTimeSeconds > avgSpeakingTime * 2) {
-        insights.push(`Speaker ${dominantSpeaker.speakerIndex} dominates conversation with ${Math.round(dominantSpeaker.speakingTimeSeconds)} seconds (${Math.round((dominantSpeaker.speakingTimeSeconds / speakers.reduce((sum: number, s: any) => sum + s.speakingTimeSeconds, 0)) * 100)}% of total time)`);
+        insights.push(`${this.speakerName(dominantSpeaker)} dominates conversation with ${Math.round(dominantSpeaker.speakingTimeSeconds)} seconds (${Math.round((dominantSpeaker.speakingTimeSeconds / speakers.reduce((sum: number, s: any) => sum + s.speakingTimeSeconds, 0)) * 100)}% of total time)`);
       }
     }
 
@@ -339,6 +553,20 @@ export class ReportGenerator {
       insights.push(`${lowEngagement.length} participants show low engagement levels, suggesting potential barriers to participation`);
     }
 
+    // Silence insights
+    const silentTables = (data.pauseAnalysis || []).filter((table: any) => table.longSilences.length > 0);
+    if (silentTables.length > 0) {
+      const tableIds = [...new Set(silentTables.map((table: any) => table.tableId))].join(', ');
+      insights.push(`Table(s) ${tableIds} fell silent for long stretches; hosts there may need prompts to keep the conversation going`);
+    }
+
+    // Flow insights
+    const circularTables = (data.conversationFlow || []).filter((table: any) => table.flowType === 'circular');
+    if (circularTables.length > 0) {
+      const tableIds = circularTables.map((table: any) => table.tableId).join(', ');
+      insights.push(`Table(s) ${tableIds} kept coming back to the same topics without settling them`);
+    }
+
     return insights;
   }
 
@@ -432,6 +660,29 @@ export class ReportGenerator {
         </div>
     </div>
 
+    {{#if dataQualitySummary}}
+    <div class="section">
+        <h2 class="section-title">Data Quality</h2>
+        <div class="{{#if dataQualitySummary.low}}bias-alert{{else}}metric-card{{/if}}">
+            <div class="metric-title">Transcript Quality Score</div>
+            <div class="metric-value">{{dataQualitySummary.scorePercent}}%</div>
+            {{#if dataQualitySummary.low}}<div>Metrics in this report rest on unreliable transcripts; treat them with caution.</div>{{/if}}
+            {{#if dataQualitySummary.excludedSegments}}<div>{{dataQualitySummary.excludedSegments}} flagged segment(s) were left out of the analysis.</div>{{/if}}
+            {{#if dataQualitySummary.downweightedSegments}}<div>{{dataQualitySummary.downweightedSegments}} flagged segment(s) counted for less in the analysis.</div>{{/if}}
+        </div>
+        {{#each dataQualitySummary.tables}}
+        <div class="speaker-row">
+            <span><strong>Table {{tableId}}</strong></span>
+            <span>{{scorePercent}}%</span>
+            <span>{{flaggedSegments}} of {{segmentCount}} segments flagged</span>
+        </div>
+        {{/each}}
+        {{#each dataQualitySummary.warnings}}
+        <div class="insight">{{this}}</div>
+        {{/each}}
+    </div>
+    {{/if}}
+
     <div class="section">
         <h2 class="section-title">Speaking Time Analysis</h2>
         {{#each charts.speakingDistribution}}
@@ -440,10 +691,103 @@ export class ReportGenerator {
             <span>{{speakingTime}}s ({{percentage}}%)</span>
             <span>{{turnsCount}} turns</span>
             <span>{{wordsPerMinute}} wpm</span>
+            <span>{{pauseCount}} pauses, {{fillerWordCount}} fillers</span>
             <span>{{engagementLevel}} engagement</span>
+            {{#unless (eq sentiment null)}}<span>sentiment {{sentiment}}</span>{{/unless}}
+        </div>
+        {{/each}}
+    </div>
+
+    {{#if charts.sentimentTimeline.length}}
+    <div class="section">
+        <h2 class="section-title">Sentiment Journey</h2>
+        <div class="charts">
+            {{#each charts.sentimentTimeline}}
+            <div class="chart">
+                <div><strong>Table {{tableId}}</strong>{{#if roundNumber}} (round {{roundNumber}}){{/if}}: {{mood}} ({{average}})</div>
+                <svg viewBox="0 0 300 60" width="300" height="60">
+                    <line x1="0" y1="30" x2="300" y2="30" stroke="#e5e7eb" />
+                    <polyline points="{{points}}" fill="none" stroke="#2563eb" stroke-width="2" />
+                </svg>
+            </div>
+            {{/each}}
+        </div>
+    </div>
+    {{/if}}
+
+    {{#if showSilences}}
+    <div class="section">
+        <h2 class="section-title">Silences</h2>
+        {{#each silenceSummary.tables}}
+        <div class="speaker-row">
+            <span><strong>Table {{tableId}}</strong>{{#if roundNumber}} (round {{roundNumber}}){{/if}}</span>
+            <span>{{silencePercent}}% silence</span>
+            <span>{{averageGapSeconds}}s average gap</span>
+            <span>{{fillerWords}} fillers</span>
+        </div>
+        {{#each longSilences}}
+        <div class="insight">{{seconds}}s of silence at {{at}}{{#if before}}, after {{before}}{{/if}}{{#if after}}, until {{after}} spoke{{/if}}</div>
+        {{/each}}
+        {{/each}}
+    </div>
+    {{/if}}
+
+    {{#if showTopicTimeline}}
+    <div class="section">
+        <h2 class="section-title">Topic Timeline</h2>
+        {{#each topicTimeline}}
+        <h3>Table {{tableId}}: {{flowType}} flow</h3>
+        <p>{{progressPercent}}% progress, {{transitionPercent}}% smooth transitions</p>
+        {{#each topics}}
+        <div class="speaker-row">
+            <span>{{from}}–{{to}}{{#if roundNumber}} (round {{roundNumber}}){{/if}}</span>
+            <span><strong>{{topic}}</strong></span>
+            <span>{{engagementPercent}}% energy</span>
+            <span>{{resolution}}</span>
+        </div>
+        {{/each}}
+        {{#each turningPoints}}
+        <div class="insight">{{at}} {{type}}: {{description}}</div>
+        {{/each}}
+        {{/each}}
+    </div>
+    {{/if}}
+
+    {{#if roundBreakdown.length}}
+    <div class="section">
+        <h2 class="section-title">Rounds</h2>
+        {{#each roundBreakdown}}
+        <h3>Round {{roundNumber}}{{#if question}}: {{question}}{{/if}}</h3>
+        {{#each tables}}
+        <div><strong>Table {{tableId}}</strong>{{#if biasCount}} ({{biasCount}} bias pattern(s)){{/if}}</div>
+        {{#each speakers}}
+        <div class="speaker-row">
+            <span>{{name}}</span>
+            <span>{{speakingTime}}s ({{percentage}}%)</span>
+            <span>{{turnsCount}} turns</span>
         </div>
         {{/each}}
+        {{/each}}
+        {{/each}}
     </div>
+    {{/if}}
+
+    {{#if showCrossPollination}}
+    <div class="section">
+        <h2 class="section-title">Cross-Pollination</h2>
+        <p>Participants met <strong>{{crossPollinationSummary.mixingPercent}}%</strong> of the other participants on average.
+        {{crossPollinationSummary.movesWithTransfer}} of {{crossPollinationSummary.moves}} table moves ({{crossPollinationSummary.ideaTravelPercent}}%) carried an idea to the next table.</p>
+        {{#each crossPollinationSummary.transfers}}
+        <div class="insight">"{{phrase}}": {{participantName}} brought it from table {{from.tableId}} (round {{from.roundNumber}}) to table {{to.tableId}} (round {{to.roundNumber}}){{#if (eq carriedBy "table")}}, where the new table picked it up{{/if}}</div>
+        {{/each}}
+        {{#each crossPollinationSummary.participants}}
+        <div class="speaker-row">
+            <span>{{participantName}}</span>
+            <span>met {{peopleMet}} people ({{mixingPercent}}%)</span>
+        </div>
+        {{/each}}
+    </div>
+    {{/if}}
 
     {{#if biasDetections.length}}
     <div class="section">
@@ -452,11 +796,17 @@ export class ReportGenerator {
         {{#each biasDetections}}
         <div class="bias-alert bias-{{#if (gt severityScore 0.7)}}high{{else}}{{#if (gt severityScore 0.3)}}medium{{else}}low{{/if}}{{/if}}">
             <div><strong>{{biasType}} bias - {{biasCategory}}</strong></div>
-            <div>Severity: {{severityScore}} | Confidence: {{confidenceLevel}}</div>
+            <div>Severity: {{severityScore}} | Confidence: {{confidenceLevel}}{{#if confidenceHigh}} ({{confidenceLow}}–{{confidenceHigh}}){{/if}}</div>
             <div>{{contextText}}</div>
+            {{#if participantNames.length}}
+            <div>Participants: {{#each participantNames}}{{this}}{{#unless @last}}, {{/unless}}{{/each}}</div>
+            {{/if}}
             {{#if evidenceText}}
             <div><em>Evidence: {{evidenceText}}</em></div>
             {{/if}}
+            {{#if languagePack}}
+            <div>Language pack: {{languagePack}} v{{languagePackVersion}}</div>
+            {{/if}}
         </div>
         {{/each}}
     </div>
@@ -0,0 +1,136 @@
+import { Round, Session } from '@prisma/client';
+import { prisma } from '@/utils/prisma';
+import { logger } from '@/utils/logger';
+import { CustomError } from '@/middleware/errorHandler';
+import { validateRounds } from '@/utils/rounds';
+import { RoundInput, RoundKind, SeatingEntry, SessionRound } from '@/types';
+
+export class RoundService {
+  /**
+   * Rounds with their table assignments, in order
+   */
+  async getRounds(worldCafeId: string) {
+    const session = await this.requireSession(worldCafeId);
+
+    return prisma.round.findMany({
+      where: { sessionId: session.id },
+      include: {
+        assignments: {
+          include: { participant: true },
+          orderBy: { tableId: 'asc' },
+        },
+      },
+      orderBy: { roundNumber: 'asc' },
+    });
+  }
+
+  /**
+   * Rounds in the shape the analysis engines use; empty when the session has none
+   */
+  async getSessionRounds(worldCafeId: string): Promise<SessionRound[]> {
+    const session = await prisma.session.findUnique({ where: { worldCafeId } });
+    if (!session) {
+      return [];
+    }
+
+    const rounds = await prisma.round.findMany({
+      where: { sessionId: session.id },
+      orderBy: { roundNumber: 'asc' },
+    });
+    return rounds.map(toSessionRound);
+  }
+
+  /**
+   * Who sat at which table in each round
+   */
+  async getSeating(worldCafeId: string): Promise<SeatingEntry[]> {
+    const session = await prisma.session.findUnique({ where: { worldCafeId } });
+    if (!session) {
+      return [];
+    }
+
+    const assignments = await prisma.tableAssignment.findMany({
+      where: { round: { sessionId: session.id } },
+      include: { round: true, participant: true },
+    });
+    return assignments.map(assignment => ({
+      participantId: assignment.participantId,
+      participantName: assignment.participant.name,
+      roundNumber: assignment.round.roundNumber,
+      tableId: assignment.tableId,
+    }));
+  }
+
+  /**
+   * Replace a session's rounds and who sat where in each of them
+   */
+  async replaceRounds(worldCafeId: string, rounds: RoundInput[]) {
+    const session = await this.requireSession(worldCafeId);
+
+    const issues = validateRounds(rounds);
+
+    const rosterIds = new Set(
+      (await prisma.participant.findMany({ where: { sessionId: session.id }, select: { id: true } }))
+        .map(participant => participant.id)
+    );
+    for (const round of rounds) {
+      const seated = (round.assignments || []).map(assignment => assignment.participantId);
+      const unknown = seated.filter(id => !rosterIds.has(id));
+      if (unknown.length > 0) {
+        issues.push(`Round ${round.roundNumber}: participants not found in session: ${unknown.join(', ')}`);
+      }
+      const twice = [...new Set(seated.filter((id, i) => seated.indexOf(id) !== i))];
+      if (twice.length > 0) {
+        issues.push(`Round ${round.roundNumber}: participants seated at more than one table: ${twice.join(', ')}`);
+      }
+    }
+
+    if (issues.length > 0) {
+      throw new CustomError(`Invalid rounds: ${issues.join('; ')}`, 400);
+    }
+
+    await prisma.$transaction([
+      prisma.round.deleteMany({ where: { sessionId: session.id } }),
+      ...rounds.map(round => prisma.round.create({
+        data: {
+          sessionId: session.id,
+          roundNumber: round.roundNumber,
+          kind: round.kind,
+          question: round.question,
+          startSeconds: round.startSeconds,
+          endSeconds: round.endSeconds,
+          assignments: {
+            create: (round.assignments || []).map(assignment => ({
+              participantId: assignment.participantId,
+              tableId: assignment.tableId,
+            })),
+          },
+        },
+      })),
+    ]);
+
+    logger.info(`Stored ${rounds.length} rounds for session ${worldCafeId}`);
+    return this.getRounds(worldCafeId);
+  }
+
+  private async requireSession(worldCafeId: string): Promise<Session> {
+    const session = await prisma.session.findUnique({ where: { worldCafeId } });
+    if (!session) {
+      throw new CustomError(`Session ${worldCafeId} not found`, 404);
+    }
+    return session;
+  }
+}
+
+function toSessionRound(round: Round): SessionRound {
+  return {
+    roundNumber: round.roundNumber,
+    kind: round.kind as RoundKind,
+    question: round.question ?? undefined,
+    startSeconds: round.startSeconds,
+    endSeconds: round.endSeconds ?? undefined,
+  };
+}
+
+// Export singleton instance
+export const roundService = new RoundService();
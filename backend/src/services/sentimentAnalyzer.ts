@@ -0,0 +1,23 @@
+import { logger } from '@/utils/logger';
+import { AttributedTranscripts } from '@/utils/attribution';
+import { groupConversations } from '@/utils/speakingTime';
+import { SentimentConfig, analyzeConversationSentiment, sentimentConfig } from '@/utils/sentiment';
+import { TableSentiment } from '@/types';
+
+export class SentimentAnalyzer {
+  /**
+   * The sentiment journey of every table in every round, as stored by a full analysis
+   */
+  analyze(
+    { segments, packs }: AttributedTranscripts,
+    config: SentimentConfig = sentimentConfig()
+  ): TableSentiment[] {
+    const tables = [...groupConversations(segments).values()]
+      .map(conversation => analyzeConversationSentiment(conversation, segment => packs.get(segment), config).table);
+
+    logger.info(`Sentiment scored for ${tables.length} table conversations`);
+    return tables;
+  }
+}
+
+export const sentimentAnalyzer = new SentimentAnalyzer();
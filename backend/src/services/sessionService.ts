@@ -1,6 +1,6 @@
 import { prisma } from '@/utils/prisma';
 import { logger } from '@/utils/logger';
-import { SessionSummary } from '@/types';
+import { EquityScope, ParticipationEquity, SessionSortField, SessionSummary } from '@/types';
 
 export class SessionService {
   // Get sessions with pagination and filtering
@@ -9,6 +9,8 @@ export class SessionService {
     limit: number;
     status?: string;
     search?: string;
+    sort?: SessionSortField;
+    order?: 'asc' | 'desc';
   }): Promise<{
     data: SessionSummary[];
     pagination: {
@@ -20,7 +22,7 @@ export class SessionService {
       hasPrev: boolean;
     };
   }> {
-    const { page, limit, status, search } = params;
+    const { page, limit, status, search, sort = 'updatedAt', order = 'desc' } = params;
     const skip = (page - 1) * limit;
 
     // Build where clause
@@ -45,7 +47,10 @@ export class SessionService {
       // Get sessions with related data
       const sessions = await prisma.session.findMany({
         where,
-        orderBy: { updatedAt: 'desc' },
+        // Sessions not yet analyzed have no balance and go last either way
+        orderBy: sort === 'balanceScore'
+          ? [{ balanceScore: { sort: order, nulls: 'last' } }, { updatedAt: 'desc' }]
+          : { [sort]: order },
         skip,
         take: limit,
         include: {
@@ -53,13 +58,15 @@ export class SessionService {
             select: { id: true },
           },
           aiAnalyses: {
-            select: { id: true, createdAt: true },
+            select: { id: true, createdAt: true, dataQualityScore: true },
             orderBy: { createdAt: 'desc' },
             take: 1,
           },
+          // The latest session-wide measurement, not a single table's
           polarizationMetrics: {
+            where: { tableId: null },
             select: { polarizationIndex: true },
-            orderBy: { createdAt: 'desc' },
+            orderBy: { measurementTime: 'desc' },
             take: 1,
           },
         },
@@ -75,7 +82,8 @@ export class SessionService {
         participantCount: session.participants.length || undefined,
         lastAnalyzedAt: session.aiAnalyses[0]?.createdAt.toISOString() || undefined,
         polarizationIndex: session.polarizationMetrics[0]?.polarizationIndex || undefined,
-        balanceScore: undefined, // TODO: Calculate from speaker dynamics
+        balanceScore: session.balanceScore ?? undefined,
+        dataQualityScore: session.aiAnalyses[0]?.dataQualityScore ?? undefined,
         alertLevel: this.calculateAlertLevel(session),
         hasNewInsights: this.checkForNewInsights(session),
       }));
@@ -121,6 +129,42 @@ export class SessionService {
     }
   }
 
+  // Get participation equity from the latest analysis, tables ranked by balance
+  async getParticipationEquity(sessionId: string, order: 'asc' | 'desc' = 'asc'): Promise<{
+    tables: ParticipationEquity[];
+    rounds: ParticipationEquity[];
+    session: ParticipationEquity | null;
+  }> {
+    try {
+      const rows = await prisma.participationEquity.findMany({
+        where: { sessionId },
+        orderBy: [{ balanceScore: order }, { tableId: 'asc' }],
+      });
+
+      const entries: ParticipationEquity[] = rows.map(row => ({
+        scope: row.scope as EquityScope,
+        tableId: row.tableId ?? undefined,
+        roundNumber: row.roundNumber ?? undefined,
+        speakerCount: row.speakerCount,
+        giniCoefficient: row.giniCoefficient,
+        turnEntropy: row.turnEntropy,
+        quietShare: row.quietShare,
+        balanceScore: row.balanceScore,
+      }));
+
+      return {
+        tables: entries.filter(entry => entry.scope === 'table'),
+        rounds: entries
+          .filter(entry => entry.scope === 'round')
+          .sort((a, b) => (a.roundNumber ?? 0) - (b.roundNumber ?? 0)),
+        session: entries.find(entry => entry.scope === 'session') ?? null,
+      };
+    } catch (error) {
+      logger.error(`Failed to get participation equity for session ${sessionId}:`, error);
+      throw error;
+    }
+  }
+
   // Get latest analysis for a session
   async getLatestAnalysis(sessionId: string): Promise<any> {
     try {
@@ -187,6 +231,7 @@ export class SessionService {
           analysisVersion: '1.0',
           processingTimeMs: analysisData.processingTimeMs,
           speakingTimeAnalysis: analysisData.speakingTimeAnalysis,
+          speakingTimeRollup: analysisData.speakingTimeRollup,
           biasDetections: analysisData.biasDetections,
           polarizationMetrics: analysisData.polarizationMetrics,
           conversationFlow: analysisData.conversationFlow,
@@ -228,6 +273,7 @@ export class SessionService {
         prisma.polarizationMetrics.aggregate({
           _avg: { polarizationIndex: true },
           where: {
+            tableId: null,
             createdAt: {
               gte: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000), // Last 7 days
             },
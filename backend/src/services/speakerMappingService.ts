@@ -0,0 +1,297 @@
+import { Participant, Session, TableAssignment } from '@prisma/client';
+import { prisma } from '@/utils/prisma';
+import { logger } from '@/utils/logger';
+import { CustomError } from '@/middleware/errorHandler';
+import { SpeakerIdentityMap } from '@/utils/speakerIdentity';
+import { TranscriptSourceRegistry, transcriptSources } from './transcriptSources';
+import {
+  SpeakerMappingMethod,
+  SpeakerMappingUpdate,
+  WorldCafeTranscription,
+} from '@/types';
+
+// Suggestions at or above this confidence are used by analysis without a facilitator confirming them
+export const AUTO_APPLY_CONFIDENCE = 0.8;
+
+const CONFIDENCE: Record<Exclude<SpeakerMappingMethod, 'manual'>, number> = {
+  speaker_label: 0.95,
+  single_candidate: 0.8,
+  roster_order: 0.5,
+};
+
+// Roster order is a weaker guess still when the table's speaker and participant counts differ
+const UNEVEN_ROSTER_ORDER_CONFIDENCE = 0.3;
+
+type RosterParticipant = Participant & { roundAssignments: TableAssignment[] };
+
+interface MappingSuggestion {
+  tableId: number;
+  speakerIndex: number;
+  participantId: string;
+  method: SpeakerMappingMethod;
+  confidence: number;
+}
+
+export class SpeakerMappingService {
+  constructor(private sources: TranscriptSourceRegistry = transcriptSources) {}
+
+  /**
+   * Current mappings for a session, confirmed and suggested
+   */
+  async getMappings(worldCafeId: string) {
+    const session = await this.requireSession(worldCafeId);
+
+    return prisma.speakerMapping.findMany({
+      where: { sessionId: session.id },
+      include: { participant: true },
+      orderBy: [{ tableId: 'asc' }, { speakerIndex: 'asc' }],
+    });
+  }
+
+  /**
+   * Suggest a participant for every diarized speaker from the table roster.
+   * Confirmed mappings are kept as they are; earlier suggestions are replaced.
+   */
+  async suggestMappings(worldCafeId: string) {
+    const source = await this.sources.forSession(worldCafeId);
+    const session = await source.ensureLocalSession(worldCafeId);
+
+    const [transcriptions, roster, confirmed] = await Promise.all([
+      source.getTranscriptions(worldCafeId),
+      this.loadRoster(session, worldCafeId),
+      prisma.speakerMapping.findMany({ where: { sessionId: session.id, status: 'confirmed' } }),
+    ]);
+
+    const suggestions: MappingSuggestion[] = [];
+    for (const [tableId, speakers] of this.speakersByTable(transcriptions)) {
+      const confirmedHere = confirmed.filter(mapping => mapping.tableId === tableId);
+      const taken = new Set(confirmedHere.map(mapping => mapping.participantId));
+      const settled = new Set(confirmedHere.map(mapping => mapping.speakerIndex));
+
+      suggestions.push(...this.suggestForTable(
+        tableId,
+        speakers.filter(speaker => !settled.has(speaker.speakerIndex)),
+        roster.filter(participant => tableAssignments(participant).includes(tableId) && !taken.has(participant.id))
+      ));
+    }
+
+    await prisma.$transaction([
+      prisma.speakerMapping.deleteMany({ where: { sessionId: session.id, status: 'suggested' } }),
+      prisma.speakerMapping.createMany({
+        data: suggestions.map(suggestion => ({ sessionId: session.id, status: 'suggested', ...suggestion })),
+      }),
+    ]);
+
+    logger.info(`Suggested ${suggestions.length} speaker mappings for session ${worldCafeId} (${confirmed.length} already confirmed)`);
+    return this.getMappings(worldCafeId);
+  }
+
+  /**
+   * Confirm or override mappings. A participantName adds that person to the
+   * roster first, for sessions (such as imports) that have no synced roster.
+   */
+  async confirmMappings(worldCafeId: string, updates: SpeakerMappingUpdate[], confirmedBy?: string) {
+    const session = await this.requireSession(worldCafeId);
+
+    const rosterIds = new Set(
+      (await prisma.participant.findMany({ where: { sessionId: session.id }, select: { id: true } }))
+        .map(participant => participant.id)
+    );
+    const unknown = updates
+      .filter(update => update.participantId && !rosterIds.has(update.participantId))
+      .map(update => update.participantId);
+    if (unknown.length > 0) {
+      throw new CustomError(`Participants not found in session ${worldCafeId}: ${unknown.join(', ')}`, 400);
+    }
+
+    const confirmedAt = new Date();
+    for (const update of updates) {
+      const participantId = update.participantName
+        ? (await this.addParticipant(session.id, update.tableId, update.participantName)).id
+        : update.participantId ?? null;
+
+      const data = { participantId, status: 'confirmed', method: 'manual', confidence: 1, confirmedBy, confirmedAt };
+      await prisma.speakerMapping.upsert({
+        where: {
+          sessionId_tableId_speakerIndex: { sessionId: session.id, tableId: update.tableId, speakerIndex: update.speakerIndex },
+        },
+        create: { sessionId: session.id, tableId: update.tableId, speakerIndex: update.speakerIndex, ...data },
+        update: data,
+      });
+    }
+
+    logger.info(`Confirmed ${updates.length} speaker mappings for session ${worldCafeId}`);
+    return this.getMappings(worldCafeId);
+  }
+
+  /**
+   * Identities for analysis: confirmed mappings plus confident suggestions
+   */
+  async getIdentityMap(worldCafeId: string): Promise<SpeakerIdentityMap> {
+    const session = await prisma.session.findUnique({ where: { worldCafeId } });
+    if (!session) {
+      return new SpeakerIdentityMap();
+    }
+
+    const mappings = await prisma.speakerMapping.findMany({
+      where: {
+        sessionId: session.id,
+        participantId: { not: null },
+        OR: [{ status: 'confirmed' }, { confidence: { gte: AUTO_APPLY_CONFIDENCE } }],
+      },
+      include: { participant: true },
+    });
+
+    return new SpeakerIdentityMap(new Map(
+      mappings
+        .filter(mapping => mapping.participant)
+        .map(mapping => [
+          `${mapping.tableId}:${mapping.speakerIndex}`,
+          { participantId: mapping.participant!.id, name: mapping.participant!.name },
+        ])
+    ));
+  }
+
+  private suggestForTable(
+    tableId: number,
+    speakers: { speakerIndex: number; label?: string }[],
+    candidates: RosterParticipant[]
+  ): MappingSuggestion[] {
+    const suggestions: MappingSuggestion[] = [];
+    let remainingSpeakers = [...speakers];
+    let remainingCandidates = [...candidates];
+
+    const assign = (speakerIndex: number, participantId: string, method: SpeakerMappingMethod, confidence: number) => {
+      suggestions.push({ tableId, speakerIndex, participantId, method, confidence });
+      remainingSpeakers = remainingSpeakers.filter(speaker => speaker.speakerIndex !== speakerIndex);
+      remainingCandidates = remainingCandidates.filter(candidate => candidate.id !== participantId);
+    };
+
+    // Transcript labels ("Alice:") that name exactly one participant at the table
+    for (const speaker of speakers) {
+      if (!speaker.label) continue;
+      const matches = remainingCandidates.filter(candidate => nameMatches(speaker.label!, candidate.name));
+      if (matches.length === 1) {
+        assign(speaker.speakerIndex, matches[0].id, 'speaker_label', CONFIDENCE.speaker_label);
+      }
+    }
+
+    if (remainingSpeakers.length === 1 && remainingCandidates.length === 1) {
+      assign(remainingSpeakers[0].speakerIndex, remainingCandidates[0].id, 'single_candidate', CONFIDENCE.single_candidate);
+    }
+
+    // Otherwise pair speakers in order of first appearance with the roster in join order
+    const confidence = remainingSpeakers.length === remainingCandidates.length
+      ? CONFIDENCE.roster_order
+      : UNEVEN_ROSTER_ORDER_CONFIDENCE;
+    const pairs = remainingSpeakers.map((speaker, i) => [speaker, remainingCandidates[i]] as const);
+    for (const [speaker, candidate] of pairs) {
+      if (candidate) {
+        assign(speaker.speakerIndex, candidate.id, 'roster_order', confidence);
+      }
+    }
+
+    return suggestions;
+  }
+
+  /**
+   * Distinct speakers per table in order of first appearance, with any transcript labels
+   */
+  private speakersByTable(transcriptions: WorldCafeTranscription[]): Map<number, { speakerIndex: number; label?: string }[]> {
+    const firstSeen = new Map<number, Map<number, number>>();
+    const labels = new Map<number, Record<number, string>>();
+
+    for (const transcription of transcriptions) {
+      const speakers = firstSeen.get(transcription.table_id) || new Map<number, number>();
+      for (const segment of transcription.speaker_segments) {
+        speakers.set(segment.speaker, Math.min(speakers.get(segment.speaker) ?? Infinity, segment.start));
+      }
+      firstSeen.set(transcription.table_id, speakers);
+      labels.set(transcription.table_id, { ...labels.get(transcription.table_id), ...transcription.speaker_labels });
+    }
+
+    const result = new Map<number, { speakerIndex: number; label?: string }[]>();
+    for (const [tableId, speakers] of firstSeen) {
+      result.set(tableId, [...speakers.entries()]
+        .sort((a, b) => a[1] - b[1])
+        .map(([speakerIndex]) => ({ speakerIndex, label: labels.get(tableId)?.[speakerIndex] })));
+    }
+    return result;
+  }
+
+  /**
+   * Stored participants in join order, storing the source's roster first if there are none
+   */
+  private async loadRoster(session: Session, worldCafeId: string): Promise<RosterParticipant[]> {
+    const stored = () => prisma.participant.findMany({
+      where: { sessionId: session.id },
+      include: { roundAssignments: true },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const participants = await stored();
+    if (participants.length > 0) {
+      return participants;
+    }
+
+    const source = await this.sources.forSession(worldCafeId);
+    const roster = await source.getParticipants(worldCafeId);
+    for (const participant of roster) {
+      const existing = await prisma.participant.findFirst({
+        where: { sessionId: session.id, worldCafeParticipantId: participant.id },
+      });
+      if (!existing) {
+        await prisma.participant.create({
+          data: {
+            sessionId: session.id,
+            worldCafeParticipantId: participant.id,
+            name: participant.name,
+            email: participant.email,
+            tableAssignments: participant.table_id ? [participant.table_id] : [],
+          },
+        });
+      }
+    }
+
+    return stored();
+  }
+
+  private async addParticipant(sessionId: string, tableId: number, name: string): Promise<Participant> {
+    const existing = await prisma.participant.findFirst({ where: { sessionId, name } });
+    if (existing) {
+      return existing;
+    }
+    return prisma.participant.create({ data: { sessionId, name, tableAssignments: [tableId] } });
+  }
+
+  private async requireSession(worldCafeId: string): Promise<Session> {
+    const session = await prisma.session.findUnique({ where: { worldCafeId } });
+    if (!session) {
+      throw new CustomError(`Session ${worldCafeId} not found`, 404);
+    }
+    return session;
+  }
+}
+
+// Tables from the roster plus any table the participant was seated at in a round
+function tableAssignments(participant: RosterParticipant): number[] {
+  const roster = Array.isArray(participant.tableAssignments)
+    ? participant.tableAssignments.filter((table): table is number => typeof table === 'number')
+    : [];
+  return [...roster, ...participant.roundAssignments.map(assignment => assignment.tableId)];
+}
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().normalize('NFKD').replace(/[^\p{L}\p{N} ]/gu, '').trim();
+}
+
+// "Alice" matches "Alice Chen"; generic labels such as "Speaker 2" never match
+function nameMatches(label: string, name: string): boolean {
+  const normalizedLabel = normalizeName(label);
+  const normalizedName = normalizeName(name);
+  if (!normalizedLabel || /^speaker \d+$/.test(normalizedLabel)) return false;
+  return normalizedLabel === normalizedName || normalizedName.split(/\s+/)[0] === normalizedLabel;
+}
+
+// Export singleton instance
+export const speakerMappingService = new SpeakerMappingService();
@@ -0,0 +1,332 @@
+import { Prisma, Session, SpeakerSegment, TranscriptRevision } from '@prisma/client';
+import { prisma } from '@/utils/prisma';
+import { logger } from '@/utils/logger';
+import { CustomError } from '@/middleware/errorHandler';
+import { JobQueueManager, jobQueue } from './jobQueue';
+import { RevisionContext, SegmentCorrection, TranscriptRevisionOperation } from '@/types';
+
+type SegmentWithWords = Prisma.SpeakerSegmentGetPayload<{ include: { words: true } }>;
+
+// Attempts at a correction when concurrent corrections race for the same revision number
+const REVISION_ATTEMPTS = 3;
+
+interface SegmentSnapshot {
+  id: string;
+  speakerIndex: number;
+  text: string;
+  startTime: number;
+  endTime: number;
+}
+
+/**
+ * Corrections to stored transcripts. Every edit is kept as a numbered revision,
+ * each segment keeps its original content, and the analyses built on the edited
+ * tables are marked stale and queued to run again.
+ */
+export class TranscriptCorrectionService {
+  constructor(private queue: JobQueueManager = jobQueue) {}
+
+  /**
+   * Stored speaker segments with their IDs, for choosing what to correct
+   */
+  async getSegments(worldCafeId: string, tableId?: number) {
+    const session = await this.requireSession(worldCafeId);
+
+    return prisma.speakerSegment.findMany({
+      where: { sessionId: session.id, ...(tableId !== undefined ? { tableId } : {}) },
+      orderBy: [{ tableId: 'asc' }, { startTime: 'asc' }],
+    });
+  }
+
+  /**
+   * Correction history, newest first
+   */
+  async getRevisions(worldCafeId: string, tableId?: number) {
+    const session = await this.requireSession(worldCafeId);
+
+    return prisma.transcriptRevision.findMany({
+      where: { sessionId: session.id, ...(tableId !== undefined ? { tableId } : {}) },
+      orderBy: { revisionNumber: 'desc' },
+    });
+  }
+
+  /**
+   * Correct one segment's text, speaker or timing. Word timings no longer match
+   * corrected text, so they are dropped (the original keeps them).
+   */
+  async correctSegment(worldCafeId: string, segmentId: string, correction: SegmentCorrection, context: RevisionContext = {}) {
+    const session = await this.requireSession(worldCafeId);
+
+    const segment = await prisma.speakerSegment.findFirst({
+      where: { id: segmentId, sessionId: session.id },
+      include: { words: true },
+    });
+    if (!segment) {
+      throw new CustomError(`Segment ${segmentId} not found in session ${worldCafeId}`, 404);
+    }
+
+    const changes: SegmentCorrection = {};
+    if (correction.text !== undefined && correction.text !== segment.text) changes.text = correction.text;
+    if (correction.speakerIndex !== undefined && correction.speakerIndex !== segment.speakerIndex) changes.speakerIndex = correction.speakerIndex;
+    if (correction.startTime !== undefined && correction.startTime !== segment.startTime) changes.startTime = correction.startTime;
+    if (correction.endTime !== undefined && correction.endTime !== segment.endTime) changes.endTime = correction.endTime;
+
+    if (Object.keys(changes).length === 0) {
+      throw new CustomError(`Correction does not change segment ${segmentId}`, 400);
+    }
+    if ((changes.endTime ?? segment.endTime) <= (changes.startTime ?? segment.startTime)) {
+      throw new CustomError('Segment must end after it starts', 400);
+    }
+
+    const revision = await this.inRevisionTransaction(async (tx) => {
+      const updated = await this.applyToSegment(tx, segment, changes);
+      if (changes.text !== undefined) {
+        await tx.wordTimestamp.deleteMany({ where: { segmentId } });
+      }
+      return this.recordRevision(tx, session.id, segment.tableId, 'edit_segment', [segment], [updated], context);
+    });
+
+    return this.afterCorrection(session, revision, [segment.tableId]);
+  }
+
+  /**
+   * Treat two diarized speakers at a table as one person: every segment of
+   * fromSpeakerIndex moves to intoSpeakerIndex
+   */
+  async mergeSpeakers(
+    worldCafeId: string,
+    tableId: number,
+    fromSpeakerIndex: number,
+    intoSpeakerIndex: number,
+    context: RevisionContext = {}
+  ) {
+    const session = await this.requireSession(worldCafeId);
+
+    if (fromSpeakerIndex === intoSpeakerIndex) {
+      throw new CustomError('Cannot merge a speaker into itself', 400);
+    }
+
+    const segments = await prisma.speakerSegment.findMany({
+      where: { sessionId: session.id, tableId, speakerIndex: fromSpeakerIndex },
+      include: { words: true },
+      orderBy: { startTime: 'asc' },
+    });
+    if (segments.length === 0) {
+      throw new CustomError(`Speaker ${fromSpeakerIndex} has no segments at table ${tableId}`, 404);
+    }
+
+    const revision = await this.inRevisionTransaction(async (tx) => {
+      const updated: SpeakerSegment[] = [];
+      for (const segment of segments) {
+        updated.push(await this.applyToSegment(tx, segment, { speakerIndex: intoSpeakerIndex }));
+      }
+      // The merged-away speaker no longer exists, so neither does its participant mapping
+      await tx.speakerMapping.deleteMany({
+        where: { sessionId: session.id, tableId, speakerIndex: fromSpeakerIndex },
+      });
+      return this.recordRevision(tx, session.id, tableId, 'merge_speakers', segments, updated, context);
+    });
+
+    return this.afterCorrection(session, revision, [tableId]);
+  }
+
+  /**
+   * Move some of a diarized speaker's segments to a new speaker, for when
+   * diarization heard two people as one
+   */
+  async splitSpeaker(
+    worldCafeId: string,
+    tableId: number,
+    speakerIndex: number,
+    segmentIds: string[],
+    newSpeakerIndex?: number,
+    context: RevisionContext = {}
+  ) {
+    const session = await this.requireSession(worldCafeId);
+
+    const segments = await prisma.speakerSegment.findMany({
+      where: { id: { in: segmentIds }, sessionId: session.id, tableId },
+      include: { words: true },
+      orderBy: { startTime: 'asc' },
+    });
+
+    const issues: string[] = [];
+    const missing = segmentIds.filter(id => !segments.some(segment => segment.id === id));
+    if (missing.length > 0) {
+      issues.push(`Segments not found at table ${tableId}: ${missing.join(', ')}`);
+    }
+    const otherSpeakers = segments.filter(segment => segment.speakerIndex !== speakerIndex);
+    if (otherSpeakers.length > 0) {
+      issues.push(`Segments not spoken by speaker ${speakerIndex}: ${otherSpeakers.map(segment => segment.id).join(', ')}`);
+    }
+
+    const speakersAtTable = (await prisma.speakerSegment.findMany({
+      where: { sessionId: session.id, tableId },
+      select: { speakerIndex: true },
+      distinct: ['speakerIndex'],
+    })).map(segment => segment.speakerIndex);
+    const target = newSpeakerIndex ?? Math.max(0, ...speakersAtTable) + 1;
+    if (speakersAtTable.includes(target)) {
+      issues.push(`Speaker ${target} already exists at table ${tableId}; merge speakers instead`);
+    }
+
+    if (issues.length > 0) {
+      throw new CustomError(`Invalid split: ${issues.join('; ')}`, 400);
+    }
+
+    const revision = await this.inRevisionTransaction(async (tx) => {
+      const updated: SpeakerSegment[] = [];
+      for (const segment of segments) {
+        updated.push(await this.applyToSegment(tx, segment, { speakerIndex: target }));
+      }
+      return this.recordRevision(tx, session.id, tableId, 'split_speaker', segments, updated, context);
+    });
+
+    return this.afterCorrection(session, revision, [tableId]);
+  }
+
+  /**
+   * Update a segment, keeping what was transcribed the first time it is corrected
+   */
+  private applyToSegment(tx: Prisma.TransactionClient, segment: SegmentWithWords, changes: SegmentCorrection): Promise<SpeakerSegment> {
+    return tx.speakerSegment.update({
+      where: { id: segment.id },
+      data: {
+        ...changes,
+        revision: { increment: 1 },
+        ...(segment.revision === 0 ? { original: originalContent(segment) } : {}),
+      },
+    });
+  }
+
+  /**
+   * Run a correction in a transaction, starting it again when a concurrent correction
+   * took the revision number it recorded. The whole transaction reruns, since
+   * Postgres aborts it on the conflict.
+   */
+  private async inRevisionTransaction(
+    correct: (tx: Prisma.TransactionClient) => Promise<TranscriptRevision>
+  ): Promise<TranscriptRevision> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await prisma.$transaction(correct);
+      } catch (error) {
+        const conflict = error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+        if (!conflict || attempt >= REVISION_ATTEMPTS) {
+          throw error;
+        }
+        logger.warn(`Revision number taken by a concurrent correction; retrying (attempt ${attempt + 1}/${REVISION_ATTEMPTS})`);
+      }
+    }
+  }
+
+  private async recordRevision(
+    tx: Prisma.TransactionClient,
+    sessionId: string,
+    tableId: number,
+    operation: TranscriptRevisionOperation,
+    before: SpeakerSegment[],
+    after: SpeakerSegment[],
+    context: RevisionContext
+  ): Promise<TranscriptRevision> {
+    const latest = await tx.transcriptRevision.findFirst({
+      where: { sessionId },
+      orderBy: { revisionNumber: 'desc' },
+    });
+
+    return tx.transcriptRevision.create({
+      data: {
+        sessionId,
+        tableId,
+        revisionNumber: (latest?.revisionNumber ?? 0) + 1,
+        operation,
+        segmentIds: before.map(segment => segment.id),
+        before: before.map(snapshot) as unknown as Prisma.InputJsonValue,
+        after: after.map(snapshot) as unknown as Prisma.InputJsonValue,
+        reason: context.reason,
+        editedBy: context.editedBy,
+      },
+    });
+  }
+
+  /**
+   * Mark everything derived from the corrected tables as stale and queue it to run again.
+   * The correction stands even when the queue is unavailable; analyses then stay stale.
+   */
+  private async afterCorrection(
+    session: Session,
+    revision: TranscriptRevision,
+    tableIds: number[]
+  ) {
+    await prisma.$transaction([
+      prisma.aiAnalysis.updateMany({
+        where: { sessionId: session.id, isStale: false },
+        data: { isStale: true },
+      }),
+      prisma.speakerDynamics.updateMany({
+        where: { sessionId: session.id, tableId: { in: tableIds } },
+        data: { isStale: true },
+      }),
+      // Session-wide detections (no table) draw on every table
+      prisma.biasDetection.updateMany({
+        where: { sessionId: session.id, OR: [{ tableId: { in: tableIds } }, { tableId: null }] },
+        data: { isStale: true },
+      }),
+      // Embeddings are keyed by World Café session ID
+      prisma.documentEmbedding.updateMany({
+        where: { sessionId: session.worldCafeId, documentType: 'transcription', tableId: { in: tableIds } },
+        data: { isStale: true },
+      }),
+    ]);
+
+    let queuedJobs: string[] = [];
+    try {
+      const jobs = [
+        ...await this.queue.queueCompleteAnalysis(session.worldCafeId, 3),
+        await this.queue.queueEmbeddingReindex(session.worldCafeId, tableIds),
+      ];
+      queuedJobs = jobs.map(job => String(job.id));
+    } catch (error) {
+      logger.warn(`Could not queue re-analysis after correcting session ${session.worldCafeId}:`, error);
+    }
+
+    logger.info(`Recorded ${revision.operation} revision ${revision.revisionNumber} for session ${session.worldCafeId} table ${revision.tableId}`);
+    return { revision, queuedJobs };
+  }
+
+  private async requireSession(worldCafeId: string): Promise<Session> {
+    const session = await prisma.session.findUnique({ where: { worldCafeId } });
+    if (!session) {
+      throw new CustomError(`Session ${worldCafeId} not found`, 404);
+    }
+    return session;
+  }
+}
+
+function snapshot(segment: SpeakerSegment): SegmentSnapshot {
+  return {
+    id: segment.id,
+    speakerIndex: segment.speakerIndex,
+    text: segment.text,
+    startTime: segment.startTime,
+    endTime: segment.endTime,
+  };
+}
+
+function originalContent(segment: SegmentWithWords): Prisma.InputJsonValue {
+  return {
+    speakerIndex: segment.speakerIndex,
+    text: segment.text,
+    startTime: segment.startTime,
+    endTime: segment.endTime,
+    words: segment.words.map(word => ({
+      word: word.word,
+      startTime: word.startTime,
+      endTime: word.endTime,
+      confidence: word.confidence,
+    })),
+  };
+}
+
+// Export singleton instance
+export const transcriptCorrectionService = new TranscriptCorrectionService();
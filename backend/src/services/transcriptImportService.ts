@@ -0,0 +1,273 @@
+import { randomUUID } from 'crypto';
+import { prisma } from '@/utils/prisma';
+import { logger } from '@/utils/logger';
+import { CustomError } from '@/middleware/errorHandler';
+import {
+  ParsedCue,
+  ParsedTranscript,
+  TranscriptFormat,
+  TranscriptParseError,
+  inferTranscriptFormat,
+  parseTranscript,
+} from '@/utils/transcriptParsers';
+import { clampConfidence } from '@/utils/confidence';
+import { transcriptionService } from './transcriptionService';
+import { WorldCafeTranscription, SpeakerSegment } from '@/types';
+
+// Imported sessions get a synthetic World Café ID so every existing route can address them
+const IMPORT_ID_PREFIX = 'import-';
+
+// Word timings may drift slightly outside their cue in exported subtitles
+const WORD_TIMING_TOLERANCE_SECONDS = 0.5;
+
+// Keep validation errors readable when a whole file is malformed
+const MAX_REPORTED_ISSUES = 10;
+
+export interface TranscriptFile {
+  tableId: number;
+  format?: TranscriptFormat;
+  filename?: string;
+  content: string | object;
+}
+
+export interface TranscriptImportRequest {
+  title: string;
+  description?: string;
+  language?: string;
+  files: TranscriptFile[];
+}
+
+export interface TableImportResult {
+  tableId: number;
+  format: TranscriptFormat;
+  segments: number;
+  speakers: Record<number, string>;
+  durationSeconds: number;
+}
+
+export class TranscriptImportService {
+  /**
+   * Create a local session from one transcript file per table
+   */
+  async importSession(request: TranscriptImportRequest): Promise<{
+    session: any;
+    tables: TableImportResult[];
+  }> {
+    const tableIds = request.files.map(file => file.tableId);
+    const duplicates = tableIds.filter((id, index) => tableIds.indexOf(id) !== index);
+    if (duplicates.length > 0) {
+      throw new CustomError(`Only one file per table is allowed (duplicate tables: ${[...new Set(duplicates)].join(', ')})`, 400);
+    }
+
+    // Parse and validate everything before creating the session, so a bad file leaves nothing behind
+    const worldCafeId = `${IMPORT_ID_PREFIX}${randomUUID()}`;
+    const prepared = request.files.map(file => this.prepareTable(worldCafeId, file, request.language));
+
+    const session = await prisma.session.create({
+      data: {
+        worldCafeId,
+        title: request.title,
+        description: request.description,
+        tableCount: Math.max(...tableIds),
+        status: 'completed',
+        language: request.language || prepared.find(p => p.transcription.language)?.transcription.language || 'en-US',
+        source: 'import',
+        syncStatus: 'completed',
+        lastSyncedAt: new Date(),
+      },
+    });
+
+    // Tables save in transactions of their own, so a failure part way through
+    // removes the session; its saved tables cascade with it
+    try {
+      await transcriptionService.saveTranscriptions(session.id, prepared.map(p => p.transcription));
+    } catch (error) {
+      await prisma.session.delete({ where: { id: session.id } }).catch(cleanupError => {
+        logger.error(`Failed to remove partly imported session ${worldCafeId}:`, cleanupError);
+      });
+      throw error;
+    }
+
+    logger.info(`Imported session ${worldCafeId} with ${prepared.length} tables`);
+
+    return {
+      session,
+      tables: prepared.map(p => p.result),
+    };
+  }
+
+  /**
+   * Add or replace the transcript for one table of an imported session
+   */
+  async importTableFile(worldCafeId: string, file: TranscriptFile): Promise<TableImportResult> {
+    const session = await prisma.session.findUnique({ where: { worldCafeId } });
+    if (!session) {
+      throw new CustomError(`Session ${worldCafeId} not found`, 404);
+    }
+    if (session.source !== 'import') {
+      throw new CustomError(`Session ${worldCafeId} is synced from World Café and cannot take imported transcripts`, 409);
+    }
+
+    const { transcription, result } = this.prepareTable(worldCafeId, file, session.language);
+    await transcriptionService.saveTranscriptions(session.id, [transcription]);
+
+    if (file.tableId > session.tableCount) {
+      await prisma.session.update({
+        where: { id: session.id },
+        data: { tableCount: file.tableId },
+      });
+    }
+
+    logger.info(`Imported table ${file.tableId} into session ${worldCafeId}`);
+    return result;
+  }
+
+  /**
+   * Parse, validate and convert one file into the transcription shape the analysis engines read
+   */
+  private prepareTable(worldCafeId: string, file: TranscriptFile, language?: string): {
+    transcription: WorldCafeTranscription;
+    result: TableImportResult;
+  } {
+    const format = file.format || inferTranscriptFormat(file.filename);
+    if (!format) {
+      throw new CustomError(`Table ${file.tableId}: cannot determine transcript format, pass "format" or a .vtt/.srt/.json filename`, 400);
+    }
+
+    let parsed: ParsedTranscript;
+    try {
+      parsed = parseTranscript(format, file.content);
+    } catch (error) {
+      if (error instanceof TranscriptParseError) {
+        throw new CustomError(this.formatIssues(`Table ${file.tableId}: ${error.message}`, error.issues), 422);
+      }
+      throw error;
+    }
+
+    const issues = this.validateCues(parsed.cues);
+    if (parsed.cues.length === 0) {
+      issues.unshift('file contains no cues');
+    }
+    if (issues.length > 0) {
+      throw new CustomError(this.formatIssues(`Table ${file.tableId}: invalid transcript`, issues), 422);
+    }
+
+    const cues = [...parsed.cues].sort((a, b) => a.start - b.start || a.end - b.end);
+    const { segments, speakers } = this.toSpeakerSegments(cues);
+    const transcriptText = cues.map(cue => cue.text).join(' ');
+    const durationSeconds = Math.max(...cues.map(cue => cue.end));
+
+    const transcription: WorldCafeTranscription = {
+      id: `${worldCafeId}-table-${file.tableId}`,
+      session_id: worldCafeId,
+      table_id: file.tableId,
+      transcript_text: transcriptText,
+      confidence_score: this.averageConfidence(segments),
+      speaker_segments: segments,
+      speaker_labels: speakers,
+      word_count: transcriptText.split(/\s+/).filter(Boolean).length,
+      duration_seconds: durationSeconds,
+      language: parsed.language || language || '',
+      created_at: new Date().toISOString(),
+    };
+
+    return {
+      transcription,
+      result: {
+        tableId: file.tableId,
+        format,
+        segments: segments.length,
+        speakers,
+        durationSeconds,
+      },
+    };
+  }
+
+  /**
+   * Check cue and word timings; overlapping cues are allowed since people talk over each other
+   */
+  private validateCues(cues: ParsedCue[]): string[] {
+    const issues: string[] = [];
+
+    cues.forEach((cue, index) => {
+      const label = `cue ${index + 1}`;
+      if (!Number.isFinite(cue.start) || !Number.isFinite(cue.end) || cue.start < 0) {
+        issues.push(`${label}: timestamps must be non-negative numbers`);
+        return;
+      }
+      if (cue.end <= cue.start) {
+        issues.push(`${label}: end (${cue.end}s) must be after start (${cue.start}s)`);
+      }
+      if (!cue.text) {
+        issues.push(`${label}: text is empty`);
+      }
+
+      cue.words?.forEach((word, wordIndex) => {
+        if (word.end < word.start) {
+          issues.push(`${label}, word ${wordIndex + 1}: end must not be before start`);
+        } else if (
+          word.start < cue.start - WORD_TIMING_TOLERANCE_SECONDS ||
+          word.end > cue.end + WORD_TIMING_TOLERANCE_SECONDS
+        ) {
+          issues.push(`${label}, word ${wordIndex + 1}: "${word.word}" falls outside its segment`);
+        }
+      });
+    });
+
+    return issues;
+  }
+
+  /**
+   * Assign speaker indices (1-based) in order of first appearance
+   */
+  private toSpeakerSegments(cues: ParsedCue[]): {
+    segments: SpeakerSegment[];
+    speakers: Record<number, string>;
+  } {
+    const indexByLabel = new Map<string, number>();
+    const speakers: Record<number, string> = {};
+
+    const segments = cues.map(cue => {
+      let speaker = indexByLabel.get(cue.speakerLabel);
+      if (speaker === undefined) {
+        speaker = indexByLabel.size + 1;
+        indexByLabel.set(cue.speakerLabel, speaker);
+        speakers[speaker] = cue.speakerLabel;
+      }
+
+      return {
+        speaker,
+        transcript: cue.text,
+        start: cue.start,
+        end: cue.end,
+        // Subtitle files carry no ASR confidence; treat human-edited text as certain
+        confidence: cue.confidence ?? 1,
+        words: (cue.words || []).map(word => ({
+          word: word.word,
+          start: word.start,
+          end: word.end,
+          confidence: word.confidence ?? cue.confidence ?? 1,
+        })),
+      };
+    });
+
+    return { segments, speakers };
+  }
+
+  private averageConfidence(segments: SpeakerSegment[]): number {
+    const total = segments.reduce((sum, segment) => sum + clampConfidence(segment.confidence), 0);
+    return segments.length > 0 ? total / segments.length : 0;
+  }
+
+  private formatIssues(message: string, issues: string[]): string {
+    if (issues.length === 0) {
+      return message;
+    }
+    const shown = issues.slice(0, MAX_REPORTED_ISSUES);
+    const more = issues.length > shown.length ? ` (+${issues.length - shown.length} more)` : '';
+    return `${message}: ${shown.join('; ')}${more}`;
+  }
+}
+
+// Export singleton instance
+export const transcriptImportService = new TranscriptImportService();
@@ -0,0 +1,118 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Session } from '@prisma/client';
+import { logger } from '@/utils/logger';
+import { prisma } from '@/utils/prisma';
+import { CustomError } from '@/middleware/errorHandler';
+import { WorldCafeSession, WorldCafeTranscription, WorldCafeParticipant } from '@/types';
+import { TranscriptSource, TranscriptSourceName } from './types';
+
+/**
+ * One fixture file: <fixtures dir>/<session id>.json
+ */
+export interface SessionFixture {
+  session: WorldCafeSession;
+  transcriptions: WorldCafeTranscription[];
+  participants?: WorldCafeParticipant[];
+}
+
+/**
+ * Sessions recorded as JSON files in a directory, in World Café API shapes.
+ * Useful for demos, reproducible analysis runs and platforms without an API.
+ */
+export class FixtureTranscriptSource implements TranscriptSource {
+  readonly name: TranscriptSourceName = 'fixture';
+
+  constructor(private directory: string) {}
+
+  async listSessions(): Promise<WorldCafeSession[]> {
+    const files = await this.listFixtureFiles();
+    const fixtures = await Promise.all(files.map(file => this.readFixtureFile(path.join(this.directory, file))));
+    return fixtures.map(fixture => fixture.session);
+  }
+
+  async getSession(sessionId: string): Promise<WorldCafeSession | null> {
+    const fixture = await this.loadFixture(sessionId);
+    return fixture?.session || null;
+  }
+
+  async hasSession(sessionId: string): Promise<boolean> {
+    return (await this.loadFixture(sessionId)) !== null;
+  }
+
+  async getTranscriptions(sessionId: string, tableId?: number): Promise<WorldCafeTranscription[]> {
+    const fixture = await this.requireFixture(sessionId);
+    return fixture.transcriptions
+      .filter(transcription => tableId === undefined || transcription.table_id === tableId)
+      .map(transcription => ({ ...transcription, session_id: sessionId }));
+  }
+
+  async getParticipants(sessionId: string): Promise<WorldCafeParticipant[]> {
+    const fixture = await this.requireFixture(sessionId);
+    return fixture.participants || [];
+  }
+
+  async ensureLocalSession(sessionId: string): Promise<Session> {
+    const { session } = await this.requireFixture(sessionId);
+    const data = {
+      title: session.title,
+      description: session.description,
+      tableCount: session.table_count,
+      status: session.status,
+      language: session.language,
+      lastSyncedAt: new Date(),
+      syncStatus: 'completed',
+    };
+
+    return prisma.session.upsert({
+      where: { worldCafeId: sessionId },
+      create: { worldCafeId: sessionId, source: 'fixture', ...data },
+      update: data,
+    });
+  }
+
+  private async requireFixture(sessionId: string): Promise<SessionFixture> {
+    const fixture = await this.loadFixture(sessionId);
+    if (!fixture) {
+      throw new CustomError(`No fixture found for session ${sessionId} in ${this.directory}`, 404);
+    }
+    return fixture;
+  }
+
+  private async loadFixture(sessionId: string): Promise<SessionFixture | null> {
+    // Session IDs come from URLs; never let them walk out of the fixture directory
+    if (!/^[\w.-]+$/.test(sessionId) || sessionId.startsWith('.')) {
+      return null;
+    }
+
+    try {
+      return await this.readFixtureFile(path.join(this.directory, `${sessionId}.json`));
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private async readFixtureFile(filePath: string): Promise<SessionFixture> {
+    const fixture = JSON.parse(await fs.readFile(filePath, 'utf8')) as SessionFixture;
+    if (!fixture.session?.id || !Array.isArray(fixture.transcriptions)) {
+      throw new Error(`Fixture ${filePath} must contain "session" and "transcriptions"`);
+    }
+    return fixture;
+  }
+
+  private async listFixtureFiles(): Promise<string[]> {
+    try {
+      const entries = await fs.readdir(this.directory);
+      return entries.filter(entry => entry.endsWith('.json')).sort();
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        logger.warn(`Transcript fixture directory ${this.directory} does not exist`);
+        return [];
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,81 @@
+import * as path from 'path';
+import { logger } from '@/utils/logger';
+import { prisma } from '@/utils/prisma';
+import { TranscriptSource, TranscriptSourceName } from './types';
+import { WorldCafeTranscriptSource } from './worldCafeSource';
+import { LocalTranscriptSource, ImportTranscriptSource } from './localSource';
+import { FixtureTranscriptSource } from './fixtureSource';
+
+export * from './types';
+export { WorldCafeTranscriptSource } from './worldCafeSource';
+export { LocalTranscriptSource, ImportTranscriptSource } from './localSource';
+export { FixtureTranscriptSource } from './fixtureSource';
+export type { SessionFixture } from './fixtureSource';
+
+/**
+ * Picks the transcript source for each session
+ */
+export class TranscriptSourceRegistry {
+  private sources = new Map<TranscriptSourceName, TranscriptSource>();
+
+  constructor(sources: TranscriptSource[] = []) {
+    sources.forEach(source => this.register(source));
+  }
+
+  register(source: TranscriptSource): void {
+    this.sources.set(source.name, source);
+  }
+
+  get(name: TranscriptSourceName): TranscriptSource {
+    const source = this.sources.get(name);
+    if (!source) {
+      throw new Error(`Transcript source "${name}" is not registered`);
+    }
+    return source;
+  }
+
+  /**
+   * Resolve the source for a session: TRANSCRIPT_SOURCE overrides everything,
+   * then the source recorded on the local session, then a matching fixture,
+   * and finally World Café.
+   */
+  async forSession(sessionId: string): Promise<TranscriptSource> {
+    const override = process.env.TRANSCRIPT_SOURCE as TranscriptSourceName | undefined;
+    if (override) {
+      return this.get(override);
+    }
+
+    const session = await prisma.session.findUnique({
+      where: { worldCafeId: sessionId },
+      select: { source: true },
+    });
+    if (session) {
+      return this.get(session.source as TranscriptSourceName);
+    }
+
+    const fixtures = this.sources.get('fixture');
+    if (fixtures instanceof FixtureTranscriptSource && await fixtures.hasSession(sessionId)) {
+      logger.debug(`Using fixture source for session ${sessionId}`);
+      return fixtures;
+    }
+
+    return this.get('world_cafe');
+  }
+}
+
+/**
+ * Registry with every built-in source
+ */
+export function createTranscriptSourceRegistry(): TranscriptSourceRegistry {
+  const fixturesDir = process.env.TRANSCRIPT_FIXTURES_DIR || path.resolve(process.cwd(), 'fixtures', 'world-cafe');
+
+  return new TranscriptSourceRegistry([
+    new WorldCafeTranscriptSource(),
+    new LocalTranscriptSource(),
+    new ImportTranscriptSource(),
+    new FixtureTranscriptSource(fixturesDir),
+  ]);
+}
+
+// Export singleton instance
+export const transcriptSources = createTranscriptSourceRegistry();
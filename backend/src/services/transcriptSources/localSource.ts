@@ -0,0 +1,96 @@
+import { Participant, Prisma, Session } from '@prisma/client';
+import { prisma } from '@/utils/prisma';
+import { CustomError } from '@/middleware/errorHandler';
+import { transcriptionService } from '../transcriptionService';
+import { WorldCafeSession, WorldCafeTranscription, WorldCafeParticipant } from '@/types';
+import { TranscriptSource, TranscriptSourceName } from './types';
+
+/**
+ * Reads sessions, transcriptions and participants from the local database only.
+ * Never calls out to another platform, so it also serves offline analysis.
+ */
+export class LocalTranscriptSource implements TranscriptSource {
+  readonly name: TranscriptSourceName = 'local';
+
+  async listSessions(): Promise<WorldCafeSession[]> {
+    const sessions = await prisma.session.findMany({
+      where: this.sessionFilter(),
+      orderBy: { updatedAt: 'desc' },
+    });
+    return sessions.map(session => toWorldCafeSession(session));
+  }
+
+  async getSession(sessionId: string): Promise<WorldCafeSession | null> {
+    const session = await this.findSession(sessionId);
+    return session ? toWorldCafeSession(session) : null;
+  }
+
+  async getTranscriptions(sessionId: string, tableId?: number): Promise<WorldCafeTranscription[]> {
+    const session = await this.ensureLocalSession(sessionId);
+    return transcriptionService.getSessionTranscriptions(session.id, tableId);
+  }
+
+  async getParticipants(sessionId: string): Promise<WorldCafeParticipant[]> {
+    const session = await this.ensureLocalSession(sessionId);
+    const participants = await prisma.participant.findMany({
+      where: { sessionId: session.id },
+      orderBy: { createdAt: 'asc' },
+    });
+    return participants.map(participant => toWorldCafeParticipant(sessionId, participant));
+  }
+
+  async ensureLocalSession(sessionId: string): Promise<Session> {
+    const session = await this.findSession(sessionId);
+    if (!session) {
+      throw new CustomError(`Session ${sessionId} not found in local database`, 404);
+    }
+    return session;
+  }
+
+  protected sessionFilter(): Prisma.SessionWhereInput {
+    return {};
+  }
+
+  private findSession(sessionId: string): Promise<Session | null> {
+    return prisma.session.findFirst({
+      where: { worldCafeId: sessionId, ...this.sessionFilter() },
+    });
+  }
+}
+
+/**
+ * Sessions created by the transcript file import
+ */
+export class ImportTranscriptSource extends LocalTranscriptSource {
+  readonly name: TranscriptSourceName = 'import';
+
+  protected sessionFilter(): Prisma.SessionWhereInput {
+    return { source: 'import' };
+  }
+}
+
+export function toWorldCafeSession(session: Session): WorldCafeSession {
+  return {
+    id: session.worldCafeId,
+    title: session.title,
+    description: session.description || undefined,
+    table_count: session.tableCount,
+    status: session.status,
+    language: session.language,
+    created_at: session.createdAt.toISOString(),
+    updated_at: session.updatedAt.toISOString(),
+  };
+}
+
+function toWorldCafeParticipant(sessionId: string, participant: Participant): WorldCafeParticipant {
+  const tables = Array.isArray(participant.tableAssignments) ? participant.tableAssignments : [];
+  return {
+    id: participant.worldCafeParticipantId || participant.id,
+    session_id: sessionId,
+    table_id: typeof tables[0] === 'number' ? tables[0] : undefined,
+    name: participant.name,
+    email: participant.email || undefined,
+    is_facilitator: false,
+    joined_at: participant.createdAt.toISOString(),
+  };
+}
@@ -0,0 +1,27 @@
+import { Session } from '@prisma/client';
+import { WorldCafeSession, WorldCafeTranscription, WorldCafeParticipant } from '@/types';
+
+// Matches Session.source for sessions created by each source
+export type TranscriptSourceName = 'world_cafe' | 'local' | 'import' | 'fixture';
+
+/**
+ * Where a session's conversations come from. Engines, jobs and routes read
+ * through this interface, so a new platform only needs a new implementation.
+ * Session IDs are the external (World Café style) IDs used in routes.
+ */
+export interface TranscriptSource {
+  readonly name: TranscriptSourceName;
+
+  listSessions(): Promise<WorldCafeSession[]>;
+
+  getSession(sessionId: string): Promise<WorldCafeSession | null>;
+
+  getTranscriptions(sessionId: string, tableId?: number): Promise<WorldCafeTranscription[]>;
+
+  getParticipants(sessionId: string): Promise<WorldCafeParticipant[]>;
+
+  /**
+   * Make sure a local Session row exists so analysis results can be stored against it
+   */
+  ensureLocalSession(sessionId: string): Promise<Session>;
+}
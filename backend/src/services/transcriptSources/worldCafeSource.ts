@@ -0,0 +1,59 @@
+import { Session } from '@prisma/client';
+import { logger } from '@/utils/logger';
+import { prisma } from '@/utils/prisma';
+import { WorldCafeService } from '../worldCafeService';
+import { transcriptionService } from '../transcriptionService';
+import { WorldCafeSession, WorldCafeTranscription, WorldCafeParticipant } from '@/types';
+import { LocalTranscriptSource } from './localSource';
+import { TranscriptSource, TranscriptSourceName } from './types';
+
+/**
+ * World Café sessions. Transcriptions and participants are served from the
+ * local store, which is filled from the World Café API on first access.
+ */
+export class WorldCafeTranscriptSource implements TranscriptSource {
+  readonly name: TranscriptSourceName = 'world_cafe';
+  private local = new LocalTranscriptSource();
+
+  constructor(private worldCafeService: WorldCafeService = new WorldCafeService()) {}
+
+  async listSessions(): Promise<WorldCafeSession[]> {
+    return this.worldCafeService.getAllSessions();
+  }
+
+  async getSession(sessionId: string): Promise<WorldCafeSession | null> {
+    try {
+      return await this.worldCafeService.getSession(sessionId);
+    } catch (error) {
+      logger.warn(`Could not fetch session ${sessionId} from World Café:`, error);
+      return null;
+    }
+  }
+
+  async getTranscriptions(sessionId: string, tableId?: number): Promise<WorldCafeTranscription[]> {
+    const session = await this.ensureLocalSession(sessionId);
+
+    if (!(await transcriptionService.hasTranscriptions(session.id))) {
+      logger.info(`No stored transcriptions for session ${sessionId}, syncing from World Café`);
+      await this.worldCafeService.syncSessionTranscriptions(sessionId);
+    }
+
+    return transcriptionService.getSessionTranscriptions(session.id, tableId);
+  }
+
+  async getParticipants(sessionId: string): Promise<WorldCafeParticipant[]> {
+    const session = await this.ensureLocalSession(sessionId);
+
+    const stored = await prisma.participant.count({ where: { sessionId: session.id } });
+    if (stored === 0) {
+      await this.worldCafeService.syncSessionParticipants(sessionId);
+    }
+
+    return this.local.getParticipants(sessionId);
+  }
+
+  async ensureLocalSession(sessionId: string): Promise<Session> {
+    const existing = await prisma.session.findUnique({ where: { worldCafeId: sessionId } });
+    return existing || this.worldCafeService.syncSession(sessionId);
+  }
+}
@@ -0,0 +1,269 @@
+import { createHash } from 'crypto';
+import { Prisma } from '@prisma/client';
+import { logger } from '@/utils/logger';
+import { prisma } from '@/utils/prisma';
+import { WorldCafeTranscription, SpeakerSegment } from '@/types';
+
+const transcriptionInclude = {
+  session: { select: { worldCafeId: true } },
+  segments: {
+    orderBy: { segmentIndex: 'asc' },
+    include: {
+      words: { orderBy: { wordIndex: 'asc' } },
+    },
+  },
+} satisfies Prisma.TranscriptionInclude;
+
+type StoredTranscription = Prisma.TranscriptionGetPayload<{ include: typeof transcriptionInclude }>;
+
+/**
+ * Local store for transcriptions, speaker segments and word timestamps.
+ * Everything downstream of a sync reads from here instead of World Café.
+ */
+export class TranscriptionService {
+  /**
+   * Upsert transcriptions for a local session, replacing their segments and words
+   */
+  async saveTranscriptions(
+    sessionId: string,
+    transcriptions: WorldCafeTranscription[]
+  ): Promise<number> {
+    let saved = 0;
+
+    for (const transcription of transcriptions) {
+      const segments = this.normalizeSegments(transcription);
+
+      await prisma.$transaction(async (tx) => {
+        const data = {
+          sessionId,
+          tableId: transcription.table_id,
+          transcriptText: transcription.transcript_text || '',
+          confidenceScore: transcription.confidence_score ?? null,
+          wordCount: transcription.word_count || 0,
+          language: transcription.language || null,
+          durationSeconds: transcription.duration_seconds ?? null,
+          recordedAt: transcription.created_at ? new Date(transcription.created_at) : new Date(),
+          contentHash: this.computeContentHash(transcription),
+          speakerLabels: transcription.speaker_labels ?? Prisma.DbNull,
+        };
+
+        const stored = await tx.transcription.upsert({
+          where: { worldCafeTranscriptionId: transcription.id },
+          create: { worldCafeTranscriptionId: transcription.id, ...data },
+          update: data,
+        });
+
+        // A changed upstream transcript replaces any corrections made to it;
+        // their revisions stay on record, marked as superseded
+        const corrected = await tx.speakerSegment.findMany({
+          where: { transcriptionId: stored.id, revision: { gt: 0 } },
+          select: { id: true },
+        });
+        if (corrected.length > 0) {
+          await tx.transcriptRevision.updateMany({
+            where: { segmentIds: { hasSome: corrected.map(segment => segment.id) }, supersededAt: null },
+            data: { supersededAt: new Date() },
+          });
+          logger.warn(`Transcription ${transcription.id} changed upstream; ${corrected.length} corrected segments were replaced`);
+        }
+
+        // Segments are replaced wholesale; word timestamps cascade with them
+        await tx.speakerSegment.deleteMany({
+          where: { transcriptionId: stored.id },
+        });
+
+        for (let index = 0; index < segments.length; index++) {
+          const segment = segments[index];
+          await tx.speakerSegment.create({
+            data: {
+              transcriptionId: stored.id,
+              sessionId,
+              tableId: transcription.table_id,
+              segmentIndex: index,
+              speakerIndex: segment.speaker,
+              text: segment.transcript || '',
+              startTime: segment.start,
+              endTime: segment.end,
+              confidence: segment.confidence ?? null,
+              words: {
+                create: (segment.words || []).map((word, wordIndex) => ({
+                  wordIndex,
+                  word: word.word,
+                  startTime: word.start,
+                  endTime: word.end,
+                  confidence: word.confidence ?? null,
+                })),
+              },
+            },
+          });
+        }
+      });
+
+      saved++;
+    }
+
+    logger.info(`Stored ${saved} transcriptions for session ${sessionId}`);
+    return saved;
+  }
+
+  /**
+   * Read stored transcriptions for a local session in the World Café API shape
+   */
+  async getSessionTranscriptions(
+    sessionId: string,
+    tableId?: number
+  ): Promise<WorldCafeTranscription[]> {
+    const where: Prisma.TranscriptionWhereInput = { sessionId };
+    if (tableId !== undefined) {
+      where.tableId = tableId;
+    }
+
+    const transcriptions = await prisma.transcription.findMany({
+      where,
+      orderBy: [{ tableId: 'asc' }, { recordedAt: 'asc' }],
+      include: transcriptionInclude,
+    });
+
+    return transcriptions.map(transcription => this.toWorldCafeTranscription(transcription));
+  }
+
+  /**
+   * Check whether any transcriptions have been stored for a local session
+   */
+  async hasTranscriptions(sessionId: string): Promise<boolean> {
+    const count = await prisma.transcription.count({ where: { sessionId } });
+    return count > 0;
+  }
+
+  /**
+   * Hash the parts of a transcription that analysis depends on
+   */
+  computeContentHash(transcription: WorldCafeTranscription): string {
+    const content = {
+      text: transcription.transcript_text || '',
+      confidence: transcription.confidence_score ?? null,
+      language: transcription.language || null,
+      segments: this.normalizeSegments(transcription).map(segment => [
+        segment.speaker,
+        segment.transcript,
+        segment.start,
+        segment.end,
+        segment.confidence ?? null,
+        (segment.words || []).map(word => [word.word, word.start, word.end, word.confidence ?? null]),
+      ]),
+    };
+
+    return createHash('sha256').update(JSON.stringify(content)).digest('hex');
+  }
+
+  /**
+   * Content hashes of the stored transcriptions for one table, keyed by World Café ID
+   */
+  async getContentHashes(sessionId: string, tableId: number): Promise<Map<string, string>> {
+    const stored = await prisma.transcription.findMany({
+      where: { sessionId, tableId },
+      select: { worldCafeTranscriptionId: true, contentHash: true },
+    });
+
+    return new Map(stored.map(t => [t.worldCafeTranscriptionId, t.contentHash]));
+  }
+
+  /**
+   * Remove a table's stored transcriptions by World Café ID, with their segments
+   */
+  async removeTranscriptions(sessionId: string, tableId: number, worldCafeTranscriptionIds: string[]): Promise<number> {
+    if (worldCafeTranscriptionIds.length === 0) return 0;
+
+    const { count } = await prisma.transcription.deleteMany({
+      where: { sessionId, tableId, worldCafeTranscriptionId: { in: worldCafeTranscriptionIds } },
+    });
+    return count;
+  }
+
+  /**
+   * Combined hash over every stored transcription at a table
+   */
+  async getTableFingerprint(sessionId: string, tableId: number): Promise<{
+    contentHash: string;
+    transcriptionCount: number;
+    lastTranscriptionAt: Date | null;
+  }> {
+    const stored = await prisma.transcription.findMany({
+      where: { sessionId, tableId },
+      select: { worldCafeTranscriptionId: true, contentHash: true, recordedAt: true },
+      orderBy: { worldCafeTranscriptionId: 'asc' },
+    });
+
+    const hash = createHash('sha256');
+    let lastTranscriptionAt: Date | null = null;
+    for (const transcription of stored) {
+      hash.update(`${transcription.worldCafeTranscriptionId}:${transcription.contentHash};`);
+      if (!lastTranscriptionAt || transcription.recordedAt > lastTranscriptionAt) {
+        lastTranscriptionAt = transcription.recordedAt;
+      }
+    }
+
+    return {
+      contentHash: hash.digest('hex'),
+      transcriptionCount: stored.length,
+      lastTranscriptionAt,
+    };
+  }
+
+  /**
+   * Ensure every transcription has at least one speaker segment.
+   * Transcriptions without diarization become a single segment for speaker 1.
+   */
+  private normalizeSegments(transcription: WorldCafeTranscription): SpeakerSegment[] {
+    if (Array.isArray(transcription.speaker_segments) && transcription.speaker_segments.length > 0) {
+      return transcription.speaker_segments;
+    }
+
+    if (!transcription.transcript_text) {
+      return [];
+    }
+
+    return [{
+      speaker: 1,
+      transcript: transcription.transcript_text,
+      start: 0,
+      end: transcription.duration_seconds || 60,
+      confidence: transcription.confidence_score,
+      words: [],
+    }];
+  }
+
+  /**
+   * Map a stored transcription back to the shape the analysis engines expect
+   */
+  private toWorldCafeTranscription(transcription: StoredTranscription): WorldCafeTranscription {
+    return {
+      id: transcription.worldCafeTranscriptionId,
+      session_id: transcription.session.worldCafeId,
+      table_id: transcription.tableId,
+      transcript_text: transcription.transcriptText,
+      confidence_score: transcription.confidenceScore ?? undefined,
+      word_count: transcription.wordCount,
+      duration_seconds: transcription.durationSeconds ?? undefined,
+      speaker_labels: (transcription.speakerLabels as Record<number, string> | null) ?? undefined,
+      language: transcription.language || '',
+      created_at: transcription.recordedAt.toISOString(),
+      speaker_segments: transcription.segments.map(segment => ({
+        speaker: segment.speakerIndex,
+        transcript: segment.text,
+        start: segment.startTime,
+        end: segment.endTime,
+        confidence: segment.confidence ?? undefined,
+        words: segment.words.map(word => ({
+          word: word.word,
+          start: word.startTime,
+          end: word.endTime,
+          confidence: word.confidence ?? undefined,
+        })),
+      })),
+    };
+  }
+}
+
+// Export singleton instance
+export const transcriptionService = new TranscriptionService();
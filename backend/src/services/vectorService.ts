@@ -1,6 +1,8 @@
 import { logger } from '@/utils/logger';
 import { prisma } from '@/utils/prisma';
 import { SearchResult } from '@/types/chat';
+import { transcriptionService } from './transcriptionService';
+import { GLOBAL_SCOPE, redactionService } from './redactionService';
 
 /**
  * Vector Service for RAG functionality
@@ -8,15 +10,19 @@ import { SearchResult } from '@/types/chat';
  */
 export class VectorService {
   /**
-   * Generate embeddings using OpenAI API
+   * Generate embeddings using OpenAI API. Personal data is redacted before the
+   * text is sent; scope is the World Café session whose roster to redact.
    */
-  async generateEmbeddings(text: string): Promise<number[]> {
+  async generateEmbeddings(text: string, scope: string = GLOBAL_SCOPE): Promise<number[]> {
     if (!process.env.OPENAI_API_KEY) {
       logger.warn('OpenAI API key not configured, using mock embeddings');
       // Return mock embedding for development
       return new Array(1536).fill(0).map(() => Math.random() * 2 - 1);
     }
 
+    // Outside the try: when redaction fails, nothing is sent
+    const input = await redactionService.redactText(text, { scope, purpose: 'embedding' });
+
     try {
       const response = await fetch('https://api.openai.com/v1/embeddings', {
         method: 'POST',
@@ -26,7 +32,7 @@ export class VectorService {
         },
         body: JSON.stringify({
           model: 'text-embedding-ada-002',
-          input: text,
+          input,
         }),
       });
 
@@ -54,7 +60,7 @@ export class VectorService {
     metadata: Record<string, any> = {}
   ): Promise<void> {
     try {
-      const embedding = await this.generateEmbeddings(content);
+      const embedding = await this.generateEmbeddings(content, sessionId);
       
       // Note: This assumes pgvector extension is installed
       // For now, we'll store as JSON and implement basic similarity later
@@ -106,7 +112,7 @@ export class VectorService {
    */
   async searchSession(sessionId: string, query: string, limit: number = 10): Promise<SearchResult[]> {
     try {
-      const queryEmbedding = await this.generateEmbeddings(query);
+      const queryEmbedding = await this.generateEmbeddings(query, sessionId);
       
       const results = await prisma.$queryRaw<any[]>`
         SELECT session_id, table_id, document_type, content, metadata
@@ -137,7 +143,7 @@ export class VectorService {
    */
   async searchTable(sessionId: string, tableId: number, query: string, limit: number = 10): Promise<SearchResult[]> {
     try {
-      const queryEmbedding = await this.generateEmbeddings(query);
+      const queryEmbedding = await this.generateEmbeddings(query, sessionId);
       
       const results = await prisma.$queryRaw<any[]>`
         SELECT session_id, table_id, document_type, content, metadata
@@ -164,9 +170,9 @@ export class VectorService {
   }
 
   /**
-   * Index transcription data for RAG
+   * Index transcription data for RAG, optionally only for some tables
    */
-  async indexTranscriptions(sessionId: string): Promise<void> {
+  async indexTranscriptions(sessionId: string, tableIds?: number[]): Promise<void> {
     try {
       // Get transcriptions for the session
       const session = await prisma.session.findUnique({
@@ -178,34 +184,30 @@ export class VectorService {
         return;
       }
 
-      // This would normally call the World Café API, but for now we'll use mock data
       logger.info(`Starting to index transcriptions for session ${sessionId}`);
       
-      // In a real implementation, we would:
-      // 1. Fetch transcriptions from the API
-      // 2. Split into chunks (speaker segments)
-      // 3. Generate embeddings for each chunk
-      // 4. Store in document_embeddings table
-      
-      // Mock indexing for now
-      const mockSegments = [
-        "Discussion about sustainable urban development and community gardens",
-        "Concerns about gentrification and affordable housing",
-        "Ideas for improving public transportation accessibility"
-      ];
-
-      for (let i = 0; i < mockSegments.length; i++) {
-        await this.storeEmbedding(
-          session.worldCafeId,
-          i + 1,
-          'transcription',
-          mockSegments[i],
-          {
-            speakerId: i + 1,
-            timestamp: i * 60,
-            tableId: i + 1
-          }
-        );
+      // Each stored speaker segment becomes one document chunk
+      const transcriptions = await transcriptionService.getSessionTranscriptions(session.id);
+
+      for (const transcription of transcriptions) {
+        if (tableIds && !tableIds.includes(transcription.table_id)) continue;
+
+        for (const segment of transcription.speaker_segments) {
+          if (!segment.transcript.trim()) continue;
+
+          await this.storeEmbedding(
+            session.worldCafeId,
+            transcription.table_id,
+            'transcription',
+            segment.transcript,
+            {
+              transcriptionId: transcription.id,
+              speakerId: segment.speaker,
+              timestamp: segment.start,
+              tableId: transcription.table_id
+            }
+          );
+        }
       }
 
       logger.info(`Completed indexing transcriptions for session ${sessionId}`);
@@ -214,6 +216,23 @@ export class VectorService {
     }
   }
 
+  /**
+   * Replace transcription embeddings for a session (or some of its tables) after the transcripts changed
+   */
+  async reindexTranscriptions(sessionId: string, tableIds?: number[]): Promise<void> {
+    // Embeddings are keyed by World Café session ID, see indexTranscriptions
+    const { count } = await prisma.documentEmbedding.deleteMany({
+      where: {
+        sessionId,
+        documentType: 'transcription',
+        ...(tableIds ? { tableId: { in: tableIds } } : {}),
+      },
+    });
+    logger.info(`Removed ${count} transcription embeddings for session ${sessionId}, re-indexing`);
+
+    await this.indexTranscriptions(sessionId, tableIds);
+  }
+
   /**
    * Index analysis results for RAG
    */
@@ -0,0 +1,86 @@
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import * as path from 'path';
+import type { StandInConfig } from '@/dev/worldCafeStandIn';
+import type { WorldCafeService } from './worldCafeService';
+
+// Runs the real client against the bundled stand-in and fixtures; nothing here
+// touches the database
+jest.mock('@/utils/prisma', () => ({ prisma: {} }));
+
+const FIXTURES_DIR = path.resolve(__dirname, '../../fixtures/world-cafe');
+const SESSION_ID = 'demo-urban-futures';
+
+describe('WorldCafeService against the stand-in', () => {
+  let server: Server;
+  let config: StandInConfig;
+  let service: WorldCafeService;
+
+  beforeAll(async () => {
+    // Retry settings are read when the service module loads, which the stand-in's
+    // fixture source does too
+    process.env.WORLD_CAFE_RETRIES = '1';
+    process.env.WORLD_CAFE_RETRY_BASE_MS = '1';
+    process.env.WORLD_CAFE_RETRY_MAX_MS = '5';
+    const { createWorldCafeStandIn } = await import('@/dev/worldCafeStandIn');
+
+    const standIn = createWorldCafeStandIn({
+      fixturesDir: FIXTURES_DIR,
+      latencyMs: 0,
+      latencyJitterMs: 0,
+      errorRate: 0,
+      failTables: [],
+    });
+    config = standIn.config;
+    server = await new Promise<Server>(resolve => {
+      const listening = standIn.app.listen(0, '127.0.0.1', () => resolve(listening));
+    });
+
+    process.env.WORLD_CAFE_API_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    const { WorldCafeService } = await import('./worldCafeService');
+    service = new WorldCafeService();
+  });
+
+  afterEach(() => {
+    config.failTables = [];
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('fetches a session', async () => {
+    const session = await service.getSession(SESSION_ID);
+
+    expect(session).toMatchObject({ id: SESSION_ID, table_count: 2, status: 'completed' });
+  });
+
+  it('fetches every table of a session, tagging transcriptions with their table', async () => {
+    const transcriptions = await service.getSessionTranscriptions(SESSION_ID);
+
+    expect(transcriptions.map(transcription => [transcription.table_id, transcription.id])).toEqual([
+      [1, `${SESSION_ID}-table-1-1`],
+      [2, `${SESSION_ID}-table-2-1`],
+    ]);
+    expect(transcriptions[0].speaker_segments.length).toBeGreaterThan(0);
+  });
+
+  it('reports a failing table while returning the others', async () => {
+    config.failTables = [2];
+
+    const { transcriptions, failedTables } = await service.fetchTablesTranscriptions(SESSION_ID, [1, 2]);
+
+    expect(transcriptions.map(transcription => transcription.table_id)).toEqual([1]);
+    expect(failedTables).toEqual([{ tableId: 2, error: expect.stringContaining('500') }]);
+  });
+
+  it('treats a table of an unknown session as having no transcriptions', async () => {
+    await expect(service.getTableTranscriptions('no-such-session', 1)).resolves.toEqual([]);
+  });
+
+  it('fetches participants', async () => {
+    const participants = await service.getSessionParticipants(SESSION_ID);
+
+    expect(participants).toHaveLength(8);
+  });
+});
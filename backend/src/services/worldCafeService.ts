@@ -1,12 +1,56 @@
-import axios, { AxiosInstance, AxiosError } from 'axios';
+import axios, { AxiosInstance, AxiosError, AxiosRequestConfig, AxiosResponse } from 'axios';
 import { logger } from '@/utils/logger';
 import { prisma } from '@/utils/prisma';
+import { CircuitBreaker, mapWithConcurrency, withRetry } from '@/utils/resilience';
+import { transcriptionService } from './transcriptionService';
 import { 
   WorldCafeSession, 
   WorldCafeTranscription, 
   WorldCafeParticipant,
-  SyncStatus 
+  SyncStatus,
+  TableSyncDelta,
+  TableFetchFailure,
+  TranscriptionSyncResult
 } from '@/types';
+import { envInt } from '@/utils/numbers';
+
+// Client resilience settings (see README "World Café Client")
+const RETRY_OPTIONS = {
+  retries: envInt('WORLD_CAFE_RETRIES', 3),
+  baseDelayMs: envInt('WORLD_CAFE_RETRY_BASE_MS', 500),
+  maxDelayMs: envInt('WORLD_CAFE_RETRY_MAX_MS', 8000),
+};
+const TABLE_FETCH_CONCURRENCY = envInt('WORLD_CAFE_TABLE_CONCURRENCY', 4);
+
+// Recorded with every transcription sync that found changes, since the analysis it
+// triggers covers the whole session rather than the changed tables
+const FULL_REANALYSIS_REASON = 'Participation equity, polarization, cross-pollination and outcome prediction '
+  + 'are measured across tables, so a change at any table re-analyzes the whole session';
+
+// Shared by every WorldCafeService instance so they all fail fast together
+const worldCafeBreaker = new CircuitBreaker({
+  name: 'World Café API',
+  failureThreshold: envInt('WORLD_CAFE_BREAKER_THRESHOLD', 5),
+  resetTimeoutMs: envInt('WORLD_CAFE_BREAKER_RESET_MS', 30000),
+});
+
+// Timeouts, dropped connections and 5xx mean World Café is struggling
+const isOutageError = (error: unknown): boolean => {
+  if (!axios.isAxiosError(error)) return false;
+  return !error.response || error.response.status >= 500;
+};
+
+const isRetryableError = (error: unknown): boolean =>
+  isOutageError(error) || (axios.isAxiosError(error) && error.response?.status === 429);
+
+const errorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : 'Unknown error';
+
+const retryAfterMs = (error: unknown): number | undefined => {
+  if (!axios.isAxiosError(error)) return undefined;
+  const seconds = parseInt(error.response?.headers?.['retry-after'] || '', 10);
+  return isNaN(seconds) ? undefined : Math.min(seconds * 1000, RETRY_OPTIONS.maxDelayMs);
+};
 
 export class WorldCafeService {
   private client: AxiosInstance;
@@ -52,10 +96,31 @@ export class WorldCafeService {
     );
   }
 
+  // GET through the circuit breaker, retrying transient failures with jittered backoff
+  private async get<T = any>(url: string, config?: AxiosRequestConfig): Promise<AxiosResponse<T>> {
+    return worldCafeBreaker.execute(
+      () => withRetry(() => this.client.get<T>(url, config), {
+        ...RETRY_OPTIONS,
+        shouldRetry: isRetryableError,
+        delayOverrideMs: retryAfterMs,
+        onRetry: (error, attempt, delayMs) => {
+          const reason = axios.isAxiosError(error) ? error.response?.status || error.code : 'error';
+          logger.warn(`Retrying World Café GET ${url} (attempt ${attempt}/${RETRY_OPTIONS.retries}, ${reason}) in ${delayMs}ms`);
+        },
+      }),
+      isOutageError
+    );
+  }
+
+  // Circuit breaker state, for health checks
+  getCircuitState() {
+    return worldCafeBreaker.getState();
+  }
+
   // Test connection to World Café API
   async testConnection(): Promise<boolean> {
     try {
-      const response = await this.client.get('/');
+      const response = await this.client.get('/'); // bypasses retries so health checks stay quick
       logger.info('World Café API connection test successful');
       return response.status === 200;
     } catch (error) {
@@ -64,16 +129,22 @@ export class WorldCafeService {
     }
   }
 
-  // Sync a single session from World Café
-  async syncSession(worldCafeId: string): Promise<any> {
+  // Get a single session from World Café API
+  async getSession(worldCafeId: string): Promise<WorldCafeSession> {
+    const response = await this.get(`/api/sessions/${worldCafeId}`);
+    return response.data;
+  }
+
+  // Sync a single session from World Café, skipping the write if upstream is unchanged
+  async syncSession(worldCafeId: string, force: boolean = false): Promise<any> {
     const startTime = Date.now();
     
     try {
       logger.info(`Syncing session ${worldCafeId} from World Café`);
 
       // Fetch session data from World Café API
-      const response = await this.client.get(`/api/sessions/${worldCafeId}`);
-      const worldCafeSession: WorldCafeSession = response.data;
+      const worldCafeSession = await this.getSession(worldCafeId);
+      const upstreamUpdatedAt = worldCafeSession.updated_at ? new Date(worldCafeSession.updated_at) : null;
 
       // Check if session already exists in our database
       const existingSession = await prisma.session.findUnique({
@@ -81,8 +152,17 @@ export class WorldCafeService {
       });
 
       let session;
+      let changed = true;
       
-      if (existingSession) {
+      if (existingSession && !force && this.isUnchanged(existingSession.worldCafeUpdatedAt, upstreamUpdatedAt)) {
+        // Nothing changed upstream; only record that we checked
+        session = await prisma.session.update({
+          where: { worldCafeId },
+          data: { lastSyncedAt: new Date() },
+        });
+        changed = false;
+        logger.info(`Session ${worldCafeId} unchanged since last sync`);
+      } else if (existingSession) {
         // Update existing session
         session = await prisma.session.update({
           where: { worldCafeId },
@@ -94,6 +174,7 @@ export class WorldCafeService {
             language: worldCafeSession.language,
             lastSyncedAt: new Date(),
             syncStatus: 'completed',
+            worldCafeUpdatedAt: upstreamUpdatedAt,
           },
         });
         logger.info(`Updated existing session ${worldCafeId}`);
@@ -109,6 +190,7 @@ export class WorldCafeService {
             language: worldCafeSession.language,
             lastSyncedAt: new Date(),
             syncStatus: 'completed',
+            worldCafeUpdatedAt: upstreamUpdatedAt,
           },
         });
         logger.info(`Created new session ${worldCafeId}`);
@@ -117,11 +199,11 @@ export class WorldCafeService {
       // Log the sync operation
       await this.logSyncOperation({
         endpoint: `/api/sessions/${worldCafeId}`,
-        sessionId: worldCafeId,
+        sessionId: session.id,
         syncType: 'session',
         syncStatus: 'success',
         syncDurationMs: Date.now() - startTime,
-        responseData: worldCafeSession,
+        responseData: changed ? worldCafeSession : { changed: false },
       });
 
       return session;
@@ -148,7 +230,7 @@ export class WorldCafeService {
     try {
       logger.info('Fetching all sessions from World Café');
       
-      const response = await this.client.get('/api/sessions');
+      const response = await this.get('/api/sessions');
       const sessions: WorldCafeSession[] = response.data;
       
       logger.info(`Fetched ${sessions.length} sessions from World Café`);
@@ -171,7 +253,7 @@ export class WorldCafeService {
         const endpoint = `/api/sessions/${worldCafeId}/tables/${tableId}/transcriptions`;
         logger.info(`Fetching transcriptions: ${endpoint}`);
         
-        const response = await this.client.get(endpoint);
+        const response = await this.get(endpoint);
         const transcriptions: WorldCafeTranscription[] = response.data;
         
         logger.info(`Fetched ${transcriptions.length} transcriptions for table ${tableId} in session ${worldCafeId}`);
@@ -181,37 +263,21 @@ export class WorldCafeService {
         logger.info(`Fetching transcriptions for all tables in session ${worldCafeId}`);
         
         // Get session info to determine table count
-        const sessionResponse = await this.client.get(`/api/sessions/${worldCafeId}`);
-        const session = sessionResponse.data;
+        const session = await this.getSession(worldCafeId);
         const tableCount = session.table_count || 10; // Default to 10 if not specified
-        
-        const allTranscriptions: WorldCafeTranscription[] = [];
-        
-        // Fetch transcriptions from each table
-        for (let i = 1; i <= tableCount; i++) {
-          try {
-            const endpoint = `/api/sessions/${worldCafeId}/tables/${i}/transcriptions`;
-            logger.debug(`Fetching transcriptions: ${endpoint}`);
-            
-            const response = await this.client.get(endpoint);
-            const tableTranscriptions: WorldCafeTranscription[] = response.data;
-            
-            // Add table metadata to each transcription
-            const enrichedTranscriptions = tableTranscriptions.map(transcription => ({
-              ...transcription,
-              table_id: i // Ensure table_id is set
-            }));
-            
-            allTranscriptions.push(...enrichedTranscriptions);
-            logger.debug(`Fetched ${tableTranscriptions.length} transcriptions from table ${i}`);
-          } catch (tableError: any) {
-            // Log but don't fail for individual tables that might not have transcriptions
-            logger.debug(`No transcriptions found for table ${i} in session ${worldCafeId}: ${tableError.message}`);
-          }
+        const tableIds = Array.from({ length: tableCount }, (_, i) => i + 1);
+
+        const { transcriptions, failedTables } = await this.fetchTablesTranscriptions(worldCafeId, tableIds);
+
+        if (failedTables.length === tableIds.length) {
+          throw new Error(`All ${tableCount} tables failed: ${failedTables[0].error}`);
+        }
+        if (failedTables.length > 0) {
+          logger.warn(`Transcriptions for session ${worldCafeId} are partial; failed tables: ${failedTables.map(f => f.tableId).join(', ')}`);
         }
         
-        logger.info(`Fetched ${allTranscriptions.length} total transcriptions from ${tableCount} tables for session ${worldCafeId}`);
-        return allTranscriptions;
+        logger.info(`Fetched ${transcriptions.length} total transcriptions from ${tableCount} tables for session ${worldCafeId}`);
+        return transcriptions;
       }
       
     } catch (error) {
@@ -220,34 +286,167 @@ export class WorldCafeService {
     }
   }
 
-  // Sync transcriptions for a session
-  async syncSessionTranscriptions(worldCafeId: string): Promise<void> {
+  // Fetch several tables in parallel (bounded), reporting the tables that failed
+  async fetchTablesTranscriptions(
+    worldCafeId: string,
+    tableIds: number[]
+  ): Promise<{ transcriptions: WorldCafeTranscription[]; failedTables: TableFetchFailure[] }> {
+    const results = await mapWithConcurrency(tableIds, TABLE_FETCH_CONCURRENCY, tableId =>
+      this.getTableTranscriptions(worldCafeId, tableId)
+    );
+
+    const transcriptions: WorldCafeTranscription[] = [];
+    const failedTables: TableFetchFailure[] = [];
+    for (const result of results) {
+      if (result.ok) {
+        transcriptions.push(...result.value);
+      } else {
+        failedTables.push({ tableId: result.item, error: errorMessage(result.error) });
+      }
+    }
+
+    return { transcriptions, failedTables };
+  }
+
+  // Get transcriptions for one table
+  async getTableTranscriptions(worldCafeId: string, tableId: number): Promise<WorldCafeTranscription[]> {
+    const endpoint = `/api/sessions/${worldCafeId}/tables/${tableId}/transcriptions`;
+    let response;
+    try {
+      response = await this.get(endpoint);
+    } catch (error) {
+      // Tables without recordings have no transcriptions endpoint yet
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        return [];
+      }
+      throw error;
+    }
+    const transcriptions: WorldCafeTranscription[] = response.data;
+
+    return transcriptions.map(transcription => ({ ...transcription, table_id: tableId }));
+  }
+
+  // Incrementally sync transcriptions for a session into the local store.
+  // Every table is fetched in full, since World Café transcriptions carry no
+  // updated_at to ask for edits by; only new or changed ones, by content hash,
+  // are written, and force writes them all again.
+  async syncSessionTranscriptions(
+    worldCafeId: string,
+    options: { force?: boolean; tableIds?: number[] } = {}
+  ): Promise<TranscriptionSyncResult> {
     const startTime = Date.now();
+    let localSessionId = worldCafeId;
     
     try {
-      logger.info(`Syncing transcriptions for session ${worldCafeId}`);
-      
-      const transcriptions = await this.getSessionTranscriptions(worldCafeId);
+      logger.info(`Syncing transcriptions for session ${worldCafeId}${options.force ? ' (full)' : ''}`);
+
+      const session = await prisma.session.findUnique({
+        where: { worldCafeId },
+        include: { tableSyncStates: true },
+      });
+
+      if (!session) {
+        throw new Error(`Session ${worldCafeId} not found in local database`);
+      }
+      localSessionId = session.id;
+
+      const tableIds = options.tableIds && options.tableIds.length > 0
+        ? options.tableIds
+        : Array.from({ length: session.tableCount }, (_, i) => i + 1);
+      const states = new Map(session.tableSyncStates.map(state => [state.tableId, state]));
+
+      const result: TranscriptionSyncResult = {
+        sessionId: worldCafeId,
+        tables: [],
+        changedTables: [],
+        failedTables: [],
+        status: 'success',
+        added: 0,
+        updated: 0,
+        unchanged: 0,
+        removed: 0,
+      };
+
+      // Tables are fetched and stored in parallel, bounded so World Café is not flooded
+      const outcomes = await mapWithConcurrency(tableIds, TABLE_FETCH_CONCURRENCY, async (tableId) => {
+        const state = states.get(tableId);
+
+        const delta = await this.syncTableTranscriptions(session.id, worldCafeId, tableId, !!options.force);
+
+        const fingerprint = await transcriptionService.getTableFingerprint(session.id, tableId);
+        const changed = delta.added + delta.updated > 0 || state?.contentHash !== fingerprint.contentHash;
+
+        await prisma.tableSyncState.upsert({
+          where: { sessionId_tableId: { sessionId: session.id, tableId } },
+          create: {
+            sessionId: session.id,
+            tableId,
+            ...fingerprint,
+            lastSyncedAt: new Date(),
+            lastChangedAt: changed ? new Date() : null,
+          },
+          update: {
+            ...fingerprint,
+            lastSyncedAt: new Date(),
+            ...(changed ? { lastChangedAt: new Date() } : {}),
+          },
+        });
+
+        // A table emptied upstream changed too, though there is nothing left to store for it
+        return { delta, changed: changed && (fingerprint.transcriptionCount > 0 || delta.removed > 0) };
+      });
+
+      for (const outcome of outcomes) {
+        if (outcome.ok) {
+          const { delta, changed } = outcome.value;
+          result.tables.push(delta);
+          result.added += delta.added;
+          result.updated += delta.updated;
+          result.unchanged += delta.unchanged;
+          result.removed += delta.removed;
+          if (changed) {
+            result.changedTables.push(delta.tableId);
+          }
+        } else {
+          const message = errorMessage(outcome.error);
+          logger.warn(`Failed to sync transcriptions for table ${outcome.item} in session ${worldCafeId}: ${message}`);
+          result.tables.push({ tableId: outcome.item, added: 0, updated: 0, unchanged: 0, removed: 0, error: message });
+          result.failedTables.push(outcome.item);
+        }
+      }
+
+      if (tableIds.length > 0 && result.failedTables.length === tableIds.length) {
+        throw new Error(`All ${tableIds.length} tables failed to sync: ${result.tables[0].error}`);
+      }
+      if (result.failedTables.length > 0) {
+        result.status = 'partial';
+      }
       
-      // Store transcriptions in our database for caching/analysis
-      // For now, we'll just log them as we're primarily using the API
-      logger.info(`Successfully fetched ${transcriptions.length} transcriptions for session ${worldCafeId}`);
+      logger.info(`Transcription sync for session ${worldCafeId}: ${result.added} added, ${result.updated} updated, ${result.unchanged} unchanged, ${result.removed} removed, changed tables [${result.changedTables.join(', ')}], failed tables [${result.failedTables.join(', ')}]`);
       
       await this.logSyncOperation({
         endpoint: `/api/sessions/${worldCafeId}/transcriptions`,
-        sessionId: worldCafeId,
+        sessionId: localSessionId,
         syncType: 'transcription',
-        syncStatus: 'success',
+        syncStatus: result.status,
         syncDurationMs: Date.now() - startTime,
-        responseData: { count: transcriptions.length },
+        requestData: { force: !!options.force, tableIds },
+        responseData: result.changedTables.length > 0
+          ? { ...result, reanalysis: { scope: 'session', reason: FULL_REANALYSIS_REASON } }
+          : result,
+        errorMessage: result.failedTables.length > 0
+          ? `Failed tables: ${result.failedTables.join(', ')}`
+          : undefined,
       });
 
+      return result;
+
     } catch (error) {
       logger.error(`Failed to sync transcriptions for session ${worldCafeId}:`, error);
       
       await this.logSyncOperation({
         endpoint: `/api/sessions/${worldCafeId}/transcriptions`,
-        sessionId: worldCafeId,
+        sessionId: localSessionId,
         syncType: 'transcription',
         syncStatus: 'error',
         syncDurationMs: Date.now() - startTime,
@@ -258,6 +457,49 @@ export class WorldCafeService {
     }
   }
 
+  // Fetch one table and store only transcriptions whose content hash differs, or all of them
+  // when forced, and remove the ones no longer there
+  private async syncTableTranscriptions(
+    sessionId: string,
+    worldCafeId: string,
+    tableId: number,
+    force: boolean
+  ): Promise<TableSyncDelta> {
+    const transcriptions = await this.getTableTranscriptions(worldCafeId, tableId);
+    const storedHashes = await transcriptionService.getContentHashes(sessionId, tableId);
+
+    const delta: TableSyncDelta = { tableId, added: 0, updated: 0, unchanged: 0, removed: 0 };
+    const changed: WorldCafeTranscription[] = [];
+
+    for (const transcription of transcriptions) {
+      const storedHash = storedHashes.get(transcription.id);
+      if (storedHash === undefined) {
+        delta.added++;
+        changed.push(transcription);
+      } else if (storedHash !== transcriptionService.computeContentHash(transcription)) {
+        delta.updated++;
+        changed.push(transcription);
+      } else {
+        delta.unchanged++;
+        if (force) changed.push(transcription);
+      }
+    }
+
+    if (changed.length > 0) {
+      await transcriptionService.saveTranscriptions(sessionId, changed);
+    }
+
+    // Transcriptions deleted upstream must not stay in later analyses
+    const upstreamIds = new Set(transcriptions.map(transcription => transcription.id));
+    const deleted = [...storedHashes.keys()].filter(id => !upstreamIds.has(id));
+    if (deleted.length > 0) {
+      delta.removed = await transcriptionService.removeTranscriptions(sessionId, tableId, deleted);
+      logger.info(`Removed ${delta.removed} transcriptions deleted upstream from table ${tableId} of session ${worldCafeId}`);
+    }
+
+    return delta;
+  }
+
   // Get participants for a session
   async getSessionParticipants(worldCafeId: string): Promise<WorldCafeParticipant[]> {
     try {
@@ -265,7 +507,7 @@ export class WorldCafeService {
       
       // Note: This endpoint might not exist in World Café API yet
       // We'll try it and fallback gracefully
-      const response = await this.client.get(`/api/sessions/${worldCafeId}/participants`);
+      const response = await this.get(`/api/sessions/${worldCafeId}/participants`);
       const participants: WorldCafeParticipant[] = response.data;
       
       logger.info(`Fetched ${participants.length} participants for session ${worldCafeId}`);
@@ -365,7 +607,7 @@ export class WorldCafeService {
     try {
       logger.info(`Fetching World Café analysis for session ${worldCafeId}`);
       
-      const response = await this.client.get(`/api/sessions/${worldCafeId}/analysis`);
+      const response = await this.get(`/api/sessions/${worldCafeId}/analysis`);
       const analysis = response.data;
       
       logger.info(`Fetched World Café analysis for session ${worldCafeId}`);
@@ -377,6 +619,12 @@ export class WorldCafeService {
     }
   }
 
+  // Compare stored and upstream updated_at; unknown timestamps always count as changed
+  private isUnchanged(storedUpdatedAt: Date | null, upstreamUpdatedAt: Date | null): boolean {
+    if (!storedUpdatedAt || !upstreamUpdatedAt) return false;
+    return storedUpdatedAt.getTime() === upstreamUpdatedAt.getTime();
+  }
+
   // Log sync operations for monitoring and debugging
   private async logSyncOperation(data: {
     endpoint: string;
@@ -412,10 +660,23 @@ export class WorldCafeService {
     }
   }
 
-  // Sync all sessions from World Café
-  async syncAllSessions(): Promise<{ synced: number; errors: number; sessions: any[] }> {
+  // Sync all sessions from World Café, skipping the metadata of sessions unchanged since the
+  // last sync, then every session's transcriptions, which change without touching it
+  async syncAllSessions(force: boolean = false): Promise<{
+    synced: number;
+    unchanged: number;
+    errors: number;
+    sessions: any[];
+    changedSessions: { sessionId: string; changedTables: number[] }[];
+  }> {
     const startTime = Date.now();
-    const results = { synced: 0, errors: 0, sessions: [] as any[] };
+    const results = {
+      synced: 0,
+      unchanged: 0,
+      errors: 0,
+      sessions: [] as any[],
+      changedSessions: [] as { sessionId: string; changedTables: number[] }[],
+    };
     
     try {
       logger.info('Starting sync of all sessions from World Café');
@@ -423,14 +684,34 @@ export class WorldCafeService {
       // Get all sessions from World Café
       const worldCafeSessions = await this.getAllSessions();
       logger.info(`Found ${worldCafeSessions.length} sessions in World Café`);
+
+      const localSessions = await prisma.session.findMany({
+        where: { worldCafeId: { in: worldCafeSessions.map(s => s.id) } },
+        select: { worldCafeId: true, worldCafeUpdatedAt: true },
+      });
+      const localUpdatedAt = new Map(localSessions.map(s => [s.worldCafeId, s.worldCafeUpdatedAt]));
       
       // Sync each session
       for (const worldCafeSession of worldCafeSessions) {
+        const upstreamUpdatedAt = worldCafeSession.updated_at ? new Date(worldCafeSession.updated_at) : null;
+        const metadataUnchanged = !force && localUpdatedAt.has(worldCafeSession.id) &&
+          this.isUnchanged(localUpdatedAt.get(worldCafeSession.id) || null, upstreamUpdatedAt);
+
         try {
-          const session = await this.syncSession(worldCafeSession.id);
-          results.sessions.push(session);
-          results.synced++;
-          logger.info(`Synced session: ${worldCafeSession.title} (${worldCafeSession.id})`);
+          if (metadataUnchanged) {
+            results.unchanged++;
+          } else {
+            const session = await this.syncSession(worldCafeSession.id, force);
+            results.sessions.push(session);
+            results.synced++;
+            logger.info(`Synced session: ${worldCafeSession.title} (${worldCafeSession.id})`);
+          }
+
+          // Transcriptions carry no updated_at of their own, so every session's tables are checked by content hash
+          const transcriptionSync = await this.syncSessionTranscriptions(worldCafeSession.id, { force });
+          if (transcriptionSync.changedTables.length > 0) {
+            results.changedSessions.push({ sessionId: worldCafeSession.id, changedTables: transcriptionSync.changedTables });
+          }
         } catch (error) {
           logger.error(`Failed to sync session ${worldCafeSession.id}:`, error);
           results.errors++;
@@ -443,10 +724,16 @@ export class WorldCafeService {
         syncType: 'session',
         syncStatus: results.errors > 0 ? 'partial' : 'success',
         syncDurationMs: Date.now() - startTime,
-        responseData: results,
+        responseData: {
+          synced: results.synced,
+          unchanged: results.unchanged,
+          errors: results.errors,
+          sessionIds: results.sessions.map(session => session.worldCafeId),
+          changedSessions: results.changedSessions,
+        },
       });
 
-      logger.info(`Completed sync: ${results.synced} synced, ${results.errors} errors`);
+      logger.info(`Completed sync: ${results.synced} synced, ${results.unchanged} unchanged, ${results.changedSessions.length} with changed transcriptions, ${results.errors} errors`);
       return results;
       
     } catch (error) {
@@ -493,6 +780,8 @@ export class WorldCafeService {
     try {
       const staleSessions = await prisma.session.findMany({
         where: {
+          // Imported sessions have no upstream copy, so they are never stale
+          source: { not: 'import' },
           OR: [
             {
               lastSyncedAt: {
@@ -16,10 +16,12 @@ export interface WorldCafeTranscription {
   session_id: string;
   table_id: number;
   transcript_text: string;
-  confidence_score: number;
+  confidence_score?: number; // 0-1; absent where the transcriber gave none
   speaker_segments: SpeakerSegment[];
   timestamps?: any;
   word_count: number;
+  duration_seconds?: number;
+  speaker_labels?: Record<number, string>;
   language: string;
   created_at: string;
 }
@@ -29,15 +31,16 @@ export interface SpeakerSegment {
   transcript: string;
   start: number;
   end: number;
-  confidence: number;
+  confidence?: number; // 0-1; absent where the transcriber gave none, which counts as confident
   words?: WordTimestamp[];
+  weight?: number; // 0-1 trust set by data-quality checks when down-weighting; 1 when absent
 }
 
 export interface WordTimestamp {
   word: string;
   start: number;
   end: number;
-  confidence: number;
+  confidence?: number; // As for SpeakerSegment
 }
 
 export interface WorldCafeParticipant {
@@ -51,11 +54,222 @@ export interface WorldCafeParticipant {
   left_at?: string;
 }
 
+export type WorldCafeWebhookEventType =
+  | 'session.created'
+  | 'session.updated'
+  | 'session.closed'
+  | 'transcription.added'
+  | 'participant.joined';
+
+export interface WorldCafeWebhookEvent {
+  id: string;
+  type: WorldCafeWebhookEventType | string;
+  created_at: string;
+  data: {
+    session_id: string;
+    table_id?: number;
+    transcription_id?: string;
+    participant_id?: string;
+  };
+}
+
+// Speaker mapping types
+export type SpeakerMappingStatus = 'suggested' | 'confirmed';
+export type SpeakerMappingMethod = 'speaker_label' | 'single_candidate' | 'roster_order' | 'manual';
+
+export interface SpeakerMappingUpdate {
+  tableId: number;
+  speakerIndex: number;
+  // Exactly one of these; participantId null marks the speaker as not on the roster
+  participantId?: string | null;
+  participantName?: string;
+}
+
+export type TranscriptRevisionOperation = 'edit_segment' | 'merge_speakers' | 'split_speaker';
+
+// Fields a correction may change on a stored speaker segment
+export interface SegmentCorrection {
+  text?: string;
+  speakerIndex?: number;
+  startTime?: number;
+  endTime?: number;
+}
+
+export interface RevisionContext {
+  editedBy?: string;
+  reason?: string;
+}
+
+// Who a diarized speaker is, as seen by the analysis engines
+export interface SpeakerIdentity {
+  key: string; // Groups a speaker's segments: Participant ID when mapped, otherwise table_T_speaker_N
+  participantId?: string;
+  name: string;
+}
+
+// A speaker segment with everything analysis groups by
+export type AttributedSegment = SpeakerSegment & {
+  tableId: number;
+  roundNumber?: number; // Unset when the session has no rounds or the segment falls outside them
+  identity: SpeakerIdentity;
+};
+
+// Round types
+export type RoundKind = 'conversation' | 'harvest';
+
+export interface SessionRound {
+  roundNumber: number;
+  kind: RoundKind;
+  question?: string;
+  startSeconds: number; // Same timebase as speaker segments, which every table's recording shares
+  endSeconds?: number; // Unset: runs until the next round starts
+}
+
+export interface RoundInput extends SessionRound {
+  assignments?: { participantId: string; tableId: number }[];
+}
+
+export interface SeatingEntry {
+  participantId: string;
+  participantName: string;
+  roundNumber: number;
+  tableId: number;
+}
+
 // Analysis types
+export interface MetricInterval {
+  low: number;
+  high: number;
+}
+
+// How far a speaker's time could be off, given how confidently their segments were transcribed
+export interface SpeakingTimeConfidence {
+  meanConfidence: number; // Duration-weighted ASR confidence of the speaker's segments
+  totalSeconds: MetricInterval; // From only the confidently transcribed time to all the time that could be theirs
+  percentage: MetricInterval;
+}
+
+// Pauses within a speaker's turns, from word timestamps; turns without them have no measurable pauses
+export interface PauseAnalysis {
+  totalPauses: number;
+  averagePauseLength: number; // Seconds
+  longestPause: number;
+  fillerWords: number; // From the segment's language pack; segments without one count none
+}
+
+export interface EnergyLevel {
+  timestamp: number; // Start of the window, in recording seconds
+  energy: number; // 0-100
+}
+
+// A stretch with nobody at the table speaking
+export interface SilenceInterval {
+  start: number;
+  end: number;
+  seconds: number;
+  before?: string; // Name of the last speaker before the silence
+  after?: string; // Name of the speaker who broke it
+}
+
+// Gaps between turns at one table in one round
+export interface TablePauseAnalysis {
+  tableId: number;
+  roundNumber?: number;
+  gapCount: number;
+  averageGapSeconds: number;
+  silenceSeconds: number;
+  silenceShare: number; // 0-1 of the table's conversation time
+  longSilences: SilenceInterval[];
+  fillerWords: number;
+  energyLevels: EnergyLevel[];
+}
+
+// A speaker's sentiment at one table in one round, over the turns that expressed any
+export interface SpeakerSentiment {
+  average: number; // -1 (negative) to 1 (positive)
+  scoredSegments: number; // Turns with words from the language pack's lexicon
+  positiveSegments: number;
+  negativeSegments: number;
+}
+
+export interface SegmentSentiment {
+  start: number;
+  end: number;
+  speaker: number;
+  participantId?: string;
+  score: number; // -1 to 1
+}
+
+export interface SentimentPoint {
+  timestamp: number; // Recording seconds
+  sentiment: number; // -1 to 1, smoothed over the turns around it
+}
+
+// How the mood at one table in one round moved
+export interface TableSentiment {
+  tableId: number;
+  roundNumber?: number;
+  average: number; // -1 to 1, over the turns that expressed any sentiment
+  scoredShare: number; // 0-1 of turns with lexicon words
+  timeline: SentimentPoint[];
+  segments: SegmentSentiment[]; // The turns with lexicon words, in time order
+}
+
+// Basic emotions detected locally from the language pack's lexicon
+export type Emotion = 'joy' | 'anger' | 'fear' | 'sadness' | 'surprise' | 'trust';
+
+// Share of the emotion expressed that was each emotion, 0-1; all zero where none was
+export type EmotionDistribution = Record<Emotion, number>;
+
+export interface SegmentEmotions {
+  start: number;
+  end: number;
+  speaker: number;
+  participantId?: string;
+  distribution: EmotionDistribution;
+  dominant: Emotion;
+}
+
+// A stretch where one emotion rose well above its usual share at the table
+export interface EmotionSpike {
+  emotion: Emotion;
+  start: number; // Recording seconds
+  end: number;
+  peak: number; // Middle of the window where it was strongest
+  share: number; // 0-1 of the emotion expressed around the peak
+  baseline: number; // 0-1, its share over the whole conversation
+  speakers: number[]; // Who expressed it during the spike
+}
+
+// The emotions expressed at one table in one round
+export interface TableEmotions {
+  tableId: number;
+  roundNumber?: number;
+  distribution: EmotionDistribution;
+  dominant: Emotion | null; // null where no emotion words were used
+  emotionWords: number;
+  detectedShare: number; // 0-1 of turns with emotion words
+  segments: SegmentEmotions[]; // The turns with emotion words, in time order
+  spikes: EmotionSpike[];
+}
+
+// How a turn that starts while someone is still talking relates to theirs
+// backchannel: "mm-hmm", "yeah" while the speaker carries on
+// cooperative: a brief overlap that supports the speaker or anticipates the end of their turn
+// competitive: talking over the speaker at length, whether or not they give way in the end
+// takeover: cutting the speaker off, who stops shortly after and loses the floor
+export type InterruptionKind = 'backchannel' | 'cooperative' | 'competitive' | 'takeover';
+
+export type InterruptionTally = Record<InterruptionKind, { given: number; received: number }>;
+
 export interface SpeakingTimeAnalysis {
-  participantId: string;
+  participantId: string; // Participant ID when the speaker is mapped, otherwise table_T_speaker_N
   participantName: string;
   tableId?: number;
+  roundNumber?: number;
+  speakerIndex?: number; // Diarized speaker index the metrics were derived from
+  mapped?: boolean;
+  tableSeconds?: number; // Conversation time at the table (in the round), the base for percentage
   
   // Time Metrics
   totalSeconds: number;
@@ -66,31 +280,147 @@ export interface SpeakingTimeAnalysis {
   shortestTurn: number;
   
   // Behavioral Metrics
-  interruptionCount: number;
+  interruptionCount: number; // Competitive interruptions and takeovers; backchannels and cooperative overlaps do not count
   interruptedCount: number;
+  interruptionsByKind?: InterruptionTally;
   wordsPerMinute: number;
-  pauseAnalysis?: {
-    totalPauses: number;
-    averagePauseLength: number;
-    fillerWords: number;
-  };
+  pauseAnalysis?: PauseAnalysis;
+  sentiment?: SpeakerSentiment;
   
   // Comparison Metrics
-  dominanceIndex: number; // 0-1, where 0.5 is balanced
+  dominanceIndex: number; // Share of time over an equal share: 1 is balanced, unbounded above
   engagementLevel: 'low' | 'medium' | 'high';
+
+  confidence?: SpeakingTimeConfidence;
+}
+
+// One speaker across every table they sat at
+export interface SpeakingTimeRollup extends Omit<SpeakingTimeAnalysis, 'tableId' | 'roundNumber' | 'speakerIndex' | 'tableSeconds' | 'pauseAnalysis' | 'sentiment' | 'confidence'> {
+  tables: number[];
+  rounds: number[];
+}
+
+// Participation equity types
+export type EquityScope = 'table' | 'round' | 'session';
+
+// How evenly speaking time and turns are spread, for one table in one round, a
+// round or the whole session
+export interface ParticipationEquity {
+  scope: EquityScope;
+  tableId?: number;
+  roundNumber?: number;
+  speakerCount: number;
+  giniCoefficient: number; // Of speaking time: 0 is perfectly even, towards 1 one voice takes it all
+  turnEntropy: number; // Shannon entropy of turns over its maximum: 1 is perfectly even
+  quietShare: number; // 0-1 of speakers below the minimum-voice threshold
+  balanceScore: number; // 0-1, higher is more inclusive
+}
+
+// Data quality types
+export type DataQualityIssue =
+  | 'missing_table'
+  | 'empty_table'
+  | 'single_speaker'
+  | 'low_table_confidence'
+  | 'empty_segment'
+  | 'negative_duration'
+  | 'zero_duration'
+  | 'self_overlap'
+  | 'long_overlap'
+  | 'low_confidence'
+  | 'implausible_speech_rate'
+  | 'beyond_recording'
+  | 'late_recording';
+
+// What analysis does with flagged segments: use them as they are, count them for less, or drop them
+export type BadSegmentHandling = 'keep' | 'downweight' | 'exclude';
+
+export interface DataQualityAnomaly {
+  type: DataQualityIssue;
+  severity: 'warning' | 'critical';
+  tableId: number;
+  segmentIndex?: number; // Position in the table's speaker_segments
+  speakerIndex?: number;
+  start?: number;
+  end?: number;
+  message: string;
+}
+
+export interface TableDataQuality {
+  tableId: number;
+  score: number; // 0-1
+  segmentCount: number;
+  flaggedSegments: number;
+  speakerCount: number;
+  averageConfidence: number;
+  anomalies: DataQualityAnomaly[];
+}
+
+export interface DataQualityAssessment {
+  score: number; // 0-1, mean of the table scores
+  tables: TableDataQuality[];
+  anomalyCounts: Partial<Record<DataQualityIssue, number>>;
+  handling: BadSegmentHandling;
+  excludedSegments: number;
+  downweightedSegments: number;
+  warnings: string[];
+}
+
+// Cross-pollination types
+export interface IdeaTransfer {
+  phrase: string;
+  participantId: string;
+  participantName: string;
+  from: { roundNumber: number; tableId: number };
+  to: { roundNumber: number; tableId: number };
+  introducedAt: number; // Seconds, first use at the origin table
+  reappearedAt: number; // Seconds, first use at the destination table
+  carriedBy: 'participant' | 'table'; // Repeated by the traveller, or picked up by the new table
+}
+
+export interface IdeaTravelGraph {
+  nodes: { id: string; roundNumber: number; tableId: number; keyphrases: string[] }[];
+  edges: { from: string; to: string; participantId: string; participantName: string; phrases: string[] }[];
+}
+
+export interface ParticipantMixing {
+  participantId: string;
+  participantName: string;
+  tables: { roundNumber: number; tableId: number }[];
+  peopleMet: number;
+  newPeoplePerRound: { roundNumber: number; count: number }[];
+  mixingScore: number; // Share of the other participants met, 0-1
+}
+
+export interface CrossPollinationAnalysis {
+  ideaTransfers: IdeaTransfer[];
+  travelGraph: IdeaTravelGraph;
+  mixing: {
+    sessionScore: number; // Mean participant mixing score, 0-1
+    participants: ParticipantMixing[];
+  };
+  summary: {
+    moves: number; // Participant moves between tables across consecutive rounds
+    movesWithTransfer: number;
+    ideaTravelRate: number; // movesWithTransfer / moves
+  };
 }
 
 export interface BiasDetection {
   type: 'gender' | 'cultural' | 'topic' | 'participation' | 'language';
   category: 'interruption' | 'dismissal' | 'topic_steering' | 'exclusion';
+  tableId?: number; // Unset when the pattern spans tables
+  roundNumber?: number; // Set when the pattern was measured within one round
   severity: number; // 0-1
-  confidence: number; // 0-1
+  confidence: number; // 0-1, from the number of pieces of evidence and how confidently they were transcribed
+  confidenceInterval?: MetricInterval; // 95% interval around confidence
   
   evidence: {
     textSample: string;
     context: string;
     timestamp: [number, number];
     speakersInvolved: number[];
+    participantsInvolved?: string[]; // Participant IDs for mapped speakers
   };
   
   impact: {
@@ -100,6 +430,7 @@ export interface BiasDetection {
   };
   
   detectionMethod: 'keyword' | 'pattern' | 'ml_model' | 'behavioral';
+  languagePack?: { language: string; version: string }; // Set on pattern detections
 }
 
 export interface PolarizationMetrics {
@@ -111,16 +442,19 @@ export interface PolarizationMetrics {
   // Group Analysis
   echoChambersDetected: boolean;
   opposingGroups: {
-    group1: number[];
+    group1: number[]; // Speaker indexes at the table
     group2: number[];
+    group1Names?: string[];
+    group2Names?: string[];
     disagreementTopics: string[];
-    intensityLevel: number;
+    intensityLevel: number; // 0-1
   }[];
   
   // Bridge Analysis
   bridgeBuilders: {
-    participantId: number;
-    bridgingScore: number;
+    participantId: number; // Speaker index at the table
+    participantName?: string;
+    bridgingScore: number; // 0-1, 1 when they agree with both sides equally
     connectingStatements: string[];
   }[];
   
@@ -131,28 +465,48 @@ export interface PolarizationMetrics {
   interventionReason?: string;
 }
 
+// One measurement of a table, or of the whole session when tableId is unset, over
+// the stretch of conversation leading up to windowEnd
+export interface PolarizationMeasurement extends PolarizationMetrics {
+  tableId?: number;
+  roundNumber?: number;
+  windowStart: number; // Recording seconds
+  windowEnd: number;
+  measuredAt: string; // When windowEnd was, counted from the start of recording
+
+  // What the index is made of, each 0-1
+  disagreementShare: number; // Disagreement among agreement and disagreement markers
+  stanceDivergence: number; // How differently the opposing groups talk
+  topicContention: number; // How much talk about the most disputed topics is disagreement
+}
+
+export interface PolarizationAnalysis {
+  session: PolarizationMeasurement | null; // Latest session-wide measurement
+  tables: PolarizationMeasurement[]; // Latest measurement of each table
+  timeline: PolarizationMeasurement[]; // Every measurement, in time order
+}
+
 export interface ConversationFlow {
   // Topic Evolution
   topicProgression: {
     topic: string;
+    keyphrases: string[]; // What set this stretch apart from the rest of the table's talk
+    roundNumber?: number;
     startTime: number;
     endTime: number;
     participantsInvolved: number[];
-    engagementLevel: number;
+    engagementLevel: number; // 0-1, from the table's energy while on the topic
     resolution: 'resolved' | 'unresolved' | 'tabled' | 'evolving';
   }[];
   
   // Flow Patterns
   flowType: 'linear' | 'circular' | 'chaotic' | 'structured';
-  transitionQuality: number; // How smoothly topics flow
+  transitionQuality: number; // 0-1, how much each new topic picks up from the one before
   
   // Conversation Health
-  balanceScore: number; // How balanced participation is
-  progressScore: number; // How much progress is being made
-  energyLevels: {
-    timestamp: number;
-    energy: number; // 0-100
-  }[];
+  balanceScore: number; // 0-1, the table's participation equity
+  progressScore: number; // 0-1, how many topics reached a conclusion
+  energyLevels: EnergyLevel[];
   
   // Critical Moments
   turningPoints: {
@@ -163,10 +517,36 @@ export interface ConversationFlow {
   }[];
 }
 
+export interface TableConversationFlow extends ConversationFlow {
+  tableId: number;
+}
+
+// productive: the tables worked through their questions together
+// conflicted: disagreement and talking over each other got in the way
+// stagnant: little happened; talk stayed flat and thin
+// breakthrough: the mood and positions moved noticeably for the better
+export type OutcomeCategory = 'productive' | 'conflicted' | 'stagnant' | 'breakthrough';
+
+// What an outcome prediction is made from, so it can be traced and compared later
+export interface PredictionFeatures {
+  balanceScore: number | null; // 0-1, session participation equity
+  giniCoefficient: number | null;
+  quietShare: number | null;
+  hostileInterruptionRate: number | null; // Competitive interruptions and takeovers per minute of talk
+  cooperativeOverlapShare: number | null; // 0-1 of overlaps that were backchannels or cooperative
+  polarizationIndex: number | null; // 0-100, latest session-wide
+  polarizationTrend: 'increasing' | 'decreasing' | 'stable' | null;
+  peakPolarization: number | null; // 0-100, highest session-wide over the session
+  sentimentAverage: number | null; // -1 to 1, over the tables' scored turns
+  sentimentShift: number | null; // Mean change in mood from start to end of the tables' conversations
+  talkMinutes: number;
+}
+
 export interface SessionPrediction {
   // Outcome Predictions
-  outcomeCategory: 'productive' | 'conflicted' | 'stagnant' | 'breakthrough';
+  outcomeCategory: OutcomeCategory;
   confidenceScore: number;
+  categoryScores: Record<OutcomeCategory, number>; // 0-1, the evidence for each outcome the category was chosen from
   timeToOutcome?: number; // estimated minutes
   
   // Risk Assessment
@@ -186,7 +566,8 @@ export interface SessionPrediction {
   
   // Intervention Recommendations
   interventionTimings: {
-    recommendedTime: number;
+    recommendedTime: number; // Recording seconds
+    tableId?: number;
     interventionType: string;
     reason: string;
     expectedImpact: number;
@@ -195,12 +576,41 @@ export interface SessionPrediction {
   // Facilitator Guidance
   facilitatorTips: string[];
   participantInsights: {
-    participantId: number;
+    participantId: string; // As in SpeakingTimeAnalysis
+    participantName: string;
     role: 'leader' | 'supporter' | 'challenger' | 'observer';
     recommendation: string;
   }[];
 }
 
+// What a session actually came to, as recorded by its facilitator afterwards
+export interface ActualOutcome {
+  outcomeCategory: OutcomeCategory;
+  notes?: string;
+}
+
+// A prediction as stored, with its inputs and, once recorded, how it turned out
+export interface StoredSessionPrediction extends SessionPrediction {
+  id: string;
+  modelVersion: string | null;
+  predictedAt: string;
+  inputFeatures: PredictionFeatures | null;
+  actualOutcome: ActualOutcome | null;
+  accuracyScore: number | null; // 0-1
+  validatedAt: string | null;
+}
+
+// How well one version of the predictor has done on the sessions whose actual outcome was recorded
+export interface PredictionAccuracy {
+  modelVersion: string;
+  predictions: number;
+  sessions: number; // Sessions predicted for; analyzing a session again adds a prediction, not a session
+  validated: number; // Sessions with a recorded outcome, each scored by its latest prediction
+  accuracy: number | null; // 0-1, mean accuracy score over the validated sessions
+  hitRate: number | null; // 0-1 of validated sessions predicted with exactly the right category
+  meanConfidence: number | null; // Against hitRate, whether the predictor is over- or underconfident
+}
+
 // API Response types
 export interface ApiResponse<T> {
   success: boolean;
@@ -266,12 +676,53 @@ export interface SyncStatus {
   nextSyncAt?: string;
 }
 
+export interface TableSyncDelta {
+  tableId: number;
+  added: number;
+  updated: number;
+  unchanged: number;
+  removed: number; // Deleted upstream since the last sync
+  error?: string;
+}
+
+export interface TranscriptionSyncResult {
+  sessionId: string;
+  tables: TableSyncDelta[];
+  changedTables: number[];
+  failedTables: number[];
+  status: 'success' | 'partial';
+  added: number;
+  updated: number;
+  unchanged: number;
+  removed: number;
+}
+
+export interface TableFetchFailure {
+  tableId: number;
+  error: string;
+}
+
 export interface PollingConfig {
   activeSessions: number; // 30s
   recentSessions: number; // 5min
   completedSessions: number; // 1hr
 }
 
+// Privacy types
+export type PiiCategory = 'person' | 'email' | 'phone' | 'address';
+
+// Where redacted text is going
+export type RedactionPurpose = 'embedding' | 'llm_analysis' | 'chat' | 'report' | 'export';
+
+export interface RedactionContext {
+  scope?: string; // World Café session ID; its participant roster is redacted too
+  purpose: RedactionPurpose;
+}
+
+export interface PrivacySettings {
+  anonymizeData: boolean;
+}
+
 // Dashboard types
 export interface DashboardMetrics {
   totalSessions: number;
@@ -283,6 +734,9 @@ export interface DashboardMetrics {
   criticalAlerts: number;
 }
 
+// Fields the session list can be sorted by
+export type SessionSortField = 'updatedAt' | 'title' | 'balanceScore';
+
 export interface SessionSummary {
   id: string;
   worldCafeId: string;
@@ -293,6 +747,7 @@ export interface SessionSummary {
   lastAnalyzedAt?: string;
   polarizationIndex?: number;
   balanceScore?: number;
+  dataQualityScore?: number;
   alertLevel: 'low' | 'medium' | 'high' | 'critical';
   hasNewInsights: boolean;
 }
\ No newline at end of file
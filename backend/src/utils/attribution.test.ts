@@ -0,0 +1,88 @@
+import { SessionRound, SpeakerSegment, WorldCafeTranscription } from '@/types';
+import { english } from './languagePacks/en';
+import { spanish } from './languagePacks/es';
+import { attributeSegments, groupTables } from './attribution';
+
+function transcription(tableId: number, segments: [number, number, string][], language = ''): WorldCafeTranscription {
+  const speakerSegments: SpeakerSegment[] = segments.map(([speaker, start, transcript]) => ({
+    speaker,
+    start,
+    end: start + 5,
+    transcript,
+  }));
+  return {
+    id: `t-${tableId}`,
+    session_id: 's-1',
+    table_id: tableId,
+    transcript_text: segments.map(([, , transcript]) => transcript).join(' '),
+    confidence_score: 1,
+    speaker_segments: speakerSegments,
+    speaker_labels: {},
+    word_count: 0,
+    duration_seconds: 0,
+    language,
+    created_at: '2024-01-01T00:00:00Z',
+  };
+}
+
+const identities = {
+  resolve: (tableId: number, speakerIndex: number) => ({ key: `${tableId}:${speakerIndex}`, name: `Speaker ${speakerIndex}` }),
+};
+
+const rounds: SessionRound[] = [
+  { roundNumber: 1, kind: 'conversation', startSeconds: 0 },
+  { roundNumber: 2, kind: 'conversation', startSeconds: 100 },
+];
+
+describe('attributeSegments', () => {
+  it('attributes every segment to its table, round and speaker', () => {
+    const { segments } = attributeSegments(
+      [transcription(1, [[1, 10, 'ok'], [2, 120, 'ok']]), transcription(2, [[1, 50, 'ok']])],
+      rounds,
+      identities
+    );
+
+    expect(segments.map(segment => [segment.tableId, segment.roundNumber, segment.identity.key])).toEqual([
+      [1, 1, '1:1'],
+      [1, 2, '1:2'],
+      [2, 1, '2:1'],
+    ]);
+  });
+
+  it('leaves the round unset without rounds', () => {
+    const { segments } = attributeSegments([transcription(1, [[1, 10, 'ok']])], [], identities);
+    expect(segments[0].roundNumber).toBeUndefined();
+  });
+
+  it('reads each segment in its detected language, then the declared ones', () => {
+    const { segments, packs } = attributeSegments(
+      [transcription(1, [[1, 10, 'ok'], [2, 20, 'creo que es una buena idea para todos nosotros']], 'en-US')],
+      [],
+      identities,
+      'de'
+    );
+
+    expect(packs.get(segments[0])).toBe(english);
+    expect(packs.get(segments[1])).toBe(spanish);
+  });
+
+  it('gives segments in no known language no pack', () => {
+    const { segments, packs } = attributeSegments([transcription(1, [[1, 10, 'ok']])], [], identities, null);
+    expect(packs.has(segments[0])).toBe(false);
+  });
+});
+
+describe('groupTables', () => {
+  it('groups segments by table in table order, each by start time', () => {
+    const { segments } = attributeSegments(
+      [transcription(3, [[1, 30, 'ok'], [2, 10, 'ok']]), transcription(1, [[1, 20, 'ok']])],
+      [],
+      identities
+    );
+
+    expect(groupTables(segments).map(([tableId, table]) => [tableId, table.map(segment => segment.start)])).toEqual([
+      [1, [20]],
+      [3, [10, 30]],
+    ]);
+  });
+});
@@ -0,0 +1,65 @@
+import { AttributedSegment, SessionRound, SpeakerIdentity, WorldCafeTranscription } from '@/types';
+import { LanguagePack, resolveLanguagePack } from './languagePacks';
+import { resolveRoundWindows, roundAt } from './rounds';
+import { sortedByStart } from './speakingTime';
+
+// A session's segments ready for the analysis engines
+export interface AttributedTranscripts {
+  segments: AttributedSegment[];
+  // The pack each segment's fillers, sentiment and stance are read with; unset when none applies
+  packs: Map<AttributedSegment, LanguagePack>;
+}
+
+/**
+ * Attribute every segment to its table, round and speaker, and resolve the language
+ * pack it is read with. Segments keep the order of the transcripts they came from.
+ * Rounds are looked up by segment start as is, so every table's recording must start
+ * when the session does; the data quality check flags tables whose recording did not.
+ */
+export function attributeSegments(
+  transcriptions: WorldCafeTranscription[],
+  rounds: SessionRound[],
+  identities: { resolve(tableId: number, speakerIndex: number): SpeakerIdentity },
+  language?: string | null
+): AttributedTranscripts {
+  const roundWindows = resolveRoundWindows(rounds);
+
+  const segments: AttributedSegment[] = [];
+  const packs = new Map<AttributedSegment, LanguagePack>();
+  for (const transcription of transcriptions) {
+    for (const segment of transcription.speaker_segments) {
+      const attributed: AttributedSegment = {
+        ...segment,
+        tableId: transcription.table_id,
+        roundNumber: roundAt(roundWindows, segment.start)?.roundNumber,
+        identity: identities.resolve(transcription.table_id, segment.speaker),
+      };
+      segments.push(attributed);
+
+      const pack = resolveLanguagePack(segment.transcript, transcription.language, language);
+      if (pack) {
+        packs.set(attributed, pack);
+      }
+    }
+  }
+
+  return { segments, packs };
+}
+
+/**
+ * Each table's conversation across rounds, in table order, each ordered by start time
+ */
+export function groupTables(segments: AttributedSegment[]): [number, AttributedSegment[]][] {
+  const tables = new Map<number, AttributedSegment[]>();
+  for (const segment of segments) {
+    let table = tables.get(segment.tableId);
+    if (!table) {
+      table = [];
+      tables.set(segment.tableId, table);
+    }
+    table.push(segment);
+  }
+  return [...tables.entries()]
+    .sort((a, b) => a[0] - b[0])
+    .map(([tableId, table]) => [tableId, sortedByStart(table)]);
+}
@@ -0,0 +1,74 @@
+import { MetricInterval, SpeakerSegment } from '@/types';
+import { round2 } from './numbers';
+
+// Pseudo-observations at 0.5 that a detection's confidence is pulled towards, so
+// a single piece of evidence never yields a confident detection
+const PRIOR_OBSERVATIONS = 2;
+const PRIOR_CONFIDENCE = 0.5;
+// z for a 95% interval
+const Z_95 = 1.96;
+
+/**
+ * Whether metrics weight time, words and pattern matches by ASR confidence when
+ * the caller does not say; CONFIDENCE_WEIGHTING=on turns it on
+ */
+export function confidenceWeightingDefault(): boolean {
+  return process.env.CONFIDENCE_WEIGHTING?.toLowerCase() === 'on';
+}
+
+/**
+ * How much a segment counts for: its data-quality weight, times its ASR
+ * confidence when weighting by confidence
+ */
+export function segmentWeight(segment: SpeakerSegment, byConfidence: boolean): number {
+  const qualityWeight = segment.weight ?? 1;
+  return byConfidence ? qualityWeight * clampConfidence(segment.confidence) : qualityWeight;
+}
+
+/**
+ * Words in a segment. When weighting by confidence, each timed word counts for its
+ * own confidence, and untimed text for the segment's.
+ */
+export function weightedWordCount(segment: SpeakerSegment, byConfidence: boolean): number {
+  if (segment.words?.length) {
+    const words = byConfidence
+      ? segment.words.reduce((sum, word) => sum + clampConfidence(word.confidence), 0)
+      : segment.words.length;
+    return words * (segment.weight ?? 1);
+  }
+  return countWords(segment.transcript) * segmentWeight(segment, byConfidence);
+}
+
+export function countWords(text: string | undefined): number {
+  if (!text || typeof text !== 'string') return 0;
+  return text.trim().split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * Confidence in a detection from the ASR confidence of each piece of evidence
+ * behind it: their mean, pulled towards 0.5 when there are few of them, with a
+ * Wilson score interval that narrows as evidence accumulates
+ */
+export function estimateConfidence(evidenceConfidences: number[]): { value: number; interval: MetricInterval } {
+  const observations = evidenceConfidences.length + PRIOR_OBSERVATIONS;
+  const p = (evidenceConfidences.reduce((sum, confidence) => sum + clampConfidence(confidence), 0)
+    + PRIOR_CONFIDENCE * PRIOR_OBSERVATIONS) / observations;
+
+  const z2 = Z_95 * Z_95;
+  const denominator = 1 + z2 / observations;
+  const center = (p + z2 / (2 * observations)) / denominator;
+  const halfWidth = (Z_95 * Math.sqrt(p * (1 - p) / observations + z2 / (4 * observations * observations))) / denominator;
+
+  return {
+    value: round2(p),
+    interval: { low: round2(Math.max(0, center - halfWidth)), high: round2(Math.min(1, center + halfWidth)) },
+  };
+}
+
+/**
+ * A confidence within 0-1; segments without one are taken as confidently transcribed
+ */
+export function clampConfidence(value: number | undefined): number {
+  if (value === undefined || isNaN(value)) return 1;
+  return Math.max(0, Math.min(1, value));
+}
@@ -0,0 +1,395 @@
+import { AttributedSegment, ConversationFlow, EnergyLevel } from '@/types';
+import { LanguagePack } from './languagePacks';
+import { candidatePhrases, extractKeyphrases } from './keyphrases';
+import { Stance, stanceOf, withoutStance } from './polarization';
+import { envNumber, round2 } from './numbers';
+
+export interface ConversationFlowConfig {
+  // Length of the blocks of talk whose vocabulary is compared
+  blockSeconds: number;
+  // How far lexical cohesion must dip below the talk either side of it to start a new topic
+  boundaryDepth: number;
+}
+
+const DEFAULT_CONVERSATION_FLOW_CONFIG: ConversationFlowConfig = {
+  blockSeconds: 60,
+  boundaryDepth: 0.3,
+};
+
+// Blocks compared either side of each gap between blocks
+const COHESION_BLOCKS = 2;
+// Shortest topic, in blocks, unless a new round cuts it short
+const MIN_TOPIC_BLOCKS = 2;
+// Likeness to an earlier topic at which the table counts as returning to it
+const RECURRENCE_SIMILARITY = 0.3;
+// Share of topics returning to earlier ones that makes a conversation circular
+const CIRCULAR_SHARE = 1 / 3;
+// Cohesion below which the talk never settles on anything long enough to be a topic
+const CHAOTIC_COHESION = 0.1;
+const TOPIC_KEYPHRASES = 3;
+// Closing turns of a topic that tell whether it ended in agreement
+const CLOSING_TURNS = 4;
+// Disagreement markers in a block for a spike to count as a conflict
+const CONFLICT_MIN_MARKERS = 2;
+// Agreement markers, from at least two speakers, for a block to count as consensus
+const CONSENSUS_MIN_MARKERS = 3;
+// Blocks after a conflict within which consensus is a breakthrough
+const BREAKTHROUGH_BLOCKS = 2;
+// Energy points lost on changing topic that make the change a derailment
+const DERAILMENT_ENERGY_DROP = 30;
+
+/**
+ * Block length and boundary depth from TOPIC_BLOCK_SECONDS and TOPIC_BOUNDARY_DEPTH
+ */
+export function conversationFlowConfig(): ConversationFlowConfig {
+  return {
+    blockSeconds: envNumber('TOPIC_BLOCK_SECONDS', DEFAULT_CONVERSATION_FLOW_CONFIG.blockSeconds),
+    boundaryDepth: envNumber('TOPIC_BOUNDARY_DEPTH', DEFAULT_CONVERSATION_FLOW_CONFIG.boundaryDepth),
+  };
+}
+
+interface Block {
+  start: number;
+  roundNumber?: number;
+  turns: AttributedSegment[];
+  words: Map<string, number>;
+  agreement: number;
+  disagreement: number;
+  agreeing: Set<string>;
+}
+
+interface Topic {
+  firstBlock: number;
+  lastBlock: number;
+  turns: AttributedSegment[];
+  texts: string[];
+  words: Map<string, number>;
+  keyphrases: string[];
+}
+
+/**
+ * Topics, flow and turning points of one table's conversation (segments ordered by
+ * start time). Topics are found by lexical cohesion: the talk is cut into blocks, and
+ * a new topic starts where the vocabulary either side of a gap has least in common
+ * compared with the talk around it, and at every new round. The table's energy
+ * signal and participation balance are passed in as already measured.
+ */
+export function analyzeConversationFlow(
+  sorted: AttributedSegment[],
+  packFor: (segment: AttributedSegment) => LanguagePack | undefined,
+  table: { energyLevels: EnergyLevel[]; balanceScore: number },
+  config: ConversationFlowConfig = conversationFlowConfig()
+): ConversationFlow {
+  const flow: ConversationFlow = {
+    topicProgression: [],
+    flowType: 'linear',
+    transitionQuality: 1,
+    balanceScore: table.balanceScore,
+    progressScore: 0,
+    energyLevels: table.energyLevels,
+    turningPoints: [],
+  };
+  if (sorted.length === 0) return flow;
+
+  // Blocks of talk, with their content words and stance
+  const blockSeconds = Math.max(1, config.blockSeconds);
+  const start = sorted[0].start;
+  const end = sorted.reduce((latest, segment) => Math.max(latest, segment.end), start);
+  const blockCount = Math.max(1, Math.ceil((end - start) / blockSeconds));
+  const blocks: Block[] = Array.from({ length: blockCount }, (_, i) => ({
+    start: start + i * blockSeconds,
+    turns: [],
+    words: new Map(),
+    agreement: 0,
+    disagreement: 0,
+    agreeing: new Set(),
+  }));
+  const stances = new Map<AttributedSegment, Stance>();
+  const topicTexts = new Map<AttributedSegment, string>();
+
+  for (const segment of sorted) {
+    const block = blocks[Math.min(blockCount - 1, Math.floor((segment.start - start) / blockSeconds))];
+    const pack = packFor(segment);
+    const stance = stanceOf(segment.transcript, pack);
+    const text = withoutStance(segment.transcript, pack);
+    stances.set(segment, stance);
+    topicTexts.set(segment, text);
+
+    block.turns.push(segment);
+    block.roundNumber = block.roundNumber ?? segment.roundNumber;
+    block.agreement += stance.agreement;
+    block.disagreement += stance.disagreement;
+    if (stance.agreement > stance.disagreement) {
+      block.agreeing.add(segment.identity.key);
+    }
+    for (const word of contentWords(text)) {
+      block.words.set(word, (block.words.get(word) || 0) + 1);
+    }
+  }
+  // A silent block belongs to the round before it
+  for (let b = 1; b < blockCount; b++) {
+    blocks[b].roundNumber = blocks[b].roundNumber ?? blocks[b - 1].roundNumber;
+  }
+
+  // Cohesion across the gap before each block, and how deep a dip it is
+  const cohesion = new Array<number>(blockCount).fill(0);
+  for (let g = 1; g < blockCount; g++) {
+    cohesion[g] = cosine(
+      mergeWords(blocks.slice(Math.max(0, g - COHESION_BLOCKS), g)),
+      mergeWords(blocks.slice(g, g + COHESION_BLOCKS))
+    );
+  }
+  const depth = (g: number): number => {
+    let left = cohesion[g];
+    for (let i = g - 1; i >= 1 && cohesion[i] >= left; i--) left = cohesion[i];
+    let right = cohesion[g];
+    for (let i = g + 1; i < blockCount && cohesion[i] >= right; i++) right = cohesion[i];
+    return (left - cohesion[g]) + (right - cohesion[g]);
+  };
+  const meanCohesion = blockCount > 1 ? cohesion.slice(1).reduce((sum, value) => sum + value, 0) / (blockCount - 1) : 1;
+
+  // Topics change at every new round, then at the deepest dips that leave each topic long enough
+  const roundStarts = new Set<number>();
+  for (let g = 1; g < blockCount; g++) {
+    if (blocks[g].roundNumber !== undefined && blocks[g].roundNumber !== blocks[g - 1].roundNumber) {
+      roundStarts.add(g);
+    }
+  }
+  const boundaries = new Set(roundStarts);
+  const dips = Array.from({ length: blockCount - 1 }, (_, i) => ({ block: i + 1, depth: depth(i + 1) }))
+    .filter(dip => dip.depth >= config.boundaryDepth)
+    .sort((a, b) => b.depth - a.depth);
+  for (const dip of dips) {
+    const tooClose = [0, blockCount, ...boundaries].some(boundary => Math.abs(boundary - dip.block) < MIN_TOPIC_BLOCKS);
+    if (!tooClose) {
+      boundaries.add(dip.block);
+    }
+  }
+
+  const cuts = [0, ...[...boundaries].sort((a, b) => a - b), blockCount];
+  const topics: Topic[] = [];
+  for (let i = 0; i + 1 < cuts.length; i++) {
+    const stretch = blocks.slice(cuts[i], cuts[i + 1]);
+    const turns = stretch.flatMap(block => block.turns);
+    // A stretch of silence is not a topic
+    if (turns.length === 0) continue;
+    topics.push({
+      firstBlock: cuts[i],
+      lastBlock: cuts[i + 1] - 1,
+      turns,
+      texts: turns.map(turn => topicTexts.get(turn) || ''),
+      words: mergeWords(stretch),
+      keyphrases: [],
+    });
+  }
+  labelTopics(topics);
+
+  // Topics the table came back to after talking about something else
+  const returnedTo = new Set<number>();
+  let recurring = 0;
+  for (let j = 2; j < topics.length; j++) {
+    const earlier = topics.slice(0, j - 1).findIndex(topic =>
+      cosine(topic.words, topics[j].words) >= RECURRENCE_SIMILARITY
+      || (topic.keyphrases.length > 0 && topic.keyphrases[0] === topics[j].keyphrases[0])
+    );
+    if (earlier >= 0) {
+      returnedTo.add(earlier);
+      recurring++;
+    }
+  }
+
+  const energyAt = (seconds: number): number | undefined => {
+    let energy: number | undefined;
+    for (const level of table.energyLevels) {
+      if (level.timestamp <= seconds) energy = level.energy;
+    }
+    return energy;
+  };
+  const topicEnergy = (topic: Topic): number => {
+    const from = blocks[topic.firstBlock].start;
+    const to = blocks[topic.lastBlock].start + blockSeconds;
+    const levels = table.energyLevels.filter(level => level.timestamp >= from && level.timestamp < to);
+    return levels.length > 0
+      ? levels.reduce((sum, level) => sum + level.energy, 0) / levels.length
+      : energyAt(from) ?? 0;
+  };
+
+  flow.topicProgression = topics.map((topic, t) => ({
+    topic: topic.keyphrases[0] ?? 'open conversation',
+    keyphrases: topic.keyphrases,
+    roundNumber: topic.turns[0].roundNumber,
+    startTime: round2(topic.turns[0].start),
+    endTime: round2(topic.turns.reduce((latest, turn) => Math.max(latest, turn.end), topic.turns[0].end)),
+    participantsInvolved: [...new Set(topic.turns.map(turn => turn.speaker))].sort((a, b) => a - b),
+    engagementLevel: round2(topicEnergy(topic) / 100),
+    resolution: returnedTo.has(t) ? 'evolving' : resolution(topic, stances),
+  }));
+
+  // Transitions are smooth when the new topic keeps some of the old one's words;
+  // a new round's question changes the subject on purpose, so does not count
+  const transitions = topics.slice(1).filter(topic => !roundStarts.has(topic.firstBlock));
+  if (transitions.length > 0) {
+    flow.transitionQuality = meanCohesion > 0
+      ? round2(transitions.reduce((sum, topic) => sum + Math.min(1, cohesion[topic.firstBlock] / meanCohesion), 0) / transitions.length)
+      : 0;
+  }
+
+  const rounds = new Set(topics.map(topic => topic.turns[0].roundNumber).filter(n => n !== undefined));
+  if (topics.length > 1) {
+    if (blockCount >= 3 && meanCohesion < CHAOTIC_COHESION) {
+      flow.flowType = 'chaotic';
+    } else if (recurring > 0 && recurring / topics.length >= CIRCULAR_SHARE) {
+      flow.flowType = 'circular';
+    } else if (rounds.size > 1 && topics.length === rounds.size) {
+      // Every round stayed on one topic
+      flow.flowType = 'structured';
+    }
+  }
+
+  const topicCount = flow.topicProgression.length;
+  const resolved = flow.topicProgression.filter(topic => topic.resolution === 'resolved').length;
+  const evolving = flow.topicProgression.filter(topic => topic.resolution === 'evolving').length;
+  flow.progressScore = round2((resolved + 0.5 * evolving) / topicCount);
+
+  flow.turningPoints = turningPoints(blocks, topics, roundStarts, flow.topicProgression, topicEnergy, energyAt);
+  return flow;
+}
+
+/**
+ * Label each topic with the keyphrases said most during it and least elsewhere at the table
+ */
+function labelTopics(topics: Topic[]): void {
+  const phraseSets = topics.map(topic => new Set(topic.texts.flatMap(text => candidatePhrases(text))));
+  for (const [t, topic] of topics.entries()) {
+    topic.keyphrases = extractKeyphrases(topic.texts)
+      .map(({ phrase, count }) => {
+        const spread = phraseSets.filter(phrases => phrases.has(phrase)).length;
+        return { phrase, score: count * Math.log(1 + topics.length / spread) };
+      })
+      .sort((a, b) => b.score - a.score)
+      .filter(({ phrase }, i, ranked) => !ranked.slice(0, i).some(better => better.phrase.includes(phrase)))
+      .slice(0, TOPIC_KEYPHRASES)
+      .map(({ phrase }) => phrase);
+    // Nothing was said twice; take the topic's longest phrase instead
+    if (topic.keyphrases.length === 0) {
+      const longest = [...phraseSets[t]].sort((a, b) => b.length - a.length)[0];
+      if (longest) topic.keyphrases = [longest];
+    }
+  }
+}
+
+// A topic ending in agreement was resolved, one with disagreement left open was not,
+// and one that simply stopped was tabled
+function resolution(topic: Topic, stances: Map<AttributedSegment, Stance>): 'resolved' | 'unresolved' | 'tabled' {
+  const total = (turns: AttributedSegment[]) => turns.reduce(
+    (sum, turn) => ({
+      agreement: sum.agreement + (stances.get(turn)?.agreement || 0),
+      disagreement: sum.disagreement + (stances.get(turn)?.disagreement || 0),
+    }),
+    { agreement: 0, disagreement: 0 }
+  );
+  const closing = total(topic.turns.slice(-CLOSING_TURNS));
+  if (closing.agreement > closing.disagreement) return 'resolved';
+  const overall = total(topic.turns);
+  return overall.disagreement > 0 && overall.disagreement >= overall.agreement ? 'unresolved' : 'tabled';
+}
+
+/**
+ * Conflict where disagreement spikes, consensus where several people agree with
+ * nobody dissenting (a breakthrough when it follows a conflict closely), and
+ * derailment where a change of topic costs the table its energy
+ */
+function turningPoints(
+  blocks: Block[],
+  topics: Topic[],
+  roundStarts: Set<number>,
+  progression: ConversationFlow['topicProgression'],
+  topicEnergy: (topic: Topic) => number,
+  energyAt: (seconds: number) => number | undefined
+): ConversationFlow['turningPoints'] {
+  const points: ConversationFlow['turningPoints'] = [];
+  const meanDisagreement = blocks.reduce((sum, block) => sum + block.disagreement, 0) / blocks.length;
+  const topicAt = (b: number) => {
+    const t = topics.findIndex(topic => b >= topic.firstBlock && b <= topic.lastBlock);
+    return t >= 0 ? progression[t].topic : undefined;
+  };
+  const about = (b: number) => {
+    const topic = topicAt(b);
+    return topic ? ` about "${topic}"` : '';
+  };
+
+  let lastConflict = -Infinity;
+  let consensusBefore = false;
+  for (const [b, block] of blocks.entries()) {
+    const previous = blocks[b - 1];
+    const spike = block.disagreement >= CONFLICT_MIN_MARKERS
+      && block.disagreement > block.agreement
+      && block.disagreement > meanDisagreement
+      && (!previous || block.disagreement > previous.disagreement);
+    if (spike) {
+      points.push({
+        timestamp: round2(block.start),
+        type: 'conflict',
+        description: `Disagreement flared up${about(b)}`,
+        impact: round2(block.disagreement / (block.disagreement + block.agreement + 1)),
+      });
+      lastConflict = b;
+    }
+
+    const consensus = block.agreement >= CONSENSUS_MIN_MARKERS && block.disagreement === 0 && block.agreeing.size >= 2;
+    if (consensus && !consensusBefore) {
+      const breakthrough = b - lastConflict <= BREAKTHROUGH_BLOCKS;
+      points.push({
+        timestamp: round2(block.start),
+        type: breakthrough ? 'breakthrough' : 'consensus',
+        description: breakthrough ? `The table came together${about(b)} after disagreeing` : `The table agreed${about(b)}`,
+        impact: round2(block.agreement / (block.agreement + 2)),
+      });
+    }
+    consensusBefore = consensus;
+  }
+
+  for (let t = 1; t < topics.length; t++) {
+    if (roundStarts.has(topics[t].firstBlock)) continue;
+    const before = topicEnergy(topics[t - 1]);
+    const after = energyAt(blocks[topics[t].firstBlock].start);
+    if (after !== undefined && before - after >= DERAILMENT_ENERGY_DROP) {
+      points.push({
+        timestamp: round2(blocks[topics[t].firstBlock].start),
+        type: 'derailment',
+        description: `Talk moved from "${progression[t - 1].topic}" to "${progression[t].topic}" and lost energy`,
+        impact: round2((before - after) / 100),
+      });
+    }
+  }
+
+  return points.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+function contentWords(text: string): string[] {
+  return candidatePhrases(text).filter(phrase => !phrase.includes(' '));
+}
+
+function mergeWords(blocks: { words: Map<string, number> }[]): Map<string, number> {
+  const merged = new Map<string, number>();
+  for (const block of blocks) {
+    for (const [word, count] of block.words) {
+      merged.set(word, (merged.get(word) || 0) + count);
+    }
+  }
+  return merged;
+}
+
+function cosine(a: Map<string, number>, b: Map<string, number>): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (const [word, count] of a) {
+    dot += count * (b.get(word) || 0);
+    normA += count * count;
+  }
+  for (const count of b.values()) {
+    normB += count * count;
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
@@ -0,0 +1,309 @@
+import {
+  BadSegmentHandling,
+  DataQualityAnomaly,
+  DataQualityAssessment,
+  DataQualityIssue,
+  SpeakerSegment,
+  TableDataQuality,
+  WorldCafeTranscription
+} from '@/types';
+import { clampConfidence } from './confidence';
+import { logger } from './logger';
+import { round2 } from './numbers';
+
+// Segments transcribed with less confidence than this are flagged
+const LOW_SEGMENT_CONFIDENCE = 0.5;
+// Tables whose segments average less confidence than this are flagged as a whole
+const LOW_TABLE_CONFIDENCE = 0.7;
+// A table this long with only one speaker more likely means diarization failed than a monologue
+const SINGLE_SPEAKER_MIN_SECONDS = 5 * 60;
+// Faster than this (360 words per minute) the timestamps are wrong, not the speaker
+const MAX_WORDS_PER_SECOND = 6;
+// Two people talking over each other for longer than this is more likely misaligned timestamps
+const LONG_OVERLAP_SECONDS = 5;
+// Slack before a segment counts as ending after the recording did
+const RECORDING_TOLERANCE_SECONDS = 5;
+// A table's recording starting this long after the session's first breaks the shared timebase rounds rely on
+const LATE_RECORDING_SECONDS = 60;
+// Below this session score, analysis results carry a warning
+const LOW_QUALITY_SCORE = 0.6;
+
+// Score a table loses for problems that affect it as a whole
+const TABLE_PENALTIES: Partial<Record<DataQualityIssue, number>> = {
+  single_speaker: 0.3,
+  low_table_confidence: 0.2,
+};
+
+// How much a segment still counts for after a warning; critical anomalies leave nothing
+const WARNING_WEIGHT = 0.5;
+
+export const BAD_SEGMENT_HANDLINGS: BadSegmentHandling[] = ['keep', 'downweight', 'exclude'];
+
+// Records an anomaly, on a segment when given its index, otherwise on the table
+type FlagAnomaly = (type: DataQualityIssue, severity: DataQualityAnomaly['severity'], message: string, index?: number) => void;
+
+export interface PreparedTranscriptions {
+  assessment: DataQualityAssessment;
+  transcriptions: WorldCafeTranscription[];
+}
+
+/**
+ * Assess transcripts and return them ready for analysis: unchanged when keeping
+ * flagged segments, without them when excluding, or with a lower weight on them.
+ * Tables 1 to tableCount without a transcript are reported as missing.
+ */
+export function prepareTranscriptions(
+  transcriptions: WorldCafeTranscription[],
+  options: { handling?: BadSegmentHandling; tableCount?: number } = {}
+): PreparedTranscriptions {
+  const handling = options.handling || configuredHandling();
+  const tables: TableDataQuality[] = [];
+  const prepared: WorldCafeTranscription[] = [];
+  let excludedSegments = 0;
+  let downweightedSegments = 0;
+
+  const starts = transcriptions.map(transcription => Date.parse(transcription.created_at)).filter(time => !isNaN(time));
+  const sessionStart = starts.length > 0 ? Math.min(...starts) : undefined;
+
+  for (const transcription of transcriptions) {
+    const { quality, weights } = assessTable(transcription, sessionStart);
+    tables.push(quality);
+
+    if (handling === 'keep' || quality.flaggedSegments === 0) {
+      prepared.push(transcription);
+    } else if (handling === 'exclude') {
+      const kept = transcription.speaker_segments.filter((_, i) => weights[i] === 1);
+      excludedSegments += transcription.speaker_segments.length - kept.length;
+      prepared.push({ ...transcription, speaker_segments: kept });
+    } else {
+      downweightedSegments += quality.flaggedSegments;
+      prepared.push({
+        ...transcription,
+        speaker_segments: transcription.speaker_segments.map((segment, i) =>
+          weights[i] < 1 ? { ...segment, weight: weights[i] } : segment
+        ),
+      });
+    }
+  }
+
+  const transcribed = new Set(transcriptions.map(transcription => transcription.table_id));
+  for (let tableId = 1; tableId <= (options.tableCount || 0); tableId++) {
+    if (!transcribed.has(tableId)) {
+      tables.push(missingTable(tableId));
+    }
+  }
+  tables.sort((a, b) => a.tableId - b.tableId);
+
+  const anomalyCounts: DataQualityAssessment['anomalyCounts'] = {};
+  for (const anomaly of tables.flatMap(table => table.anomalies)) {
+    anomalyCounts[anomaly.type] = (anomalyCounts[anomaly.type] || 0) + 1;
+  }
+
+  const score = tables.length > 0
+    ? round2(tables.reduce((sum, table) => sum + table.score, 0) / tables.length)
+    : 0;
+
+  const assessment: DataQualityAssessment = {
+    score,
+    tables,
+    anomalyCounts,
+    handling,
+    excludedSegments,
+    downweightedSegments,
+    warnings: buildWarnings(score, tables),
+  };
+
+  logger.info(`Data quality ${score} over ${tables.length} tables (${Object.keys(anomalyCounts).length} anomaly types, handling: ${handling})`);
+  return { assessment, transcriptions: prepared };
+}
+
+/**
+ * Score one table and weigh each of its segments: 1 when clean, halved for each
+ * warning and 0 for anything critical. sessionStart is when the session's first
+ * recording started, in milliseconds.
+ */
+function assessTable(
+  transcription: WorldCafeTranscription,
+  sessionStart?: number
+): { quality: TableDataQuality; weights: number[] } {
+  const tableId = transcription.table_id;
+  const segments = transcription.speaker_segments;
+  const anomalies: DataQualityAnomaly[] = [];
+  const weights = segments.map(() => 1);
+
+  const flag: FlagAnomaly = (type, severity, message, index) => {
+    const segment = index !== undefined ? segments[index] : undefined;
+    anomalies.push({
+      type,
+      severity,
+      tableId,
+      ...(segment ? { segmentIndex: index, speakerIndex: segment.speaker, start: segment.start, end: segment.end } : {}),
+      message,
+    });
+    if (index !== undefined) {
+      weights[index] = severity === 'critical' ? 0 : weights[index] * WARNING_WEIGHT;
+    }
+  };
+
+  segments.forEach((segment, i) => checkSegment(segment, i, transcription.duration_seconds, flag));
+  checkOverlaps(segments, flag);
+
+  const speakerCount = new Set(segments.map(segment => segment.speaker)).size;
+  const averageConfidence = segments.length > 0
+    ? round2(segments.reduce((sum, segment) => sum + clampConfidence(segment.confidence), 0) / segments.length)
+    : round2(transcription.confidence_score ?? 0);
+
+  const spoken = segments.filter(segment => segment.transcript.trim().length > 0);
+  if (spoken.length === 0) {
+    flag('empty_table', 'critical', 'No speech transcribed');
+  } else {
+    const seconds = segments.reduce((max, segment) => Math.max(max, segment.end), -Infinity)
+      - segments.reduce((min, segment) => Math.min(min, segment.start), Infinity);
+    if (speakerCount === 1 && seconds >= SINGLE_SPEAKER_MIN_SECONDS) {
+      flag('single_speaker', 'warning', `Only one speaker in ${Math.round(seconds / 60)} minutes; diarization may have failed`);
+    }
+    if (averageConfidence < LOW_TABLE_CONFIDENCE) {
+      flag('low_table_confidence', 'warning', `Average transcription confidence is ${averageConfidence}`);
+    }
+  }
+
+  // Segment times count from each table's own recording start, read as the session's timebase
+  const lateSeconds = sessionStart !== undefined ? (Date.parse(transcription.created_at) - sessionStart) / 1000 : NaN;
+  if (lateSeconds > LATE_RECORDING_SECONDS) {
+    flag('late_recording', 'warning', `Recording started ${Math.round(lateSeconds / 60)} minutes after the session's first; its segments may be placed in the wrong rounds`);
+  }
+
+  let score = 0;
+  if (spoken.length > 0) {
+    const segmentShare = weights.reduce((sum, weight) => sum + weight, 0) / weights.length;
+    const tablePenalty = anomalies
+      .filter(anomaly => anomaly.segmentIndex === undefined)
+      .reduce((sum, anomaly) => sum + (TABLE_PENALTIES[anomaly.type] || 0), 0);
+    score = round2(Math.max(0, Math.min(1, segmentShare - tablePenalty)));
+  }
+
+  return {
+    quality: {
+      tableId,
+      score,
+      segmentCount: segments.length,
+      flaggedSegments: weights.filter(weight => weight < 1).length,
+      speakerCount,
+      averageConfidence,
+      anomalies,
+    },
+    weights,
+  };
+}
+
+function checkSegment(
+  segment: SpeakerSegment,
+  index: number,
+  recordingSeconds: number | undefined,
+  flag: FlagAnomaly
+): void {
+  const duration = segment.end - segment.start;
+  const words = segment.words?.length || segment.transcript.trim().split(/\s+/).filter(Boolean).length;
+
+  if (segment.transcript.trim().length === 0) {
+    flag('empty_segment', 'warning', 'Segment has no text', index);
+  }
+  if (duration < 0) {
+    flag('negative_duration', 'critical', `Segment ends ${round2(-duration)}s before it starts`, index);
+  } else if (duration === 0) {
+    flag('zero_duration', 'warning', 'Segment has no duration', index);
+  } else if (words / duration > MAX_WORDS_PER_SECOND) {
+    flag('implausible_speech_rate', 'warning', `${words} words in ${round2(duration)}s`, index);
+  }
+  // Segments without a confidence are taken as confidently transcribed, not flagged
+  if (segment.confidence !== undefined && segment.confidence < LOW_SEGMENT_CONFIDENCE) {
+    flag('low_confidence', 'warning', `Transcription confidence ${round2(segment.confidence)}`, index);
+  }
+  if (recordingSeconds && segment.end > recordingSeconds + RECORDING_TOLERANCE_SECONDS) {
+    flag('beyond_recording', 'warning', `Segment ends at ${round2(segment.end)}s, after the ${round2(recordingSeconds)}s recording`, index);
+  }
+}
+
+/**
+ * A speaker cannot overlap themselves, and long stretches of two people talking
+ * at once usually mean misaligned timestamps rather than an interruption
+ */
+function checkOverlaps(
+  segments: SpeakerSegment[],
+  flag: FlagAnomaly
+): void {
+  const order = segments.map((_, i) => i).sort((a, b) => segments[a].start - segments[b].start);
+  const lastEndBySpeaker = new Map<number, number>();
+
+  for (let k = 0; k < order.length; k++) {
+    const index = order[k];
+    const segment = segments[index];
+
+    const ownLastEnd = lastEndBySpeaker.get(segment.speaker);
+    if (ownLastEnd !== undefined && segment.start < ownLastEnd) {
+      flag('self_overlap', 'warning', `Starts ${round2(ownLastEnd - segment.start)}s before the same speaker's previous segment ends`, index);
+    }
+
+    const previous = k > 0 ? segments[order[k - 1]] : undefined;
+    if (previous && previous.speaker !== segment.speaker) {
+      const overlap = Math.min(previous.end, segment.end) - segment.start;
+      if (overlap > LONG_OVERLAP_SECONDS) {
+        flag('long_overlap', 'warning', `Overlaps speaker ${previous.speaker} for ${round2(overlap)}s`, index);
+      }
+    }
+
+    lastEndBySpeaker.set(segment.speaker, Math.max(ownLastEnd ?? segment.end, segment.end));
+  }
+}
+
+function missingTable(tableId: number): TableDataQuality {
+  return {
+    tableId,
+    score: 0,
+    segmentCount: 0,
+    flaggedSegments: 0,
+    speakerCount: 0,
+    averageConfidence: 0,
+    anomalies: [{
+      type: 'missing_table',
+      severity: 'critical',
+      tableId,
+      message: 'No transcript for this table',
+    }],
+  };
+}
+
+/**
+ * One line per table with problems, and one for the session when its score is low
+ */
+function buildWarnings(score: number, tables: TableDataQuality[]): string[] {
+  const warnings: string[] = [];
+
+  if (tables.length > 0 && score < LOW_QUALITY_SCORE) {
+    warnings.push(`Data quality score is ${score}; metrics for this session may be unreliable`);
+  }
+
+  for (const table of tables) {
+    const tableAnomalies = table.anomalies.filter(anomaly => anomaly.segmentIndex === undefined);
+    for (const anomaly of tableAnomalies) {
+      warnings.push(`Table ${table.tableId}: ${anomaly.message}`);
+    }
+
+    if (table.flaggedSegments > 0) {
+      const counts = new Map<DataQualityIssue, number>();
+      for (const anomaly of table.anomalies.filter(anomaly => anomaly.segmentIndex !== undefined)) {
+        counts.set(anomaly.type, (counts.get(anomaly.type) || 0) + 1);
+      }
+      const breakdown = [...counts.entries()].map(([type, count]) => `${type} ${count}`).join(', ');
+      warnings.push(`Table ${table.tableId}: ${table.flaggedSegments} of ${table.segmentCount} segments flagged (${breakdown})`);
+    }
+  }
+
+  return warnings;
+}
+
+// DATA_QUALITY_HANDLING sets what happens to flagged segments when a caller does not say
+function configuredHandling(): BadSegmentHandling {
+  const configured = process.env.DATA_QUALITY_HANDLING as BadSegmentHandling | undefined;
+  return configured && BAD_SEGMENT_HANDLINGS.includes(configured) ? configured : 'keep';
+}
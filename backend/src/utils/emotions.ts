@@ -0,0 +1,213 @@
+import { AttributedSegment, Emotion, EmotionDistribution, EmotionSpike, SegmentEmotions, TableEmotions } from '@/types';
+import { LanguagePack } from './languagePacks';
+import { forEachLexiconWord } from './sentiment';
+import { envNumber, round2 } from './numbers';
+
+export const EMOTIONS: Emotion[] = ['joy', 'anger', 'fear', 'sadness', 'surprise', 'trust'];
+
+export interface EmotionConfig {
+  // Width of the windows spikes are looked for in, stepped by half a window
+  windowSeconds: number;
+  // How far above its share over the whole conversation an emotion must rise in a window, 0-1
+  spikeRise: number;
+}
+
+const DEFAULT_EMOTION_CONFIG: EmotionConfig = {
+  windowSeconds: 120,
+  spikeRise: 0.25,
+};
+
+// Emotion words a window needs before its mix can count as a spike, so that
+// one stray word in a quiet stretch does not
+const MIN_SPIKE_WORDS = 3;
+
+/**
+ * Spike window and threshold from EMOTION_WINDOW_SECONDS and EMOTION_SPIKE_RISE
+ */
+export function emotionConfig(): EmotionConfig {
+  return {
+    windowSeconds: envNumber('EMOTION_WINDOW_SECONDS', DEFAULT_EMOTION_CONFIG.windowSeconds),
+    spikeRise: envNumber('EMOTION_SPIKE_RISE', DEFAULT_EMOTION_CONFIG.spikeRise),
+  };
+}
+
+/**
+ * How strongly a text expresses each emotion in the language pack's lexicon, with
+ * how many of its words expressed any. Intensifiers and "but" weigh words as they
+ * do for sentiment; a negated emotion word ("not afraid") expresses none.
+ */
+export function detectEmotions(text: string, pack: LanguagePack | undefined): { weights: EmotionDistribution; emotionWords: number } {
+  const weights = emptyDistribution();
+  let emotionWords = 0;
+  if (!pack) return { weights, emotionWords };
+
+  const { emotions } = pack.sentiment;
+  forEachLexiconWord(text, pack, (word, boost, negated, weight) => {
+    const expressed = emotions.get(word);
+    if (!expressed || negated) return;
+    for (const emotion of expressed) {
+      weights[emotion] += boost * weight;
+    }
+    emotionWords++;
+  });
+
+  return { weights, emotionWords };
+}
+
+/**
+ * Emotions in one conversation (segments ordered by start time, as from
+ * groupConversations): the mix in every turn that expressed any, the table's mix
+ * overall and the stretches where one emotion rose well above its usual share
+ */
+export function analyzeConversationEmotions(
+  sorted: AttributedSegment[],
+  packFor: (segment: AttributedSegment) => LanguagePack | undefined,
+  config: EmotionConfig = emotionConfig()
+): TableEmotions {
+  const detected: { segment: AttributedSegment; weights: EmotionDistribution; emotionWords: number }[] = [];
+  const totals = emptyDistribution();
+  let emotionWords = 0;
+
+  for (const segment of sorted) {
+    const detection = detectEmotions(segment.transcript, packFor(segment));
+    if (detection.emotionWords === 0) continue;
+
+    detected.push({ segment, ...detection });
+    for (const emotion of EMOTIONS) {
+      totals[emotion] += detection.weights[emotion];
+    }
+    emotionWords += detection.emotionWords;
+  }
+
+  const distribution = normalize(totals);
+  return {
+    tableId: sorted[0]?.tableId,
+    roundNumber: sorted[0]?.roundNumber,
+    distribution,
+    dominant: emotionWords > 0 ? dominantEmotion(distribution) : null,
+    emotionWords,
+    detectedShare: sorted.length > 0 ? round2(detected.length / sorted.length) : 0,
+    segments: detected.map(({ segment, weights }): SegmentEmotions => {
+      const mix = normalize(weights);
+      return {
+        start: round2(segment.start),
+        end: round2(segment.end),
+        speaker: segment.speaker,
+        participantId: segment.identity.participantId,
+        distribution: mix,
+        dominant: dominantEmotion(mix),
+      };
+    }),
+    spikes: findSpikes(detected, distribution, config),
+  };
+}
+
+/**
+ * Mix of several distributions, each weighted by how many emotion words it came from
+ */
+export function combineDistributions(parts: { distribution: EmotionDistribution; emotionWords: number }[]): EmotionDistribution {
+  const totals = emptyDistribution();
+  for (const { distribution, emotionWords } of parts) {
+    for (const emotion of EMOTIONS) {
+      totals[emotion] += distribution[emotion] * emotionWords;
+    }
+  }
+  return normalize(totals);
+}
+
+/**
+ * Slide a window over the turns that expressed emotion and mark where one emotion's
+ * share of the window rose spikeRise above its share over the whole conversation.
+ * Overlapping windows for the same emotion make one spike, spanning the turns that
+ * expressed it.
+ */
+function findSpikes(
+  detected: { segment: AttributedSegment; weights: EmotionDistribution; emotionWords: number }[],
+  baseline: EmotionDistribution,
+  config: EmotionConfig
+): EmotionSpike[] {
+  if (detected.length === 0 || config.windowSeconds <= 0) return [];
+
+  const step = config.windowSeconds / 2;
+  const first = detected[0].segment.start;
+  const last = detected[detected.length - 1].segment.start;
+
+  const spikes: EmotionSpike[] = [];
+  const open = new Map<Emotion, EmotionSpike>();
+  let from = 0;
+  for (let windowStart = first; windowStart <= last; windowStart += step) {
+    const windowEnd = windowStart + config.windowSeconds;
+    // Turns are in start order, so those before this window are before the rest too
+    while (from < detected.length && detected[from].segment.start < windowStart) from++;
+
+    const inWindow = [];
+    for (let i = from; i < detected.length && detected[i].segment.start < windowEnd; i++) {
+      inWindow.push(detected[i]);
+    }
+    const words = inWindow.reduce((sum, entry) => sum + entry.emotionWords, 0);
+
+    const share = words >= MIN_SPIKE_WORDS
+      ? normalize(inWindow.reduce((sum, entry) => {
+        for (const emotion of EMOTIONS) sum[emotion] += entry.weights[emotion];
+        return sum;
+      }, emptyDistribution()))
+      : null;
+
+    for (const emotion of EMOTIONS) {
+      const spiking = share !== null && share[emotion] - baseline[emotion] >= config.spikeRise;
+      const current = open.get(emotion);
+      if (!spiking) {
+        // A spike ends with the first window it no longer shows in
+        if (current) {
+          spikes.push(current);
+          open.delete(emotion);
+        }
+        continue;
+      }
+
+      const expressing = inWindow.filter(entry => entry.weights[emotion] > 0).map(entry => entry.segment);
+      const peak = round2(Math.min(windowStart + config.windowSeconds / 2, Math.max(...expressing.map(segment => segment.end))));
+      if (!current) {
+        open.set(emotion, {
+          emotion,
+          start: round2(Math.min(...expressing.map(segment => segment.start))),
+          end: round2(Math.max(...expressing.map(segment => segment.end))),
+          peak,
+          share: round2(share[emotion]),
+          baseline: baseline[emotion],
+          speakers: [...new Set(expressing.map(segment => segment.speaker))].sort((a, b) => a - b),
+        });
+        continue;
+      }
+
+      current.end = round2(Math.max(current.end, ...expressing.map(segment => segment.end)));
+      current.speakers = [...new Set([...current.speakers, ...expressing.map(segment => segment.speaker)])].sort((a, b) => a - b);
+      if (share[emotion] > current.share) {
+        current.share = round2(share[emotion]);
+        current.peak = peak;
+      }
+    }
+  }
+
+  spikes.push(...open.values());
+  return spikes.sort((a, b) => a.start - b.start);
+}
+
+function dominantEmotion(distribution: EmotionDistribution): Emotion {
+  return EMOTIONS.reduce((best, emotion) => distribution[emotion] > distribution[best] ? emotion : best);
+}
+
+function normalize(weights: EmotionDistribution): EmotionDistribution {
+  const total = EMOTIONS.reduce((sum, emotion) => sum + weights[emotion], 0);
+  const distribution = emptyDistribution();
+  if (total > 0) {
+    for (const emotion of EMOTIONS) {
+      distribution[emotion] = round2(weights[emotion] / total);
+    }
+  }
+  return distribution;
+}
+
+function emptyDistribution(): EmotionDistribution {
+  return { joy: 0, anger: 0, fear: 0, sadness: 0, surprise: 0, trust: 0 };
+}
@@ -0,0 +1,88 @@
+import { SpeakingTimeAnalysis } from '@/types';
+import { giniCoefficient, measureEquity, normalizedEntropy, sessionBalanceScore } from './equity';
+
+function speaker(tableId: number, index: number, totalSeconds: number, turnsCount: number, roundNumber?: number): SpeakingTimeAnalysis {
+  return {
+    participantId: `table_${tableId}_speaker_${index}`,
+    participantName: `Speaker ${index}`,
+    tableId,
+    roundNumber,
+    speakerIndex: index,
+    totalSeconds,
+    percentage: 0,
+    turnsCount,
+    averageTurnLength: 0,
+    longestTurn: 0,
+    shortestTurn: 0,
+    interruptionCount: 0,
+    interruptedCount: 0,
+    wordsPerMinute: 0,
+    dominanceIndex: 1,
+    engagementLevel: 'medium',
+  };
+}
+
+describe('giniCoefficient', () => {
+  it('is 0 for equal values and 1 when one value holds everything, whatever the count', () => {
+    expect(giniCoefficient([5, 5, 5, 5])).toBe(0);
+    expect(giniCoefficient([0, 0, 9])).toBeCloseTo(1);
+    expect(giniCoefficient([0, 0, 0, 0, 0, 0, 0, 9])).toBeCloseTo(1);
+  });
+
+  it('falls in between for uneven values, regardless of order', () => {
+    const gini = giniCoefficient([30, 10, 20]);
+
+    expect(gini).toBeCloseTo(0.333, 3);
+    expect(giniCoefficient([10, 20, 30])).toBeCloseTo(gini);
+  });
+
+  it('is 0 when there is nothing to compare', () => {
+    expect(giniCoefficient([])).toBe(0);
+    expect(giniCoefficient([12])).toBe(0);
+    expect(giniCoefficient([0, 0])).toBe(0);
+  });
+});
+
+describe('normalizedEntropy', () => {
+  it('is 1 for equal counts and 0 when one count holds everything', () => {
+    expect(normalizedEntropy([4, 4, 4])).toBeCloseTo(1);
+    expect(normalizedEntropy([0, 7, 0])).toBe(0);
+  });
+
+  it('falls in between for uneven counts', () => {
+    const entropy = normalizedEntropy([9, 1]);
+
+    expect(entropy).toBeGreaterThan(0);
+    expect(entropy).toBeLessThan(normalizedEntropy([6, 4]));
+  });
+
+  it('treats a single count or no turns as even', () => {
+    expect(normalizedEntropy([5])).toBe(1);
+    expect(normalizedEntropy([0, 0])).toBe(1);
+  });
+});
+
+describe('measureEquity', () => {
+  it('scores each table, each round and the session', () => {
+    const equity = measureEquity([
+      speaker(1, 1, 60, 5, 1), speaker(1, 2, 60, 5, 1),
+      speaker(2, 1, 110, 9, 1), speaker(2, 2, 10, 1, 1),
+    ], { minVoiceShare: 0.25 });
+
+    expect(equity.map(entry => [entry.scope, entry.tableId, entry.roundNumber])).toEqual([
+      ['table', 1, 1],
+      ['table', 2, 1],
+      ['round', undefined, 1],
+      ['session', undefined, undefined],
+    ]);
+    expect(equity[0]).toMatchObject({ giniCoefficient: 0, turnEntropy: 1, quietShare: 0, balanceScore: 1 });
+    expect(equity[1].quietShare).toBe(0.5);
+    expect(equity[1].balanceScore).toBeLessThan(equity[0].balanceScore);
+    expect(sessionBalanceScore(equity)).toBe(equity[3].balanceScore);
+  });
+
+  it('has no session score without speakers', () => {
+    expect(measureEquity([])).toEqual([]);
+    expect(sessionBalanceScore([])).toBeUndefined();
+  });
+});
@@ -0,0 +1,142 @@
+import { ParticipationEquity, SpeakingTimeAnalysis } from '@/types';
+import { envNumber, round2 } from './numbers';
+
+export interface EquityConfig {
+  // A speaker with less than this fraction of an equal share of the talk counts as quiet
+  minVoiceShare: number;
+}
+
+const DEFAULT_EQUITY_CONFIG: EquityConfig = {
+  minVoiceShare: 0.25,
+};
+
+/**
+ * Threshold from EQUITY_MIN_VOICE_SHARE
+ */
+export function equityConfig(): EquityConfig {
+  return {
+    minVoiceShare: envNumber('EQUITY_MIN_VOICE_SHARE', DEFAULT_EQUITY_CONFIG.minVoiceShare),
+  };
+}
+
+/**
+ * Gini coefficient of the values, corrected for how many there are so that one
+ * value holding everything scores 1 at a table of three as at a table of eight
+ */
+export function giniCoefficient(values: number[]): number {
+  const n = values.length;
+  const total = values.reduce((sum, value) => sum + value, 0);
+  if (n < 2 || total <= 0) return 0;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const ranked = sorted.reduce((sum, value, i) => sum + (i + 1) * value, 0);
+  const gini = (2 * ranked) / (n * total) - (n + 1) / n;
+  return Math.min(1, Math.max(0, gini * n / (n - 1)));
+}
+
+/**
+ * Shannon entropy of the counts over the most it could be for that many, so 1
+ * when every count is equal. A single count is trivially even.
+ */
+export function normalizedEntropy(counts: number[]): number {
+  const total = counts.reduce((sum, count) => sum + count, 0);
+  if (counts.length < 2 || total <= 0) return 1;
+
+  const entropy = counts.reduce((sum, count) => {
+    const p = count / total;
+    return p > 0 ? sum - p * Math.log(p) : sum;
+  }, 0);
+  return entropy / Math.log(counts.length);
+}
+
+/**
+ * Equity of every table in every round, then of each round and of the session.
+ * Inequality is measured within each conversation and the wider scopes average
+ * it weighted by talk, so tables running for different lengths are not mistaken
+ * for unequal speakers.
+ */
+export function measureEquity(
+  results: SpeakingTimeAnalysis[],
+  config: EquityConfig = equityConfig()
+): ParticipationEquity[] {
+  const conversations = new Map<string, SpeakingTimeAnalysis[]>();
+  for (const result of results) {
+    const key = `${result.roundNumber ?? '-'}:${result.tableId ?? '-'}`;
+    let group = conversations.get(key);
+    if (!group) {
+      group = [];
+      conversations.set(key, group);
+    }
+    group.push(result);
+  }
+
+  const tables: (ParticipationEquity & { talkSeconds: number; quietSpeakers: number })[] = [];
+  for (const speakers of conversations.values()) {
+    const seconds = speakers.map(speaker => speaker.totalSeconds);
+    const talkSeconds = seconds.reduce((sum, value) => sum + value, 0);
+    const quietBelow = talkSeconds * config.minVoiceShare / speakers.length;
+    const quietSpeakers = speakers.length > 1 ? seconds.filter(value => value < quietBelow).length : 0;
+
+    tables.push({
+      scope: 'table',
+      tableId: speakers[0].tableId,
+      roundNumber: speakers[0].roundNumber,
+      speakerCount: speakers.length,
+      ...score({
+        giniCoefficient: giniCoefficient(seconds),
+        turnEntropy: normalizedEntropy(speakers.map(speaker => speaker.turnsCount)),
+        quietShare: quietSpeakers / speakers.length,
+      }),
+      talkSeconds,
+      quietSpeakers,
+    });
+  }
+
+  const combine = (group: typeof tables, scope: 'round' | 'session', roundNumber?: number): ParticipationEquity => {
+    const talkSeconds = group.reduce((sum, table) => sum + table.talkSeconds, 0);
+    const weighted = (value: (table: ParticipationEquity) => number) => talkSeconds > 0
+      ? group.reduce((sum, table) => sum + value(table) * table.talkSeconds, 0) / talkSeconds
+      : group.reduce((sum, table) => sum + value(table), 0) / group.length;
+    const speakerCount = group.reduce((sum, table) => sum + table.speakerCount, 0);
+
+    return {
+      scope,
+      roundNumber,
+      speakerCount,
+      ...score({
+        giniCoefficient: weighted(table => table.giniCoefficient),
+        turnEntropy: weighted(table => table.turnEntropy),
+        quietShare: group.reduce((sum, table) => sum + table.quietSpeakers, 0) / speakerCount,
+      }),
+    };
+  };
+
+  const rounds = new Map<number, typeof tables>();
+  for (const table of tables) {
+    if (table.roundNumber === undefined) continue;
+    rounds.set(table.roundNumber, [...(rounds.get(table.roundNumber) || []), table]);
+  }
+
+  return [
+    ...tables.map(({ talkSeconds, quietSpeakers, ...table }) => table),
+    ...[...rounds.entries()].sort(([a], [b]) => a - b).map(([roundNumber, group]) => combine(group, 'round', roundNumber)),
+    ...(tables.length > 0 ? [combine(tables, 'session')] : []),
+  ];
+}
+
+/**
+ * The session's equity from stored or freshly measured results
+ */
+export function sessionBalanceScore(equity: ParticipationEquity[]): number | undefined {
+  return equity.find(entry => entry.scope === 'session')?.balanceScore;
+}
+
+// Balance is the mean of even time, even turns and nobody left quiet
+function score(metrics: { giniCoefficient: number; turnEntropy: number; quietShare: number }) {
+  return {
+    giniCoefficient: round2(metrics.giniCoefficient),
+    turnEntropy: round2(metrics.turnEntropy),
+    quietShare: round2(metrics.quietShare),
+    balanceScore: round2(((1 - metrics.giniCoefficient) + metrics.turnEntropy + (1 - metrics.quietShare)) / 3),
+  };
+}
@@ -0,0 +1,94 @@
+import { AttributedSegment, WordTimestamp } from '@/types';
+import { InterruptionConfig, InterruptionEvent, classifyOverlap, forEachInterruption } from './interruptions';
+
+const CONFIG: InterruptionConfig = {
+  minOverlapSeconds: 0.2,
+  cooperativeMaxOverlapSeconds: 1.0,
+  yieldSeconds: 2.0,
+  backchannelMaxWords: 3,
+};
+
+function turn(speaker: number, start: number, end: number, transcript: string, words?: WordTimestamp[]): AttributedSegment {
+  return {
+    speaker,
+    start,
+    end,
+    transcript,
+    words,
+    tableId: 1,
+    identity: { key: `table_1_speaker_${speaker}`, name: `Speaker ${speaker}` },
+  };
+}
+
+const kindOf = (previous: AttributedSegment, next: AttributedSegment) => classifyOverlap(previous, next, CONFIG)?.kind;
+
+describe('classifyOverlap', () => {
+  const holder = turn(1, 0, 10, 'a long point about the neighbourhood plan');
+
+  it('ignores turns that barely touch', () => {
+    expect(classifyOverlap(turn(1, 0, 5, 'so that is it'), turn(2, 4.85, 8, 'right then'), CONFIG)).toBeUndefined();
+  });
+
+  it('treats a short acknowledgement inside a turn as a backchannel', () => {
+    expect(kindOf(holder, turn(2, 3, 3.5, 'mm-hmm yeah'))).toBe('backchannel');
+  });
+
+  it('treats a brief remark the speaker talks through as cooperative', () => {
+    expect(kindOf(holder, turn(2, 3, 3.8, 'good point there'))).toBe('cooperative');
+  });
+
+  it('treats a longer failed bid for the floor as competitive', () => {
+    expect(kindOf(holder, turn(2, 3, 6, 'no, I really disagree with that'))).toBe('competitive');
+  });
+
+  it('grades a turn that takes over the floor by how long both talked at once', () => {
+    const previous = turn(1, 0, 5, 'and so we thought');
+
+    expect(kindOf(previous, turn(2, 4.5, 8, 'exactly, and then'))).toBe('cooperative');
+    expect(kindOf(previous, turn(2, 3.5, 8, 'wait, that is not right'))).toBe('takeover');
+    expect(kindOf(previous, turn(2, 2, 8, 'wait, that is not right'))).toBe('competitive');
+  });
+
+  it('measures overlap between spoken words when both turns have them', () => {
+    const previous = turn(1, 0, 5, 'we are done', [
+      { word: 'we', start: 0.5, end: 1 },
+      { word: 'are', start: 1, end: 1.5 },
+      { word: 'done', start: 1.5, end: 2 },
+    ]);
+    const next = turn(2, 3, 6, 'next topic', [
+      { word: 'next', start: 3.5, end: 4 },
+      { word: 'topic', start: 4, end: 4.5 },
+    ]);
+
+    expect(classifyOverlap(previous, next, CONFIG)).toBeUndefined();
+  });
+
+  it('reports the overlap and who interrupted whom', () => {
+    const previous = turn(1, 0, 5, 'and so we thought');
+    const next = turn(2, 3.5, 8, 'wait, that is not right');
+
+    expect(classifyOverlap(previous, next, CONFIG)).toEqual({
+      kind: 'takeover',
+      interrupted: previous,
+      interrupter: next,
+      overlapSeconds: 1.5,
+    });
+  });
+});
+
+describe('forEachInterruption', () => {
+  it('classifies each turn against whoever holds the floor', () => {
+    const events: InterruptionEvent[] = [];
+    forEachInterruption([
+      turn(1, 0, 10, 'a long point about the neighbourhood plan'),
+      turn(2, 2, 2.5, 'yeah'),
+      turn(1, 4, 6, 'as I was saying'),
+      turn(3, 8.5, 12, 'can I add something here'),
+    ], CONFIG, event => events.push(event));
+
+    expect(events.map(event => [event.kind, event.interrupted.speaker, event.interrupter.speaker])).toEqual([
+      ['backchannel', 1, 2],
+      ['takeover', 1, 3],
+    ]);
+  });
+});
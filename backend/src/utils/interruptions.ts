@@ -0,0 +1,158 @@
+import { AttributedSegment, InterruptionKind, InterruptionTally, SpeakerSegment } from '@/types';
+import { isBackchannel } from './languagePacks';
+import { envNumber } from './numbers';
+
+/**
+ * The one definition of an interruption, shared by speaking-time metrics and the
+ * bias detectors. Overlaps are measured between spoken words when both turns
+ * have word timestamps, since segment bounds often include silence.
+ */
+export interface InterruptionConfig {
+  // Overlap up to this is ordinary turn-taking, not an overlap at all
+  minOverlapSeconds: number;
+  // A turn that overlaps the end of the previous one by up to this anticipates it (cooperative)
+  cooperativeMaxOverlapSeconds: number;
+  // A speaker who stops within this long of being talked over has been cut off (takeover);
+  // talking on past it makes the overlap a contest (competitive)
+  yieldSeconds: number;
+  // Longest backchannel, in words
+  backchannelMaxWords: number;
+}
+
+export interface InterruptionEvent {
+  kind: InterruptionKind;
+  interrupted: AttributedSegment;
+  interrupter: AttributedSegment;
+  overlapSeconds: number;
+}
+
+// Kinds that count towards interruptionCount and interruption bias
+export const DISRUPTIVE_INTERRUPTIONS: InterruptionKind[] = ['competitive', 'takeover'];
+
+const DEFAULT_INTERRUPTION_CONFIG: InterruptionConfig = {
+  minOverlapSeconds: 0.2,
+  cooperativeMaxOverlapSeconds: 1.0,
+  yieldSeconds: 2.0,
+  backchannelMaxWords: 3,
+};
+
+/**
+ * Thresholds from INTERRUPTION_* environment variables
+ */
+export function interruptionConfig(): InterruptionConfig {
+  return {
+    minOverlapSeconds: envNumber('INTERRUPTION_MIN_OVERLAP_SECONDS', DEFAULT_INTERRUPTION_CONFIG.minOverlapSeconds),
+    cooperativeMaxOverlapSeconds: envNumber('INTERRUPTION_COOPERATIVE_MAX_OVERLAP_SECONDS', DEFAULT_INTERRUPTION_CONFIG.cooperativeMaxOverlapSeconds),
+    yieldSeconds: envNumber('INTERRUPTION_YIELD_SECONDS', DEFAULT_INTERRUPTION_CONFIG.yieldSeconds),
+    backchannelMaxWords: envNumber('INTERRUPTION_BACKCHANNEL_MAX_WORDS', DEFAULT_INTERRUPTION_CONFIG.backchannelMaxWords),
+  };
+}
+
+export function emptyInterruptionTally(): InterruptionTally {
+  return {
+    backchannel: { given: 0, received: 0 },
+    cooperative: { given: 0, received: 0 },
+    competitive: { given: 0, received: 0 },
+    takeover: { given: 0, received: 0 },
+  };
+}
+
+/**
+ * Tallies summed, e.g. over every table a participant sat at
+ */
+export function sumInterruptionTallies(tallies: (InterruptionTally | undefined)[]): InterruptionTally {
+  const total = emptyInterruptionTally();
+  for (const tally of tallies) {
+    if (!tally) continue;
+    for (const kind of Object.keys(total) as InterruptionKind[]) {
+      total[kind].given += tally[kind].given;
+      total[kind].received += tally[kind].received;
+    }
+  }
+  return total;
+}
+
+/**
+ * Classify a turn that starts before the previous one ends, or return undefined
+ * when they do not really overlap. The previous turn must start first.
+ */
+export function classifyOverlap(
+  previous: AttributedSegment,
+  next: AttributedSegment,
+  config: InterruptionConfig
+): InterruptionEvent | undefined {
+  const previousEnd = speechEnd(previous);
+  const nextStart = speechStart(next);
+  const overlapSeconds = previousEnd - nextStart;
+  if (overlapSeconds <= config.minOverlapSeconds) {
+    return undefined;
+  }
+
+  const event = (kind: InterruptionKind): InterruptionEvent => ({ kind, interrupted: previous, interrupter: next, overlapSeconds });
+
+  // The previous speaker carries on after the overlapping turn ends
+  if (previousEnd >= speechEnd(next)) {
+    const text = spokenText(next);
+    const words = text.trim().split(/\s+/).filter(Boolean).length;
+    if (words <= config.backchannelMaxWords && isBackchannel(text)) {
+      return event('backchannel');
+    }
+    // A brief remark the speaker talks through; holding on longer is a failed bid for the floor
+    return event(speechEnd(next) - nextStart <= config.cooperativeMaxOverlapSeconds ? 'cooperative' : 'competitive');
+  }
+
+  // The overlapping turn outlasts the previous one and takes the floor
+  if (overlapSeconds <= config.cooperativeMaxOverlapSeconds) {
+    return event('cooperative');
+  }
+  return event(overlapSeconds <= config.yieldSeconds ? 'takeover' : 'competitive');
+}
+
+/**
+ * Follows a conversation turn by turn, in start order, and classifies each turn
+ * against whoever holds the floor: the turn that runs on longest so far. A
+ * backchannel inside someone's turn therefore does not hide the next overlap
+ * with that turn.
+ */
+export function overlapTracker(config: InterruptionConfig): (segment: AttributedSegment) => InterruptionEvent | undefined {
+  let floor: AttributedSegment | undefined;
+  return segment => {
+    const event = floor && floor.identity.key !== segment.identity.key
+      ? classifyOverlap(floor, segment, config)
+      : undefined;
+    if (!floor || segment.end > floor.end) {
+      floor = segment;
+    }
+    return event;
+  };
+}
+
+/**
+ * Call visit for each overlap in a conversation. Segments must be ordered by start time.
+ */
+export function forEachInterruption(
+  sorted: AttributedSegment[],
+  config: InterruptionConfig,
+  visit: (event: InterruptionEvent) => void
+): void {
+  const track = overlapTracker(config);
+  for (const segment of sorted) {
+    const event = track(segment);
+    if (event) {
+      visit(event);
+    }
+  }
+}
+
+// When speech starts and ends, from word timestamps where there are any
+function speechStart(segment: SpeakerSegment): number {
+  return segment.words?.length ? segment.words[0].start : segment.start;
+}
+
+function speechEnd(segment: SpeakerSegment): number {
+  return segment.words?.length ? segment.words[segment.words.length - 1].end : segment.end;
+}
+
+function spokenText(segment: SpeakerSegment): string {
+  return segment.words?.length ? segment.words.map(word => word.word).join(' ') : segment.transcript;
+}
@@ -0,0 +1,76 @@
+// Words that never start, end or make up a keyphrase on their own
+const STOP_WORDS = new Set([
+  'a', 'about', 'actually', 'after', 'again', 'all', 'also', 'am', 'an', 'and', 'any', 'are', 'as', 'at',
+  'be', 'because', 'been', 'before', 'being', 'but', 'by', 'can', 'could', 'did', 'do', 'does', 'doing',
+  'don\'t', 'even', 'for', 'from', 'get', 'go', 'going', 'got', 'had', 'has', 'have', 'having', 'he', 'her',
+  'here', 'him', 'his', 'how', 'i', 'i\'m', 'if', 'in', 'into', 'is', 'it', 'it\'s', 'its', 'just', 'know',
+  'like', 'lot', 'maybe', 'me', 'more', 'most', 'much', 'my', 'need', 'no', 'not', 'now', 'of', 'oh', 'ok',
+  'okay', 'on', 'one', 'only', 'or', 'other', 'our', 'out', 'over', 'people', 'really', 'right', 'said',
+  'say', 'see', 'she', 'should', 'so', 'some', 'something', 'still', 'such', 'than', 'that', 'that\'s',
+  'the', 'their', 'them', 'then', 'there', 'these', 'they', 'thing', 'things', 'think', 'this', 'those',
+  'to', 'too', 'um', 'uh', 'up', 'us', 'very', 'want', 'was', 'way', 'we', 'we\'re', 'well', 'were',
+  'what', 'when', 'where', 'which', 'who', 'why', 'will', 'with', 'would', 'yeah', 'yes', 'you', 'your',
+]);
+
+const MAX_PHRASE_WORDS = 3;
+const MIN_WORD_LENGTH = 3;
+// Shortest lone word that counts as a keyphrase
+const MIN_KEYWORD_LENGTH = 4;
+
+export interface Keyphrase {
+  phrase: string;
+  count: number;
+}
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}']+/gu) || [];
+}
+
+/**
+ * Candidate phrases in a text: runs of up to three content words, split at stop words.
+ * Single words are only candidates when they are long enough to carry meaning.
+ */
+export function candidatePhrases(text: string): string[] {
+  const phrases: string[] = [];
+  let run: string[] = [];
+
+  const flush = () => {
+    for (let size = 1; size <= Math.min(MAX_PHRASE_WORDS, run.length); size++) {
+      for (let i = 0; i + size <= run.length; i++) {
+        const words = run.slice(i, i + size);
+        if (size === 1 && words[0].length < MIN_KEYWORD_LENGTH) continue;
+        phrases.push(words.join(' '));
+      }
+    }
+    run = [];
+  };
+
+  for (const token of tokenize(text)) {
+    if (STOP_WORDS.has(token) || token.length < MIN_WORD_LENGTH || /^\d+$/.test(token)) {
+      flush();
+    } else {
+      run.push(token);
+    }
+  }
+  flush();
+
+  return phrases;
+}
+
+/**
+ * The most frequent keyphrases across texts, longer phrases first on ties
+ */
+export function extractKeyphrases(texts: string[], limit: number = 20, minCount: number = 2): Keyphrase[] {
+  const counts = new Map<string, number>();
+  for (const text of texts) {
+    for (const phrase of candidatePhrases(text)) {
+      counts.set(phrase, (counts.get(phrase) || 0) + 1);
+    }
+  }
+
+  return [...counts.entries()]
+    .filter(([, count]) => count >= minCount)
+    .map(([phrase, count]) => ({ phrase, count }))
+    .sort((a, b) => b.count - a.count || b.phrase.split(' ').length - a.phrase.split(' ').length)
+    .slice(0, limit);
+}
@@ -0,0 +1,85 @@
+import { LanguagePack, emotionLexicon, phrasePattern, valenceLexicon } from './types';
+
+export const german: LanguagePack = {
+  language: 'de',
+  version: '1.4.0',
+  dismissive: [
+    phrasePattern('aber', 'jedoch', 'eigentlich', 'ich bin anderer meinung', 'das ist falsch', 'nein[,.]', 'macht keinen sinn', 'ergibt keinen sinn'),
+    phrasePattern('du verstehst nicht', 'offensichtlich', 'selbstverständlich'),
+    phrasePattern('lass mich erklären', 'wie ich schon sagte', 'wie gesagt'),
+  ],
+  inclusive: [
+    phrasePattern('ich denke', 'vielleicht', 'eventuell', 'was wäre wenn', 'hast du schon überlegt'),
+    phrasePattern('das ist interessant', 'guter punkt', 'ich verstehe dich', 'erzähl mehr'),
+    phrasePattern('daran anknüpfend', 'ergänzend', 'ja und'),
+  ],
+  steering: [
+    phrasePattern('lass uns über', 'wir sollten besprechen', 'kommen wir zu', 'was ist mit', 'ich möchte mich konzentrieren auf'),
+    phrasePattern('viel wichtiger', 'das eigentliche problem ist', 'was wir angehen müssen', 'die priorität sollte'),
+    phrasePattern('zurück zu', 'wie ich gerade sagte', 'um auf meinen punkt zurückzukommen'),
+  ],
+  contrast: phrasePattern('aber'),
+  markers: new Set([
+    'der', 'die', 'das', 'und', 'ist', 'nicht', 'ich', 'wir', 'ein', 'eine', 'zu', 'mit', 'auch', 'auf', 'für',
+    'sie', 'es', 'dass', 'wie', 'aber',
+  ]),
+  agreement: phrasePattern(
+    'ich stimme zu', 'einverstanden', 'genau', 'stimmt', 'richtig', 'du hast recht', 'sie haben recht', 'auf jeden fall',
+    'absolut', 'ich auch', 'guter punkt', 'sehe ich auch so'
+  ),
+  disagreement: phrasePattern(
+    'ich stimme nicht zu', 'stimmt nicht', 'nicht richtig', 'falsch', 'du irrst', 'auf keinen fall', 'überhaupt nicht',
+    'im gegenteil', 'sehe ich anders', 'sehe ich nicht so', 'glaube ich nicht'
+  ),
+  fillers: phrasePattern('ä+h+m*', 'e+h*m+', 'h[aä]lt', 'sozusagen', 'quasi', 'irgendwie', 'weißt du'),
+  backchannels: new Set([
+    'ja', 'genau', 'stimmt', 'richtig', 'okay', 'ok', 'klar', 'eben', 'ach so', 'aha', 'echt', 'natürlich', 'jawohl', 'gut', 'sicher',
+  ]),
+  sentiment: {
+    valence: valenceLexicon({
+      '3': ['ausgezeichnet', 'fantastisch', 'wunderbar', 'perfekt', 'toll', 'großartig', 'hervorragend', 'liebe', 'super'],
+      '2': [
+        'gut', 'gute', 'guter', 'gutes', 'guten', 'schön', 'schöne', 'froh', 'glücklich', 'hilfreich', 'nützlich', 'positiv',
+        'danke', 'hoffnung', 'besser', 'beste', 'spaß', 'effektiv', 'vorteil', 'vertrauen', 'stolz',
+      ],
+      '1': ['interessant', 'fair', 'ruhig', 'chance', 'lösung', 'möglich', 'sauber'],
+      '-1': ['problem', 'probleme', 'schwierig', 'sorge', 'sorgen', 'leider', 'langweilig', 'langsam', 'teuer', 'risiko', 'kompliziert', 'konflikt'],
+      '-2': [
+        'schlecht', 'schlechte', 'traurig', 'wütend', 'ärgerlich', 'falsch', 'unfair', 'ungerecht', 'gefährlich', 'angst',
+        'scheitern', 'nutzlos', 'enttäuscht', 'frustrierend', 'stress', 'hässlich', 'schmutzig', 'krise', 'schlimm',
+      ],
+      '-3': ['schrecklich', 'furchtbar', 'hasse', 'katastrophe', 'ekelhaft'],
+    }),
+    negations: new Set(['nicht', 'kein', 'keine', 'keinen', 'keiner', 'keinem', 'nie', 'niemals', 'nichts', 'ohne', 'weder', 'kaum']),
+    intensifiers: new Map([
+      ['sehr', 1.5], ['wirklich', 1.4], ['total', 1.5], ['extrem', 1.8], ['echt', 1.4], ['besonders', 1.4],
+      ['so', 1.3], ['ziemlich', 1.2], ['etwas', 0.7], ['bisschen', 0.6],
+    ]),
+    emotions: emotionLexicon({
+      joy: [
+        'glücklich', 'froh', 'freude', 'freue', 'liebe', 'spaß', 'begeistert', 'wunderbar', 'fantastisch', 'toll', 'lachen',
+        'stolz', 'zufrieden', 'hoffnung', 'schön', 'super',
+      ],
+      anger: [
+        'wütend', 'sauer', 'ärgerlich', 'ärger', 'verärgert', 'nervig', 'frustrierend', 'frustriert', 'hasse', 'unfair',
+        'lächerlich', 'inakzeptabel', 'schuld', 'wut', 'unverschämt',
+      ],
+      fear: [
+        'angst', 'ängstlich', 'besorgt', 'sorge', 'sorgen', 'nervös', 'gefährlich', 'gefahr', 'risiko', 'bedrohung', 'panik',
+        'unsicher', 'stress', 'befürchte',
+      ],
+      sadness: [
+        'traurig', 'trauer', 'enttäuscht', 'enttäuschend', 'enttäuschung', 'einsam', 'leider', 'schade', 'weinen', 'schmerz',
+        'verloren', 'bedauerlich', 'scheitern', 'hoffnungslos',
+      ],
+      surprise: [
+        'überrascht', 'überraschend', 'überraschung', 'unerwartet', 'unglaublich', 'schockiert', 'plötzlich', 'erstaunlich',
+        'erstaunt', 'wow', 'krass',
+      ],
+      trust: [
+        'vertrauen', 'vertraue', 'zuverlässig', 'verlässlich', 'ehrlich', 'unterstützung', 'gemeinsam', 'zusammen', 'respekt',
+        'treu', 'team', 'gemeinschaft',
+      ],
+    }),
+  },
+};
@@ -0,0 +1,91 @@
+import { LanguagePack, beforePause, emotionLexicon, phrasePattern, valenceLexicon } from './types';
+
+export const english: LanguagePack = {
+  language: 'en',
+  version: '1.5.0',
+  dismissive: [
+    phrasePattern('but', 'however', 'actually', 'well actually', 'i disagree', "that's wrong", 'no[,.]', "doesn't make sense"),
+    phrasePattern("you don't understand", 'obviously', 'clearly'),
+    phrasePattern('let me explain', 'as i said', 'like i mentioned'),
+  ],
+  inclusive: [
+    phrasePattern('i think', 'maybe', 'perhaps', 'what if', 'have you considered'),
+    phrasePattern("that's interesting", 'good point', 'i hear you', 'tell me more'),
+    phrasePattern('building on that', 'adding to', 'yes and'),
+  ],
+  steering: [
+    phrasePattern("let's talk about", 'we should discuss', 'moving on to', 'what about', 'i want to focus on'),
+    phrasePattern('more importantly', 'the real issue is', 'what we need to address', 'the priority should be'),
+    phrasePattern('getting back to', 'as i was saying', 'to return to my point'),
+  ],
+  contrast: phrasePattern('but'),
+  markers: new Set([
+    'the', 'and', 'is', 'that', 'to', 'of', 'we', 'you', 'it', 'not', 'this', 'with', 'for', 'are', 'have',
+    'what', 'they', 'be', 'was', 'would',
+  ]),
+  agreement: phrasePattern(
+    'i agree', 'agreed', "that's (?:true|right)", "you're right", 'exactly', 'absolutely', 'good point', 'fair point',
+    'same here', 'me too', 'yes and', 'building on (?:that|what)', 'i think so too'
+  ),
+  disagreement: phrasePattern(
+    'i disagree', "i don't agree", "i don't think so", "that's not (?:true|right|fair)", "that's wrong", "you're wrong",
+    'no way', 'not at all', 'on the contrary', "i'm not sure about that", 'that makes no sense', "that's not how"
+  ),
+  // "kind of" and "sort of" are left out: as hedges they read the same as their literal use
+  fillers: phrasePattern('u+m+', 'u+h+', 'e+r+m*', beforePause('you know'), beforePause('i mean')),
+  backchannels: new Set([
+    'yeah', 'yes', 'yep', 'right', 'okay', 'ok', 'sure', 'true', 'exactly', 'totally', 'uh-huh', 'i see', 'got it', 'wow', 'really',
+  ]),
+  sentiment: {
+    valence: valenceLexicon({
+      '3': ['excellent', 'amazing', 'wonderful', 'fantastic', 'brilliant', 'love', 'loved', 'perfect', 'outstanding', 'awesome', 'inspiring'],
+      '2': [
+        'great', 'good', 'happy', 'glad', 'excited', 'exciting', 'beautiful', 'helpful', 'useful', 'valuable', 'hopeful', 'enjoy',
+        'enjoyed', 'nice', 'positive', 'safe', 'success', 'successful', 'thanks', 'thank', 'appreciate', 'better', 'best', 'fun',
+        'creative', 'effective', 'improve', 'improved', 'benefit', 'healthy', 'welcome', 'trust', 'proud', 'kind', 'hope',
+      ],
+      '1': ['interesting', 'fair', 'easy', 'calm', 'support', 'opportunity', 'solution', 'possible', 'fine', 'clean', 'strong'],
+      '-1': ['problem', 'problems', 'difficult', 'hard', 'concern', 'concerned', 'unfortunately', 'confusing', 'boring', 'slow', 'expensive', 'risk', 'lack', 'conflict'],
+      '-2': [
+        'bad', 'sad', 'angry', 'upset', 'wrong', 'unfair', 'fail', 'failed', 'failure', 'poor', 'dangerous', 'afraid', 'scared',
+        'annoying', 'frustrated', 'frustrating', 'disappointed', 'disappointing', 'waste', 'useless', 'ugly', 'hurt', 'crisis',
+        'broken', 'unsafe', 'dirty', 'lonely', 'stress', 'stressful', 'worried', 'worry',
+      ],
+      '-3': ['terrible', 'awful', 'horrible', 'hate', 'hated', 'disaster', 'disgusting', 'worst', 'stupid'],
+    }),
+    negations: new Set([
+      'not', 'no', 'never', 'nothing', 'nobody', 'neither', 'nor', 'without', 'hardly', 'barely', 'cannot',
+      "don't", "doesn't", "didn't", "isn't", "aren't", "wasn't", "weren't", "can't", "couldn't", "won't", "wouldn't", "shouldn't",
+    ]),
+    intensifiers: new Map([
+      ['very', 1.5], ['really', 1.4], ['extremely', 1.8], ['incredibly', 1.8], ['totally', 1.5], ['absolutely', 1.6],
+      ['super', 1.5], ['so', 1.3], ['quite', 1.2], ['slightly', 0.5], ['somewhat', 0.6], ['bit', 0.6],
+    ]),
+    emotions: emotionLexicon({
+      joy: [
+        'happy', 'glad', 'joy', 'love', 'loved', 'enjoy', 'enjoyed', 'fun', 'excited', 'exciting', 'wonderful', 'delighted',
+        'great', 'amazing', 'fantastic', 'celebrate', 'laugh', 'proud', 'pleased', 'hopeful', 'hope', 'inspiring',
+      ],
+      anger: [
+        'angry', 'mad', 'furious', 'annoyed', 'annoying', 'frustrated', 'frustrating', 'outrageous', 'hate', 'hated', 'unfair',
+        'ridiculous', 'irritating', 'blame', 'unacceptable', 'rage', 'disgusting', 'stupid',
+      ],
+      fear: [
+        'afraid', 'scared', 'fear', 'worried', 'worry', 'anxious', 'nervous', 'dangerous', 'risk', 'risky', 'threat', 'panic',
+        'terrified', 'unsafe', 'uncertain', 'concern', 'concerned', 'stress', 'stressful',
+      ],
+      sadness: [
+        'sad', 'unhappy', 'disappointed', 'disappointing', 'lonely', 'lost', 'miss', 'missed', 'sorry', 'hurt', 'depressing',
+        'depressed', 'unfortunately', 'regret', 'cry', 'grief', 'hopeless', 'tragic', 'failure',
+      ],
+      surprise: [
+        'surprised', 'surprising', 'surprise', 'amazed', 'unexpected', 'unexpectedly', 'shocked', 'shocking', 'wow', 'suddenly',
+        'astonishing', 'incredible', 'unbelievable',
+      ],
+      trust: [
+        'trust', 'reliable', 'honest', 'safe', 'support', 'supportive', 'together', 'respect', 'confident', 'confidence',
+        'depend', 'loyal', 'fair', 'team', 'community',
+      ],
+    }),
+  },
+};
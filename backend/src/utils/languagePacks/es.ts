@@ -0,0 +1,86 @@
+import { LanguagePack, beforePause, emotionLexicon, phrasePattern, valenceLexicon } from './types';
+
+export const spanish: LanguagePack = {
+  language: 'es',
+  version: '1.5.0',
+  dismissive: [
+    phrasePattern('pero', 'sin embargo', 'en realidad', 'no estoy de acuerdo', 'eso está mal', 'no[,.]', 'no tiene sentido'),
+    phrasePattern('no entiendes', 'obviamente', 'claramente'),
+    phrasePattern('déjame explicar', 'como dije', 'como mencioné'),
+  ],
+  inclusive: [
+    phrasePattern('creo que', 'quizás', 'tal vez', 'y si', 'has considerado'),
+    phrasePattern('qué interesante', 'buen punto', 'te escucho', 'cuéntame más'),
+    phrasePattern('sumando a eso', 'además de lo que', 'sí y'),
+  ],
+  steering: [
+    phrasePattern('hablemos de', 'deberíamos discutir', 'pasando a', 'qué tal si', 'quiero centrarme en'),
+    phrasePattern('más importante', 'el verdadero problema es', 'lo que tenemos que abordar', 'la prioridad debería ser'),
+    phrasePattern('volviendo a', 'como estaba diciendo', 'para volver a mi punto'),
+  ],
+  contrast: phrasePattern('pero'),
+  markers: new Set([
+    'el', 'los', 'las', 'que', 'de', 'y', 'es', 'por', 'para', 'una', 'con', 'pero', 'como', 'más', 'muy',
+    'también', 'porque', 'esto', 'está', 'se',
+  ]),
+  agreement: phrasePattern(
+    'estoy de acuerdo', 'de acuerdo', 'exacto', 'exactamente', 'tienes razón', 'tiene razón', 'claro que sí', 'totalmente',
+    'yo también', 'buen punto', 'es verdad', 'así es'
+  ),
+  disagreement: phrasePattern(
+    'no estoy de acuerdo', 'no es verdad', 'no es así', 'no tienes razón', 'estás equivocad[oa]', 'para nada',
+    'al contrario', 'no creo', 'en absoluto'
+  ),
+  // "este" and "pues" only as hesitations; drawn out ("esteee") or followed by a pause
+  fillers: phrasePattern('e+h*m+', 'e+h+', 'estee+', beforePause('este'), beforePause('pues'), 'o sea', 'digamos', 'es decir'),
+  backchannels: new Set([
+    'sí', 'si', 'claro', 'vale', 'exacto', 'ya', 'vale vale', 'cierto', 'ok', 'okay', 'bueno', 'verdad', 'ajá', 'en serio', 'qué bien',
+  ]),
+  sentiment: {
+    valence: valenceLexicon({
+      '3': ['excelente', 'fantástico', 'fantástica', 'maravilloso', 'maravillosa', 'perfecto', 'perfecta', 'encanta', 'increíble', 'genial'],
+      '2': [
+        'bueno', 'buena', 'bien', 'feliz', 'contento', 'contenta', 'útil', 'positivo', 'positiva', 'gracias', 'esperanza', 'mejor',
+        'gusta', 'divertido', 'divertida', 'eficaz', 'ventaja', 'confianza', 'bonito', 'bonita', 'orgulloso', 'orgullosa',
+      ],
+      '1': ['interesante', 'justo', 'justa', 'fácil', 'tranquilo', 'oportunidad', 'solución', 'posible', 'limpio'],
+      '-1': ['problema', 'problemas', 'difícil', 'preocupado', 'preocupada', 'desafortunadamente', 'aburrido', 'lento', 'caro', 'riesgo', 'complicado', 'conflicto'],
+      '-2': [
+        'mal', 'malo', 'mala', 'triste', 'enfadado', 'enfadada', 'enojado', 'enojada', 'equivocado', 'injusto', 'injusta',
+        'peligroso', 'peligrosa', 'miedo', 'fracaso', 'inútil', 'decepcionado', 'decepcionada', 'frustrante', 'estrés', 'feo', 'fea', 'sucio', 'crisis',
+      ],
+      '-3': ['terrible', 'horrible', 'odio', 'desastre', 'pésimo', 'pésima', 'asco'],
+    }),
+    negations: new Set(['no', 'nunca', 'jamás', 'nada', 'nadie', 'ni', 'sin', 'tampoco', 'ninguno', 'ninguna']),
+    intensifiers: new Map([
+      ['muy', 1.5], ['mucho', 1.4], ['muchísimo', 1.8], ['demasiado', 1.4], ['realmente', 1.4], ['súper', 1.5],
+      ['super', 1.5], ['tan', 1.3], ['bastante', 1.2], ['algo', 0.7], ['poco', 0.5],
+    ]),
+    emotions: emotionLexicon({
+      joy: [
+        'feliz', 'contento', 'contenta', 'alegría', 'alegre', 'encanta', 'divertido', 'divertida', 'emocionado', 'emocionada',
+        'maravilloso', 'maravillosa', 'fantástico', 'fantástica', 'reír', 'orgulloso', 'orgullosa', 'esperanza', 'genial',
+      ],
+      anger: [
+        'enfadado', 'enfadada', 'enojado', 'enojada', 'furioso', 'furiosa', 'rabia', 'molesto', 'molesta', 'frustrante', 'odio',
+        'injusto', 'injusta', 'ridículo', 'ridícula', 'inaceptable', 'culpa', 'harto', 'harta', 'asco',
+      ],
+      fear: [
+        'miedo', 'asustado', 'asustada', 'preocupado', 'preocupada', 'preocupación', 'ansiedad', 'nervioso', 'nerviosa',
+        'peligroso', 'peligrosa', 'riesgo', 'amenaza', 'pánico', 'incierto', 'incierta', 'estrés',
+      ],
+      sadness: [
+        'triste', 'tristeza', 'decepcionado', 'decepcionada', 'decepción', 'soledad', 'lamento', 'desgraciadamente',
+        'lástima', 'llorar', 'dolor', 'perdido', 'perdida', 'fracaso',
+      ],
+      surprise: [
+        'sorprendido', 'sorprendida', 'sorpresa', 'sorprendente', 'inesperado', 'inesperada', 'increíble', 'impactante',
+        'repente', 'asombroso', 'asombrosa', 'guau',
+      ],
+      trust: [
+        'confianza', 'confiar', 'confío', 'fiable', 'honesto', 'honesta', 'apoyo', 'juntos', 'juntas',
+        'respeto', 'leal', 'equipo', 'comunidad',
+      ],
+    }),
+  },
+};
@@ -0,0 +1,80 @@
+import { LanguageCode, LanguagePack } from './types';
+import { english } from './en';
+import { italian } from './it';
+import { spanish } from './es';
+import { german } from './de';
+
+export * from './types';
+
+export const LANGUAGE_PACKS: Record<LanguageCode, LanguagePack> = {
+  en: english,
+  it: italian,
+  es: spanish,
+  de: german,
+};
+
+// Below this many words a segment is too short to tell its language
+const MIN_DETECTION_WORDS = 5;
+// Share of a segment's words that must be markers of the winning language
+const MIN_MARKER_SHARE = 0.15;
+// The winner must have this many times the marker hits of the runner-up
+const MIN_MARGIN = 1.5;
+
+// Backchannels from every pack: a one- or two-word reply is too short to tell its language
+const BACKCHANNELS = new Set(Object.values(LANGUAGE_PACKS).flatMap(pack => [...pack.backchannels]));
+// Hums shared by every language: "mm", "mhm", "mm-hmm", "hmm", "uh-huh", "ah", "oh"
+const HUM = /^(?:m+h?m*|m+-h+m+|h+m+|uh-?huh|a+h*|o+h+)$/u;
+
+/**
+ * Whether an utterance is only a listener's backchannel, such as "mm-hmm",
+ * "yeah yeah" or "ach so", in any of the packs' languages
+ */
+export function isBackchannel(text: string): boolean {
+  const words = text.toLowerCase().match(/[\p{L}'-]+/gu) || [];
+  if (words.length === 0) return false;
+  if (BACKCHANNELS.has(words.join(' '))) return true;
+  return words.every(word => BACKCHANNELS.has(word) || HUM.test(word));
+}
+
+/**
+ * Pack for a language tag such as "it", "it-IT" or "de_CH", if there is one
+ */
+export function getLanguagePack(tag: string | null | undefined): LanguagePack | undefined {
+  if (!tag) return undefined;
+  const code = tag.toLowerCase().split(/[-_]/)[0];
+  return LANGUAGE_PACKS[code as LanguageCode];
+}
+
+/**
+ * Guess a text's language from its function words. Works offline and only
+ * answers when one pack clearly wins, so short or mixed text returns undefined.
+ */
+export function detectLanguage(text: string): { language: LanguageCode; confidence: number } | undefined {
+  const words = text.toLowerCase().match(/[\p{L}']+/gu) || [];
+  if (words.length < MIN_DETECTION_WORDS) return undefined;
+
+  const scores = Object.values(LANGUAGE_PACKS)
+    .map(pack => ({ language: pack.language, hits: words.filter(word => pack.markers.has(word)).length }))
+    .sort((a, b) => b.hits - a.hits);
+
+  const [best, runnerUp] = scores;
+  if (best.hits / words.length < MIN_MARKER_SHARE) return undefined;
+  if (runnerUp && best.hits < runnerUp.hits * MIN_MARGIN) return undefined;
+
+  return { language: best.language, confidence: Math.round((best.hits / words.length) * 100) / 100 };
+}
+
+/**
+ * Pack for one segment: its detected language first (tables can switch language),
+ * then the transcript's and the session's declared languages
+ */
+export function resolveLanguagePack(text: string, ...fallbackTags: (string | null | undefined)[]): LanguagePack | undefined {
+  const detected = detectLanguage(text);
+  if (detected) return LANGUAGE_PACKS[detected.language];
+
+  for (const tag of fallbackTags) {
+    const pack = getLanguagePack(tag);
+    if (pack) return pack;
+  }
+  return undefined;
+}
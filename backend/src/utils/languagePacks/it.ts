@@ -0,0 +1,85 @@
+import { LanguagePack, emotionLexicon, phrasePattern, valenceLexicon } from './types';
+
+export const italian: LanguagePack = {
+  language: 'it',
+  version: '1.4.0',
+  dismissive: [
+    phrasePattern('ma', 'però', 'invece', 'in realtà', "non sono d'accordo", 'è sbagliato', 'no[,.]', 'non ha senso'),
+    phrasePattern('non capisci', 'ovviamente', 'chiaramente'),
+    phrasePattern('lascia che ti spieghi', 'come ho detto', 'come dicevo'),
+  ],
+  inclusive: [
+    phrasePattern('penso che', 'secondo me', 'forse', 'magari', 'e se', 'hai considerato'),
+    phrasePattern('interessante', 'buon punto', 'ti ascolto', 'dimmi di più', 'raccontami'),
+    phrasePattern('partendo da questo', 'aggiungo', 'sì e'),
+  ],
+  steering: [
+    phrasePattern('parliamo di', 'dovremmo discutere', 'passiamo a', 'e invece', 'voglio concentrarmi su'),
+    phrasePattern('più importante', 'il vero problema è', 'quello che dobbiamo affrontare', 'la priorità dovrebbe essere'),
+    phrasePattern('tornando a', 'come stavo dicendo', 'per tornare al mio punto'),
+  ],
+  contrast: phrasePattern('ma', 'però'),
+  markers: new Set([
+    'il', 'lo', 'la', 'gli', 'che', 'di', 'non', 'sono', 'è', 'per', 'una', 'con', 'anche', 'perché', 'questo',
+    'molto', 'più', 'della', 'del', 'ci',
+  ]),
+  agreement: phrasePattern(
+    "sono d'accordo", "d'accordo", 'esatto', 'esattamente', 'hai ragione', 'ha ragione', 'giusto', 'assolutamente',
+    'anche io', "anch'io", 'buon punto', 'è vero'
+  ),
+  disagreement: phrasePattern(
+    "non sono d'accordo", 'non è vero', 'non è così', 'non hai ragione', 'hai torto', 'sbagliato', 'per niente',
+    'al contrario', 'non credo', 'non penso', 'macché'
+  ),
+  fillers: phrasePattern('e+h*m+', 'e+h+', 'cioè', 'tipo', 'diciamo', 'insomma', 'praticamente'),
+  backchannels: new Set([
+    'sì', 'si', 'certo', 'esatto', 'giusto', 'vero', 'ok', 'okay', 'già', 'appunto', 'infatti', 'ah', 'capito', 'bene', 'davvero',
+  ]),
+  sentiment: {
+    valence: valenceLexicon({
+      '3': ['eccellente', 'fantastico', 'fantastica', 'meraviglioso', 'meravigliosa', 'perfetto', 'perfetta', 'adoro', 'ottimo', 'ottima', 'stupendo', 'bellissimo', 'bellissima'],
+      '2': [
+        'buono', 'buona', 'bene', 'bello', 'bella', 'felice', 'contento', 'contenta', 'utile', 'positivo', 'positiva', 'grazie',
+        'speranza', 'migliore', 'meglio', 'piace', 'divertente', 'efficace', 'vantaggio', 'fiducia', 'orgoglioso', 'orgogliosa',
+      ],
+      '1': ['interessante', 'giusto', 'giusta', 'facile', 'tranquillo', 'opportunità', 'soluzione', 'possibile', 'pulito'],
+      '-1': ['problema', 'problemi', 'difficile', 'preoccupato', 'preoccupata', 'purtroppo', 'noioso', 'lento', 'costoso', 'rischio', 'complicato', 'conflitto'],
+      '-2': [
+        'male', 'cattivo', 'cattiva', 'triste', 'arrabbiato', 'arrabbiata', 'sbagliato', 'sbagliata', 'ingiusto', 'ingiusta',
+        'pericoloso', 'pericolosa', 'paura', 'fallimento', 'inutile', 'deluso', 'delusa', 'frustrante', 'stress', 'brutto', 'brutta', 'sporco', 'crisi',
+      ],
+      '-3': ['terribile', 'orribile', 'odio', 'disastro', 'pessimo', 'pessima', 'schifo'],
+    }),
+    negations: new Set(['non', 'mai', 'niente', 'nulla', 'nessuno', 'nessuna', 'né', 'senza', 'neanche', 'nemmeno', 'neppure']),
+    intensifiers: new Map([
+      ['molto', 1.5], ['tanto', 1.4], ['troppo', 1.4], ['davvero', 1.4], ['veramente', 1.4], ['estremamente', 1.8],
+      ['super', 1.5], ['proprio', 1.3], ['abbastanza', 0.8], ["po'", 0.6], ['poco', 0.5],
+    ]),
+    emotions: emotionLexicon({
+      joy: [
+        'felice', 'contento', 'contenta', 'gioia', 'adoro', 'divertente', 'entusiasta', 'meraviglioso', 'meravigliosa', 'fantastico',
+        'fantastica', 'ridere', 'orgoglioso', 'orgogliosa', 'soddisfatto', 'soddisfatta', 'speranza', 'bellissimo', 'bellissima',
+      ],
+      anger: [
+        'arrabbiato', 'arrabbiata', 'furioso', 'furiosa', 'rabbia', 'fastidio', 'irritante', 'frustrante', 'odio', 'ingiusto',
+        'ingiusta', 'ridicolo', 'ridicola', 'inaccettabile', 'colpa', 'stufo', 'stufa', 'schifo',
+      ],
+      fear: [
+        'paura', 'spaventato', 'spaventata', 'preoccupato', 'preoccupata', 'preoccupazione', 'ansia', 'ansioso', 'ansiosa',
+        'pericoloso', 'pericolosa', 'rischio', 'minaccia', 'panico', 'incerto', 'incerta', 'stress',
+      ],
+      sadness: [
+        'triste', 'tristezza', 'deluso', 'delusa', 'delusione', 'solitudine', 'dispiace', 'purtroppo', 'peccato',
+        'piangere', 'dolore', 'perso', 'persa', 'fallimento', 'rimpianto',
+      ],
+      surprise: [
+        'sorpreso', 'sorpresa', 'sorprendente', 'inaspettato', 'inaspettata', 'incredibile', 'scioccante', 'improvvisamente',
+        'stupito', 'stupita', 'wow', 'accidenti',
+      ],
+      trust: [
+        'fiducia', 'fidarsi', 'affidabile', 'onesto', 'onesta', 'sostegno', 'supporto', 'insieme',
+        'rispetto', 'leale', 'squadra', 'comunità',
+      ],
+    }),
+  },
+};
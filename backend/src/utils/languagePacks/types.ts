@@ -0,0 +1,71 @@
+import { Emotion } from '@/types';
+
+// Languages with a pattern pack; session and transcript tags such as "it-IT" map onto these
+export type LanguageCode = 'en' | 'it' | 'es' | 'de';
+
+/**
+ * Phrases the pattern-based bias and polarization detectors look for in one language,
+ * and the lexicons sentiment and emotions are scored with.
+ * Bump the version whenever patterns change, so stored detections can be traced
+ * back to the patterns that produced them.
+ */
+export interface LanguagePack {
+  language: LanguageCode;
+  version: string;
+  dismissive: RegExp[];
+  inclusive: RegExp[];
+  steering: RegExp[];
+  contrast: RegExp; // "but" and its equivalents, for spotting changes of direction
+  markers: Set<string>; // Frequent function words, for detecting the language locally
+  agreement: RegExp; // "I agree", "hai ragione", for how a turn answers the one before
+  disagreement: RegExp; // "I disagree", "no estoy de acuerdo"; matched first, since it often contains agreement
+  fillers: RegExp; // Hesitations and verbal fillers ("um", "cioè", "halt")
+  backchannels: Set<string>; // Short listener responses ("yeah", "genau") that do not take the floor
+  sentiment: SentimentLexicon;
+}
+
+// Word valences and emotions for scoring sentiment locally
+export interface SentimentLexicon {
+  valence: Map<string, number>; // -3 (very negative) to 3 (very positive), by lowercase word form
+  negations: Set<string>; // Words that flip what follows them ("not", "nessuno", "nicht")
+  intensifiers: Map<string, number>; // Multipliers for the next sentiment word: "very" above 1, "slightly" below
+  emotions: Map<string, Emotion[]>; // The emotions each word expresses, by lowercase word form
+}
+
+/**
+ * Case-insensitive pattern matching any of the alternatives as whole words.
+ * Alternatives are regex fragments; boundaries are Unicode-aware, unlike \b,
+ * so accented words such as "però" or "natürlich" match too.
+ */
+export function phrasePattern(...alternatives: string[]): RegExp {
+  return new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives.join('|')})(?![\\p{L}\\p{N}])`, 'giu');
+}
+
+/**
+ * Regex fragment for a phrase that only counts when a pause follows it, written as a
+ * comma, semicolon, ellipsis or dash: fillers such as "you know" or "este" that are
+ * ordinary words elsewhere ("it's, you know, hard" but not "you know the answer")
+ */
+export function beforePause(phrase: string): string {
+  return `${phrase}(?=\\s*(?:[,;…–—]|\\.\\.\\.)|\\s+-)`;
+}
+
+/**
+ * Word valences from lists of words grouped by valence
+ */
+export function valenceLexicon(groups: Record<string, string[]>): Map<string, number> {
+  return new Map(Object.entries(groups).flatMap(([valence, words]) => words.map(word => [word, Number(valence)] as [string, number])));
+}
+
+/**
+ * Word emotions from lists of words grouped by emotion; a word may express more than one
+ */
+export function emotionLexicon(groups: Record<Emotion, string[]>): Map<string, Emotion[]> {
+  const lexicon = new Map<string, Emotion[]>();
+  for (const [emotion, words] of Object.entries(groups) as [Emotion, string[]][]) {
+    for (const word of words) {
+      lexicon.set(word, [...(lexicon.get(word) || []), emotion]);
+    }
+  }
+  return lexicon;
+}
@@ -1,5 +1,16 @@
 import { WorldCafeTranscription, SpeakerSegment } from '@/types';
 
+// Stored on analyses computed from this sample data so they are never mistaken for real results
+export const DEMO_DATA_WARNING = 'Computed on built-in demo transcriptions (DEMO_MODE), not session data';
+
+/**
+ * Demo mode lets analysis fall back to the sample conversation below when a
+ * session has no transcriptions. Off unless DEMO_MODE=true.
+ */
+export function isDemoMode(): boolean {
+  return process.env.DEMO_MODE === 'true';
+}
+
 /**
  * Generate mock transcription data for testing the analysis engine
  * This simulates realistic World Café conversation patterns
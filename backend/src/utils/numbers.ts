@@ -0,0 +1,22 @@
+/**
+ * A numeric setting from the environment, or the fallback when it is unset or not a number
+ */
+export function envNumber(name: string, fallback: number): number {
+  const value = parseFloat(process.env[name] || '');
+  return isNaN(value) ? fallback : value;
+}
+
+/**
+ * As envNumber, for whole-number settings such as counts and milliseconds
+ */
+export function envInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return isNaN(value) ? fallback : value;
+}
+
+/**
+ * Round to two decimal places, the precision metrics are reported and stored at
+ */
+export function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,164 @@
+import { PolarizationMeasurement, PredictionFeatures } from '@/types';
+import { PredictionInputs, predictOutcome, scoreOutcome } from './outcomePrediction';
+
+const unmeasured: PredictionFeatures = {
+  balanceScore: null,
+  giniCoefficient: null,
+  quietShare: null,
+  hostileInterruptionRate: null,
+  cooperativeOverlapShare: null,
+  polarizationIndex: null,
+  polarizationTrend: null,
+  peakPolarization: null,
+  sentimentAverage: null,
+  sentimentShift: null,
+  talkMinutes: 0,
+};
+
+const noInputs: PredictionInputs = {
+  rollup: [],
+  equity: [],
+  polarization: { session: null, tables: [], timeline: [] },
+  sentiment: [],
+};
+
+function measurement(tableId: number, windowEnd: number, index: number, interventionSuggested: boolean): PolarizationMeasurement {
+  return {
+    tableId,
+    windowStart: windowEnd - 60,
+    windowEnd,
+    measuredAt: new Date(windowEnd * 1000).toISOString(),
+    index,
+    trend: 'increasing',
+    velocity: 0,
+    echoChambersDetected: false,
+    opposingGroups: [],
+    bridgeBuilders: [],
+    interventionSuggested,
+    disagreementShare: 0,
+    stanceDivergence: 0,
+    topicContention: 0,
+  };
+}
+
+describe('scoreOutcome', () => {
+  it('scores the actual outcome 1', () => {
+    expect(scoreOutcome('conflicted', 'conflicted')).toBe(1);
+  });
+
+  it('scores the other outcome on the same side 0.5', () => {
+    expect(scoreOutcome('productive', 'breakthrough')).toBe(0.5);
+    expect(scoreOutcome('stagnant', 'conflicted')).toBe(0.5);
+  });
+
+  it('scores an outcome on the other side 0', () => {
+    expect(scoreOutcome('productive', 'conflicted')).toBe(0);
+    expect(scoreOutcome('stagnant', 'breakthrough')).toBe(0);
+  });
+});
+
+describe('predictOutcome', () => {
+  it('predicts a balanced, cooperative and positive session productive', () => {
+    const prediction = predictOutcome({
+      ...unmeasured,
+      balanceScore: 0.9,
+      cooperativeOverlapShare: 0.9,
+      hostileInterruptionRate: 0,
+      polarizationIndex: 10,
+      polarizationTrend: 'stable',
+      peakPolarization: 15,
+      sentimentAverage: 0.3,
+      sentimentShift: 0,
+    }, noInputs);
+
+    expect(prediction.outcomeCategory).toBe('productive');
+    expect(prediction.riskFactors).toEqual([]);
+    expect(prediction.successFactors.map(success => success.factor)).toEqual(
+      expect.arrayContaining(['balanced_participation', 'cooperative_turn_taking', 'low_polarization', 'positive_mood'])
+    );
+  });
+
+  it('predicts a polarized, hostile and negative session conflicted, with tips for its risks', () => {
+    const prediction = predictOutcome({
+      ...unmeasured,
+      balanceScore: 0.5,
+      cooperativeOverlapShare: 0.3,
+      hostileInterruptionRate: 1.5,
+      polarizationIndex: 80,
+      polarizationTrend: 'increasing',
+      peakPolarization: 80,
+      sentimentAverage: -0.3,
+      sentimentShift: -0.2,
+    }, noInputs);
+
+    expect(prediction.outcomeCategory).toBe('conflicted');
+    expect(prediction.riskFactors.map(risk => risk.factor).sort()).toEqual(
+      ['hostile_interruptions', 'negative_mood', 'polarization', 'unequal_participation']
+    );
+    // Most pressing first
+    const pressure = prediction.riskFactors.map(risk => risk.severity * risk.likelihood);
+    expect(pressure).toEqual([...pressure].sort((a, b) => b - a));
+    expect(prediction.facilitatorTips).toHaveLength(prediction.riskFactors.length);
+  });
+
+  it('predicts a session whose polarization eased and mood rose a breakthrough', () => {
+    const prediction = predictOutcome({
+      ...unmeasured,
+      balanceScore: 0.7,
+      cooperativeOverlapShare: 0.6,
+      hostileInterruptionRate: 0.2,
+      polarizationIndex: 20,
+      polarizationTrend: 'decreasing',
+      peakPolarization: 80,
+      sentimentAverage: 0.2,
+      sentimentShift: 0.3,
+    }, noInputs);
+
+    expect(prediction.outcomeCategory).toBe('breakthrough');
+    expect(prediction.successFactors.map(success => success.factor)).toEqual(expect.arrayContaining(['depolarizing', 'improving_mood']));
+  });
+
+  it('has no confidence when nothing could be measured', () => {
+    const prediction = predictOutcome(unmeasured, noInputs);
+    expect(prediction.confidenceScore).toBe(0);
+  });
+
+  it('is less confident for each kind of feature that could not be measured', () => {
+    const features: PredictionFeatures = {
+      ...unmeasured,
+      balanceScore: 0.9,
+      cooperativeOverlapShare: 0.9,
+      hostileInterruptionRate: 0,
+      polarizationIndex: 10,
+      sentimentAverage: 0.3,
+    };
+    const full = predictOutcome(features, noInputs).confidenceScore;
+    const withoutSentiment = predictOutcome({ ...features, sentimentAverage: null }, noInputs).confidenceScore;
+
+    expect(full).toBeGreaterThan(0);
+    expect(withoutSentiment).toBeLessThan(full);
+  });
+
+  it('suggests stepping in at the first window of each run that asked for it, per table', () => {
+    const prediction = predictOutcome(unmeasured, {
+      ...noInputs,
+      polarization: {
+        session: null,
+        tables: [],
+        timeline: [
+          measurement(1, 60, 70, true),
+          measurement(1, 120, 75, true),
+          measurement(2, 120, 60, true),
+          measurement(1, 180, 20, false),
+          measurement(1, 240, 65, true),
+        ],
+      },
+    });
+
+    expect(prediction.interventionTimings.map(timing => [timing.tableId, timing.recommendedTime])).toEqual([
+      [1, 60],
+      [2, 120],
+      [1, 240],
+    ]);
+  });
+});
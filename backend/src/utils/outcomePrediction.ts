@@ -0,0 +1,339 @@
+import {
+  OutcomeCategory,
+  ParticipationEquity,
+  PolarizationAnalysis,
+  PredictionFeatures,
+  SessionPrediction,
+  SpeakingTimeRollup,
+  TableSentiment
+} from '@/types';
+import { sumInterruptionTallies } from './interruptions';
+import { sentimentShift } from './sentiment';
+import { round2 } from './numbers';
+
+export const OUTCOME_CATEGORIES: OutcomeCategory[] = ['productive', 'conflicted', 'stagnant', 'breakthrough'];
+
+// Stored with every prediction; bump it whenever the rules or thresholds below
+// change, so accuracy is measured per version
+export const PREDICTOR_VERSION = 'heuristic-1.0.0';
+
+// What the predictor reads from a complete analysis
+export interface PredictionInputs {
+  rollup: SpeakingTimeRollup[];
+  equity: ParticipationEquity[];
+  polarization: PolarizationAnalysis;
+  sentiment: TableSentiment[];
+}
+
+// Competitive interruptions and takeovers per minute of talk that count as a fully hostile table
+const HOSTILE_RATE_HIGH = 1;
+// Mood, on the -1 to 1 scale, that counts as fully positive or negative, and change in it as a full swing
+const MOOD_FULL = 0.3;
+// Below this balance score participation is a risk, at or above the second a strength
+const BALANCE_LOW = 0.6;
+const BALANCE_GOOD = 0.75;
+// Polarization index from which it is a risk, and below which a strength
+const POLARIZATION_HIGH = 50;
+const POLARIZATION_LOW = 30;
+// Smoothed table mood that calls for a check-in when a table falls to it
+const MOOD_DIP = -0.3;
+// Most interventions suggested, the most pressing kept
+const MAX_INTERVENTIONS = 10;
+
+const TIPS: Record<string, string> = {
+  unequal_participation: 'Use a talking piece or go round the table so that every voice is heard.',
+  silent_participants: 'Invite quieter participants in by name, or give a minute of silent writing before discussing.',
+  hostile_interruptions: 'Agree on letting each speaker finish, and step in when someone is cut off.',
+  polarization: 'Ask each side to restate the other\'s view before answering it, and look for shared goals.',
+  negative_mood: 'Acknowledge frustrations openly, then steer towards what participants can change.',
+};
+
+/**
+ * The features a prediction is made from, from a complete analysis. Features
+ * that could not be measured (no overlaps, no scored turns) are null.
+ */
+export function extractPredictionFeatures(inputs: PredictionInputs): PredictionFeatures {
+  const session = inputs.equity.find(entry => entry.scope === 'session');
+
+  const talkMinutes = inputs.rollup.reduce((sum, speaker) => sum + speaker.totalSeconds, 0) / 60;
+  const tally = sumInterruptionTallies(inputs.rollup.map(speaker => speaker.interruptionsByKind));
+  const overlaps = tally.backchannel.given + tally.cooperative.given + tally.competitive.given + tally.takeover.given;
+
+  const sessionTimeline = inputs.polarization.timeline.filter(entry => entry.tableId === undefined);
+  const latest = inputs.polarization.session;
+
+  const scored = inputs.sentiment.filter(table => table.segments.length > 0);
+  const scoredTurns = scored.reduce((sum, table) => sum + table.segments.length, 0);
+  const moving = scored.filter(table => table.timeline.length >= 3);
+
+  return {
+    balanceScore: session?.balanceScore ?? null,
+    giniCoefficient: session?.giniCoefficient ?? null,
+    quietShare: session?.quietShare ?? null,
+    hostileInterruptionRate: talkMinutes > 0
+      ? round2((tally.competitive.given + tally.takeover.given) / talkMinutes)
+      : null,
+    cooperativeOverlapShare: overlaps > 0
+      ? round2((tally.backchannel.given + tally.cooperative.given) / overlaps)
+      : null,
+    polarizationIndex: latest?.index ?? null,
+    polarizationTrend: latest?.trend ?? null,
+    peakPolarization: sessionTimeline.length > 0 ? Math.max(...sessionTimeline.map(entry => entry.index)) : null,
+    sentimentAverage: scoredTurns > 0
+      ? round2(scored.reduce((sum, table) => sum + table.average * table.segments.length, 0) / scoredTurns)
+      : null,
+    sentimentShift: moving.length > 0
+      ? round2(moving.reduce((sum, table) => sum + sentimentShift(table.timeline), 0) / moving.length)
+      : null,
+    talkMinutes: round2(talkMinutes),
+  };
+}
+
+/**
+ * Predict how a session will turn out from its features, with every step open to
+ * inspection: each outcome gets a score from a fixed weighting of the evidence for
+ * it, the highest wins, and confidence is its share of all the scores, scaled down
+ * for each kind of feature (equity, interruptions, polarization, sentiment) that
+ * could not be measured. Risk likelihood is how likely it is to keep weighing on
+ * the session, higher when the evidence is trending the wrong way.
+ */
+export function predictOutcome(features: PredictionFeatures, inputs: PredictionInputs): SessionPrediction {
+  const polarization = features.polarizationIndex !== null ? features.polarizationIndex / 100 : 0;
+  const hostile = features.hostileInterruptionRate !== null ? clamp01(features.hostileInterruptionRate / HOSTILE_RATE_HIGH) : 0;
+  const mood = features.sentimentAverage ?? 0;
+  const shift = features.sentimentShift ?? 0;
+  const positivity = clamp01(mood / MOOD_FULL);
+  const negativity = clamp01(-mood / MOOD_FULL);
+  const improvement = clamp01(shift / MOOD_FULL);
+  const flatness = 1 - clamp01(Math.abs(shift) / MOOD_FULL);
+  const neutrality = 1 - clamp01(Math.abs(mood) / MOOD_FULL);
+  const balance = features.balanceScore ?? 0;
+  const cooperation = features.cooperativeOverlapShare ?? 0;
+  // How far polarization has come down from its peak, once it was high enough to matter
+  const depolarizing = features.peakPolarization !== null && features.polarizationIndex !== null && features.peakPolarization >= POLARIZATION_LOW
+    ? clamp01((features.peakPolarization - features.polarizationIndex) / features.peakPolarization)
+    : 0;
+
+  const categoryScores: Record<OutcomeCategory, number> = {
+    productive: round2(0.4 * balance + 0.3 * cooperation + 0.3 * positivity),
+    conflicted: round2(0.45 * polarization + 0.3 * hostile + 0.25 * negativity),
+    stagnant: round2((1 - polarization) * (0.35 * flatness + 0.35 * neutrality + 0.3 * (features.quietShare ?? 0))),
+    breakthrough: round2(0.5 * improvement + 0.3 * depolarizing + 0.2 * positivity),
+  };
+  const outcomeCategory = OUTCOME_CATEGORIES.reduce((best, category) => categoryScores[category] > categoryScores[best] ? category : best);
+  const total = OUTCOME_CATEGORIES.reduce((sum, category) => sum + categoryScores[category], 0);
+
+  const coverage = [
+    features.balanceScore !== null,
+    features.hostileInterruptionRate !== null && features.cooperativeOverlapShare !== null,
+    features.polarizationIndex !== null,
+    features.sentimentAverage !== null,
+  ].filter(Boolean).length / 4;
+
+  const riskFactors = risks(features);
+  return {
+    outcomeCategory,
+    confidenceScore: total > 0 ? round2(categoryScores[outcomeCategory] / total * coverage) : 0,
+    categoryScores,
+    riskFactors,
+    successFactors: successes(features, { positivity, improvement, depolarizing }),
+    interventionTimings: interventions(inputs),
+    facilitatorTips: riskFactors.map(risk => TIPS[risk.factor]).filter(Boolean),
+    participantInsights: participantInsights(inputs.rollup),
+  };
+}
+
+/**
+ * How right a prediction was: 1 for the actual outcome, half for the other outcome
+ * on the same side (productive and breakthrough, or conflicted and stagnant), 0 otherwise
+ */
+export function scoreOutcome(predicted: OutcomeCategory, actual: OutcomeCategory): number {
+  if (predicted === actual) return 1;
+  const positive = (category: OutcomeCategory) => category === 'productive' || category === 'breakthrough';
+  return positive(predicted) === positive(actual) ? 0.5 : 0;
+}
+
+function risks(features: PredictionFeatures): SessionPrediction['riskFactors'] {
+  const riskFactors: SessionPrediction['riskFactors'] = [];
+
+  if (features.balanceScore !== null && features.balanceScore < BALANCE_LOW) {
+    riskFactors.push({
+      factor: 'unequal_participation',
+      severity: round2(1 - features.balanceScore),
+      likelihood: 0.7,
+      description: `Speaking time and turns are unevenly spread (balance ${features.balanceScore})`,
+    });
+  }
+  if (features.quietShare !== null && features.quietShare >= 0.25) {
+    riskFactors.push({
+      factor: 'silent_participants',
+      severity: round2(features.quietShare),
+      likelihood: 0.7,
+      description: `${Math.round(features.quietShare * 100)}% of participants barely spoke`,
+    });
+  }
+  if (features.hostileInterruptionRate !== null && features.hostileInterruptionRate >= HOSTILE_RATE_HIGH / 2) {
+    riskFactors.push({
+      factor: 'hostile_interruptions',
+      severity: round2(clamp01(features.hostileInterruptionRate / HOSTILE_RATE_HIGH)),
+      likelihood: features.cooperativeOverlapShare !== null && features.cooperativeOverlapShare < 0.5 ? 0.8 : 0.6,
+      description: `${features.hostileInterruptionRate} competitive interruptions or takeovers per minute of talk`,
+    });
+  }
+  if (features.polarizationIndex !== null && (
+    features.polarizationIndex >= POLARIZATION_HIGH ||
+    (features.polarizationIndex >= POLARIZATION_LOW && features.polarizationTrend === 'increasing')
+  )) {
+    riskFactors.push({
+      factor: 'polarization',
+      severity: round2(features.polarizationIndex / 100),
+      likelihood: features.polarizationTrend === 'increasing' ? 0.9 : features.polarizationTrend === 'decreasing' ? 0.3 : 0.6,
+      description: `Polarization index ${features.polarizationIndex}, ${features.polarizationTrend}`,
+    });
+  }
+  if (
+    (features.sentimentAverage !== null && features.sentimentAverage <= -0.1) ||
+    (features.sentimentShift !== null && features.sentimentShift <= -0.15)
+  ) {
+    riskFactors.push({
+      factor: 'negative_mood',
+      severity: round2(clamp01(-Math.min(features.sentimentAverage ?? 0, features.sentimentShift ?? 0) / MOOD_FULL)),
+      likelihood: features.sentimentShift !== null && features.sentimentShift < 0 ? 0.8 : 0.5,
+      description: `Mood averaged ${features.sentimentAverage ?? 'unknown'} and moved by ${features.sentimentShift ?? 'unknown'} over the conversations`,
+    });
+  }
+
+  return riskFactors.sort((a, b) => b.severity * b.likelihood - a.severity * a.likelihood);
+}
+
+function successes(
+  features: PredictionFeatures,
+  signals: { positivity: number; improvement: number; depolarizing: number }
+): SessionPrediction['successFactors'] {
+  const successFactors: SessionPrediction['successFactors'] = [];
+
+  if (features.balanceScore !== null && features.balanceScore >= BALANCE_GOOD) {
+    successFactors.push({
+      factor: 'balanced_participation',
+      strength: features.balanceScore,
+      description: 'Speaking time and turns are evenly spread',
+    });
+  }
+  if (features.cooperativeOverlapShare !== null && features.cooperativeOverlapShare >= 0.7) {
+    successFactors.push({
+      factor: 'cooperative_turn_taking',
+      strength: features.cooperativeOverlapShare,
+      description: 'Most overlaps are backchannels or supportive, not interruptions',
+    });
+  }
+  if (features.polarizationIndex !== null && features.polarizationIndex < POLARIZATION_LOW) {
+    successFactors.push({
+      factor: 'low_polarization',
+      strength: round2(1 - features.polarizationIndex / 100),
+      description: 'Participants disagree without splitting into camps',
+    });
+  }
+  if (signals.depolarizing >= 0.25) {
+    successFactors.push({
+      factor: 'depolarizing',
+      strength: round2(signals.depolarizing),
+      description: `Polarization came down from a peak of ${features.peakPolarization}`,
+    });
+  }
+  if (signals.positivity > 0 && features.sentimentAverage !== null && features.sentimentAverage >= 0.1) {
+    successFactors.push({
+      factor: 'positive_mood',
+      strength: round2(signals.positivity),
+      description: `Mood averaged ${features.sentimentAverage}`,
+    });
+  }
+  if (features.sentimentShift !== null && features.sentimentShift >= 0.1) {
+    successFactors.push({
+      factor: 'improving_mood',
+      strength: round2(signals.improvement),
+      description: `Mood rose by ${features.sentimentShift} over the conversations`,
+    });
+  }
+
+  return successFactors.sort((a, b) => b.strength - a.strength);
+}
+
+// Where polarization called for a host, and where a table's mood fell low
+function interventions(inputs: PredictionInputs): SessionPrediction['interventionTimings'] {
+  const timings: SessionPrediction['interventionTimings'] = [];
+
+  // Only the first of each run of windows asking for it, per table
+  const asking = new Set<number | undefined>();
+  for (const entry of inputs.polarization.timeline) {
+    if (!entry.interventionSuggested) {
+      asking.delete(entry.tableId);
+      continue;
+    }
+    if (asking.has(entry.tableId)) continue;
+    asking.add(entry.tableId);
+    timings.push({
+      recommendedTime: entry.interventionTiming ?? entry.windowEnd,
+      tableId: entry.tableId,
+      interventionType: entry.interventionType || 'facilitation',
+      reason: entry.interventionReason || `Polarization index reached ${entry.index}`,
+      expectedImpact: round2(entry.index / 100),
+    });
+  }
+
+  for (const table of inputs.sentiment) {
+    for (let i = 1; i < table.timeline.length; i++) {
+      const point = table.timeline[i];
+      if (point.sentiment > MOOD_DIP || table.timeline[i - 1].sentiment <= MOOD_DIP) continue;
+      timings.push({
+        recommendedTime: point.timestamp,
+        tableId: table.tableId,
+        interventionType: 'mood_check',
+        reason: `Mood at table ${table.tableId} fell to ${point.sentiment}`,
+        expectedImpact: round2(clamp01(-point.sentiment)),
+      });
+    }
+  }
+
+  return timings
+    .sort((a, b) => b.expectedImpact - a.expectedImpact)
+    .slice(0, MAX_INTERVENTIONS)
+    .sort((a, b) => a.recommendedTime - b.recommendedTime);
+}
+
+// The part each speaker played, for those whose part stood out
+function participantInsights(rollup: SpeakingTimeRollup[]): SessionPrediction['participantInsights'] {
+  const insights: SessionPrediction['participantInsights'] = [];
+
+  for (const speaker of rollup) {
+    const tally = speaker.interruptionsByKind;
+    const hostile = tally ? tally.competitive.given + tally.takeover.given : speaker.interruptionCount;
+    const supportive = tally ? tally.backchannel.given + tally.cooperative.given : 0;
+    const minutes = speaker.totalSeconds / 60;
+
+    let role: SessionPrediction['participantInsights'][number]['role'] | undefined;
+    let recommendation = '';
+    if (hostile >= 3 && minutes > 0 && hostile / minutes >= HOSTILE_RATE_HIGH) {
+      role = 'challenger';
+      recommendation = 'Often cuts in; channel their energy into questions and let others finish first.';
+    } else if (speaker.dominanceIndex >= 1.5) {
+      role = 'leader';
+      recommendation = 'Carries much of the conversation; ask them to draw others in or summarize.';
+    } else if (speaker.dominanceIndex < 0.5 || speaker.engagementLevel === 'low') {
+      role = 'observer';
+      recommendation = 'Says little; invite them in directly or pair them with a smaller group.';
+    } else if (supportive >= 5) {
+      role = 'supporter';
+      recommendation = 'Encourages others; a good person to build on ideas or bridge between views.';
+    }
+
+    if (role) {
+      insights.push({ participantId: speaker.participantId, participantName: speaker.participantName, role, recommendation });
+    }
+  }
+
+  return insights;
+}
+
+function clamp01(value: number): number {
+  return Math.max(0, Math.min(1, value));
+}
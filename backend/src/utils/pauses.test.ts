@@ -0,0 +1,19 @@
+import { english } from './languagePacks/en';
+import { spanish } from './languagePacks/es';
+import { countFillers } from './pauses';
+
+describe('countFillers', () => {
+  it('counts hesitations and pause-delimited fillers', () => {
+    expect(countFillers("Umm, it's, you know, hard. I mean, we tried... uh, twice", english)).toBe(4);
+    expect(countFillers('Eh, este, no sé. Pues... o sea, digamos que sí', spanish)).toBe(5);
+  });
+
+  it('leaves the same words alone where they carry meaning', () => {
+    expect(countFillers('You know the answer, and I mean it. This kind of plan is sort of new', english)).toBe(0);
+    expect(countFillers('En este momento no llegamos, pues es tarde', spanish)).toBe(0);
+  });
+
+  it('counts nothing without a language pack', () => {
+    expect(countFillers('um, you know, uh', undefined)).toBe(0);
+  });
+});
@@ -0,0 +1,173 @@
+import { AttributedSegment, EnergyLevel, PauseAnalysis, SilenceInterval, TablePauseAnalysis } from '@/types';
+import { LanguagePack } from './languagePacks';
+import { envNumber, round2 } from './numbers';
+
+export interface PauseConfig {
+  // Shortest gap between words, or between turns, that counts as a pause
+  minPauseSeconds: number;
+  // Shortest silence at a table worth telling its host about
+  longSilenceSeconds: number;
+  // Length of the windows the energy signal is measured in
+  energyWindowSeconds: number;
+}
+
+const DEFAULT_PAUSE_CONFIG: PauseConfig = {
+  minPauseSeconds: 0.3,
+  longSilenceSeconds: 10,
+  energyWindowSeconds: 60,
+};
+
+// Turns per minute at which a table counts as fully lively in the energy signal
+const LIVELY_TURNS_PER_MINUTE = 6;
+// Share of energy from how much of the window is speech; the rest is from turn-taking
+const SPEECH_ENERGY_SHARE = 0.7;
+
+/**
+ * Thresholds from PAUSE_MIN_SECONDS, LONG_SILENCE_SECONDS and ENERGY_WINDOW_SECONDS
+ */
+export function pauseConfig(): PauseConfig {
+  return {
+    minPauseSeconds: envNumber('PAUSE_MIN_SECONDS', DEFAULT_PAUSE_CONFIG.minPauseSeconds),
+    longSilenceSeconds: envNumber('LONG_SILENCE_SECONDS', DEFAULT_PAUSE_CONFIG.longSilenceSeconds),
+    energyWindowSeconds: envNumber('ENERGY_WINDOW_SECONDS', DEFAULT_PAUSE_CONFIG.energyWindowSeconds),
+  };
+}
+
+export function countFillers(text: string, pack: LanguagePack | undefined): number {
+  return pack ? (text.match(pack.fillers) || []).length : 0;
+}
+
+/**
+ * Pauses, fillers and silences in one conversation (segments ordered by start time,
+ * as from groupConversations): each speaker's pauses within their turns, and the
+ * table's gaps between turns, its long silences and its energy over time
+ */
+export function analyzeConversationPauses(
+  sorted: AttributedSegment[],
+  packFor: (segment: AttributedSegment) => LanguagePack | undefined,
+  config: PauseConfig = pauseConfig()
+): { speakers: Map<string, PauseAnalysis>; table: TablePauseAnalysis } {
+  // Keyed like SpeakingTimeAnalysis.participantId, so results can be matched up
+  const speakers = new Map<string, PauseAnalysis & { pauseSeconds: number }>();
+  const gaps: number[] = [];
+  const longSilences: SilenceInterval[] = [];
+  const speechSpans: [number, number][] = [];
+  let fillerWords = 0;
+
+  let floor: AttributedSegment | undefined;
+  let spanStart = sorted[0]?.start ?? 0;
+  for (const segment of sorted) {
+    const key = segment.identity.participantId || segment.identity.key;
+    let speaker = speakers.get(key);
+    if (!speaker) {
+      speaker = { totalPauses: 0, averagePauseLength: 0, longestPause: 0, fillerWords: 0, pauseSeconds: 0 };
+      speakers.set(key, speaker);
+    }
+
+    // Pauses within the turn
+    const words = segment.words || [];
+    for (let i = 1; i < words.length; i++) {
+      const pause = words[i].start - words[i - 1].end;
+      if (pause >= config.minPauseSeconds) {
+        speaker.totalPauses++;
+        speaker.pauseSeconds += pause;
+        speaker.longestPause = Math.max(speaker.longestPause, pause);
+      }
+    }
+
+    const fillers = countFillers(segment.transcript, packFor(segment));
+    speaker.fillerWords += fillers;
+    fillerWords += fillers;
+
+    // Gap since whoever held the floor stopped; overlapping turns leave none
+    if (floor) {
+      const gap = segment.start - floor.end;
+      if (gap > 0) {
+        speechSpans.push([spanStart, floor.end]);
+        spanStart = segment.start;
+      }
+      if (gap >= config.minPauseSeconds) {
+        gaps.push(gap);
+      }
+      if (gap >= config.longSilenceSeconds) {
+        longSilences.push({
+          start: round2(floor.end),
+          end: round2(segment.start),
+          seconds: round2(gap),
+          before: floor.identity.name,
+          after: segment.identity.name,
+        });
+      }
+    }
+    if (!floor || segment.end > floor.end) {
+      floor = segment;
+    }
+  }
+  if (floor) {
+    speechSpans.push([spanStart, floor.end]);
+  }
+
+  const speakerResults = new Map<string, PauseAnalysis>();
+  for (const [key, { pauseSeconds, ...speaker }] of speakers) {
+    speakerResults.set(key, {
+      ...speaker,
+      averagePauseLength: speaker.totalPauses > 0 ? round2(pauseSeconds / speaker.totalPauses) : 0,
+      longestPause: round2(speaker.longestPause),
+    });
+  }
+
+  const tableSeconds = sorted.length > 0 ? sorted[sorted.length - 1].end - sorted[0].start : 0;
+  const silenceSeconds = gaps.reduce((sum, gap) => sum + gap, 0);
+
+  return {
+    speakers: speakerResults,
+    table: {
+      tableId: sorted[0]?.tableId,
+      roundNumber: sorted[0]?.roundNumber,
+      gapCount: gaps.length,
+      averageGapSeconds: gaps.length > 0 ? round2(silenceSeconds / gaps.length) : 0,
+      silenceSeconds: round2(silenceSeconds),
+      silenceShare: tableSeconds > 0 ? round2(Math.min(1, silenceSeconds / tableSeconds)) : 0,
+      longSilences,
+      fillerWords,
+      energyLevels: energyLevels(sorted, speechSpans, config.energyWindowSeconds),
+    },
+  };
+}
+
+/**
+ * Energy per window: mostly how much of it is speech, partly how often the turn
+ * changes hands. A long silence drags its windows towards zero.
+ */
+function energyLevels(sorted: AttributedSegment[], speechSpans: [number, number][], windowSeconds: number): EnergyLevel[] {
+  if (sorted.length === 0 || windowSeconds <= 0) return [];
+
+  const start = sorted[0].start;
+  const end = speechSpans.reduce((latest, [, spanEnd]) => Math.max(latest, spanEnd), start);
+  const windowCount = Math.max(1, Math.ceil((end - start) / windowSeconds));
+  const speech = new Array<number>(windowCount).fill(0);
+  const turns = new Array<number>(windowCount).fill(0);
+  const windowOf = (seconds: number) => Math.min(windowCount - 1, Math.floor((seconds - start) / windowSeconds));
+
+  for (const [spanStart, spanEnd] of speechSpans) {
+    for (let w = windowOf(spanStart); w <= windowOf(spanEnd); w++) {
+      const windowStart = start + w * windowSeconds;
+      speech[w] += Math.max(0, Math.min(spanEnd, windowStart + windowSeconds) - Math.max(spanStart, windowStart));
+    }
+  }
+  for (const segment of sorted) {
+    turns[windowOf(segment.start)]++;
+  }
+
+  return speech.map((seconds, w) => {
+    const windowStart = start + w * windowSeconds;
+    // The last window is usually cut short by the end of the conversation
+    const length = Math.max(1, Math.min(windowSeconds, end - windowStart));
+    const coverage = Math.min(1, seconds / length);
+    const turnRate = Math.min(1, (turns[w] / (length / 60)) / LIVELY_TURNS_PER_MINUTE);
+    return {
+      timestamp: round2(windowStart),
+      energy: Math.round(100 * (SPEECH_ENERGY_SHARE * coverage + (1 - SPEECH_ENERGY_SHARE) * turnRate)),
+    };
+  });
+}
@@ -0,0 +1,59 @@
+import { compileRoster, detectPii } from './pii';
+
+const phones = (text: string) => detectPii(text).filter(match => match.category === 'phone').map(match => match.value);
+
+describe('detectPii', () => {
+  describe('phone numbers', () => {
+    it.each([
+      ['call +39 06 1234 5678 tomorrow', '+39 06 1234 5678'],
+      ['my number is +441632960983.', '+441632960983'],
+      ['ring (555) 123-4567', '(555) 123-4567'],
+      ['the office is on 020 7946 0958', '020 7946 0958'],
+      ['text 555-123-4567 or 555.123.4567', '555-123-4567'],
+    ])('finds the number in "%s"', (text, number) => {
+      expect(phones(text)).toContain(number);
+    });
+
+    it.each([
+      'we counted 120 200 300 votes',
+      'reference 12345678',
+      'in 2024 about 1500 people came',
+      'pi is 3.14159265',
+      'id 550e8400-e29b-41d4-a716-446655440000',
+      'version 10.2.3456.7890',
+      'see /files/020 or ab-555-123-4567',
+    ])('leaves "%s" alone', text => {
+      expect(phones(text)).toEqual([]);
+    });
+
+    it('keys a number by its digits, however it was written', () => {
+      const [spaced, dashed] = detectPii('+39 06 1234 5678 and +39-06-1234-5678');
+
+      expect(spaced.key).toBe('phone:+390612345678');
+      expect(dashed.key).toBe(spaced.key);
+    });
+  });
+
+  it('finds emails and street addresses', () => {
+    expect(detectPii('write to ana.lee@example.org at 221B Baker Street').map(match => [match.category, match.value])).toEqual([
+      ['email', 'ana.lee@example.org'],
+      ['address', '221B Baker Street'],
+    ]);
+  });
+
+  it('finds roster names as written, and full names in any case', () => {
+    const names = compileRoster([{ id: 'p1', name: 'Will Jones' }]);
+
+    expect(detectPii('will jones said Will would come, and Jones will too', names).map(match => match.value)).toEqual([
+      'will jones',
+      'Will',
+      'Jones',
+    ]);
+  });
+
+  it('keeps the earlier, then longer, of overlapping matches', () => {
+    const names = compileRoster([{ id: 'p1', name: 'Baker' }]);
+
+    expect(detectPii('at 221B Baker Street', names).map(match => match.category)).toEqual(['address']);
+  });
+});
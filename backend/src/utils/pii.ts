@@ -0,0 +1,122 @@
+import { PiiCategory } from '@/types';
+
+// A participant whose name is redacted wherever it appears
+export interface RosterEntry {
+  id: string;
+  name: string;
+}
+
+export interface PiiMatch {
+  category: PiiCategory;
+  start: number;
+  end: number;
+  value: string;
+  // Identifies the person or value, so every mention gets the same placeholder
+  key: string;
+}
+
+// Shortest part of a name ("Ann" in "Ann Lee") that is redacted on its own
+const MIN_NAME_PART_LENGTH = 3;
+
+const EMAIL = /(?<![\p{L}\p{N}._%+-])[\p{L}\p{N}._%+-]+@[\p{L}\p{N}-]+(?:\.[\p{L}\p{N}-]+)*\.\p{L}{2,}/gu;
+
+// A number only counts as a phone number when laid out like one: "+39 06 1234 5678" or
+// "+441632960983" (country code), "(555) 123-4567" (area code), "020 7946 0958" (trunk
+// prefix and groups) or "555-123-4567". Bare digit runs ("12345678") and evenly spaced
+// counts ("120 200 300") are not, nor are digits inside IDs, versions and paths.
+const PHONE = /(?<![\p{L}\p{N}+\-_./:])(?:\+\d{1,3}(?:[\s.-]?\(?\d{1,4}\)?){2,5}|\(\d{2,4}\)\s?\d{3,4}[\s.-]?\d{3,4}|0\d{1,4}[\s.-]\d{3,4}[\s.-]?\d{3,4}|\d{3}([.-])\d{3}\1\d{4})(?![\p{L}\p{N}\-_/:]|\.\d)/gu;
+
+// Digits in a phone number, country code included (E.164 allows at most 15)
+const PHONE_DIGITS = { min: 8, max: 15 };
+
+const ADDRESSES = [
+  // "221B Baker Street", "12 Main St."
+  /(?<![\p{L}\p{N}])\d{1,5}[A-Za-z]?\s+(?:\p{Lu}[\p{L}'-]*\s+){1,3}(?:Street|St|Avenue|Ave|Road|Rd|Lane|Ln|Boulevard|Blvd|Drive|Dr|Way|Place|Pl|Square|Sq|Court|Ct)\.?(?![\p{L}\p{N}])/gu,
+  // "Via Roma 12", "Calle de Alcalá 45", "Piazza del Popolo 3"
+  /(?<![\p{L}\p{N}])(?:Via|Viale|Piazza|Corso|Vicolo|Calle|Avenida|Plaza|Paseo|Carrer)\s+(?:[\p{L}'-]+\s+){1,4}\d{1,5}[A-Za-z]?(?![\p{L}\p{N}])/gu,
+  // "Hauptstraße 5", "Schillerstr. 12", "Am Marktplatz 3"
+  /(?<![\p{L}\p{N}])\p{Lu}[\p{L}-]*(?:straße|strasse|str\.|weg|platz|gasse|allee|ring|damm)\s*\d{1,5}[a-z]?(?![\p{L}\p{N}])/gu,
+];
+
+export interface NameMatcher {
+  participantId: string;
+  pattern: RegExp;
+}
+
+/**
+ * Patterns for the roster's names: the full name in any case, and each longer part
+ * of it as written, so "Maria" is caught but the word "will" is not taken for "Will"
+ */
+export function compileRoster(roster: RosterEntry[]): NameMatcher[] {
+  const matchers: NameMatcher[] = [];
+
+  for (const participant of roster) {
+    const parts = participant.name.trim().split(/\s+/).filter(Boolean);
+    if (parts.length === 0) continue;
+
+    if (parts.length > 1) {
+      matchers.push({ participantId: participant.id, pattern: wholeWords(parts.map(escapeRegExp).join('\\s+'), 'giu') });
+    }
+    for (const part of parts) {
+      if (part.length >= MIN_NAME_PART_LENGTH) {
+        matchers.push({ participantId: participant.id, pattern: wholeWords(escapeRegExp(part), 'gu') });
+      }
+    }
+  }
+
+  return matchers;
+}
+
+/**
+ * Personal data in a text: roster names, emails, phone numbers and street addresses.
+ * Matches do not overlap; where two would, the earlier and then longer one is kept.
+ */
+export function detectPii(text: string, names: NameMatcher[] = []): PiiMatch[] {
+  const found: PiiMatch[] = [];
+
+  for (const { participantId, pattern } of names) {
+    for (const match of text.matchAll(pattern)) {
+      found.push(toMatch('person', match, `participant:${participantId}`));
+    }
+  }
+  for (const match of text.matchAll(EMAIL)) {
+    found.push(toMatch('email', match, `email:${normalize(match[0])}`));
+  }
+  for (const match of text.matchAll(PHONE)) {
+    const number = match[0].replace(/[^\d+]/g, '');
+    const digits = number.replace('+', '').length;
+    if (digits < PHONE_DIGITS.min || digits > PHONE_DIGITS.max) continue;
+    found.push(toMatch('phone', match, `phone:${number}`));
+  }
+  for (const pattern of ADDRESSES) {
+    for (const match of text.matchAll(pattern)) {
+      found.push(toMatch('address', match, `address:${normalize(match[0])}`));
+    }
+  }
+
+  found.sort((a, b) => a.start - b.start || (b.end - b.start) - (a.end - a.start));
+
+  const kept: PiiMatch[] = [];
+  for (const match of found) {
+    const previous = kept[kept.length - 1];
+    if (previous && match.start < previous.end) continue;
+    kept.push(match);
+  }
+  return kept;
+}
+
+function toMatch(category: PiiCategory, match: RegExpMatchArray, key: string): PiiMatch {
+  return { category, start: match.index!, end: match.index! + match[0].length, value: match[0], key };
+}
+
+function wholeWords(source: string, flags: string): RegExp {
+  return new RegExp(`(?<![\\p{L}\\p{N}])${source}(?![\\p{L}\\p{N}])`, flags);
+}
+
+function normalize(value: string): string {
+  return value.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,104 @@
+import { AttributedSegment } from '@/types';
+import { english } from './languagePacks/en';
+import { PolarizationConfig, measurePolarization, polarizationTrend, recommendIntervention, stanceOf } from './polarization';
+
+const CONFIG: PolarizationConfig = { windowSeconds: 300, horizonSeconds: 600, interventionIndex: 60 };
+
+function conversation(turns: [number, string][]): AttributedSegment[] {
+  return turns.map(([speaker, transcript], i) => ({
+    speaker,
+    transcript,
+    start: i * 10,
+    end: i * 10 + 8,
+    tableId: 1,
+    identity: { key: `table_1_speaker_${speaker}`, name: `Speaker ${speaker}` },
+  }));
+}
+
+describe('stanceOf', () => {
+  it('does not count the agreement inside a disagreement', () => {
+    expect(stanceOf("I don't agree, that's wrong", english)).toEqual({ agreement: 0, disagreement: 2 });
+    expect(stanceOf('I agree, good point', english)).toEqual({ agreement: 2, disagreement: 0 });
+    expect(stanceOf('I agree', undefined)).toEqual({ agreement: 0, disagreement: 0 });
+  });
+});
+
+describe('measurePolarization', () => {
+  it('splits speakers who keep disagreeing into opposing groups', () => {
+    const snapshot = measurePolarization(conversation([
+      [1, 'Car traffic in the city centre should be banned.'],
+      [2, "I disagree, car traffic keeps the shops in the city centre alive."],
+      [3, "You're right, banning car traffic would hurt the shops."],
+      [1, "That's wrong, the shops in the city centre do better with fewer cars."],
+      [2, "No way, car traffic brings the customers in."],
+      [1, "I don't agree, car traffic only brings noise."],
+    ]), () => english);
+
+    expect(snapshot.opposingGroups).toHaveLength(1);
+    const [group] = snapshot.opposingGroups;
+    expect([group.group1, group.group2].map(side => [...side].sort())).toEqual(expect.arrayContaining([[1], [2, 3]]));
+    expect(snapshot.disagreementShare).toBeGreaterThan(0.5);
+    expect(snapshot.index).toBeGreaterThan(30);
+    expect(snapshot.echoChambersDetected).toBe(false);
+  });
+
+  it('finds an echo chamber where three or more only ever agree', () => {
+    const snapshot = measurePolarization(conversation([
+      [1, 'More trees would make the square nicer.'],
+      [2, 'I agree, more trees for sure.'],
+      [3, 'Exactly, and benches.'],
+      [1, 'Good point, benches too.'],
+      [2, 'Absolutely.'],
+      [3, "You're right, let's do both."],
+    ]), () => english);
+
+    expect(snapshot.opposingGroups).toEqual([]);
+    expect(snapshot.echoChambersDetected).toBe(true);
+    expect(snapshot.index).toBe(0);
+  });
+
+  it('measures nothing without a language pack', () => {
+    const snapshot = measurePolarization(conversation([[1, 'I disagree'], [2, "That's wrong"]]), () => undefined);
+
+    expect(snapshot.index).toBe(0);
+    expect(snapshot.talkSeconds).toBe(16);
+  });
+});
+
+describe('polarizationTrend', () => {
+  it('fits the index per minute over the latest measurements', () => {
+    expect(polarizationTrend([{ windowEnd: 300, index: 20 }])).toEqual({ trend: 'stable', velocity: 0 });
+    expect(polarizationTrend([
+      { windowEnd: 0, index: 90 },
+      { windowEnd: 300, index: 20 },
+      { windowEnd: 600, index: 30 },
+      { windowEnd: 900, index: 40 },
+    ])).toEqual({ trend: 'increasing', velocity: 2 });
+    expect(polarizationTrend([{ windowEnd: 300, index: 40 }, { windowEnd: 600, index: 39 }]).trend).toBe('stable');
+  });
+});
+
+describe('recommendIntervention', () => {
+  const calm = { index: 30, opposingGroups: [], topicContention: 0 };
+  const stable = { trend: 'stable' as const, velocity: 0 };
+
+  it('stays quiet below the threshold unless the index is climbing towards it', () => {
+    expect(recommendIntervention(calm, stable, CONFIG)).toEqual({ interventionSuggested: false });
+    expect(recommendIntervention({ ...calm, index: 50 }, { trend: 'increasing', velocity: 3 }, CONFIG)).toMatchObject({
+      interventionSuggested: true,
+      interventionType: 'moderate',
+      interventionReason: 'Polarization is rising quickly (3 points a minute)',
+    });
+  });
+
+  it('picks the intervention from what drives the index', () => {
+    expect(recommendIntervention({ ...calm, index: 85 }, stable, CONFIG).interventionType).toBe('reset');
+    expect(recommendIntervention({
+      ...calm,
+      index: 65,
+      opposingGroups: [{ group1: [1], group2: [2], group1Names: ['Ana'], group2Names: ['Ben'], disagreementTopics: [], intensityLevel: 0.7 }],
+    }, stable, CONFIG)).toMatchObject({ interventionType: 'breakout', interventionReason: 'Ana and Ben keep disagreeing with each other' });
+    expect(recommendIntervention({ ...calm, index: 65, topicContention: 0.8, contentiousTopic: 'parking' }, stable, CONFIG).interventionType)
+      .toBe('redirect');
+  });
+});
@@ -0,0 +1,415 @@
+import { AttributedSegment, PolarizationMetrics } from '@/types';
+import { LanguagePack } from './languagePacks';
+import { candidatePhrases, extractKeyphrases } from './keyphrases';
+import { envNumber, round2 } from './numbers';
+
+export interface PolarizationConfig {
+  // How often each table is measured
+  windowSeconds: number;
+  // How far back each measurement looks; never past the start of the round
+  horizonSeconds: number;
+  // Index from which an intervention is recommended
+  interventionIndex: number;
+}
+
+const DEFAULT_POLARIZATION_CONFIG: PolarizationConfig = {
+  windowSeconds: 300,
+  horizonSeconds: 600,
+  interventionIndex: 60,
+};
+
+// Agreement assumed before any markers are heard, so a single "I disagree" does not read as a fight
+const MARKER_PRIOR = 2;
+// Content words per side before lexical divergence is fully trusted
+const LEXICAL_PRIOR_WORDS = 50;
+// Agreements with no dissent at all, among three or more speakers, that make an echo chamber
+const ECHO_MIN_AGREEMENTS = 5;
+// Topics averaged into topic contention, and listed per opposing group
+const CONTENTIOUS_TOPICS = 3;
+// Index change per minute that counts as a trend
+const TREND_POINTS_PER_MINUTE = 1;
+// Measurements the trend is fitted over
+const TREND_MEASUREMENTS = 3;
+const MAX_STATEMENT_LENGTH = 160;
+
+/**
+ * Windows and threshold from POLARIZATION_WINDOW_SECONDS, POLARIZATION_HORIZON_SECONDS
+ * and POLARIZATION_INTERVENTION_INDEX
+ */
+export function polarizationConfig(): PolarizationConfig {
+  return {
+    windowSeconds: envNumber('POLARIZATION_WINDOW_SECONDS', DEFAULT_POLARIZATION_CONFIG.windowSeconds),
+    horizonSeconds: envNumber('POLARIZATION_HORIZON_SECONDS', DEFAULT_POLARIZATION_CONFIG.horizonSeconds),
+    interventionIndex: envNumber('POLARIZATION_INTERVENTION_INDEX', DEFAULT_POLARIZATION_CONFIG.interventionIndex),
+  };
+}
+
+export interface Stance {
+  agreement: number;
+  disagreement: number;
+}
+
+/**
+ * Agreement and disagreement markers in a turn. Disagreement is matched first and
+ * taken out, so "non sono d'accordo" does not also count as "d'accordo".
+ */
+export function stanceOf(text: string, pack: LanguagePack | undefined): Stance {
+  if (!pack) return { agreement: 0, disagreement: 0 };
+  const disagreement = (text.match(pack.disagreement) || []).length;
+  const agreement = (text.replace(pack.disagreement, ' ').match(pack.agreement) || []).length;
+  return { agreement, disagreement };
+}
+
+// The turn with its stance markers taken out, so they are not mistaken for its topic
+export function withoutStance(text: string, pack: LanguagePack | undefined): string {
+  return pack ? text.replace(pack.disagreement, ' ').replace(pack.agreement, ' ') : text;
+}
+
+// Everything one measurement finds, before trend and intervention are added
+export interface PolarizationSnapshot {
+  index: number; // 0-100
+  disagreementShare: number; // 0-1, disagreement among the stance markers
+  stanceDivergence: number; // 0-1, how differently the opposing groups talk
+  topicContention: number; // 0-1, how much talk about the most disputed topics is disagreement
+  contentiousTopic?: string;
+  echoChambersDetected: boolean;
+  opposingGroups: PolarizationMetrics['opposingGroups'];
+  bridgeBuilders: PolarizationMetrics['bridgeBuilders'];
+  talkSeconds: number;
+}
+
+// A turn answering another speaker's, with the stance it takes
+interface Reply {
+  from: AttributedSegment;
+  to: AttributedSegment;
+  sign: number; // +1 agreeing, -1 disagreeing
+}
+
+/**
+ * Polarization of one stretch of a table's conversation (segments ordered by start
+ * time). Each turn that agrees or disagrees is read as answering the previous
+ * speaker; those answers split the speakers into opposing groups, whose wording
+ * and disputed topics are then compared. The index blends disagreement, how
+ * sharply the groups oppose each other and how contested the topics are.
+ */
+export function measurePolarization(
+  sorted: AttributedSegment[],
+  packFor: (segment: AttributedSegment) => LanguagePack | undefined
+): PolarizationSnapshot {
+  let agreement = 0;
+  let disagreement = 0;
+  let talkSeconds = 0;
+  const replies: Reply[] = [];
+  const speakers = new Map<string, AttributedSegment['identity'] & { speakerIndex: number }>();
+  const phrases = new Map<AttributedSegment, Set<string>>();
+  const topicTexts: string[] = [];
+  const disagreeing = new Set<AttributedSegment>();
+
+  let previous: AttributedSegment | undefined;
+  for (const segment of sorted) {
+    talkSeconds += segment.end - segment.start;
+    speakers.set(segment.identity.key, { ...segment.identity, speakerIndex: segment.speaker });
+    const pack = packFor(segment);
+    const topicText = withoutStance(segment.transcript, pack);
+    topicTexts.push(topicText);
+    phrases.set(segment, new Set(candidatePhrases(topicText)));
+
+    const stance = stanceOf(segment.transcript, pack);
+    agreement += stance.agreement;
+    disagreement += stance.disagreement;
+    if (stance.disagreement > stance.agreement) {
+      disagreeing.add(segment);
+    }
+
+    const sign = Math.sign(stance.agreement - stance.disagreement);
+    if (sign !== 0 && previous && previous.identity.key !== segment.identity.key) {
+      replies.push({ from: segment, to: previous, sign });
+    }
+    previous = segment;
+  }
+
+  const disagreementShare = disagreement / (disagreement + agreement + MARKER_PRIOR);
+  const topics = contestedTopics(sorted, topicTexts, phrases, disagreeing);
+  const topicContention = topics.length > 0
+    ? topics.slice(0, CONTENTIOUS_TOPICS).reduce((sum, topic) => sum + topic.contention, 0) / Math.min(CONTENTIOUS_TOPICS, topics.length)
+    : 0;
+
+  const sides = splitSpeakers(replies);
+  let stanceDivergence = 0;
+  let intensity = 0;
+  const opposingGroups: PolarizationMetrics['opposingGroups'] = [];
+  const bridgeBuilders: PolarizationMetrics['bridgeBuilders'] = [];
+
+  if (sides) {
+    let crossPositive = 0;
+    let crossNegative = 0;
+    const disputed = new Map<string, number>();
+    for (const reply of replies) {
+      const across = sides.get(reply.from.identity.key) !== sides.get(reply.to.identity.key);
+      if (!across) continue;
+      if (reply.sign > 0) {
+        crossPositive++;
+      } else {
+        crossNegative++;
+        for (const phrase of phrases.get(reply.from) || []) {
+          if (topics.some(topic => topic.phrase === phrase)) {
+            disputed.set(phrase, (disputed.get(phrase) || 0) + 1);
+          }
+        }
+      }
+    }
+
+    if (crossNegative > crossPositive) {
+      stanceDivergence = lexicalDivergence(sorted, sides);
+      intensity = 0.7 * crossNegative / (crossNegative + crossPositive + 1) + 0.3 * stanceDivergence;
+
+      const members = (side: number) => [...sides].filter(([, s]) => s === side).map(([key]) => speakers.get(key)!);
+      opposingGroups.push({
+        group1: members(1).map(speaker => speaker.speakerIndex),
+        group2: members(2).map(speaker => speaker.speakerIndex),
+        group1Names: members(1).map(speaker => speaker.name),
+        group2Names: members(2).map(speaker => speaker.name),
+        disagreementTopics: [...disputed.entries()]
+          .sort((a, b) => b[1] - a[1])
+          .slice(0, CONTENTIOUS_TOPICS)
+          .map(([phrase]) => phrase),
+        intensityLevel: round2(intensity),
+      });
+
+      bridgeBuilders.push(...findBridgeBuilders(replies, sides, speakers));
+    }
+  }
+
+  const index = Math.round(100 * (0.4 * disagreementShare + 0.35 * intensity + 0.25 * topicContention));
+
+  return {
+    index,
+    disagreementShare: round2(disagreementShare),
+    stanceDivergence: round2(stanceDivergence),
+    topicContention: round2(topicContention),
+    contentiousTopic: topics.length > 0 && topics[0].contention > 0 ? topics[0].phrase : undefined,
+    echoChambersDetected: speakers.size >= 3 && agreement >= ECHO_MIN_AGREEMENTS && disagreement === 0,
+    opposingGroups,
+    bridgeBuilders,
+    talkSeconds,
+  };
+}
+
+/**
+ * Direction and speed of the index over the latest measurements, in points per minute
+ */
+export function polarizationTrend(history: { windowEnd: number; index: number }[]): {
+  trend: PolarizationMetrics['trend'];
+  velocity: number;
+} {
+  const points = history.slice(-TREND_MEASUREMENTS);
+  if (points.length < 2) return { trend: 'stable', velocity: 0 };
+
+  // Least-squares slope, with time in minutes
+  const meanX = points.reduce((sum, point) => sum + point.windowEnd / 60, 0) / points.length;
+  const meanY = points.reduce((sum, point) => sum + point.index, 0) / points.length;
+  let covariance = 0;
+  let variance = 0;
+  for (const point of points) {
+    covariance += (point.windowEnd / 60 - meanX) * (point.index - meanY);
+    variance += (point.windowEnd / 60 - meanX) ** 2;
+  }
+  const velocity = variance > 0 ? round2(covariance / variance) : 0;
+
+  return {
+    trend: velocity >= TREND_POINTS_PER_MINUTE ? 'increasing' : velocity <= -TREND_POINTS_PER_MINUTE ? 'decreasing' : 'stable',
+    velocity,
+  };
+}
+
+/**
+ * Whether a host should step in and how: reset a conversation that has boiled over,
+ * split opposing groups that keep clashing, steer away from a topic that only
+ * produces disagreement, or otherwise moderate. A conversation heating up quickly
+ * gets a recommendation before it reaches the threshold.
+ */
+export function recommendIntervention(
+  snapshot: Pick<PolarizationSnapshot, 'index' | 'opposingGroups' | 'topicContention' | 'contentiousTopic'>,
+  trend: { trend: PolarizationMetrics['trend']; velocity: number },
+  config: PolarizationConfig
+): Pick<PolarizationMetrics, 'interventionSuggested' | 'interventionType' | 'interventionReason'> {
+  const heatingUp = trend.trend === 'increasing' && snapshot.index >= config.interventionIndex - 15;
+  if (snapshot.index < config.interventionIndex && !heatingUp) {
+    return { interventionSuggested: false };
+  }
+
+  const group = snapshot.opposingGroups[0];
+  if (snapshot.index >= 80) {
+    return { interventionSuggested: true, interventionType: 'reset', interventionReason: `Polarization is critical (${snapshot.index}/100)` };
+  }
+  if (group && group.intensityLevel >= 0.6) {
+    const names = (side?: string[]) => side?.join(', ') || 'one side';
+    return {
+      interventionSuggested: true,
+      interventionType: 'breakout',
+      interventionReason: `${names(group.group1Names)} and ${names(group.group2Names)} keep disagreeing with each other`,
+    };
+  }
+  if (snapshot.contentiousTopic && snapshot.topicContention >= 0.6) {
+    return { interventionSuggested: true, interventionType: 'redirect', interventionReason: `Talk about "${snapshot.contentiousTopic}" is mostly disagreement` };
+  }
+  return {
+    interventionSuggested: true,
+    interventionType: 'moderate',
+    interventionReason: heatingUp && snapshot.index < config.interventionIndex
+      ? `Polarization is rising quickly (${trend.velocity} points a minute)`
+      : `Polarization is high (${snapshot.index}/100)`,
+  };
+}
+
+/**
+ * Topics raised at least twice, by the share of their mentions made while disagreeing
+ */
+function contestedTopics(
+  sorted: AttributedSegment[],
+  topicTexts: string[],
+  phrases: Map<AttributedSegment, Set<string>>,
+  disagreeing: Set<AttributedSegment>
+): { phrase: string; contention: number }[] {
+  return extractKeyphrases(topicTexts)
+    .map(({ phrase }) => {
+      let mentions = 0;
+      let contested = 0;
+      for (const segment of sorted) {
+        if (!phrases.get(segment)?.has(phrase)) continue;
+        mentions++;
+        if (disagreeing.has(segment)) contested++;
+      }
+      return { phrase, mentions, contention: mentions > 0 ? contested / mentions : 0 };
+    })
+    .filter(topic => topic.mentions >= 2)
+    .sort((a, b) => b.contention - a.contention || b.mentions - a.mentions);
+}
+
+/**
+ * Two sides, keyed by speaker, that keep agreement within and disagreement across
+ * them, or undefined when nobody disagreed with anyone. Starts from the most
+ * disagreeing pair and moves speakers across while that improves the split.
+ * Speakers who neither agreed nor disagreed with anyone are on neither side.
+ */
+function splitSpeakers(replies: Reply[]): Map<string, number> | undefined {
+  // Net stance between each pair of speakers, agreeing positive
+  const weights = new Map<string, Map<string, number>>();
+  const addWeight = (a: string, b: string, sign: number) => {
+    if (!weights.has(a)) weights.set(a, new Map());
+    weights.get(a)!.set(b, (weights.get(a)!.get(b) || 0) + sign);
+  };
+  for (const reply of replies) {
+    addWeight(reply.from.identity.key, reply.to.identity.key, reply.sign);
+    addWeight(reply.to.identity.key, reply.from.identity.key, reply.sign);
+  }
+
+  let seed: [string, string] | undefined;
+  let mostNegative = 0;
+  for (const [a, row] of weights) {
+    for (const [b, weight] of row) {
+      if (weight < mostNegative) {
+        mostNegative = weight;
+        seed = [a, b];
+      }
+    }
+  }
+  if (!seed) return undefined;
+
+  const sides = new Map<string, number>([[seed[0], 1], [seed[1], 2]]);
+  // How much a speaker would rather be on side 1 than side 2
+  const pull = (key: string) => {
+    let preference = 0;
+    for (const [other, weight] of weights.get(key) || []) {
+      const side = sides.get(other);
+      if (side === 1) preference += weight;
+      if (side === 2) preference -= weight;
+    }
+    return preference;
+  };
+
+  for (const key of [...weights.keys()].sort()) {
+    if (!sides.has(key)) sides.set(key, pull(key) >= 0 ? 1 : 2);
+  }
+
+  // Move speakers across one at a time while it helps; each move strictly improves the split, so this ends
+  for (let moved = true, rounds = 0; moved && rounds < weights.size * weights.size; rounds++) {
+    moved = false;
+    for (const key of [...sides.keys()].sort()) {
+      const preference = pull(key);
+      const better = preference > 0 ? 1 : preference < 0 ? 2 : sides.get(key)!;
+      const side = sides.get(key)!;
+      const sideCount = [...sides.values()].filter(s => s === side).length;
+      if (better !== side && sideCount > 1) {
+        sides.set(key, better);
+        moved = true;
+      }
+    }
+  }
+
+  return sides;
+}
+
+/**
+ * Jensen-Shannon divergence between the content words of the two sides, trusted
+ * less while either side has said little
+ */
+function lexicalDivergence(sorted: AttributedSegment[], sides: Map<string, number>): number {
+  const counts = [new Map<string, number>(), new Map<string, number>()];
+  const totals = [0, 0];
+  for (const segment of sorted) {
+    const side = sides.get(segment.identity.key);
+    if (!side) continue;
+    for (const phrase of candidatePhrases(segment.transcript)) {
+      if (phrase.includes(' ')) continue;
+      counts[side - 1].set(phrase, (counts[side - 1].get(phrase) || 0) + 1);
+      totals[side - 1]++;
+    }
+  }
+  if (totals[0] === 0 || totals[1] === 0) return 0;
+
+  let divergence = 0;
+  for (const word of new Set([...counts[0].keys(), ...counts[1].keys()])) {
+    const p = (counts[0].get(word) || 0) / totals[0];
+    const q = (counts[1].get(word) || 0) / totals[1];
+    const m = (p + q) / 2;
+    if (p > 0) divergence += 0.5 * p * Math.log2(p / m);
+    if (q > 0) divergence += 0.5 * q * Math.log2(q / m);
+  }
+
+  const words = Math.min(totals[0], totals[1]);
+  return divergence * words / (words + LEXICAL_PRIOR_WORDS);
+}
+
+/**
+ * Speakers who agreed with people on both sides, scored by how evenly
+ */
+function findBridgeBuilders(
+  replies: Reply[],
+  sides: Map<string, number>,
+  speakers: Map<string, AttributedSegment['identity'] & { speakerIndex: number }>
+): PolarizationMetrics['bridgeBuilders'] {
+  const agreements = new Map<string, { toSide: [number, number]; statements: string[] }>();
+  for (const reply of replies) {
+    const side = sides.get(reply.to.identity.key);
+    if (reply.sign < 0 || !side) continue;
+
+    let entry = agreements.get(reply.from.identity.key);
+    if (!entry) {
+      entry = { toSide: [0, 0], statements: [] };
+      agreements.set(reply.from.identity.key, entry);
+    }
+    entry.toSide[side - 1]++;
+    entry.statements.push(reply.from.transcript.trim().slice(0, MAX_STATEMENT_LENGTH));
+  }
+
+  return [...agreements.entries()]
+    .filter(([, { toSide }]) => Math.min(...toSide) > 0)
+    .map(([key, { toSide, statements }]) => ({
+      participantId: speakers.get(key)!.speakerIndex,
+      participantName: speakers.get(key)!.name,
+      bridgingScore: round2(2 * Math.min(...toSide) / (toSide[0] + toSide[1])),
+      connectingStatements: statements.slice(0, 3),
+    }))
+    .sort((a, b) => b.bridgingScore - a.bridgingScore);
+}
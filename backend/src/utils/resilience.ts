@@ -0,0 +1,180 @@
+import { logger } from './logger';
+
+export interface RetryOptions {
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  shouldRetry?: (error: unknown) => boolean;
+  // Lets callers honour server hints such as Retry-After
+  delayOverrideMs?: (error: unknown) => number | undefined;
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+}
+
+/**
+ * Run an async operation, retrying with exponential backoff and full jitter
+ */
+export async function withRetry<T>(operation: () => Promise<T>, options: RetryOptions): Promise<T> {
+  let attempt = 0;
+
+  for (;;) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= options.retries || (options.shouldRetry && !options.shouldRetry(error))) {
+        throw error;
+      }
+
+      attempt++;
+      const backoff = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** (attempt - 1));
+      const delayMs = options.delayOverrideMs?.(error) ?? Math.round(Math.random() * backoff);
+
+      options.onRetry?.(error, attempt, delayMs);
+      await sleep(delayMs);
+    }
+  }
+}
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerOptions {
+  name: string;
+  // Consecutive failures before the circuit opens
+  failureThreshold: number;
+  // How long to fail fast before letting a trial request through
+  resetTimeoutMs: number;
+}
+
+export class CircuitOpenError extends Error {
+  constructor(name: string, public readonly retryAt: Date) {
+    super(`${name} is unavailable (circuit open until ${retryAt.toISOString()})`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * Fails fast after repeated failures, then lets a single trial request through
+ * once the reset timeout has passed.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(private options: CircuitBreakerOptions) {}
+
+  /**
+   * Run an operation through the breaker. Only errors matching isFailure count
+   * towards opening it (a 404 means World Café is up, not down).
+   */
+  async execute<T>(operation: () => Promise<T>, isFailure: (error: unknown) => boolean = () => true): Promise<T> {
+    const isTrial = this.beforeRequest();
+
+    try {
+      const result = await operation();
+      this.recordSuccess();
+      return result;
+    } catch (error) {
+      if (isFailure(error)) {
+        this.recordFailure();
+      } else {
+        this.recordSuccess();
+      }
+      throw error;
+    } finally {
+      if (isTrial) {
+        this.trialInFlight = false;
+      }
+    }
+  }
+
+  getState(): { state: CircuitState; consecutiveFailures: number; retryAt?: string } {
+    return {
+      state: this.currentState(),
+      consecutiveFailures: this.consecutiveFailures,
+      retryAt: this.state === 'open' ? new Date(this.openedAt + this.options.resetTimeoutMs).toISOString() : undefined,
+    };
+  }
+
+  private currentState(): CircuitState {
+    if (this.state === 'open' && Date.now() - this.openedAt >= this.options.resetTimeoutMs) {
+      return 'half_open';
+    }
+    return this.state;
+  }
+
+  /**
+   * Throws when failing fast; returns true when this request is the half-open trial
+   */
+  private beforeRequest(): boolean {
+    const state = this.currentState();
+
+    if (state === 'open' || (state === 'half_open' && this.trialInFlight)) {
+      throw new CircuitOpenError(this.options.name, new Date(this.openedAt + this.options.resetTimeoutMs));
+    }
+
+    if (state === 'half_open') {
+      this.state = 'half_open';
+      this.trialInFlight = true;
+      return true;
+    }
+    return false;
+  }
+
+  private recordSuccess(): void {
+    if (this.state !== 'closed') {
+      logger.info(`Circuit for ${this.options.name} closed`);
+    }
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+  }
+
+  private recordFailure(): void {
+    this.consecutiveFailures++;
+
+    if (this.state === 'half_open' || this.consecutiveFailures >= this.options.failureThreshold) {
+      if (this.state !== 'open') {
+        logger.warn(`Circuit for ${this.options.name} opened after ${this.consecutiveFailures} consecutive failures`);
+      }
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+  }
+}
+
+export type SettledResult<T, R> =
+  | { item: T; ok: true; value: R }
+  | { item: T; ok: false; error: unknown };
+
+/**
+ * Map over items with at most `concurrency` operations in flight.
+ * Never rejects; each result says whether its item succeeded.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  operation: (item: T) => Promise<R>
+): Promise<SettledResult<T, R>[]> {
+  const results: SettledResult<T, R>[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      const item = items[index];
+      try {
+        results[index] = { item, ok: true, value: await operation(item) };
+      } catch (error) {
+        results[index] = { item, ok: false, error };
+      }
+    }
+  };
+
+  const workers = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
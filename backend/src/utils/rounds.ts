@@ -0,0 +1,49 @@
+import { SessionRound } from '@/types';
+
+/**
+ * Sort rounds and fill in open ends: a round without endSeconds runs until the
+ * next round starts (the last one runs to the end of the recording).
+ */
+export function resolveRoundWindows(rounds: SessionRound[]): (SessionRound & { endSeconds: number })[] {
+  const sorted = [...rounds].sort((a, b) => a.startSeconds - b.startSeconds);
+  return sorted.map((round, i) => ({
+    ...round,
+    endSeconds: round.endSeconds ?? sorted[i + 1]?.startSeconds ?? Infinity,
+  }));
+}
+
+/**
+ * Round a moment in the recording belongs to, if any.
+ * Pass windows from resolveRoundWindows when looking up many timestamps.
+ */
+export function roundAt(windows: (SessionRound & { endSeconds: number })[], seconds: number): SessionRound | undefined {
+  return windows.find(round => seconds >= round.startSeconds && seconds < round.endSeconds);
+}
+
+/**
+ * Problems that make a set of rounds unusable, empty when they are valid
+ */
+export function validateRounds(rounds: SessionRound[]): string[] {
+  const issues: string[] = [];
+
+  const numbers = rounds.map(round => round.roundNumber);
+  const duplicates = [...new Set(numbers.filter((n, i) => numbers.indexOf(n) !== i))];
+  if (duplicates.length > 0) {
+    issues.push(`Duplicate round numbers: ${duplicates.join(', ')}`);
+  }
+
+  for (const round of rounds) {
+    if (round.endSeconds !== undefined && round.endSeconds <= round.startSeconds) {
+      issues.push(`Round ${round.roundNumber} must end after it starts`);
+    }
+  }
+
+  const windows = resolveRoundWindows(rounds);
+  for (let i = 1; i < windows.length; i++) {
+    if (windows[i].startSeconds < windows[i - 1].endSeconds) {
+      issues.push(`Round ${windows[i].roundNumber} starts before round ${windows[i - 1].roundNumber} ends`);
+    }
+  }
+
+  return issues;
+}
@@ -0,0 +1,47 @@
+import { english } from './languagePacks/en';
+import { italian } from './languagePacks/it';
+import { scoreSentiment, sentimentShift } from './sentiment';
+
+const score = (text: string) => scoreSentiment(text, english).score;
+
+describe('scoreSentiment', () => {
+  it('scores lexicon words between -1 and 1, counting the words that carried sentiment', () => {
+    expect(scoreSentiment('This is a great and helpful idea', english)).toEqual({ score: expect.any(Number), sentimentWords: 2 });
+    expect(score('This is a great and helpful idea')).toBeGreaterThan(0.5);
+    expect(score('What a terrible, awful disaster')).toBeLessThan(-0.8);
+    expect(score('We met on Tuesday')).toBe(0);
+  });
+
+  it('lets intensifiers strengthen the next word', () => {
+    expect(score('it was very good')).toBeGreaterThan(score('it was good'));
+  });
+
+  it('flips and softens words a negation reaches, until the clause ends', () => {
+    expect(score('it was not good')).toBeLessThan(0);
+    expect(score("it wasn't good")).toBeCloseTo(score('it was not good'));
+    expect(score('not now, good')).toBe(score('good'));
+  });
+
+  it('counts the clause after "but" for more', () => {
+    expect(score('the idea is good but the plan is terrible')).toBeLessThan(0);
+    expect(score('the plan is terrible but the idea is good')).toBeGreaterThan(0);
+  });
+
+  it('reads other languages with their own pack', () => {
+    expect(scoreSentiment('è un progetto bellissimo', italian).score).toBeGreaterThan(0);
+    expect(scoreSentiment('non è facile', italian).score).toBeLessThan(0);
+  });
+
+  it('scores nothing without a pack', () => {
+    expect(scoreSentiment('great', undefined)).toEqual({ score: 0, sentimentWords: 0 });
+  });
+});
+
+describe('sentimentShift', () => {
+  it('compares the last third of the timeline with the first', () => {
+    const timeline = [-0.4, -0.2, 0, 0.1, 0.3, 0.5].map((sentiment, i) => ({ timestamp: i * 60, sentiment }));
+
+    expect(sentimentShift(timeline)).toBe(0.7);
+    expect(sentimentShift(timeline.slice(0, 2))).toBe(0);
+  });
+});
@@ -0,0 +1,209 @@
+import { AttributedSegment, SegmentSentiment, SentimentPoint, SpeakerSentiment, TableSentiment } from '@/types';
+import { LanguagePack } from './languagePacks';
+import { envNumber, round2 } from './numbers';
+
+export interface SentimentConfig {
+  // Spacing of the points on each table's timeline
+  stepSeconds: number;
+  // Width of the window each timeline point is smoothed over
+  smoothingSeconds: number;
+}
+
+const DEFAULT_SENTIMENT_CONFIG: SentimentConfig = {
+  stepSeconds: 60,
+  smoothingSeconds: 300,
+};
+
+// Sentiment words after a negation count this much, the other way round
+const NEGATION_FACTOR = -0.74;
+// Words a negation reaches forward over, within its clause
+const NEGATION_SCOPE = 3;
+// Around "but", the clause after it carries the speaker's point and the one before it less
+const BEFORE_CONTRAST_WEIGHT = 0.5;
+const AFTER_CONTRAST_WEIGHT = 1.5;
+// Squashes a turn's summed valence into -1 to 1; larger values need more words to get there
+const NORMALIZATION = 15;
+// Scores at least this far from 0 count as positive or negative turns
+const POLARITY_THRESHOLD = 0.05;
+
+/**
+ * Timeline spacing and smoothing from SENTIMENT_STEP_SECONDS and SENTIMENT_SMOOTHING_SECONDS
+ */
+export function sentimentConfig(): SentimentConfig {
+  return {
+    stepSeconds: envNumber('SENTIMENT_STEP_SECONDS', DEFAULT_SENTIMENT_CONFIG.stepSeconds),
+    smoothingSeconds: envNumber('SENTIMENT_SMOOTHING_SECONDS', DEFAULT_SENTIMENT_CONFIG.smoothingSeconds),
+  };
+}
+
+/**
+ * Sentiment of a text from the language pack's lexicon, -1 to 1, with how many of
+ * its words carried any. Intensifiers scale the next sentiment word, negations flip
+ * the few words after them, and around "but" the second half counts for more.
+ * Text without a pack scores 0.
+ */
+export function scoreSentiment(text: string, pack: LanguagePack | undefined): { score: number; sentimentWords: number } {
+  if (!pack) return { score: 0, sentimentWords: 0 };
+  const { valence } = pack.sentiment;
+
+  let total = 0;
+  let sentimentWords = 0;
+  forEachLexiconWord(text, pack, (word, boost, negated, weight) => {
+    const value = valence.get(word);
+    if (value !== undefined) {
+      total += value * boost * (negated ? NEGATION_FACTOR : 1) * weight;
+      sentimentWords++;
+    }
+  });
+
+  return { score: round2(total / Math.sqrt(total * total + NORMALIZATION)), sentimentWords };
+}
+
+/**
+ * Walk a text's words as the lexicons read them: lowercase, sentence by sentence,
+ * with the intensifier boost each word gets, whether a negation reaches it and how
+ * much its side of a "but" counts. Negations and intensifiers themselves are not visited.
+ */
+export function forEachLexiconWord(
+  text: string,
+  pack: LanguagePack,
+  visit: (word: string, boost: number, negated: boolean, weight: number) => void
+): void {
+  const { negations, intensifiers } = pack.sentiment;
+
+  for (const sentence of text.toLowerCase().replace(/’/g, "'").split(/[.!?]+/)) {
+    const parts = sentence.split(pack.contrast);
+    for (const [p, part] of parts.entries()) {
+      const weight = parts.length === 1 ? 1 : p === parts.length - 1 ? AFTER_CONTRAST_WEIGHT : BEFORE_CONTRAST_WEIGHT;
+
+      let negatedFor = 0;
+      let boost = 1;
+      for (const token of part.match(/[\p{L}']+|[,;:]/gu) || []) {
+        if (token === ',' || token === ';' || token === ':') {
+          // A new clause ends any negation or intensifier
+          negatedFor = 0;
+          boost = 1;
+          continue;
+        }
+        if (negations.has(token) || token.endsWith("n't")) {
+          negatedFor = NEGATION_SCOPE;
+          continue;
+        }
+        const intensity = intensifiers.get(token);
+        if (intensity !== undefined) {
+          boost *= intensity;
+          continue;
+        }
+
+        visit(token, boost, negatedFor > 0, weight);
+        boost = 1;
+        negatedFor = Math.max(0, negatedFor - 1);
+      }
+    }
+  }
+}
+
+/**
+ * Sentiment in one conversation (segments ordered by start time, as from
+ * groupConversations): every turn's score, each speaker's average and the table's
+ * smoothed timeline. Turns without lexicon words say nothing about mood, so they
+ * are left out of averages and timeline rather than counted as neutral.
+ */
+export function analyzeConversationSentiment(
+  sorted: AttributedSegment[],
+  packFor: (segment: AttributedSegment) => LanguagePack | undefined,
+  config: SentimentConfig = sentimentConfig()
+): { speakers: Map<string, SpeakerSentiment>; table: TableSentiment } {
+  // Keyed like SpeakingTimeAnalysis.participantId, so results can be matched up
+  const speakers = new Map<string, SpeakerSentiment & { total: number }>();
+  const segments: SegmentSentiment[] = [];
+
+  for (const segment of sorted) {
+    const { score, sentimentWords } = scoreSentiment(segment.transcript, packFor(segment));
+    if (sentimentWords === 0) continue;
+
+    segments.push({
+      start: segment.start,
+      end: segment.end,
+      speaker: segment.speaker,
+      participantId: segment.identity.participantId,
+      score,
+    });
+
+    const key = segment.identity.participantId || segment.identity.key;
+    let speaker = speakers.get(key);
+    if (!speaker) {
+      speaker = { average: 0, scoredSegments: 0, positiveSegments: 0, negativeSegments: 0, total: 0 };
+      speakers.set(key, speaker);
+    }
+    speaker.scoredSegments++;
+    speaker.total += score;
+    if (score >= POLARITY_THRESHOLD) speaker.positiveSegments++;
+    if (score <= -POLARITY_THRESHOLD) speaker.negativeSegments++;
+  }
+
+  const speakerResults = new Map<string, SpeakerSentiment>();
+  for (const [key, { total, ...speaker }] of speakers) {
+    speakerResults.set(key, { ...speaker, average: round2(total / speaker.scoredSegments) });
+  }
+
+  const total = segments.reduce((sum, segment) => sum + segment.score, 0);
+  return {
+    speakers: speakerResults,
+    table: {
+      tableId: sorted[0]?.tableId,
+      roundNumber: sorted[0]?.roundNumber,
+      average: segments.length > 0 ? round2(total / segments.length) : 0,
+      scoredShare: sorted.length > 0 ? round2(segments.length / sorted.length) : 0,
+      timeline: sentimentTimeline(sorted, segments, config),
+      segments: segments.map(segment => ({ ...segment, start: round2(segment.start), end: round2(segment.end) })),
+    },
+  };
+}
+
+/**
+ * How far the mood moved over a timeline: the mean of its last third less that of
+ * its first third, -2 to 2. Too short a timeline has not moved.
+ */
+export function sentimentShift(timeline: SentimentPoint[]): number {
+  const third = Math.floor(timeline.length / 3);
+  if (third === 0) return 0;
+
+  const mean = (points: SentimentPoint[]) => points.reduce((sum, point) => sum + point.sentiment, 0) / points.length;
+  return round2(mean(timeline.slice(-third)) - mean(timeline.slice(0, third)));
+}
+
+/**
+ * A point every stepSeconds across the conversation, each the mean of the scored
+ * turns around it weighted by how close they are. Stretches with no scored turn
+ * nearby have no point.
+ */
+function sentimentTimeline(sorted: AttributedSegment[], segments: SegmentSentiment[], config: SentimentConfig): SentimentPoint[] {
+  if (segments.length === 0 || config.stepSeconds <= 0) return [];
+
+  const start = sorted[0].start;
+  const end = sorted.reduce((latest, segment) => Math.max(latest, segment.end), start);
+  const reach = Math.max(config.stepSeconds, config.smoothingSeconds) / 2;
+
+  const points: SentimentPoint[] = [];
+  let first = 0;
+  for (let timestamp = start; timestamp <= end; timestamp += config.stepSeconds) {
+    // Segments are in start order, so those too early for this point are too early for the rest
+    while (first < segments.length && (segments[first].start + segments[first].end) / 2 < timestamp - reach) first++;
+
+    let weighted = 0;
+    let weights = 0;
+    for (let i = first; i < segments.length; i++) {
+      if (segments[i].start > timestamp + reach) break;
+      const middle = (segments[i].start + segments[i].end) / 2;
+      const weight = 1 - Math.abs(middle - timestamp) / reach;
+      if (weight <= 0) continue;
+      weighted += segments[i].score * weight;
+      weights += weight;
+    }
+    if (weights > 0) {
+      points.push({ timestamp: round2(timestamp), sentiment: round2(weighted / weights) });
+    }
+  }
+  return points;
+}
@@ -0,0 +1,21 @@
+import { SpeakerIdentity } from '@/types';
+
+/**
+ * Resolves (table, speaker index) pairs to the participants they were mapped to
+ */
+export class SpeakerIdentityMap {
+  constructor(private identities = new Map<string, { participantId: string; name: string }>()) {}
+
+  resolve(tableId: number, speakerIndex: number): SpeakerIdentity {
+    const mapped = this.identities.get(`${tableId}:${speakerIndex}`);
+    if (mapped) {
+      return { key: mapped.participantId, participantId: mapped.participantId, name: mapped.name };
+    }
+    // Speaker numbers restart at every table, so an unmapped speaker is only unique per table
+    return { key: `table_${tableId}_speaker_${speakerIndex}`, name: `Speaker ${speakerIndex} (Table ${tableId})` };
+  }
+
+  get size(): number {
+    return this.identities.size;
+  }
+}
@@ -0,0 +1,47 @@
+import { AttributedSegment } from '@/types';
+import { InterruptionConfig } from './interruptions';
+import { measureConversation, rollupSpeakingTime } from './speakingTime';
+
+const CONFIG: InterruptionConfig = {
+  minOverlapSeconds: 0.2,
+  cooperativeMaxOverlapSeconds: 1.0,
+  yieldSeconds: 2.0,
+  backchannelMaxWords: 3,
+};
+
+function turn(tableId: number, speaker: number, start: number, end: number, participantId?: string): AttributedSegment {
+  return {
+    speaker,
+    start,
+    end,
+    transcript: 'a point about the neighbourhood plan',
+    tableId,
+    identity: participantId
+      ? { key: participantId, participantId, name: participantId }
+      : { key: `table_${tableId}_speaker_${speaker}`, name: `Speaker ${speaker}` },
+  };
+}
+
+describe('measureConversation', () => {
+  it('measures the table until its latest turn ends, not the last one to start', () => {
+    const results = measureConversation([turn(1, 1, 0, 60), turn(1, 2, 10, 15)], false, CONFIG);
+
+    expect(results.map(result => result.tableSeconds)).toEqual([60, 60]);
+    expect(results.find(result => result.speakerIndex === 1)?.percentage).toBe(100);
+  });
+});
+
+describe('rollupSpeakingTime', () => {
+  it('gives a participant who moved between tables one entry', () => {
+    const results = [
+      ...measureConversation([turn(1, 1, 0, 30, 'ana'), turn(1, 2, 30, 60)], false, CONFIG),
+      ...measureConversation([turn(2, 3, 0, 10, 'ana'), turn(2, 1, 10, 40)], false, CONFIG),
+    ];
+
+    const ana = rollupSpeakingTime(results).filter(rollup => rollup.participantId === 'ana');
+    expect(ana).toHaveLength(1);
+    expect(ana[0].tables).toEqual([1, 2]);
+    expect(ana[0].totalSeconds).toBe(40);
+    expect(ana[0].percentage).toBe(40);
+  });
+});
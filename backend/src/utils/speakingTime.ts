@@ -0,0 +1,286 @@
+import { AttributedSegment, InterruptionTally, SpeakerIdentity, SpeakingTimeAnalysis, SpeakingTimeRollup } from '@/types';
+import { clampConfidence, segmentWeight, weightedWordCount } from './confidence';
+import {
+  DISRUPTIVE_INTERRUPTIONS,
+  InterruptionConfig,
+  emptyInterruptionTally,
+  interruptionConfig,
+  overlapTracker,
+  sumInterruptionTallies,
+} from './interruptions';
+import { round2 } from './numbers';
+
+// Everything one pass over a conversation gathers about one speaker
+interface SpeakerTally {
+  identity: SpeakerIdentity;
+  speaker: number;
+  weightedSeconds: number;
+  turns: number;
+  turnSeconds: number;
+  longestTurn: number;
+  shortestTurn: number;
+  words: number;
+  // For confidence bounds: data-quality weighted time, and its confidently transcribed and doubtful parts
+  qualitySeconds: number;
+  confidentSeconds: number;
+  doubtfulSeconds: number;
+  // For mean confidence: raw time, and raw time times confidence
+  rawSeconds: number;
+  rawConfidentSeconds: number;
+  interruptions: InterruptionTally;
+}
+
+/**
+ * Segments ordered by start time, as a new array. Transcripts almost always arrive
+ * in order, so that is checked first and the sort only done when needed.
+ */
+export function sortedByStart<T extends { start: number }>(segments: T[]): T[] {
+  for (let i = 1; i < segments.length; i++) {
+    if (segments[i].start < segments[i - 1].start) {
+      return [...segments].sort((a, b) => a.start - b.start);
+    }
+  }
+  return [...segments];
+}
+
+/**
+ * Split segments into conversations, one per table per round, each ordered by start time
+ */
+export function groupConversations(segments: AttributedSegment[]): Map<string, AttributedSegment[]> {
+  const groups = new Map<string, AttributedSegment[]>();
+  for (const segment of segments) {
+    const key = `${segment.roundNumber ?? '-'}:${segment.tableId}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = [];
+      groups.set(key, group);
+    }
+    group.push(segment);
+  }
+
+  for (const [key, group] of groups) {
+    groups.set(key, sortedByStart(group));
+  }
+  return groups;
+}
+
+/**
+ * Speaking-time metrics for every speaker in one conversation, in a single pass over
+ * its segments (ordered by start time, as from groupConversations). Segments
+ * down-weighted for data quality, and for low ASR confidence when byConfidence is
+ * set, count for less time and fewer words. Only competitive interruptions and
+ * takeovers count as interruptions; every kind is tallied in interruptionsByKind.
+ */
+export function measureConversation(
+  sorted: AttributedSegment[],
+  byConfidence: boolean = false,
+  interruptions: InterruptionConfig = interruptionConfig()
+): SpeakingTimeAnalysis[] {
+  if (sorted.length === 0) return [];
+
+  const tallies = new Map<string, SpeakerTally>();
+  const tally = (segment: AttributedSegment): SpeakerTally => {
+    let entry = tallies.get(segment.identity.key);
+    if (!entry) {
+      entry = {
+        identity: segment.identity,
+        speaker: segment.speaker,
+        weightedSeconds: 0,
+        turns: 0,
+        turnSeconds: 0,
+        longestTurn: -Infinity,
+        shortestTurn: Infinity,
+        words: 0,
+        qualitySeconds: 0,
+        confidentSeconds: 0,
+        doubtfulSeconds: 0,
+        rawSeconds: 0,
+        rawConfidentSeconds: 0,
+        interruptions: emptyInterruptionTally(),
+      };
+      tallies.set(segment.identity.key, entry);
+    }
+    return entry;
+  };
+
+  let doubtfulSeconds = 0;
+  const trackOverlap = overlapTracker(interruptions);
+  for (const segment of sorted) {
+    const entry = tally(segment);
+    const duration = segment.end - segment.start;
+    const confidence = clampConfidence(segment.confidence);
+    const qualitySeconds = duration * (segment.weight ?? 1);
+
+    entry.weightedSeconds += duration * segmentWeight(segment, byConfidence);
+    entry.turns++;
+    entry.turnSeconds += duration;
+    entry.longestTurn = Math.max(entry.longestTurn, duration);
+    entry.shortestTurn = Math.min(entry.shortestTurn, duration);
+    entry.words += weightedWordCount(segment, byConfidence);
+
+    entry.qualitySeconds += qualitySeconds;
+    entry.confidentSeconds += qualitySeconds * confidence;
+    entry.doubtfulSeconds += qualitySeconds * (1 - confidence);
+    doubtfulSeconds += qualitySeconds * (1 - confidence);
+    entry.rawSeconds += duration;
+    entry.rawConfidentSeconds += duration * confidence;
+
+    // This speaker starting before the one holding the floor finishes
+    const overlap = trackOverlap(segment);
+    if (overlap) {
+      tally(overlap.interrupted).interruptions[overlap.kind].received++;
+      entry.interruptions[overlap.kind].given++;
+    }
+  }
+
+  const { tableId, roundNumber } = sorted[0];
+  // A long turn can outlast the ones that start after it, so the conversation ends at the latest end
+  const tableSeconds = sorted.reduce((end, segment) => Math.max(end, segment.end), -Infinity) - sorted[0].start;
+  const expectedPercentage = 100 / tallies.size;
+  const toPercentage = (seconds: number) => tableSeconds > 0 ? (seconds / tableSeconds) * 100 : 0;
+
+  const disruptive = (tally: InterruptionTally, side: 'given' | 'received') =>
+    DISRUPTIVE_INTERRUPTIONS.reduce((sum, kind) => sum + tally[kind][side], 0);
+
+  return [...tallies.values()].map(entry => {
+    const percentage = toPercentage(entry.weightedSeconds);
+    const wordsPerMinute = entry.weightedSeconds > 0 ? entry.words / (entry.weightedSeconds / 60) : 0;
+    const dominanceIndex = percentage / expectedPercentage;
+
+    // The low end counts only the confidently transcribed share of the speaker's own
+    // time; the high end adds the doubtful share of everyone else's, split among the
+    // other speakers, in case those segments were misattributed
+    const highSeconds = entry.qualitySeconds + (doubtfulSeconds - entry.doubtfulSeconds) / Math.max(1, tallies.size - 1);
+    const boundedPercentage = (seconds: number) => round2(Math.min(100, toPercentage(seconds)));
+
+    return {
+      participantId: entry.identity.participantId || entry.identity.key,
+      participantName: entry.identity.name,
+      tableId,
+      roundNumber,
+      speakerIndex: entry.speaker,
+      mapped: Boolean(entry.identity.participantId),
+      tableSeconds: Math.round(tableSeconds),
+
+      // Time Metrics
+      totalSeconds: Math.round(entry.weightedSeconds),
+      percentage: round2(percentage),
+      turnsCount: entry.turns,
+      averageTurnLength: round2(entry.turnSeconds / entry.turns),
+      longestTurn: round2(entry.longestTurn),
+      shortestTurn: round2(entry.shortestTurn),
+
+      // Behavioral Metrics
+      interruptionCount: disruptive(entry.interruptions, 'given'),
+      interruptedCount: disruptive(entry.interruptions, 'received'),
+      interruptionsByKind: entry.interruptions,
+      wordsPerMinute: Math.round(wordsPerMinute),
+
+      // Comparison Metrics
+      dominanceIndex: round2(dominanceIndex),
+      engagementLevel: engagementLevel(dominanceIndex, entry.turns, wordsPerMinute),
+
+      confidence: {
+        meanConfidence: entry.rawSeconds > 0 ? round2(entry.rawConfidentSeconds / entry.rawSeconds) : 0,
+        totalSeconds: { low: Math.round(entry.confidentSeconds), high: Math.round(highSeconds) },
+        percentage: { low: boundedPercentage(entry.confidentSeconds), high: boundedPercentage(highSeconds) },
+      },
+    };
+  });
+}
+
+/**
+ * Combine per-table results into one entry per speaker for the whole session.
+ * A mapped participant who moved between tables gets a single entry; unmapped
+ * speakers are only known per table, so their entry covers that one table.
+ */
+export function rollupSpeakingTime(results: SpeakingTimeAnalysis[]): SpeakingTimeRollup[] {
+  const groups = new Map<string, SpeakingTimeAnalysis[]>();
+  for (const result of results) {
+    if (!groups.has(result.participantId)) {
+      groups.set(result.participantId, []);
+    }
+    groups.get(result.participantId)!.push(result);
+  }
+
+  const rollups: SpeakingTimeRollup[] = [];
+  for (const entries of groups.values()) {
+    const totalSeconds = entries.reduce((sum, e) => sum + e.totalSeconds, 0);
+    const tableSeconds = entries.reduce((sum, e) => sum + (e.tableSeconds || 0), 0);
+    const turnsCount = entries.reduce((sum, e) => sum + e.turnsCount, 0);
+
+    // Per-table rates are weighted by how much of the conversation they describe
+    const weighted = (value: (e: SpeakingTimeAnalysis) => number, weight: (e: SpeakingTimeAnalysis) => number) => {
+      const totalWeight = entries.reduce((sum, e) => sum + weight(e), 0);
+      return totalWeight > 0 ? entries.reduce((sum, e) => sum + value(e) * weight(e), 0) / totalWeight : 0;
+    };
+    const dominanceIndex = weighted(e => e.dominanceIndex, e => e.tableSeconds || 0);
+    const wordsPerMinute = weighted(e => e.wordsPerMinute, e => e.totalSeconds);
+
+    rollups.push({
+      participantId: entries[0].participantId,
+      participantName: entries[0].participantName,
+      mapped: entries[0].mapped,
+      tables: [...new Set(entries.map(e => e.tableId).filter((id): id is number => id !== undefined))].sort((a, b) => a - b),
+      rounds: [...new Set(entries.map(e => e.roundNumber).filter((n): n is number => n !== undefined))].sort((a, b) => a - b),
+
+      totalSeconds,
+      percentage: tableSeconds > 0 ? Math.round((totalSeconds / tableSeconds) * 10000) / 100 : 0,
+      turnsCount,
+      averageTurnLength: turnsCount > 0 ? Math.round(weighted(e => e.averageTurnLength, e => e.turnsCount) * 100) / 100 : 0,
+      longestTurn: Math.max(...entries.map(e => e.longestTurn)),
+      shortestTurn: Math.min(...entries.map(e => e.shortestTurn)),
+
+      interruptionCount: entries.reduce((sum, e) => sum + e.interruptionCount, 0),
+      interruptedCount: entries.reduce((sum, e) => sum + e.interruptedCount, 0),
+      interruptionsByKind: sumInterruptionTallies(entries.map(e => e.interruptionsByKind)),
+      wordsPerMinute: Math.round(wordsPerMinute),
+
+      dominanceIndex: round2(dominanceIndex),
+      engagementLevel: engagementLevel(dominanceIndex, turnsCount, wordsPerMinute)
+    });
+  }
+
+  return rollups;
+}
+
+/**
+ * ASR confidence of the segments, weighted by how long each one is
+ */
+export function meanConfidence(segments: { start: number; end: number; confidence?: number }[]): number {
+  let seconds = 0;
+  let confidentSeconds = 0;
+  for (const segment of segments) {
+    seconds += segment.end - segment.start;
+    confidentSeconds += (segment.end - segment.start) * clampConfidence(segment.confidence);
+  }
+  return seconds > 0 ? round2(confidentSeconds / seconds) : 0;
+}
+
+/**
+ * Calculate engagement level based on multiple factors
+ */
+export function engagementLevel(
+  dominanceIndex: number,
+  turnCount: number,
+  wordsPerMinute: number
+): 'low' | 'medium' | 'high' {
+  // Scoring system
+  let score = 0;
+
+  // Participation frequency (turn count)
+  if (turnCount >= 10) score += 2;
+  else if (turnCount >= 5) score += 1;
+
+  // Speaking pace (words per minute)
+  if (wordsPerMinute >= 120) score += 2;
+  else if (wordsPerMinute >= 80) score += 1;
+
+  // Balance (not too dominant, not too quiet)
+  if (dominanceIndex >= 0.3 && dominanceIndex <= 1.5) score += 1;
+
+  // Determine level
+  if (score >= 4) return 'high';
+  if (score >= 2) return 'medium';
+  return 'low';
+}
@@ -0,0 +1,147 @@
+import {
+  TranscriptParseError,
+  inferTranscriptFormat,
+  parseJSONTranscript,
+  parseSRT,
+  parseTimestamp,
+  parseTranscript,
+  parseWebVTT,
+} from './transcriptParsers';
+
+describe('parseTimestamp', () => {
+  it('reads WebVTT and SRT timestamps with or without hours', () => {
+    expect(parseTimestamp('00:01:02.500')).toBe(62.5);
+    expect(parseTimestamp('01:02.5')).toBe(62.5);
+    expect(parseTimestamp('1:00:00,250')).toBe(3600.25);
+  });
+
+  it('returns NaN for anything else', () => {
+    expect(parseTimestamp('62.5')).toBeNaN();
+    expect(parseTimestamp('00:01:02')).toBeNaN();
+  });
+});
+
+describe('inferTranscriptFormat', () => {
+  it('maps known extensions and ignores the rest', () => {
+    expect(inferTranscriptFormat('table-1.VTT')).toBe('vtt');
+    expect(inferTranscriptFormat('table-1.srt')).toBe('srt');
+    expect(inferTranscriptFormat('table-1.json')).toBe('json');
+    expect(inferTranscriptFormat('table-1.txt')).toBeUndefined();
+    expect(inferTranscriptFormat()).toBeUndefined();
+  });
+});
+
+describe('parseWebVTT', () => {
+  it('reads speakers from voice tags, including several in one cue', () => {
+    const { cues } = parseWebVTT([
+      'WEBVTT',
+      '',
+      'NOTE exported from the recorder',
+      '',
+      '1',
+      '00:00:01.000 --> 00:00:04.000 align:start',
+      '<v Ana>Shall we start?</v><v Ben>Yes, go ahead.</v>',
+    ].join('\n'));
+
+    expect(cues).toEqual([
+      { speakerLabel: 'Ana', text: 'Shall we start?', start: 1, end: 4 },
+      { speakerLabel: 'Ben', text: 'Yes, go ahead.', start: 1, end: 4 },
+    ]);
+  });
+
+  it('takes a "Name:" prefix as the speaker but not the start of a sentence', () => {
+    const { cues } = parseWebVTT([
+      'WEBVTT',
+      '',
+      '00:00.000 --> 00:02.000',
+      'Ana: I think so.',
+      '',
+      '00:02.000 --> 00:04.000',
+      'we agreed on this: next week.',
+    ].join('\r\n'));
+
+    expect(cues.map(cue => cue.speakerLabel)).toEqual(['Ana', 'Unknown speaker']);
+    expect(cues[1].text).toBe('we agreed on this: next week.');
+  });
+
+  it('requires the WEBVTT header', () => {
+    expect(() => parseWebVTT('00:00.000 --> 00:02.000\nHello')).toThrow(TranscriptParseError);
+  });
+
+  it('reports the cue with a bad timing line', () => {
+    expect(() => parseWebVTT('WEBVTT\n\n00:00.000 --> soon\nHello')).toThrow('Cue 1: invalid timing line');
+  });
+});
+
+describe('parseSRT', () => {
+  it('reads numbered cues with bracketed speakers and joins wrapped lines', () => {
+    const { cues } = parseSRT([
+      '\ufeff1',
+      '00:00:01,000 --> 00:00:03,500',
+      '[Ben] We should talk',
+      'about the budget.',
+      '',
+      '2',
+      '00:00:04,000 --> 00:00:05,000',
+      '<i>Agreed.</i>',
+    ].join('\n'));
+
+    expect(cues).toEqual([
+      { speakerLabel: 'Ben', text: 'We should talk about the budget.', start: 1, end: 3.5 },
+      { speakerLabel: 'Unknown speaker', text: 'Agreed.', start: 4, end: 5 },
+    ]);
+  });
+});
+
+describe('parseJSONTranscript', () => {
+  it('accepts parsed objects and text, keeping confidences and words', () => {
+    const transcript = {
+      language: 'es-ES',
+      segments: [{
+        speaker: 2,
+        start: 0,
+        end: 1.5,
+        text: ' Hola ',
+        confidence: 0.9,
+        words: [{ word: 'Hola', start: 0, end: 1.5 }],
+      }],
+    };
+
+    const parsed = parseJSONTranscript(transcript);
+    expect(parsed.language).toBe('es-ES');
+    expect(parsed.cues).toEqual([{
+      speakerLabel: '2',
+      start: 0,
+      end: 1.5,
+      text: 'Hola',
+      confidence: 0.9,
+      words: [{ word: 'Hola', start: 0, end: 1.5 }],
+    }]);
+    expect(parseJSONTranscript(JSON.stringify(transcript))).toEqual(parsed);
+  });
+
+  it('lists every schema issue', () => {
+    let thrown: unknown;
+    try {
+      parseJSONTranscript({ segments: [{ speaker: 'Ana', start: '0', end: 1, text: 'Hi', confidence: 2 }] });
+    } catch (error) {
+      thrown = error;
+    }
+
+    expect(thrown).toBeInstanceOf(TranscriptParseError);
+    expect((thrown as TranscriptParseError).issues).toEqual([
+      expect.stringMatching(/^segments\.0\.start: /),
+      expect.stringMatching(/^segments\.0\.confidence: /),
+    ]);
+  });
+
+  it('rejects text that is not JSON', () => {
+    expect(() => parseJSONTranscript('{ not json')).toThrow('Invalid JSON transcript');
+  });
+});
+
+describe('parseTranscript', () => {
+  it('refuses subtitle formats given as objects', () => {
+    expect(() => parseTranscript('srt', { segments: [] })).toThrow('must be provided as text');
+  });
+});
@@ -0,0 +1,243 @@
+import { z } from 'zod';
+
+export type TranscriptFormat = 'vtt' | 'srt' | 'json';
+
+/**
+ * A single timed utterance read from a transcript file, before speakers are indexed
+ */
+export interface ParsedCue {
+  speakerLabel: string;
+  start: number;
+  end: number;
+  text: string;
+  confidence?: number;
+  words?: { word: string; start: number; end: number; confidence?: number }[];
+}
+
+export interface ParsedTranscript {
+  language?: string;
+  cues: ParsedCue[];
+}
+
+export class TranscriptParseError extends Error {
+  constructor(message: string, public readonly issues: string[] = []) {
+    super(message);
+    this.name = 'TranscriptParseError';
+  }
+}
+
+const UNKNOWN_SPEAKER = 'Unknown speaker';
+
+// JSON import format (documented in README "Transcript Import")
+const jsonWordSchema = z.object({
+  word: z.string(),
+  start: z.number(),
+  end: z.number(),
+  confidence: z.number().min(0).max(1).optional(),
+});
+
+const jsonTranscriptSchema = z.object({
+  language: z.string().optional(),
+  segments: z.array(z.object({
+    speaker: z.union([z.string(), z.number()]),
+    start: z.number(),
+    end: z.number(),
+    text: z.string(),
+    confidence: z.number().min(0).max(1).optional(),
+    words: z.array(jsonWordSchema).optional(),
+  })).min(1),
+});
+
+/**
+ * Infer the transcript format from a filename extension
+ */
+export function inferTranscriptFormat(filename?: string): TranscriptFormat | undefined {
+  const extension = filename?.split('.').pop()?.toLowerCase();
+  if (extension === 'vtt' || extension === 'webvtt') return 'vtt';
+  if (extension === 'srt') return 'srt';
+  if (extension === 'json') return 'json';
+  return undefined;
+}
+
+/**
+ * Parse transcript content in any supported format
+ */
+export function parseTranscript(format: TranscriptFormat, content: string | object): ParsedTranscript {
+  switch (format) {
+    case 'vtt':
+      return parseWebVTT(asText(content));
+    case 'srt':
+      return parseSRT(asText(content));
+    case 'json':
+      return parseJSONTranscript(content);
+    default:
+      throw new TranscriptParseError(`Unsupported transcript format: ${format}`);
+  }
+}
+
+/**
+ * Parse WebVTT, reading speakers from <v Speaker> voice tags or "Speaker: text" prefixes
+ */
+export function parseWebVTT(content: string): ParsedTranscript {
+  const text = stripBom(content).replace(/\r\n?/g, '\n');
+  if (!/^WEBVTT/.test(text)) {
+    throw new TranscriptParseError('WebVTT file must start with "WEBVTT"');
+  }
+
+  const cues: ParsedCue[] = [];
+  const blocks = text.split(/\n{2,}/).slice(1);
+
+  for (const block of blocks) {
+    const lines = block.split('\n').filter(line => line.trim() !== '');
+    if (lines.length === 0 || /^(NOTE|STYLE|REGION)\b/.test(lines[0])) continue;
+
+    const timingIndex = lines.findIndex(line => line.includes('-->'));
+    if (timingIndex === -1) continue;
+
+    const [start, end] = parseTimingLine(lines[timingIndex], cues.length + 1);
+    const payload = lines.slice(timingIndex + 1).join('\n');
+
+    cues.push(...splitVoiceSpans(payload).map(span => ({ ...span, start, end })));
+  }
+
+  return { cues };
+}
+
+/**
+ * Parse SubRip (SRT), reading speakers from "Speaker: text" or "[Speaker] text" prefixes
+ */
+export function parseSRT(content: string): ParsedTranscript {
+  const text = stripBom(content).replace(/\r\n?/g, '\n').trim();
+  const cues: ParsedCue[] = [];
+
+  for (const block of text.split(/\n{2,}/)) {
+    const lines = block.split('\n').filter(line => line.trim() !== '');
+    const timingIndex = lines.findIndex(line => line.includes('-->'));
+    if (timingIndex === -1) continue;
+
+    const [start, end] = parseTimingLine(lines[timingIndex], cues.length + 1);
+    const payload = lines.slice(timingIndex + 1).join(' ');
+
+    cues.push(...splitVoiceSpans(payload).map(span => ({ ...span, start, end })));
+  }
+
+  return { cues };
+}
+
+/**
+ * Parse the documented JSON transcript format
+ */
+export function parseJSONTranscript(content: string | object): ParsedTranscript {
+  let data: unknown = content;
+  if (typeof content === 'string') {
+    try {
+      data = JSON.parse(stripBom(content));
+    } catch (error) {
+      throw new TranscriptParseError(`Invalid JSON transcript: ${error instanceof Error ? error.message : 'parse error'}`);
+    }
+  }
+
+  const result = jsonTranscriptSchema.safeParse(data);
+  if (!result.success) {
+    throw new TranscriptParseError(
+      'JSON transcript does not match the import format',
+      result.error.errors.map(err => `${err.path.join('.')}: ${err.message}`)
+    );
+  }
+
+  return {
+    language: result.data.language,
+    cues: result.data.segments.map(segment => ({
+      speakerLabel: String(segment.speaker),
+      start: segment.start,
+      end: segment.end,
+      text: segment.text.trim(),
+      confidence: segment.confidence,
+      words: segment.words,
+    })),
+  };
+}
+
+/**
+ * Parse "HH:MM:SS.mmm", "MM:SS.mmm" or SRT-style "HH:MM:SS,mmm" into seconds
+ */
+export function parseTimestamp(value: string): number {
+  const match = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{2})[.,](\d{1,3})$/);
+  if (!match) {
+    return NaN;
+  }
+
+  const [, hours = '0', minutes, seconds, fraction] = match;
+  return parseInt(hours, 10) * 3600 +
+    parseInt(minutes, 10) * 60 +
+    parseInt(seconds, 10) +
+    parseInt(fraction.padEnd(3, '0'), 10) / 1000;
+}
+
+function parseTimingLine(line: string, cueNumber: number): [number, number] {
+  const [startText, rest = ''] = line.split('-->');
+  const endText = rest.trim().split(/\s+/)[0];
+  const start = parseTimestamp(startText);
+  const end = parseTimestamp(endText);
+
+  if (isNaN(start) || isNaN(end)) {
+    throw new TranscriptParseError(`Cue ${cueNumber}: invalid timing line "${line.trim()}"`);
+  }
+
+  return [start, end];
+}
+
+/**
+ * Split a cue payload into per-speaker spans. Handles multiple <v> tags in one cue.
+ */
+function splitVoiceSpans(payload: string): Omit<ParsedCue, 'start' | 'end'>[] {
+  const voicePattern = /<v(?:\.[^\s>]+)*\s+([^>]+)>([\s\S]*?)(?:<\/v>|(?=<v[\s.])|$)/g;
+  const spans: Omit<ParsedCue, 'start' | 'end'>[] = [];
+
+  let match: RegExpExecArray | null;
+  while ((match = voicePattern.exec(payload)) !== null) {
+    const text = cleanCueText(match[2]);
+    if (text) {
+      spans.push({ speakerLabel: match[1].trim(), text });
+    }
+  }
+
+  if (spans.length > 0) {
+    return spans;
+  }
+
+  const text = cleanCueText(payload);
+  if (!text) {
+    return [];
+  }
+
+  // "Name: text" only counts when the label looks like a name, not the start of a sentence
+  const prefix = text.match(/^(?:\[([^\]]{1,60})\]|([\p{Lu}\d][^:.!?]{0,39}):)\s+([\s\S]+)$/u);
+  if (prefix) {
+    return [{ speakerLabel: (prefix[1] || prefix[2]).trim(), text: prefix[3].trim() }];
+  }
+
+  return [{ speakerLabel: UNKNOWN_SPEAKER, text }];
+}
+
+function cleanCueText(text: string): string {
+  return text
+    .replace(/<[^>]+>/g, '')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function asText(content: string | object): string {
+  if (typeof content !== 'string') {
+    throw new TranscriptParseError('WebVTT and SRT content must be provided as text');
+  }
+  return content;
+}
+
+function stripBom(text: string): string {
+  return text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+}
@@ -36,10 +36,17 @@ interface SessionDetails {
   hasNewInsights: boolean;
   lastAnalyzedAt?: string;
   polarizationIndex?: number;
+  analysis?: {
+    dataQualityScore?: number;
+    warnings?: string[];
+  };
   createdAt: string;
   updatedAt: string;
 }
 
+// Below this transcript quality score, metrics are shown with a warning
+const LOW_DATA_QUALITY = 0.6;
+
 interface SpeakingAnalysis {
   participantId: string;
   participantName: string;
@@ -307,11 +314,38 @@ export default function SessionPage() {
                 <p className="text-xl font-bold text-gray-900">
                   {session.lastAnalyzedAt ? 'Available' : 'None'}
                 </p>
+                {session.analysis?.dataQualityScore != null && (
+                  <p className={`text-xs font-medium ${
+                    session.analysis.dataQualityScore < LOW_DATA_QUALITY ? 'text-red-600' : 'text-gray-500'
+                  }`}>
+                    Data quality {Math.round(session.analysis.dataQualityScore * 100)}%
+                  </p>
+                )}
               </div>
             </div>
           </div>
         </div>
 
+        {/* Data quality warning: metrics built on unreliable transcripts */}
+        {session.analysis?.dataQualityScore != null && session.analysis.dataQualityScore < LOW_DATA_QUALITY && (
+          <div className="mb-8 bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+            <div className="flex items-start">
+              <AlertTriangle className="h-5 w-5 text-yellow-600 mr-3 mt-0.5" />
+              <div>
+                <h3 className="font-semibold text-yellow-900">Low transcript quality</h3>
+                <p className="text-sm text-yellow-800 mb-2">
+                  The latest analysis rests on transcripts scoring {Math.round(session.analysis.dataQualityScore * 100)}%. Treat its metrics with caution.
+                </p>
+                <ul className="text-sm text-yellow-800 list-disc list-inside">
+                  {(session.analysis.warnings || []).slice(0, 5).map((warning, index) => (
+                    <li key={index}>{warning}</li>
+                  ))}
+                </ul>
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Analysis Results - Hidden in Facilitator Mode */}
         {false && speakingAnalysis.length > 0 && (
           <div className="mb-8">
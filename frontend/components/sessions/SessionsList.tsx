@@ -15,7 +15,8 @@ import {
   CheckCircle,
   Clock,
   Loader2,
-  RefreshCw
+  RefreshCw,
+  Scale
 } from 'lucide-react';
 import Link from 'next/link';
 import { cn } from '@/lib/utils';
@@ -31,6 +32,8 @@ interface Session {
   hasNewInsights: boolean;
   lastAnalyzedAt?: string;
   polarizationIndex?: number;
+  balanceScore?: number;
+  dataQualityScore?: number;
   createdAt: string;
   updatedAt: string;
 }
@@ -41,12 +44,14 @@ export function SessionsList() {
   const [error, setError] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState('all');
+  const [sortOrder, setSortOrder] = useState('updatedAt:desc');
   const [syncing, setSyncing] = useState(false);
 
   const fetchSessions = async () => {
     try {
       setError(null);
-      const response = await fetch('http://localhost:3002/api/sessions');
+      const [sort, order] = sortOrder.split(':');
+      const response = await fetch(`http://localhost:3002/api/sessions?sort=${sort}&order=${order}`);
       if (!response.ok) {
         throw new Error('Failed to fetch sessions');
       }
@@ -79,7 +84,7 @@ export function SessionsList() {
 
   useEffect(() => {
     fetchSessions();
-  }, []);
+  }, [sortOrder]);
 
   const filteredSessions = sessions.filter(session => {
     const matchesSearch = session.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -186,6 +191,16 @@ export function SessionsList() {
             <option value="completed">Completed</option>
             <option value="paused">Paused</option>
           </select>
+          <select
+            value={sortOrder}
+            onChange={(e) => setSortOrder(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-eyes-cafe-500 focus:border-transparent"
+          >
+            <option value="updatedAt:desc">Recently updated</option>
+            <option value="balanceScore:asc">Least balanced first</option>
+            <option value="balanceScore:desc">Most balanced first</option>
+            <option value="title:asc">Title</option>
+          </select>
         </div>
       </div>
 
@@ -239,6 +254,26 @@ export function SessionsList() {
                     </div>
                   )}
 
+                  {session.balanceScore !== undefined && (
+                    <div className={cn(
+                      'flex items-center text-sm',
+                      session.balanceScore < 0.5 ? 'text-orange-600' : 'text-gray-600'
+                    )}>
+                      <Scale className="h-4 w-4 mr-2" />
+                      <span>Balance: {Math.round(session.balanceScore * 100)}%</span>
+                    </div>
+                  )}
+
+                  {session.dataQualityScore !== undefined && (
+                    <div className={cn(
+                      'flex items-center text-sm',
+                      session.dataQualityScore < 0.6 ? 'text-red-600' : 'text-gray-600'
+                    )}>
+                      <CheckCircle className="h-4 w-4 mr-2" />
+                      <span>Data quality: {Math.round(session.dataQualityScore * 100)}%</span>
+                    </div>
+                  )}
+
                   {session.lastAnalyzedAt && (
                     <div className="flex items-center text-sm text-gray-600">
                       <Calendar className="h-4 w-4 mr-2" />
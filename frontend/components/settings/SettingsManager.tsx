@@ -88,7 +88,7 @@ const defaultSettings: Settings = {
   analysisComplete: true,
   systemUpdates: false,
   dataRetentionDays: 365,
-  anonymizeData: false,
+  anonymizeData: true,
   exportFormat: 'json',
   theme: 'light',
   compactMode: false,
@@ -148,15 +148,26 @@ export function SettingsManager() {
   const [showApiKey, setShowApiKey] = useState(false);
   const [testingConnection, setTestingConnection] = useState(false);
   const [connectionStatus, setConnectionStatus] = useState<'success' | 'error' | null>(null);
+  // Needed to save privacy settings; kept in memory only
+  const [piiAccessToken, setPiiAccessToken] = useState('');
 
   useEffect(() => {
-    // Simulate loading settings from API
+    // Privacy settings come from the API; the other sections are not stored yet
     const loadSettings = async () => {
       setLoading(true);
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      // In real implementation, this would fetch from API
-      setSettings(defaultSettings);
-      setLoading(false);
+      try {
+        const response = await fetch('http://localhost:3002/api/privacy/settings');
+        if (!response.ok) {
+          throw new Error('Failed to fetch privacy settings');
+        }
+        const data = await response.json();
+        setSettings({ ...defaultSettings, anonymizeData: data.data.anonymizeData });
+      } catch (err) {
+        console.error('Error loading privacy settings:', err);
+        setSettings(defaultSettings);
+      } finally {
+        setLoading(false);
+      }
     };
 
     loadSettings();
@@ -168,10 +179,21 @@ export function SettingsManager() {
 
   const handleSave = async () => {
     setSaving(true);
-    // In real implementation, this would save to API
-    await new Promise(resolve => setTimeout(resolve, 2000));
-    setSaving(false);
-    // Show success message
+    try {
+      const response = await fetch('http://localhost:3002/api/privacy/settings', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', 'x-pii-access-token': piiAccessToken },
+        body: JSON.stringify({ anonymizeData: settings.anonymizeData }),
+      });
+      if (!response.ok) {
+        throw new Error('Failed to save privacy settings');
+      }
+      // Other sections are not stored by the API yet
+    } catch (err) {
+      console.error('Error saving privacy settings:', err);
+    } finally {
+      setSaving(false);
+    }
   };
 
   const testApiConnection = async () => {
@@ -633,10 +655,25 @@ export function SettingsManager() {
                 />
                 <div>
                   <div className="text-sm font-medium text-gray-700">Anonymize Data</div>
-                  <div className="text-xs text-gray-500">Remove personal identifiers from exported data</div>
+                  <div className="text-xs text-gray-500">Replace names, emails, phone numbers and addresses with placeholders before AI processing and in exported reports</div>
                 </div>
               </label>
             </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                PII Access Token
+              </label>
+              <input
+                type="password"
+                value={piiAccessToken}
+                onChange={(e) => setPiiAccessToken(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-eyes-cafe-500"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Required to save privacy settings
+              </p>
+            </div>
           </div>
         );
 